@@ -22,6 +22,8 @@ import LocationsManagement from "./pages/admin/LocationsManagement";
 import ClustersManagement from "./pages/admin/ClustersManagement";
 import ProgramsManagement from "./pages/admin/ProgramsManagement";
 import ProgramDetail from "./pages/admin/ProgramDetail";
+import ProgramCheckIn from "./pages/admin/ProgramCheckIn";
+import MediaLibrary from "./pages/admin/MediaLibrary";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import SuperAdminDashboard from "./pages/admin/SuperAdminDashboard";
 import PennyekartAgentHierarchy from "./pages/admin/PennyekartAgentHierarchy";
@@ -31,6 +33,7 @@ import SuperAdminCashCollections from "./pages/admin/SuperAdminCashCollections";
 import OldPaymentsUpload from "./pages/admin/OldPaymentsUpload";
 import SalesReport from "./pages/admin/SalesReport";
 import Payouts from "./pages/admin/Payouts";
+import ActivityLog from "./pages/admin/ActivityLog";
 
 const queryClient = new QueryClient();
 
@@ -140,6 +143,23 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/programs/:id/check-in"
+              element={
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapabilities={["registrations.verify"]}>
+                  <ProgramCheckIn />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/admin/media"
+              element={
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapabilities={["programs.edit"]}>
+                  <MediaLibrary />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Pennyekart Agent Hierarchy - Admin & Super Admin */}
             <Route
@@ -165,7 +185,10 @@ const App = () => (
             <Route
               path="/admin/division/:divisionId/cash-collections"
               element={
-                <ProtectedRoute requiredRoles={["admin", "super_admin"]}>
+                <ProtectedRoute
+                  requiredRoles={["admin", "super_admin"]}
+                  requiredCapabilities={["cash.collect", "cash.verify", "cash.submit"]}
+                >
                   <CashCollections />
                 </ProtectedRoute>
               }
@@ -181,6 +204,16 @@ const App = () => (
               }
             />
 
+            {/* Activity Log - Super Admin only */}
+            <Route
+              path="/super-admin/activity"
+              element={
+                <ProtectedRoute requiredRoles={["super_admin"]}>
+                  <ActivityLog />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Old Payments Upload - Super Admin only */}
             <Route
               path="/super-admin/old-payments"
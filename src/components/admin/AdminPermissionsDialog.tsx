@@ -12,17 +12,36 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Shield, Building2, IndianRupee } from "lucide-react";
+import { Loader2, Shield, Building2, IndianRupee, KeyRound, Check, X } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { CAPABILITIES, CAPABILITY_LABELS, type Capability, resolveCapabilities } from "@/lib/permissions";
 
 interface Division {
   id: string;
   name: string;
 }
 
+interface AdminRole {
+  id: string;
+  name: string;
+  capabilities: string[];
+}
+
+type Override = "role" | "grant" | "revoke";
+
+const NO_ROLE = "none";
+
 interface AdminPermissionsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -30,12 +49,17 @@ interface AdminPermissionsDialogProps {
     id: string;
     full_name?: string | null;
     division_id: string;
+    is_read_only?: boolean;
+    role_id?: string | null;
+    granted_capabilities?: string[];
+    revoked_capabilities?: string[];
     access_all_divisions?: boolean;
     additional_division_ids?: string[];
     cash_collection_enabled?: boolean;
     cash_collection_division_ids?: string[];
   } | null;
   divisions: Division[];
+  roles: AdminRole[];
   onSaved: () => void;
 }
 
@@ -44,8 +68,11 @@ export function AdminPermissionsDialog({
   onOpenChange,
   admin,
   divisions,
+  roles,
   onSaved,
 }: AdminPermissionsDialogProps) {
+  const [roleId, setRoleId] = useState<string>(NO_ROLE);
+  const [overrides, setOverrides] = useState<Partial<Record<Capability, Override>>>({});
   const [accessAll, setAccessAll] = useState(false);
   const [selectedDivisionIds, setSelectedDivisionIds] = useState<string[]>([]);
   const [cashCollectionDivisionIds, setCashCollectionDivisionIds] = useState<string[]>([]);
@@ -54,6 +81,13 @@ export function AdminPermissionsDialog({
 
   useEffect(() => {
     if (admin) {
+      setRoleId(admin.role_id ?? NO_ROLE);
+      const initialOverrides: Partial<Record<Capability, Override>> = {};
+      CAPABILITIES.forEach((capability) => {
+        if (admin.revoked_capabilities?.includes(capability)) initialOverrides[capability] = "revoke";
+        else if (admin.granted_capabilities?.includes(capability)) initialOverrides[capability] = "grant";
+      });
+      setOverrides(initialOverrides);
       setAccessAll(admin.access_all_divisions ?? false);
       setSelectedDivisionIds(admin.additional_division_ids ?? []);
       setCashCollectionDivisionIds(admin.cash_collection_division_ids ?? []);
@@ -97,6 +131,21 @@ export function AdminPermissionsDialog({
     }
   };
 
+  const selectedRole = roles.find((r) => r.id === roleId);
+  const grantedCapabilities = CAPABILITIES.filter((c) => overrides[c] === "grant");
+  const revokedCapabilities = CAPABILITIES.filter((c) => overrides[c] === "revoke");
+  const effectiveCapabilities = resolveCapabilities({
+    roleCapabilities: selectedRole?.capabilities,
+    granted: grantedCapabilities,
+    revoked: revokedCapabilities,
+  });
+
+  const handleOverrideChange = (capability: Capability, value: string) => {
+    // ToggleGroup reports "" when the active item is clicked again; fall back to the role default
+    const override = (value || "role") as Override;
+    setOverrides((prev) => ({ ...prev, [capability]: override }));
+  };
+
   const handleSave = async () => {
     if (!admin) return;
     setIsSaving(true);
@@ -105,10 +154,13 @@ export function AdminPermissionsDialog({
       const { error } = await supabase
         .from("admins")
         .update({
+          role_id: roleId === NO_ROLE ? null : roleId,
+          granted_capabilities: grantedCapabilities,
+          revoked_capabilities: revokedCapabilities,
           access_all_divisions: accessAll,
           additional_division_ids: accessAll ? [] : selectedDivisionIds,
           cash_collection_division_ids: cashCollectionDivisionIds,
-        } as any)
+        })
         .eq("id", admin.id);
 
       if (error) throw error;
@@ -138,14 +190,14 @@ export function AdminPermissionsDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[480px] max-h-[85vh] flex flex-col overflow-hidden">
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] flex flex-col overflow-hidden">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Shield className="h-5 w-5 text-primary" />
             Manage Permissions
           </DialogTitle>
           <DialogDescription>
-            Configure division access for{" "}
+            Configure role, capabilities and division access for{" "}
             <span className="font-medium text-foreground">
               {admin.full_name || "Admin"}
             </span>
@@ -172,6 +224,83 @@ export function AdminPermissionsDialog({
 
             <Separator />
 
+            {/* Role & Capabilities Section */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <KeyRound className="h-4 w-4 text-primary" />
+                Role & Capabilities
+              </h4>
+
+              <div className="space-y-2">
+                <Label className="text-sm">Role</Label>
+                <Select value={roleId} onValueChange={setRoleId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ROLE}>No role</SelectItem>
+                    {roles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {admin.is_read_only && (
+                <div className="rounded-lg border p-3 bg-muted/50">
+                  <span className="text-sm text-muted-foreground">
+                    This admin is read-only, so none of these capabilities apply until full access is restored.
+                  </span>
+                </div>
+              )}
+
+              <div className="rounded-lg border divide-y">
+                {CAPABILITIES.map((capability) => {
+                  const fromRole = selectedRole?.capabilities.includes(capability) ?? false;
+                  const isEffective = effectiveCapabilities.includes(capability);
+                  return (
+                    <div key={capability} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-1.5">
+                          {isEffective ? (
+                            <Check className="h-3.5 w-3.5 text-green-600 shrink-0" />
+                          ) : (
+                            <X className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                          )}
+                          <span className="text-sm font-medium">{CAPABILITY_LABELS[capability].label}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground ml-5">
+                          {CAPABILITY_LABELS[capability].description}
+                        </p>
+                      </div>
+                      <ToggleGroup
+                        type="single"
+                        size="sm"
+                        variant="outline"
+                        value={overrides[capability] ?? "role"}
+                        onValueChange={(value) => handleOverrideChange(capability, value)}
+                        className="shrink-0"
+                      >
+                        <ToggleGroupItem value="role" className="h-7 px-2 text-xs" title={fromRole ? "Allowed by role" : "Not in role"}>
+                          Role
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="grant" className="h-7 px-2 text-xs">
+                          Grant
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="revoke" className="h-7 px-2 text-xs">
+                          Revoke
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <Separator />
+
             {/* Division Access Section */}
             <div className="space-y-3">
               <h4 className="text-sm font-semibold flex items-center gap-2">
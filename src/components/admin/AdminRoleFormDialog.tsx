@@ -0,0 +1,159 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { CAPABILITIES, CAPABILITY_LABELS, type Capability } from "@/lib/permissions";
+
+export interface AdminRoleFormData {
+  name: string;
+  description: string;
+  capabilities: Capability[];
+  is_default: boolean;
+}
+
+interface AdminRoleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: AdminRoleFormData) => Promise<void>;
+  initialData?: Partial<AdminRoleFormData>;
+  mode?: "create" | "edit";
+}
+
+const EMPTY_FORM: AdminRoleFormData = { name: "", description: "", capabilities: [], is_default: false };
+
+export function AdminRoleFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  initialData,
+  mode = "create",
+}: AdminRoleFormDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<AdminRoleFormData>(EMPTY_FORM);
+
+  useEffect(() => {
+    if (open && initialData) {
+      setForm({
+        name: initialData.name || "",
+        description: initialData.description || "",
+        capabilities: initialData.capabilities ?? [],
+        is_default: initialData.is_default ?? false,
+      });
+    } else if (open) {
+      setForm(EMPTY_FORM);
+    }
+  }, [open, initialData]);
+
+  const toggleCapability = (capability: Capability) => {
+    setForm((f) => ({
+      ...f,
+      capabilities: f.capabilities.includes(capability)
+        ? f.capabilities.filter((c) => c !== capability)
+        : [...f.capabilities, capability],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    setLoading(true);
+    try {
+      await onSubmit({ ...form, capabilities: CAPABILITIES.filter((c) => form.capabilities.includes(c)) });
+      onOpenChange(false);
+    } catch {
+      // The error is reported by the caller; keep the dialog open so it can be corrected
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === "create" ? "Add Admin Role" : "Edit Admin Role"}</DialogTitle>
+          <DialogDescription>
+            {mode === "create"
+              ? "Group capabilities into a role that can be assigned to admins."
+              : "Changes apply to every admin with this role."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="role-name">Name *</Label>
+            <Input
+              id="role-name"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              placeholder="e.g. Verifier"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="role-desc">Description</Label>
+            <Textarea
+              id="role-desc"
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              placeholder="What admins with this role are expected to do"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Capabilities</Label>
+            <div className="rounded-lg border p-2 space-y-1">
+              {CAPABILITIES.map((capability) => (
+                <label
+                  key={capability}
+                  className="flex items-start gap-3 rounded-md px-3 py-2 hover:bg-accent cursor-pointer transition-colors"
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={form.capabilities.includes(capability)}
+                    onCheckedChange={() => toggleCapability(capability)}
+                  />
+                  <div>
+                    <p className="text-sm">{CAPABILITY_LABELS[capability].label}</p>
+                    <p className="text-xs text-muted-foreground">{CAPABILITY_LABELS[capability].description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="role-default">Default role</Label>
+              <p className="text-xs text-muted-foreground">Assigned to newly created admins</p>
+            </div>
+            <Switch
+              id="role-default"
+              checked={form.is_default}
+              onCheckedChange={(checked) => setForm((f) => ({ ...f, is_default: checked }))}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !form.name.trim()}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {mode === "create" ? "Create Role" : "Save Changes"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Pencil, Plus, Trash2 } from "lucide-react";
+import { AdminRoleFormDialog, type AdminRoleFormData } from "@/components/admin/AdminRoleFormDialog";
+import { CAPABILITY_LABELS, type Capability } from "@/lib/permissions";
+
+interface AdminRole {
+  id: string;
+  name: string;
+  description: string | null;
+  capabilities: string[];
+  is_default: boolean;
+}
+
+interface AdminRolesCardProps {
+  roles: AdminRole[];
+  admins: { role_id?: string | null }[];
+  onChanged: () => void;
+}
+
+export function AdminRolesCard({ roles, admins, onChanged }: AdminRolesCardProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<AdminRole | null>(null);
+  const { toast } = useToast();
+
+  // Only one role may be the default; clear the flag elsewhere before setting it here
+  const clearOtherDefaults = async (roleId?: string) => {
+    let query = supabase.from("admin_roles").update({ is_default: false }).eq("is_default", true);
+    if (roleId) query = query.neq("id", roleId);
+    const { error } = await query;
+    if (error) throw error;
+  };
+
+  const handleSubmit = async (data: AdminRoleFormData) => {
+    try {
+      if (data.is_default) await clearOtherDefaults(editingRole?.id);
+
+      const values = {
+        name: data.name.trim(),
+        description: data.description.trim() || null,
+        capabilities: data.capabilities,
+        is_default: data.is_default,
+      };
+      const { error } = editingRole
+        ? await supabase.from("admin_roles").update(values).eq("id", editingRole.id)
+        : await supabase.from("admin_roles").insert(values);
+      if (error) throw error;
+
+      toast({ title: editingRole ? "Role updated" : "Role created", description: `${values.name} has been saved.` });
+      setEditingRole(null);
+      onChanged();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error && err.message ? err.message : "Failed to save role",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const handleDelete = async (role: AdminRole) => {
+    const { error } = await supabase.from("admin_roles").delete().eq("id", role.id);
+    if (error) {
+      toast({ title: "Error", description: "Failed to delete role", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Role deleted", description: `${role.name} has been removed.` });
+    onChanged();
+  };
+
+  const countAdmins = (roleId: string) => admins.filter((a) => a.role_id === roleId).length;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <KeyRound className="h-4 w-4" />
+            Admin Roles
+          </CardTitle>
+          <CardDescription>Capabilities granted to admins by role; adjust individual admins from Permissions</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setEditingRole(null);
+            setIsFormOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Role
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Capabilities</TableHead>
+                <TableHead>Admins</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                    No roles defined yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                roles.map((role) => {
+                  const adminCount = countAdmins(role.id);
+                  return (
+                    <TableRow key={role.id}>
+                      <TableCell className="whitespace-nowrap">
+                        <div className="flex items-center gap-1.5">
+                          <span className="font-medium">{role.name}</span>
+                          {role.is_default && (
+                            <Badge variant="secondary" className="text-[10px]">Default</Badge>
+                          )}
+                        </div>
+                        {role.description && (
+                          <p className="text-xs text-muted-foreground max-w-[260px] whitespace-normal">{role.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {role.capabilities.length === 0 ? (
+                            <span className="text-xs text-muted-foreground">View only</span>
+                          ) : (
+                            role.capabilities.map((capability) => (
+                              <Badge key={capability} variant="outline" className="text-[10px] whitespace-nowrap">
+                                {CAPABILITY_LABELS[capability as Capability]?.label ?? capability}
+                              </Badge>
+                            ))
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{adminCount}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => {
+                            setEditingRole(role);
+                            setIsFormOpen(true);
+                          }}
+                          title="Edit role"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => handleDelete(role)}
+                          disabled={adminCount > 0}
+                          title={adminCount > 0 ? "Reassign its admins before deleting" : "Delete role"}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <AdminRoleFormDialog
+        open={isFormOpen}
+        onOpenChange={(open) => {
+          setIsFormOpen(open);
+          if (!open) setEditingRole(null);
+        }}
+        onSubmit={handleSubmit}
+        mode={editingRole ? "edit" : "create"}
+        initialData={
+          editingRole
+            ? {
+                name: editingRole.name,
+                description: editingRole.description ?? "",
+                capabilities: editingRole.capabilities as Capability[],
+                is_default: editingRole.is_default,
+              }
+            : undefined
+        }
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { Loader2, Monitor, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface AdminSession {
+  jti: string;
+  created_at: string;
+  expires_at: string;
+  impersonated_by: string | null;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+interface AdminSessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  admin: { id: string; full_name?: string | null } | null;
+}
+
+function sessionStatus(session: AdminSession): "active" | "revoked" | "expired" {
+  if (session.revoked_at) return "revoked";
+  if (new Date(session.expires_at).getTime() <= Date.now()) return "expired";
+  return "active";
+}
+
+export function AdminSessionsDialog({ open, onOpenChange, admin }: AdminSessionsDialogProps) {
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchSessions = useCallback(async () => {
+    if (!admin) return;
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("admin_sessions")
+      .select("jti, created_at, expires_at, impersonated_by, last_seen_at, revoked_at, revoked_reason, ip_address, user_agent")
+      .eq("admin_id", admin.id)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (!error) setSessions(data || []);
+    setIsLoading(false);
+  }, [admin]);
+
+  useEffect(() => {
+    if (open) fetchSessions();
+  }, [open, fetchSessions]);
+
+  const revoke = async (jti?: string) => {
+    if (!admin) return;
+    setRevoking(jti ?? "all");
+    const { data, error } = await supabase.functions.invoke("admin-auth", {
+      body: { action: "revoke_session", admin_id: admin.id, jti },
+    });
+    setRevoking(null);
+    if (error || !data?.success) {
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error, data?.error || "Failed to revoke session"),
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({ title: "Session revoked", description: jti ? "The device has been signed out." : "All devices have been signed out." });
+    fetchSessions();
+  };
+
+  const activeCount = sessions.filter((s) => sessionStatus(s) === "active").length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            Sessions – {admin?.full_name || "Admin"}
+          </DialogTitle>
+          <DialogDescription>
+            {activeCount} active session{activeCount !== 1 ? "s" : ""}. Revoking a session signs that device out on its next request.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">No sessions recorded for this admin.</p>
+        ) : (
+          <ScrollArea className="max-h-[400px] pr-3">
+            <div className="space-y-2">
+              {sessions.map((session) => {
+                const status = sessionStatus(session);
+                return (
+                  <div key={session.jti} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant={status === "active" ? "default" : "outline"}
+                          className="text-[10px] capitalize"
+                        >
+                          {status}
+                        </Badge>
+                        {session.impersonated_by && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            Viewed by super admin
+                          </Badge>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          Signed in {formatDistanceToNow(new Date(session.created_at), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate" title={session.user_agent || undefined}>
+                        {session.ip_address || "Unknown IP"} · {session.user_agent || "Unknown device"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.revoked_at
+                          ? `Revoked ${formatDistanceToNow(new Date(session.revoked_at), { addSuffix: true })}${session.revoked_reason ? ` (${session.revoked_reason.replace(/_/g, " ")})` : ""}`
+                          : session.last_seen_at
+                            ? `Last active ${formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}`
+                            : "Not used yet"}
+                      </p>
+                    </div>
+                    {status === "active" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive shrink-0"
+                        onClick={() => revoke(session.jti)}
+                        disabled={revoking !== null}
+                      >
+                        {revoking === session.jti ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <>
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Revoke
+                          </>
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => revoke()}
+            disabled={activeCount === 0 || revoking !== null}
+          >
+            {revoking === "all" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Revoke All
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
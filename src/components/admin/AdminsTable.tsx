@@ -8,7 +8,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Pencil, Trash2, Shield } from "lucide-react";
+import { Pencil, Trash2, Shield, KeyRound, Monitor, Eye } from "lucide-react";
 
 interface Division {
   id: string;
@@ -21,12 +21,16 @@ interface Admin {
   division_id: string;
   is_active: boolean;
   is_read_only?: boolean;
+  must_change_password?: boolean;
   created_at: string;
   phone?: string;
   full_name?: string;
   access_all_divisions?: boolean;
   additional_division_ids?: string[];
+  granted_capabilities?: string[];
+  revoked_capabilities?: string[];
   division?: { name: string };
+  role?: { name: string } | null;
 }
 
 interface AdminsTableProps {
@@ -36,6 +40,9 @@ interface AdminsTableProps {
   onDelete: (admin: Admin) => void;
   onToggleStatus: (adminId: string, currentStatus: boolean) => void;
   onManagePermissions: (admin: Admin) => void;
+  onIssueTempPassword: (admin: Admin) => void;
+  onViewSessions: (admin: Admin) => void;
+  onViewAsAdmin: (admin: Admin) => void;
 }
 
 export function AdminsTable({
@@ -45,6 +52,9 @@ export function AdminsTable({
   onDelete,
   onToggleStatus,
   onManagePermissions,
+  onIssueTempPassword,
+  onViewSessions,
+  onViewAsAdmin,
 }: AdminsTableProps) {
   const getDivisionNames = (admin: Admin) => {
     if (admin.access_all_divisions) return "All Divisions";
@@ -90,9 +100,17 @@ export function AdminsTable({
                   <TableCell className="whitespace-nowrap">{admin.phone || "N/A"}</TableCell>
                   <TableCell className="whitespace-nowrap">{admin.division?.name || "N/A"}</TableCell>
                   <TableCell>
-                    <Badge variant={admin.is_read_only ? "outline" : "default"} className="text-[10px]">
-                      {admin.is_read_only ? "Read Only" : "Full Access"}
-                    </Badge>
+                    <div className="flex items-center gap-1.5">
+                      <Badge variant={admin.is_read_only ? "outline" : "default"} className="text-[10px] whitespace-nowrap">
+                        {admin.is_read_only ? "Read Only" : admin.role?.name || "No Role"}
+                      </Badge>
+                      {!admin.is_read_only &&
+                        (admin.granted_capabilities?.length ?? 0) + (admin.revoked_capabilities?.length ?? 0) > 0 && (
+                          <Badge variant="secondary" className="text-[10px] whitespace-nowrap">
+                            Custom
+                          </Badge>
+                        )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1.5">
@@ -127,6 +145,11 @@ export function AdminsTable({
                     >
                       {admin.is_active ? "Active" : "Inactive"}
                     </span>
+                    {admin.must_change_password && (
+                      <Badge variant="outline" className="text-[10px] ml-1.5 whitespace-nowrap">
+                        Temp password
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell className="whitespace-nowrap">
                     {new Date(admin.created_at).toLocaleDateString()}
@@ -136,6 +159,31 @@ export function AdminsTable({
                       <Button variant="ghost" size="icon" onClick={() => onEdit(admin)} title="Edit admin">
                         <Pencil className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onViewAsAdmin(admin)}
+                        disabled={!admin.is_active}
+                        title="View as admin (read-only)"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onViewSessions(admin)}
+                        title="Sessions"
+                      >
+                        <Monitor className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onIssueTempPassword(admin)}
+                        title="Issue temporary password"
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
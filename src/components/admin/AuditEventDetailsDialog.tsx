@@ -0,0 +1,95 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { type AuditEvent, describeEntity, formatAuditValue, getChangedFields } from "@/lib/auditEvents";
+
+interface AuditEventDetailsDialogProps {
+  event: AuditEvent | null;
+  divisionName?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AuditEventDetailsDialog({ event, divisionName, onOpenChange }: AuditEventDetailsDialogProps) {
+  if (!event) return null;
+
+  const changes = getChangedFields(event);
+
+  return (
+    <Dialog open={!!event} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Badge variant="outline" className="capitalize">{event.action.replace(/_/g, " ")}</Badge>
+            {describeEntity(event.entity_type)}
+          </DialogTitle>
+          <DialogDescription>
+            {event.actor_name || "Unknown"} ({event.actor_type.replace("_", " ")}) ·{" "}
+            {format(new Date(event.created_at), "dd MMM yyyy, hh:mm:ss a")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Entity ID</p>
+            <p className="font-mono text-xs break-all">{event.entity_id || "—"}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Division</p>
+            <p>{divisionName || "—"}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">IP Address</p>
+            <p className="font-mono text-xs">{event.ip_address || "—"}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Device</p>
+            <p className="text-xs truncate" title={event.user_agent || undefined}>{event.user_agent || "—"}</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto rounded-lg border">
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No field changes recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map((change) => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-mono text-xs whitespace-nowrap align-top">{change.field}</TableCell>
+                    <TableCell className="text-xs break-all align-top text-destructive">
+                      {formatAuditValue(change.before)}
+                    </TableCell>
+                    <TableCell className="text-xs break-all align-top text-green-700">
+                      {formatAuditValue(change.after)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { Loader2, Lock, RefreshCw, Unlock } from "lucide-react";
+
+interface Throttle {
+  key: string;
+  kind: string;
+  failure_count: number;
+  last_failure_at: string | null;
+  locked_until: string | null;
+}
+
+interface LockedAccountsCardProps {
+  admins: { phone?: string; full_name?: string }[];
+}
+
+function formatRemaining(lockedUntil: string) {
+  const minutes = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000));
+  return minutes >= 60 ? `${Math.ceil(minutes / 60)}h` : `${minutes}m`;
+}
+
+export function LockedAccountsCard({ admins }: LockedAccountsCardProps) {
+  const [locks, setLocks] = useState<Throttle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unlockingKey, setUnlockingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchLocks = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("admin_login_throttles")
+      .select("key, kind, failure_count, last_failure_at, locked_until")
+      .gt("locked_until", new Date().toISOString())
+      .order("locked_until", { ascending: false });
+
+    if (!error) setLocks(data || []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchLocks();
+  }, [fetchLocks]);
+
+  const handleUnlock = async (key: string) => {
+    setUnlockingKey(key);
+    const { data, error } = await supabase.functions.invoke("admin-auth", {
+      body: { action: "unlock_login", throttle_key: key },
+    });
+    setUnlockingKey(null);
+    if (error || !data?.success) {
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error, data?.error || "Failed to unlock"),
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({ title: "Unlocked", description: "Sign-in attempts have been reset." });
+    fetchLocks();
+  };
+
+  const describe = (lock: Throttle) => {
+    const value = lock.key.slice(lock.kind.length + 1);
+    if (lock.kind === "phone") {
+      const admin = admins.find((a) => a.phone === value);
+      return admin?.full_name ? `${admin.full_name} (${value})` : value;
+    }
+    return value;
+  };
+
+  if (!isLoading && locks.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Lock className="h-4 w-4" />
+            Locked Sign-ins
+          </CardTitle>
+          <CardDescription>Phone numbers and IP addresses blocked after repeated failed admin logins</CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={fetchLocks} title="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account / IP</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Failures</TableHead>
+                <TableHead>Last Attempt</TableHead>
+                <TableHead>Unlocks In</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {locks.map((lock) => (
+                <TableRow key={lock.key}>
+                  <TableCell className="font-medium whitespace-nowrap">{describe(lock)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-[10px] uppercase">{lock.kind}</Badge>
+                  </TableCell>
+                  <TableCell>{lock.failure_count}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {lock.last_failure_at ? new Date(lock.last_failure_at).toLocaleString() : "—"}
+                  </TableCell>
+                  <TableCell>{lock.locked_until ? formatRemaining(lock.locked_until) : "—"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUnlock(lock.key)}
+                      disabled={unlockingKey === lock.key}
+                    >
+                      {unlockingKey === lock.key ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Unlock className="h-4 w-4 mr-1" />
+                          Unlock
+                        </>
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { KeyRound } from "lucide-react";
+
+interface HashReport {
+  total: number;
+  pbkdf2: number;
+  legacy_sha256: number;
+  not_set: number;
+}
+
+interface LegacyAdmin {
+  id: string;
+  full_name: string | null;
+  phone: string | null;
+  is_active: boolean;
+}
+
+interface PasswordHashReportProps {
+  /** Changing this value re-fetches the report (e.g. after admins are edited) */
+  refreshKey?: unknown;
+}
+
+export function PasswordHashReport({ refreshKey }: PasswordHashReportProps) {
+  const [report, setReport] = useState<HashReport | null>(null);
+  const [legacyAdmins, setLegacyAdmins] = useState<LegacyAdmin[]>([]);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      const { data, error } = await supabase.functions.invoke("admin-auth", {
+        body: { action: "password_hash_report" },
+      });
+      if (error || !data?.success) {
+        console.error("Error fetching password hash report:", error || data?.error);
+        return;
+      }
+      setReport(data.report);
+      setLegacyAdmins(data.legacy_admins || []);
+    };
+    fetchReport();
+  }, [refreshKey]);
+
+  if (!report) return null;
+
+  const upToDate = report.legacy_sha256 === 0;
+
+  return (
+    <Alert className="mb-6" variant={upToDate ? "default" : "destructive"}>
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>Password hashing</AlertTitle>
+      <AlertDescription>
+        <p>
+          {report.pbkdf2} of {report.total} admins use salted PBKDF2 hashes.{" "}
+          {upToDate
+            ? "No admins remain on the legacy SHA-256 scheme."
+            : `${report.legacy_sha256} still use the legacy SHA-256 scheme and will be upgraded on their next login.`}
+          {report.not_set > 0 && ` ${report.not_set} have no password set.`}
+        </p>
+        {legacyAdmins.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {legacyAdmins.map((a) => (
+              <Badge key={a.id} variant="outline" className="text-[10px]">
+                {a.full_name || a.phone || "Unnamed"}
+                {!a.is_active && " (inactive)"}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,6 +1,7 @@
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Database } from "@/integrations/supabase/types";
+import type { Capability } from "@/lib/permissions";
 import { Loader2 } from "lucide-react";
 
 type AppRole = Database["public"]["Enums"]["app_role"];
@@ -8,10 +9,12 @@ type AppRole = Database["public"]["Enums"]["app_role"];
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRoles?: AppRole[];
+  // Admin needs at least one of these capabilities (super admins have all)
+  requiredCapabilities?: Capability[];
 }
 
-export function ProtectedRoute({ children, requiredRoles }: ProtectedRouteProps) {
-  const { user, roles, isLoading, adminToken } = useAuth();
+export function ProtectedRoute({ children, requiredRoles, requiredCapabilities }: ProtectedRouteProps) {
+  const { user, roles, isLoading, adminToken, hasCapability } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -39,5 +42,11 @@ export function ProtectedRoute({ children, requiredRoles }: ProtectedRouteProps)
     }
   }
 
+  if (requiredCapabilities && requiredCapabilities.length > 0) {
+    if (!requiredCapabilities.some((capability) => hasCapability(capability))) {
+      return <Navigate to="/unauthorized" replace />;
+    }
+  }
+
   return <>{children}</>;
 }
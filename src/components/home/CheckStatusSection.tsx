@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { AgentWorkLog } from "./AgentWorkLog";
+import { RegistrationStatusList, type RegistrationStatusResult } from "./RegistrationStatusList";
 
 interface CollectionResult {
   id: string;
@@ -61,6 +62,8 @@ export function CheckStatusSection() {
   const [oldPayments, setOldPayments] = useState<OldPaymentResult[]>([]);
   const [agentInfo, setAgentInfo] = useState<AgentResult | null>(null);
   const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [registrations, setRegistrations] = useState<RegistrationStatusResult[]>([]);
+  const [searchedMobile, setSearchedMobile] = useState("");
   const handleSearch = async () => {
     const cleaned = mobile.replace(/\D/g, "");
     if (cleaned.length < 10) return;
@@ -94,8 +97,8 @@ export function CheckStatusSection() {
 
       setCollections(collectionsWithDivision);
 
-      // Search pennyekart agents by mobile
-      const [agentRes, oldPayRes] = await Promise.all([
+      // Search pennyekart agents, old payments and program registrations by mobile
+      const [agentRes, oldPayRes, registrationRes] = await Promise.all([
         supabase
           .from("pennyekart_agents")
           .select("id, name, mobile, role, ward, customer_count, parent_agent_id, panchayath:panchayaths(name)")
@@ -107,8 +110,14 @@ export function CheckStatusSection() {
           .select("id, name, mobile, category, fee_paid, approved_by, approved_date")
           .eq("mobile", cleaned)
           .order("approved_date", { ascending: false }),
+        supabase.functions.invoke("registration-status", {
+          body: { action: "lookup", mobile: cleaned },
+        }),
       ]);
 
+      setRegistrations((registrationRes.data?.registrations as RegistrationStatusResult[]) || []);
+      setSearchedMobile(cleaned);
+
       setAgentInfo(agentRes.data && agentRes.data.length > 0 ? (agentRes.data[0] as unknown as AgentResult) : null);
       setOldPayments((oldPayRes.data as unknown as OldPaymentResult[]) || []);
 
@@ -134,17 +143,17 @@ export function CheckStatusSection() {
     }
   };
 
-  const hasResults = collections.length > 0 || oldPayments.length > 0 || agentInfo;
+  const hasResults = collections.length > 0 || oldPayments.length > 0 || agentInfo || registrations.length > 0;
 
   return (
     <section className="py-12 lg:py-16 bg-muted/30">
       <div className="container mx-auto px-4 max-w-2xl">
         <div className="text-center mb-8">
           <h2 className="text-2xl lg:text-3xl font-bold text-foreground mb-2">
-            Check Your Payment Status
+            Check Your Status
           </h2>
           <p className="text-muted-foreground text-sm lg:text-base">
-            Enter your mobile number to check your cash collection status and agent details
+            Enter your mobile number to check your payments, program registrations and agent details
           </p>
         </div>
 
@@ -187,11 +196,16 @@ export function CheckStatusSection() {
                 <CardContent className="py-8 text-center text-muted-foreground">
                   <XCircle className="h-10 w-10 mx-auto mb-3 opacity-40" />
                   <p className="font-medium">No records found</p>
-                  <p className="text-sm">No payment records or agent details found for this mobile number</p>
+                  <p className="text-sm">No payments, registrations or agent details found for this mobile number</p>
                 </CardContent>
               </Card>
             ) : (
               <>
+                {/* Program Registrations */}
+                {registrations.length > 0 && (
+                  <RegistrationStatusList mobile={searchedMobile} registrations={registrations} />
+                )}
+
                 {/* Cash Collections */}
                 {collections.length > 0 && (
                   <Card>
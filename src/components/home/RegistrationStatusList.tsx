@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ClipboardList, CheckCircle2, Clock, Pencil, Trophy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { supabase } from "@/integrations/supabase/client";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import {
+  type ApplicantEditSession,
+  getApplicantStatusMessage,
+  getRegistrationStatusBadgeClass,
+  getRegistrationStatusLabel,
+} from "@/lib/registrationStatus";
+
+// One row of the registration-status "lookup" response
+export interface RegistrationStatusResult {
+  id: string;
+  program_id: string;
+  program_name: string;
+  division_name: string | null;
+  name: string;
+  created_at: string;
+  applicant_updated_at: string | null;
+  status: string;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  verification_enabled: boolean;
+  verification_status: string;
+  total_score: number | null;
+  max_score: number | null;
+  percentage: number | null;
+  rank: number | null;
+  can_edit: boolean;
+  edit_until: string | null;
+}
+
+const EDIT_CODE_LENGTH = 6;
+
+interface RegistrationStatusListProps {
+  mobile: string;
+  registrations: RegistrationStatusResult[];
+}
+
+export function RegistrationStatusList({ mobile, registrations }: RegistrationStatusListProps) {
+  const [editing, setEditing] = useState<RegistrationStatusResult | null>(null);
+  const [code, setCode] = useState("");
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const navigate = useNavigate();
+
+  const closeEditDialog = () => {
+    setEditing(null);
+    setCode("");
+    setCodeError(null);
+  };
+
+  const handleOpenForEdit = async () => {
+    if (!editing || code.length !== EDIT_CODE_LENGTH) return;
+    setIsOpening(true);
+    setCodeError(null);
+
+    const { data, error } = await supabase.functions.invoke("registration-status", {
+      body: { action: "open", registration_id: editing.id, mobile, code },
+    });
+
+    if (error) {
+      setCodeError(await getFunctionErrorMessage(error, "Could not open this registration"));
+      setIsOpening(false);
+      return;
+    }
+
+    const editSession: ApplicantEditSession = {
+      registrationId: editing.id,
+      mobile,
+      code,
+      answers: data.registration.answers,
+      editUntil: data.edit_until,
+    };
+    setIsOpening(false);
+    navigate(`/program/${editing.program_id}`, { state: { editSession } });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ClipboardList className="h-4 w-4 text-primary" />
+            Program Registrations ({registrations.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {registrations.map((r) => {
+            const isVerified = r.verification_status === "verified";
+            const statusMessage = getApplicantStatusMessage(r.status);
+            return (
+              <div key={r.id} className="p-3 rounded-lg border bg-card space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm">{r.program_name}</span>
+                      <Badge
+                        variant="outline"
+                        className={`text-[10px] px-1.5 py-0 ${getRegistrationStatusBadgeClass(r.status)}`}
+                      >
+                        {getRegistrationStatusLabel(r.status)}
+                      </Badge>
+                      {r.verification_enabled && (
+                        <Badge
+                          className={`text-[10px] px-1.5 py-0 ${
+                            isVerified ? "bg-blue-100 text-blue-800" : "bg-yellow-100 text-yellow-800"
+                          }`}
+                        >
+                          {isVerified ? (
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                          ) : (
+                            <Clock className="h-3 w-3 mr-1" />
+                          )}
+                          {isVerified ? "Verified" : "Verification pending"}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                      <p>{r.name}</p>
+                      {r.division_name && <p>Division: {r.division_name}</p>}
+                      <p>
+                        Registered {format(new Date(r.created_at), "MMM d, yyyy")}
+                        {r.applicant_updated_at &&
+                          ` · Updated ${format(new Date(r.applicant_updated_at), "MMM d, yyyy")}`}
+                      </p>
+                    </div>
+                  </div>
+                  {r.percentage != null && (
+                    <div className="text-right shrink-0">
+                      <p className="font-bold text-sm">{r.percentage.toFixed(1)}%</p>
+                      <p className="text-xs text-muted-foreground">
+                        {r.total_score} / {r.max_score}
+                      </p>
+                      {r.rank != null && (
+                        <p className="text-xs font-medium text-amber-600 flex items-center justify-end gap-1 mt-0.5">
+                          <Trophy className="h-3 w-3" />
+                          Rank {r.rank}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {statusMessage && (
+                  <div className={`text-xs rounded-md px-2.5 py-2 ${getRegistrationStatusBadgeClass(r.status) || "bg-muted"}`}>
+                    <p>{statusMessage}</p>
+                    {r.status_reason && <p className="mt-0.5">Reason: {r.status_reason}</p>}
+                    {r.status_changed_at && (
+                      <p className="mt-0.5 opacity-75">Updated {format(new Date(r.status_changed_at), "MMM d, yyyy")}</p>
+                    )}
+                  </div>
+                )}
+                {r.can_edit && r.edit_until && (
+                  <div className="flex items-center justify-between gap-2 pt-2 border-t">
+                    <p className="text-xs text-muted-foreground">
+                      You can change your answers until {format(new Date(r.edit_until), "MMM d, yyyy h:mm a")}
+                    </p>
+                    <Button size="sm" variant="outline" onClick={() => setEditing(r)}>
+                      <Pencil className="h-3.5 w-3.5 mr-1" />
+                      Edit
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && closeEditDialog()}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Enter your edit code</DialogTitle>
+            <DialogDescription>
+              Use the {EDIT_CODE_LENGTH}-digit code shown when you registered for {editing?.program_name}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col items-center gap-2 py-2">
+            <InputOTP
+              maxLength={EDIT_CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              onComplete={() => setCodeError(null)}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: EDIT_CODE_LENGTH }, (_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            {codeError && <p className="text-sm text-destructive text-center">{codeError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEditDialog}>
+              Cancel
+            </Button>
+            <Button onClick={handleOpenForEdit} disabled={code.length !== EDIT_CODE_LENGTH || isOpening}>
+              {isOpening && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Continue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
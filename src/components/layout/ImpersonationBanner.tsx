@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Eye, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+
+// Shown on every page while a super admin is viewing the app as a division admin
+export function ImpersonationBanner() {
+  const { impersonation, stopImpersonation } = useAuth();
+  const [isStopping, setIsStopping] = useState(false);
+  const navigate = useNavigate();
+
+  if (!impersonation) return null;
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    await stopImpersonation();
+    setIsStopping(false);
+    navigate("/admin/admins");
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 border-t border-amber-300 bg-amber-100 text-amber-900 shadow-lg">
+      <div className="container flex flex-wrap items-center justify-between gap-2 py-2">
+        <p className="flex items-center gap-2 text-sm">
+          <Eye className="h-4 w-4 shrink-0" />
+          <span>
+            Viewing as <span className="font-semibold">{impersonation.adminName}</span> · read-only · ends at{" "}
+            {format(new Date(impersonation.expiresAt), "hh:mm a")}
+          </span>
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-amber-400 bg-white text-amber-900 hover:bg-amber-50"
+          onClick={handleStop}
+          disabled={isStopping}
+        >
+          {isStopping && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Stop viewing
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { ReactNode } from "react";
 import { useLocation } from "react-router-dom";
 import { Header } from "./Header";
 import { Footer } from "./Footer";
+import { ImpersonationBanner } from "./ImpersonationBanner";
+import { useAuth } from "@/hooks/useAuth";
+import { cn } from "@/lib/utils";
 
 interface LayoutProps {
   children: ReactNode;
@@ -10,12 +13,14 @@ interface LayoutProps {
 export function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const isHomePage = location.pathname === "/";
+  const { impersonation } = useAuth();
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Header />
-      <main className="flex-1">{children}</main>
+      <main className={cn("flex-1", impersonation && "pb-16")}>{children}</main>
       {isHomePage && <Footer />}
+      <ImpersonationBanner />
     </div>
   );
 }
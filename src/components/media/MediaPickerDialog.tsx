@@ -0,0 +1,117 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ImagePlus, Loader2, Search } from "lucide-react";
+import { useMediaLibrary } from "@/hooks/useMediaLibrary";
+import { formatFileSize, getMediaKind, type MediaAsset, type MediaKind } from "@/lib/media";
+import { MediaPreview } from "./MediaPreview";
+import { MediaUploadZone } from "./MediaUploadZone";
+
+interface MediaPickerDialogProps {
+  kind: MediaKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (asset: MediaAsset) => void;
+}
+
+// Pick a file from the shared library or upload a new one, which is picked straight away
+export function MediaPickerDialog({ kind, open, onOpenChange, onSelect }: MediaPickerDialogProps) {
+  const [search, setSearch] = useState("");
+  const { assets, isLoading, error, refetch, addAsset } = useMediaLibrary(open);
+
+  const pick = (asset: MediaAsset) => {
+    onSelect(asset);
+    onOpenChange(false);
+  };
+
+  const term = search.trim().toLowerCase();
+  const visible = assets.filter(
+    (asset) =>
+      getMediaKind(asset.mime_type) === kind &&
+      (!term ||
+        asset.file_name.toLowerCase().includes(term) ||
+        asset.division_name?.toLowerCase().includes(term) ||
+        asset.usage.some((u) => u.program_name?.toLowerCase().includes(term)))
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ImagePlus className="h-5 w-5" />
+            Media Library
+          </DialogTitle>
+          <DialogDescription>
+            Upload a new {kind} or reuse one already uploaded for any program or division.
+          </DialogDescription>
+        </DialogHeader>
+
+        <MediaUploadZone
+          kind={kind}
+          onUploaded={(asset) => {
+            addAsset(asset);
+            pick(asset);
+          }}
+        />
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by file, division or program..."
+            className="pl-9"
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="py-8 text-center space-y-2">
+              <p className="text-sm text-destructive">{error}</p>
+              <Button variant="outline" size="sm" onClick={refetch}>
+                Try again
+              </Button>
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {term ? "Nothing matches your search." : `No ${kind}s uploaded yet.`}
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {visible.map((asset) => (
+                <button
+                  key={asset.id}
+                  type="button"
+                  onClick={() => pick(asset)}
+                  className="text-left rounded-lg border overflow-hidden hover:ring-2 hover:ring-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <MediaPreview asset={asset} className="aspect-square w-full" />
+                  <div className="p-1.5">
+                    <p className="text-xs font-medium truncate" title={asset.file_name}>
+                      {asset.file_name}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {asset.division_name ?? "Shared"} · {formatFileSize(asset.size_bytes)}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,22 @@
+import { Film } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getMediaKind, type MediaAsset } from "@/lib/media";
+
+// Square preview for library grids; images use the WebP thumbnail when there is one
+export function MediaPreview({ asset, className }: { asset: MediaAsset; className?: string }) {
+  if (getMediaKind(asset.mime_type) === "video") {
+    return (
+      <div className={cn("flex items-center justify-center bg-muted text-muted-foreground", className)}>
+        <Film className="h-8 w-8" />
+      </div>
+    );
+  }
+  return (
+    <img
+      src={asset.thumbnail_url ?? asset.url}
+      alt={asset.file_name}
+      loading="lazy"
+      className={cn("object-cover bg-muted", className)}
+    />
+  );
+}
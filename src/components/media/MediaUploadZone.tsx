@@ -0,0 +1,111 @@
+import { useRef, useState } from "react";
+import { Loader2, UploadCloud } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { MEDIA_ACCEPT, type MediaAsset, type MediaKind, uploadMediaAsset } from "@/lib/media";
+
+const HINTS: Record<MediaKind | "any", string> = {
+  image: "JPEG, PNG, WebP or GIF. Photos are resized before upload.",
+  video: "MP4 or WebM up to 50 MB",
+  any: "Images, or MP4 and WebM videos up to 50 MB",
+};
+
+interface MediaUploadZoneProps {
+  // Only accept images or only videos; both when left out
+  kind?: MediaKind;
+  multiple?: boolean;
+  onUploaded: (asset: MediaAsset) => void;
+  className?: string;
+}
+
+export function MediaUploadZone({ kind, multiple = false, onUploaded, className }: MediaUploadZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+
+  const accept = MEDIA_ACCEPT.split(",")
+    .filter((type) => !kind || type.startsWith(kind))
+    .join(",");
+
+  const handleFiles = async (files: File[]) => {
+    const picked = multiple ? files : files.slice(0, 1);
+    for (const file of picked) {
+      if (kind && !file.type.startsWith(`${kind}/`)) {
+        toast({
+          title: "Error",
+          description: `${file.name} is not ${kind === "image" ? "an image" : "a video"}`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      setUploading(file.name);
+      try {
+        onUploaded(await uploadMediaAsset(file, adminToken));
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: err instanceof Error ? err.message : `Upload of ${file.name} failed`,
+          variant: "destructive",
+        });
+      }
+    }
+    setUploading(null);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      className={cn(
+        "flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed p-4 text-center text-sm text-muted-foreground transition-colors cursor-pointer",
+        isDragging ? "border-primary bg-primary/5" : "hover:border-primary/50",
+        uploading && "pointer-events-none opacity-70",
+        className
+      )}
+      onClick={() => inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" || e.key === " ") inputRef.current?.click();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+      />
+      {uploading ? (
+        <>
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="truncate max-w-full">Uploading {uploading}...</span>
+        </>
+      ) : (
+        <>
+          <UploadCloud className="h-6 w-6" />
+          <span>
+            Drop {kind === "video" ? "a video" : kind === "image" ? "an image" : "files"} here or{" "}
+            <span className="text-primary font-medium">browse</span>
+          </span>
+          <span className="text-xs">{HINTS[kind ?? "any"]}</span>
+        </>
+      )}
+    </div>
+  );
+}
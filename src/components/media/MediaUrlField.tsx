@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FolderOpen, X } from "lucide-react";
+import type { MediaKind } from "@/lib/media";
+import { MediaPickerDialog } from "./MediaPickerDialog";
+import { MediaUploadZone } from "./MediaUploadZone";
+
+interface MediaUrlFieldProps {
+  id: string;
+  kind: MediaKind;
+  value: string;
+  onChange: (url: string) => void;
+  placeholder?: string;
+}
+
+// A poster or video URL: typed in (e.g. a YouTube link), picked from the media library or,
+// for posters, dropped straight onto the field as a new upload
+export function MediaUrlField({ id, kind, value, onChange, placeholder }: MediaUrlFieldProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input id={id} value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} />
+        <Button type="button" variant="outline" onClick={() => setIsPickerOpen(true)}>
+          <FolderOpen className="h-4 w-4 mr-2" />
+          Library
+        </Button>
+      </div>
+      {kind === "image" &&
+        (value ? (
+          <div className="relative w-fit">
+            <img src={value} alt="" className="h-24 rounded border object-cover" />
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              className="absolute -right-2 -top-2 h-6 w-6 rounded-full"
+              onClick={() => onChange("")}
+              title="Remove"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ) : (
+          <MediaUploadZone kind={kind} onUploaded={(asset) => onChange(asset.url)} className="p-3" />
+        ))}
+      <MediaPickerDialog
+        kind={kind}
+        open={isPickerOpen}
+        onOpenChange={setIsPickerOpen}
+        onSelect={(asset) => onChange(asset.url)}
+      />
+    </div>
+  );
+}
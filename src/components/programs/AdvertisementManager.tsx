@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { MediaUrlField } from "@/components/media/MediaUrlField";
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,17 @@ import {
 } from "@/components/ui/dialog";
 import { Plus, Trash2, Video, Loader2, Edit, Image } from "lucide-react";
 import { ProgramAdvertisement } from "@/hooks/usePrograms";
+import {
+  PUBLISH_STATE_LABELS,
+  PUBLISH_TOGGLE_MESSAGES,
+  describePublishWindow,
+  fromDateTimeLocalValue,
+  getPublishState,
+  getPublishStateBadgeClass,
+  getPublishWindowError,
+  toDateTimeLocalValue,
+} from "@/lib/publishSchedule";
+import { invokeProgramContent } from "@/lib/programContent";
 
 interface AdvertisementManagerProps {
   programId: string;
@@ -40,8 +52,13 @@ export function AdvertisementManager({
   const [posterUrl, setPosterUrl] = useState("");
   const [videoUrl, setVideoUrl] = useState("");
   const [isPublished, setIsPublished] = useState(false);
+  const [publishAt, setPublishAt] = useState("");
+  const [unpublishAt, setUnpublishAt] = useState("");
 
   const { toast } = useToast();
+  const { adminToken, hasCapability } = useAuth();
+  // Read-only admins and impersonation sessions can look but not change anything
+  const canEdit = hasCapability("programs.edit");
 
   const resetForm = () => {
     setTitle("");
@@ -49,6 +66,8 @@ export function AdvertisementManager({
     setPosterUrl("");
     setVideoUrl("");
     setIsPublished(false);
+    setPublishAt("");
+    setUnpublishAt("");
     setEditingAd(null);
   };
 
@@ -59,10 +78,25 @@ export function AdvertisementManager({
     setPosterUrl(ad.poster_url || "");
     setVideoUrl(ad.video_url || "");
     setIsPublished(ad.is_published);
+    setPublishAt(toDateTimeLocalValue(ad.publish_at));
+    setUnpublishAt(toDateTimeLocalValue(ad.unpublish_at));
     setIsDialogOpen(true);
   };
 
   const handleSubmit = async () => {
+    const windowError = getPublishWindowError(
+      fromDateTimeLocalValue(publishAt),
+      fromDateTimeLocalValue(unpublishAt)
+    );
+    if (windowError) {
+      toast({
+        title: "Error",
+        description: windowError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -73,26 +107,25 @@ export function AdvertisementManager({
         poster_url: posterUrl.trim() || null,
         video_url: videoUrl.trim() || null,
         is_published: isPublished,
+        publish_at: fromDateTimeLocalValue(publishAt),
+        unpublish_at: fromDateTimeLocalValue(unpublishAt),
       };
 
       if (editingAd) {
-        const { error } = await supabase
-          .from("program_advertisements")
-          .update(adData)
-          .eq("id", editingAd.id);
-
-        if (error) throw error;
+        await invokeProgramContent(
+          "advertisement",
+          "update",
+          { id: editingAd.id, ...adData },
+          adminToken,
+          "Failed to save advertisement"
+        );
 
         toast({
           title: "Advertisement updated",
           description: "The advertisement has been updated.",
         });
       } else {
-        const { error } = await supabase
-          .from("program_advertisements")
-          .insert(adData);
-
-        if (error) throw error;
+        await invokeProgramContent("advertisement", "create", adData, adminToken, "Failed to save advertisement");
 
         toast({
           title: "Advertisement created",
@@ -116,12 +149,7 @@ export function AdvertisementManager({
 
   const handleDelete = async (adId: string) => {
     try {
-      const { error } = await supabase
-        .from("program_advertisements")
-        .delete()
-        .eq("id", adId);
-
-      if (error) throw error;
+      await invokeProgramContent("advertisement", "delete", { id: adId }, adminToken, "Failed to delete advertisement");
 
       toast({
         title: "Advertisement deleted",
@@ -140,16 +168,18 @@ export function AdvertisementManager({
 
   const togglePublish = async (ad: ProgramAdvertisement) => {
     try {
-      const { error } = await supabase
-        .from("program_advertisements")
-        .update({ is_published: !ad.is_published })
-        .eq("id", ad.id);
-
-      if (error) throw error;
+      await invokeProgramContent(
+        "advertisement",
+        "set_published",
+        { id: ad.id, is_published: !ad.is_published },
+        adminToken,
+        "Failed to update status"
+      );
 
+      const nextState = getPublishState({ ...ad, is_published: !ad.is_published });
       toast({
         title: ad.is_published ? "Unpublished" : "Published",
-        description: `Advertisement is now ${ad.is_published ? "hidden" : "visible"}.`,
+        description: `Advertisement is now ${PUBLISH_TOGGLE_MESSAGES[nextState]}.`,
       });
 
       onAdvertisementsChange();
@@ -162,6 +192,8 @@ export function AdvertisementManager({
     }
   };
 
+  const now = new Date();
+
   return (
     <>
       <Card>
@@ -176,10 +208,12 @@ export function AdvertisementManager({
                 Add promotional content for the program
               </CardDescription>
             </div>
-            <Button onClick={() => setIsDialogOpen(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Advertisement
-            </Button>
+            {canEdit && (
+              <Button onClick={() => setIsDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Advertisement
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -205,10 +239,16 @@ export function AdvertisementManager({
                       <span className="font-medium truncate">
                         {ad.title || "Untitled Advertisement"}
                       </span>
-                      <Badge variant={ad.is_published ? "default" : "secondary"}>
-                        {ad.is_published ? "Published" : "Draft"}
+                      <Badge
+                        variant={ad.is_published ? "outline" : "secondary"}
+                        className={getPublishStateBadgeClass(getPublishState(ad, now))}
+                      >
+                        {PUBLISH_STATE_LABELS[getPublishState(ad, now)]}
                       </Badge>
                     </div>
+                    {describePublishWindow(ad, now) && (
+                      <p className="text-xs text-muted-foreground mb-1">{describePublishWindow(ad, now)}</p>
+                    )}
                     {ad.description && (
                       <p className="text-sm text-muted-foreground line-clamp-2">
                         {ad.description}
@@ -229,22 +269,24 @@ export function AdvertisementManager({
                       )}
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Button variant="ghost" size="sm" onClick={() => togglePublish(ad)}>
-                      {ad.is_published ? "Unpublish" : "Publish"}
-                    </Button>
-                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(ad)}>
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-destructive hover:text-destructive"
-                      onClick={() => handleDelete(ad.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => togglePublish(ad)}>
+                        {ad.is_published ? "Unpublish" : "Publish"}
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(ad)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(ad.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -259,7 +301,7 @@ export function AdvertisementManager({
           if (!open) resetForm();
         }}
       >
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingAd ? "Edit Advertisement" : "New Advertisement"}
@@ -292,21 +334,23 @@ export function AdvertisementManager({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="adPosterUrl">Poster Image URL</Label>
-              <Input
+              <Label htmlFor="adPosterUrl">Poster Image</Label>
+              <MediaUrlField
                 id="adPosterUrl"
+                kind="image"
                 value={posterUrl}
-                onChange={(e) => setPosterUrl(e.target.value)}
+                onChange={setPosterUrl}
                 placeholder="https://..."
               />
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="adVideoUrl">Video URL</Label>
-              <Input
+              <MediaUrlField
                 id="adVideoUrl"
+                kind="video"
                 value={videoUrl}
-                onChange={(e) => setVideoUrl(e.target.value)}
+                onChange={setVideoUrl}
                 placeholder="https://youtube.com/..."
               />
             </div>
@@ -317,8 +361,32 @@ export function AdvertisementManager({
                 checked={isPublished}
                 onCheckedChange={setIsPublished}
               />
-              <Label htmlFor="adIsPublished">Publish immediately</Label>
+              <Label htmlFor="adIsPublished">Published</Label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="adPublishAt">Go live at</Label>
+                <Input
+                  id="adPublishAt"
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adUnpublishAt">Take down at</Label>
+                <Input
+                  id="adUnpublishAt"
+                  type="datetime-local"
+                  value={unpublishAt}
+                  onChange={(e) => setUnpublishAt(e.target.value)}
+                />
+              </div>
             </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Optional. Leave empty to show the advertisement as soon as it is published and until it is unpublished.
+            </p>
           </div>
 
           <DialogFooter>
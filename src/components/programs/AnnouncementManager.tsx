@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { MediaUrlField } from "@/components/media/MediaUrlField";
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,17 @@ import {
 } from "@/components/ui/dialog";
 import { Plus, Trash2, Megaphone, Loader2, Edit, Image, Video } from "lucide-react";
 import { ProgramAnnouncement } from "@/hooks/usePrograms";
+import {
+  PUBLISH_STATE_LABELS,
+  PUBLISH_TOGGLE_MESSAGES,
+  describePublishWindow,
+  fromDateTimeLocalValue,
+  getPublishState,
+  getPublishStateBadgeClass,
+  getPublishWindowError,
+  toDateTimeLocalValue,
+} from "@/lib/publishSchedule";
+import { invokeProgramContent } from "@/lib/programContent";
 
 interface AnnouncementManagerProps {
   programId: string;
@@ -40,8 +52,13 @@ export function AnnouncementManager({
   const [posterUrl, setPosterUrl] = useState("");
   const [videoUrl, setVideoUrl] = useState("");
   const [isPublished, setIsPublished] = useState(false);
+  const [publishAt, setPublishAt] = useState("");
+  const [unpublishAt, setUnpublishAt] = useState("");
 
   const { toast } = useToast();
+  const { adminToken, hasCapability } = useAuth();
+  // Read-only admins and impersonation sessions can look but not change anything
+  const canEdit = hasCapability("programs.edit");
 
   const resetForm = () => {
     setTitle("");
@@ -49,6 +66,8 @@ export function AnnouncementManager({
     setPosterUrl("");
     setVideoUrl("");
     setIsPublished(false);
+    setPublishAt("");
+    setUnpublishAt("");
     setEditingAnnouncement(null);
   };
 
@@ -59,10 +78,25 @@ export function AnnouncementManager({
     setPosterUrl(announcement.poster_url || "");
     setVideoUrl(announcement.video_url || "");
     setIsPublished(announcement.is_published);
+    setPublishAt(toDateTimeLocalValue(announcement.publish_at));
+    setUnpublishAt(toDateTimeLocalValue(announcement.unpublish_at));
     setIsDialogOpen(true);
   };
 
   const handleSubmit = async () => {
+    const windowError = getPublishWindowError(
+      fromDateTimeLocalValue(publishAt),
+      fromDateTimeLocalValue(unpublishAt)
+    );
+    if (windowError) {
+      toast({
+        title: "Error",
+        description: windowError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!title.trim()) {
       toast({
         title: "Error",
@@ -82,26 +116,25 @@ export function AnnouncementManager({
         poster_url: posterUrl.trim() || null,
         video_url: videoUrl.trim() || null,
         is_published: isPublished,
+        publish_at: fromDateTimeLocalValue(publishAt),
+        unpublish_at: fromDateTimeLocalValue(unpublishAt),
       };
 
       if (editingAnnouncement) {
-        const { error } = await supabase
-          .from("program_announcements")
-          .update(announcementData)
-          .eq("id", editingAnnouncement.id);
-
-        if (error) throw error;
+        await invokeProgramContent(
+          "announcement",
+          "update",
+          { id: editingAnnouncement.id, ...announcementData },
+          adminToken,
+          "Failed to save announcement"
+        );
 
         toast({
           title: "Announcement updated",
           description: "The announcement has been updated.",
         });
       } else {
-        const { error } = await supabase
-          .from("program_announcements")
-          .insert(announcementData);
-
-        if (error) throw error;
+        await invokeProgramContent("announcement", "create", announcementData, adminToken, "Failed to save announcement");
 
         toast({
           title: "Announcement created",
@@ -125,12 +158,7 @@ export function AnnouncementManager({
 
   const handleDelete = async (announcementId: string) => {
     try {
-      const { error } = await supabase
-        .from("program_announcements")
-        .delete()
-        .eq("id", announcementId);
-
-      if (error) throw error;
+      await invokeProgramContent("announcement", "delete", { id: announcementId }, adminToken, "Failed to delete announcement");
 
       toast({
         title: "Announcement deleted",
@@ -149,16 +177,18 @@ export function AnnouncementManager({
 
   const togglePublish = async (announcement: ProgramAnnouncement) => {
     try {
-      const { error } = await supabase
-        .from("program_announcements")
-        .update({ is_published: !announcement.is_published })
-        .eq("id", announcement.id);
-
-      if (error) throw error;
+      await invokeProgramContent(
+        "announcement",
+        "set_published",
+        { id: announcement.id, is_published: !announcement.is_published },
+        adminToken,
+        "Failed to update status"
+      );
 
+      const nextState = getPublishState({ ...announcement, is_published: !announcement.is_published });
       toast({
         title: announcement.is_published ? "Unpublished" : "Published",
-        description: `Announcement is now ${announcement.is_published ? "hidden" : "visible"}.`,
+        description: `Announcement is now ${PUBLISH_TOGGLE_MESSAGES[nextState]}.`,
       });
 
       onAnnouncementsChange();
@@ -171,6 +201,8 @@ export function AnnouncementManager({
     }
   };
 
+  const now = new Date();
+
   return (
     <>
       <Card>
@@ -185,10 +217,12 @@ export function AnnouncementManager({
                 Create announcements for program participants
               </CardDescription>
             </div>
-            <Button onClick={() => setIsDialogOpen(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Announcement
-            </Button>
+            {canEdit && (
+              <Button onClick={() => setIsDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Announcement
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -215,10 +249,16 @@ export function AnnouncementManager({
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <span className="font-medium truncate">{announcement.title}</span>
-                      <Badge variant={announcement.is_published ? "default" : "secondary"}>
-                        {announcement.is_published ? "Published" : "Draft"}
+                      <Badge
+                        variant={announcement.is_published ? "outline" : "secondary"}
+                        className={getPublishStateBadgeClass(getPublishState(announcement, now))}
+                      >
+                        {PUBLISH_STATE_LABELS[getPublishState(announcement, now)]}
                       </Badge>
                     </div>
+                    {describePublishWindow(announcement, now) && (
+                      <p className="text-xs text-muted-foreground mb-1">{describePublishWindow(announcement, now)}</p>
+                    )}
                     {announcement.description && (
                       <p className="text-sm text-muted-foreground line-clamp-2">
                         {announcement.description}
@@ -239,30 +279,32 @@ export function AnnouncementManager({
                       )}
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => togglePublish(announcement)}
-                    >
-                      {announcement.is_published ? "Unpublish" : "Publish"}
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => openEditDialog(announcement)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-destructive hover:text-destructive"
-                      onClick={() => handleDelete(announcement.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => togglePublish(announcement)}
+                      >
+                        {announcement.is_published ? "Unpublish" : "Publish"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditDialog(announcement)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(announcement.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -277,7 +319,7 @@ export function AnnouncementManager({
           if (!open) resetForm();
         }}
       >
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingAnnouncement ? "Edit Announcement" : "New Announcement"}
@@ -310,21 +352,23 @@ export function AnnouncementManager({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="posterUrl">Poster Image URL</Label>
-              <Input
+              <Label htmlFor="posterUrl">Poster Image</Label>
+              <MediaUrlField
                 id="posterUrl"
+                kind="image"
                 value={posterUrl}
-                onChange={(e) => setPosterUrl(e.target.value)}
+                onChange={setPosterUrl}
                 placeholder="https://..."
               />
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="videoUrl">Video URL</Label>
-              <Input
+              <MediaUrlField
                 id="videoUrl"
+                kind="video"
                 value={videoUrl}
-                onChange={(e) => setVideoUrl(e.target.value)}
+                onChange={setVideoUrl}
                 placeholder="https://youtube.com/..."
               />
             </div>
@@ -335,8 +379,32 @@ export function AnnouncementManager({
                 checked={isPublished}
                 onCheckedChange={setIsPublished}
               />
-              <Label htmlFor="isPublished">Publish immediately</Label>
+              <Label htmlFor="isPublished">Published</Label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="publishAt">Go live at</Label>
+                <Input
+                  id="publishAt"
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="unpublishAt">Take down at</Label>
+                <Input
+                  id="unpublishAt"
+                  type="datetime-local"
+                  value={unpublishAt}
+                  onChange={(e) => setUnpublishAt(e.target.value)}
+                />
+              </div>
             </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Optional. Leave empty to show the announcement as soon as it is published and until it is unpublished.
+            </p>
           </div>
 
           <DialogFooter>
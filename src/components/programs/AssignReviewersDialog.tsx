@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2, UserPlus, X } from "lucide-react";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ProgramRegistration } from "@/hooks/usePrograms";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+
+interface Reviewer {
+  id: string;
+  full_name: string;
+}
+
+interface AssignReviewersDialogProps {
+  programId: string;
+  // One registration from its row, or every registration in the current filter
+  registrations: ProgramRegistration[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAssigned: () => void;
+}
+
+export function AssignReviewersDialog({
+  programId,
+  registrations,
+  open,
+  onOpenChange,
+  onAssigned,
+}: AssignReviewersDialogProps) {
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+
+  const single = registrations.length === 1 ? registrations[0] : null;
+  const pendingAssignments = (single?.reviews ?? []).filter((r) => r.assigned_at && !r.submitted_at);
+
+  useEffect(() => {
+    if (!open || !adminToken) return;
+    setSelectedIds([]);
+    setIsLoading(true);
+
+    const params = new URLSearchParams({ action: "reviewers", program_id: programId });
+    invokeAdminFunction("admin-registrations?" + params.toString(), {
+      method: "GET",
+      headers: { "x-admin-token": adminToken },
+    })
+      .then(async ({ data, error }) => {
+        if (error) throw new Error(await getFunctionErrorMessage(error, "Failed to load reviewers"));
+        setReviewers(data.reviewers ?? []);
+      })
+      .catch((err) => {
+        toast({
+          title: "Error",
+          description: err instanceof Error ? err.message : "Failed to load reviewers",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [open, adminToken, programId, toast]);
+
+  const toggleReviewer = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((x) => x !== id)));
+  };
+
+  const handleAssign = async () => {
+    if (!adminToken || selectedIds.length === 0) return;
+    setIsSaving(true);
+    try {
+      const { data, error } = await invokeAdminFunction("admin-registrations", {
+        method: "POST",
+        headers: { "x-admin-token": adminToken },
+        body: {
+          action: "assign_reviewers",
+          registration_ids: registrations.map((r) => r.id),
+          reviewer_ids: selectedIds,
+        },
+      });
+      if (error) throw new Error(await getFunctionErrorMessage(error, "Failed to assign reviewers"));
+
+      toast({
+        title: "Reviewers assigned",
+        description:
+          `${data.assigned} registration${data.assigned === 1 ? "" : "s"} assigned` +
+          (data.skipped > 0 ? `; ${data.skipped} already verified were skipped` : ""),
+      });
+      onOpenChange(false);
+      onAssigned();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to assign reviewers",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnassign = async (reviewerId: string) => {
+    if (!adminToken || !single) return;
+    setRemovingId(reviewerId);
+    try {
+      const { error } = await invokeAdminFunction("admin-registrations", {
+        method: "POST",
+        headers: { "x-admin-token": adminToken },
+        body: { action: "unassign_reviewer", registration_id: single.id, reviewer_id: reviewerId },
+      });
+      if (error) throw new Error(await getFunctionErrorMessage(error, "Failed to remove reviewer"));
+      onAssigned();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to remove reviewer",
+        variant: "destructive",
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Assign Reviewers
+          </DialogTitle>
+          <DialogDescription>
+            {single
+              ? "Only assigned reviewers can score this registration."
+              : `Each reviewer you pick scores all ${registrations.length} registrations shown. Verified ones are skipped.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pendingAssignments.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Waiting on</p>
+            {pendingAssignments.map((review) => (
+              <div key={review.id} className="flex items-center justify-between text-sm px-2 py-1 rounded bg-muted/50">
+                <span>{review.reviewer_name}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleUnassign(review.reviewer_id)}
+                  disabled={removingId !== null}
+                  title="Remove reviewer"
+                >
+                  {removingId === review.reviewer_id ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <X className="h-3 w-3" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : reviewers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No admins in this division can verify registrations.
+            </p>
+          ) : (
+            reviewers.map((reviewer) => (
+              <div key={reviewer.id} className="flex items-center gap-3 p-2 rounded hover:bg-muted/50">
+                <Checkbox
+                  id={`reviewer-${reviewer.id}`}
+                  checked={selectedIds.includes(reviewer.id)}
+                  onCheckedChange={(checked) => toggleReviewer(reviewer.id, checked === true)}
+                />
+                <Label htmlFor={`reviewer-${reviewer.id}`} className="flex-1 cursor-pointer font-normal">
+                  {reviewer.full_name}
+                </Label>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={isSaving || selectedIds.length === 0}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
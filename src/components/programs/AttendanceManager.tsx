@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ClipboardCheck, Download, Loader2, Plus, QrCode, RefreshCw, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useAttendance } from "@/hooks/useAttendance";
+import { useToast } from "@/hooks/use-toast";
+import type { ProgramRegistration } from "@/hooks/usePrograms";
+import {
+  countBySession,
+  createAttendanceSession,
+  deleteAttendanceSession,
+  type AttendanceSession,
+} from "@/lib/attendance";
+import { exportAttendanceToXlsx } from "@/lib/exportXlsx";
+import { fromDateTimeLocalValue } from "@/lib/publishSchedule";
+import { holdsSeat } from "@/lib/registrationStatus";
+
+interface AttendanceManagerProps {
+  programId: string;
+  programName: string;
+  registrations: ProgramRegistration[];
+}
+
+export function AttendanceManager({ programId, programName, registrations }: AttendanceManagerProps) {
+  const [name, setName] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [deleting, setDeleting] = useState<AttendanceSession | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { adminToken, hasCapability } = useAuth();
+  const { toast } = useToast();
+  const { sessions, attendance, isLoading, error, refetch } = useAttendance(programId);
+
+  const canEditSessions = hasCapability("programs.edit");
+  const canCheckIn = hasCapability("registrations.verify");
+  const expected = registrations.filter((r) => holdsSeat(r.status)).length;
+  const counts = countBySession(attendance);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsAdding(true);
+    try {
+      await createAttendanceSession(programId, { name: name.trim(), starts_at: fromDateTimeLocalValue(startsAt) }, adminToken);
+      setName("");
+      setStartsAt("");
+      toast({ title: "Session added" });
+      refetch();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to add session",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setIsDeleting(true);
+    try {
+      await deleteAttendanceSession(programId, deleting.id, adminToken);
+      toast({ title: "Session deleted", description: `${deleting.name} and its check-ins have been removed.` });
+      setDeleting(null);
+      refetch();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to delete session",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Attendance
+            </CardTitle>
+            <CardDescription>
+              Check-ins per session. Applicants show the QR code on their acknowledgement or admit card.
+            </CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="ghost" size="icon" onClick={refetch} disabled={isLoading} title="Refresh">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportAttendanceToXlsx(registrations, sessions, attendance, programName)}
+              disabled={sessions.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            {canCheckIn && sessions.length > 0 && (
+              <Button asChild size="sm">
+                <Link to={`/admin/programs/${programId}/check-in`}>
+                  <QrCode className="h-4 w-4 mr-2" />
+                  Open Check-in
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEditSessions && (
+          <form onSubmit={handleAdd} className="grid gap-2 sm:grid-cols-[1fr_auto_auto] sm:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="sessionName">Session</Label>
+              <Input
+                id="sessionName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Day 1 - Morning"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sessionStartsAt">Starts at</Label>
+              <Input
+                id="sessionStartsAt"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isAdding || !name.trim()}>
+              {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Session
+            </Button>
+          </form>
+        )}
+
+        {isLoading && sessions.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="py-8 text-center space-y-2">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={refetch}>
+              Try again
+            </Button>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No sessions yet. Add a session for each day or sitting you want to take attendance for.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => {
+              const checkedIn = counts.get(session.id) ?? 0;
+              return (
+                <div key={session.id} className="flex items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="font-medium truncate">{session.name}</p>
+                    {session.starts_at && (
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(session.starts_at), "MMM d, yyyy h:mm a")}
+                      </p>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Progress value={expected > 0 ? (checkedIn / expected) * 100 : 0} className="h-2 flex-1" />
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {checkedIn} of {expected} checked in
+                      </span>
+                    </div>
+                  </div>
+                  {canCheckIn && (
+                    <Button asChild variant="ghost" size="icon" title="Check in for this session">
+                      <Link to={`/admin/programs/${programId}/check-in?session=${session.id}`}>
+                        <QrCode className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  )}
+                  {canEditSessions && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setDeleting(session)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting && (counts.get(deleting.id) ?? 0) > 0
+                ? `The ${counts.get(deleting.id)} check-ins recorded at this session will be deleted too.`
+                : "No one has checked in at this session yet."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ListChecks, Loader2 } from "lucide-react";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ProgramRegistration } from "@/hooks/usePrograms";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import {
+  BULK_REGISTRATION_STATUSES,
+  canChangeStatus,
+  getRegistrationStatusLabel,
+  statusNeedsReason,
+  statusTakesReason,
+} from "@/lib/registrationStatus";
+
+type Cutoff = "rank_within" | "rank_beyond" | "percentage_at_least" | "percentage_below";
+
+const CUTOFFS: { value: Cutoff; label: string }[] = [
+  { value: "rank_within", label: "Rank up to" },
+  { value: "rank_beyond", label: "Rank after" },
+  { value: "percentage_at_least", label: "Score at least (%)" },
+  { value: "percentage_below", label: "Score under (%)" },
+];
+
+const PREVIEW_COUNT = 5;
+
+interface BulkStatusDialogProps {
+  // The registrations currently shown in the table; the cutoff picks from these
+  registrations: ProgramRegistration[];
+  verificationEnabled: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: () => void;
+}
+
+function matchesCutoff(registration: ProgramRegistration, cutoff: Cutoff, value: number): boolean {
+  if (registration.verification_status !== "verified") return false;
+  switch (cutoff) {
+    case "rank_within":
+      return registration.rank != null && registration.rank <= value;
+    case "rank_beyond":
+      return registration.rank != null && registration.rank > value;
+    case "percentage_at_least":
+      return registration.percentage != null && registration.percentage >= value;
+    case "percentage_below":
+      return registration.percentage != null && registration.percentage < value;
+  }
+}
+
+export function BulkStatusDialog({
+  registrations,
+  verificationEnabled,
+  open,
+  onOpenChange,
+  onUpdated,
+}: BulkStatusDialogProps) {
+  const [status, setStatus] = useState<string>("shortlisted");
+  const [cutoff, setCutoff] = useState<Cutoff>("rank_within");
+  const [cutoffValue, setCutoffValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setStatus("shortlisted");
+    setCutoff("rank_within");
+    setCutoffValue("");
+    setReason("");
+  }, [open]);
+
+  const matches = useMemo(() => {
+    if (cutoffValue.trim() === "" || isNaN(Number(cutoffValue))) return [];
+    return registrations
+      .filter((r) => matchesCutoff(r, cutoff, Number(cutoffValue)))
+      .filter((r) => canChangeStatus(r, status, verificationEnabled))
+      .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
+  }, [registrations, cutoff, cutoffValue, status, verificationEnabled]);
+
+  const missingReason = statusNeedsReason(status) && !reason.trim();
+
+  const handleApply = async () => {
+    if (!adminToken || matches.length === 0 || missingReason) return;
+    setIsSaving(true);
+    try {
+      const { data, error } = await invokeAdminFunction("admin-registrations", {
+        method: "POST",
+        headers: { "x-admin-token": adminToken },
+        body: {
+          action: "set_status",
+          registration_ids: matches.map((r) => r.id),
+          status,
+          reason: statusTakesReason(status) ? reason.trim() : undefined,
+        },
+      });
+      if (error) throw new Error(await getFunctionErrorMessage(error, "Failed to update registrations"));
+
+      toast({
+        title: `${getRegistrationStatusLabel(status)}: ${data.updated} registration${data.updated === 1 ? "" : "s"}`,
+        description: data.skipped > 0 ? `${data.skipped} could not be changed and were skipped.` : undefined,
+      });
+      onOpenChange(false);
+      onUpdated();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update registrations",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Update Status by Cutoff
+          </DialogTitle>
+          <DialogDescription>
+            Picks from the verified registrations shown in the table, so filter by panchayath first to work on
+            one at a time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label>Mark as</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BULK_REGISTRATION_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value}>{getRegistrationStatusLabel(value)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Cutoff</Label>
+              <Select value={cutoff} onValueChange={(value) => setCutoff(value as Cutoff)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUTOFFS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="cutoffValue">Value</Label>
+              <Input
+                id="cutoffValue"
+                type="number"
+                min={cutoff.startsWith("rank") ? 1 : 0}
+                max={cutoff.startsWith("rank") ? undefined : 100}
+                value={cutoffValue}
+                onChange={(e) => setCutoffValue(e.target.value)}
+                placeholder={cutoff.startsWith("rank") ? "e.g. 50" : "e.g. 60"}
+              />
+            </div>
+          </div>
+
+          {statusTakesReason(status) && (
+            <div className="space-y-1.5">
+              <Label htmlFor="bulkReason">
+                Reason {statusNeedsReason(status) ? <span className="text-destructive">*</span> : "(optional)"}
+              </Label>
+              <Textarea
+                id="bulkReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Shown to applicants when they check their status"
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+          )}
+
+          {cutoffValue !== "" && (
+            <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-1">
+              <p className="font-medium">
+                {matches.length} registration{matches.length === 1 ? "" : "s"} will be marked{" "}
+                {getRegistrationStatusLabel(status).toLowerCase()}
+              </p>
+              {matches.slice(0, PREVIEW_COUNT).map((r) => (
+                <p key={r.id} className="text-xs text-muted-foreground">
+                  {r.rank != null ? `#${r.rank} · ` : ""}
+                  {(r.answers as { _fixed?: { name?: string } })?._fixed?.name || "-"}
+                  {r.percentage != null && ` · ${r.percentage.toFixed(1)}%`}
+                </p>
+              ))}
+              {matches.length > PREVIEW_COUNT && (
+                <p className="text-xs text-muted-foreground">and {matches.length - PREVIEW_COUNT} more</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isSaving || matches.length === 0 || missingReason}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,391 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, CopyPlus, Loader2, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { Program } from "@/hooks/usePrograms";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+
+// One row of the admin-programs "list_templates" response
+interface ProgramTemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  division_name: string | null;
+  created_at: string;
+  can_delete: boolean;
+  counts: { modules: number; questions: number; announcements: number; advertisements: number };
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface CloneProgramDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Copy this program; without it the admin picks a template or one of `programs`
+  sourceProgram?: Program;
+  programs?: Program[];
+}
+
+export function CloneProgramDialog({ open, onOpenChange, sourceProgram, programs = [] }: CloneProgramDialogProps) {
+  const [templates, setTemplates] = useState<ProgramTemplateSummary[]>([]);
+  const [divisions, setDivisions] = useState<Option[]>([]);
+  const [panchayaths, setPanchayaths] = useState<Option[]>([]);
+  const [source, setSource] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [divisionId, setDivisionId] = useState("");
+  const [panchayathId, setPanchayathId] = useState("");
+  const [allPanchayaths, setAllPanchayaths] = useState(false);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [includeAnnouncements, setIncludeAnnouncements] = useState(true);
+  const [includeAdvertisements, setIncludeAdvertisements] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const { adminToken, adminData, isSuperAdmin } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const headers = adminToken ? { "x-admin-token": adminToken } : {};
+
+  // "template:<id>" or "program:<id>"
+  const [sourceKind, sourceId] = sourceProgram ? ["program", sourceProgram.id] : source.split(":");
+  const selectedTemplate = sourceKind === "template" ? templates.find((t) => t.id === sourceId) : undefined;
+  const selectedProgram = sourceProgram ?? (sourceKind === "program" ? programs.find((p) => p.id === sourceId) : undefined);
+
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    setSource("");
+    setName(sourceProgram ? `${sourceProgram.name} (copy)` : "");
+    setDescription(sourceProgram?.description ?? "");
+    setDivisionId(isSuperAdmin ? sourceProgram?.division_id ?? "" : adminData?.division_id ?? "");
+    setPanchayathId(sourceProgram?.panchayath_id ?? "");
+    setAllPanchayaths(sourceProgram?.all_panchayaths ?? false);
+    setStartDate("");
+    setEndDate("");
+    setIncludeAnnouncements(true);
+    setIncludeAdvertisements(true);
+    setIsLoading(true);
+
+    const loadOptions = async () => {
+      const [divisionResult, panchayathResult, templateResult] = await Promise.all([
+        supabase.from("divisions").select("id, name").eq("is_active", true).order("name"),
+        supabase.from("panchayaths").select("id, name").eq("is_active", true).order("name"),
+        sourceProgram
+          ? Promise.resolve(null)
+          : invokeAdminFunction("admin-programs", {
+              headers: adminToken ? { "x-admin-token": adminToken } : {},
+              body: { action: "list_templates" },
+            }),
+      ]);
+      setDivisions(divisionResult.data || []);
+      setPanchayaths(panchayathResult.data || []);
+      if (templateResult?.error) {
+        setError(await getFunctionErrorMessage(templateResult.error, "Failed to load templates"));
+      } else if (templateResult) {
+        setTemplates(templateResult.data.templates ?? []);
+      }
+    };
+
+    loadOptions().finally(() => setIsLoading(false));
+  }, [open, sourceProgram, adminToken, adminData, isSuperAdmin]);
+
+  // Picking a source fills in its name and description as a starting point
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    const [kind, id] = value.split(":");
+    const picked = kind === "template" ? templates.find((t) => t.id === id) : programs.find((p) => p.id === id);
+    if (!picked) return;
+    if (!name.trim()) setName(kind === "program" ? `${picked.name} (copy)` : picked.name);
+    if (!description.trim() && kind === "program") setDescription((picked as Program).description ?? "");
+  };
+
+  const handleDeleteTemplate = async (template: ProgramTemplateSummary) => {
+    setDeletingId(template.id);
+    try {
+      const { error: funcError } = await invokeAdminFunction("admin-programs", {
+        headers,
+        body: { action: "delete_template", data: { id: template.id } },
+      });
+      if (funcError) throw new Error(await getFunctionErrorMessage(funcError, "Failed to delete template"));
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (source === `template:${template.id}`) setSource("");
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to delete template",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!selectedTemplate && !selectedProgram) {
+      setError("Choose a template or a program to copy");
+      return;
+    }
+    if (!divisionId) {
+      setError("Please select a division");
+      return;
+    }
+    if (!allPanchayaths && !panchayathId) {
+      setError("Please select a panchayath or enable 'All Panchayaths'");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data, error: funcError } = await invokeAdminFunction("admin-programs", {
+        headers,
+        body: {
+          action: "clone",
+          data: {
+            template_id: selectedTemplate?.id,
+            program_id: selectedTemplate ? undefined : selectedProgram?.id,
+            name: name.trim(),
+            // Left blank, a template's program description is used
+            description: description.trim() || (selectedTemplate ? undefined : null),
+            division_id: divisionId,
+            panchayath_id: allPanchayaths ? null : panchayathId,
+            all_panchayaths: allPanchayaths,
+            start_date: startDate || null,
+            end_date: endDate || null,
+            include_announcements: includeAnnouncements,
+            include_advertisements: includeAdvertisements,
+          },
+        },
+      });
+      if (funcError) throw new Error(await getFunctionErrorMessage(funcError, "Failed to create program"));
+
+      toast({
+        title: "Program created",
+        description: `Copied ${data.copied.modules} modules and ${data.copied.questions} form questions.`,
+      });
+      onOpenChange(false);
+      navigate(`/admin/programs/${data.program.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create program");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CopyPlus className="h-5 w-5" />
+            {sourceProgram ? "Clone Program" : "Create from Template"}
+          </DialogTitle>
+          <DialogDescription>
+            Copies modules and form questions (with options and scoring) into a new program. Registrations are not
+            copied; announcements and advertisements start unpublished.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {!sourceProgram && (
+              <div className="space-y-2">
+                <Label>Copy From *</Label>
+                <Select value={source} onValueChange={handleSourceChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a template or program" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={`template:${template.id}`}>
+                        Template: {template.name}
+                      </SelectItem>
+                    ))}
+                    {programs.map((program) => (
+                      <SelectItem key={program.id} value={`program:${program.id}`}>
+                        Program: {program.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate && (
+                  <div className="flex items-start justify-between gap-2 rounded-md border bg-muted/30 p-2 text-xs text-muted-foreground">
+                    <div>
+                      {selectedTemplate.description && <p className="text-foreground">{selectedTemplate.description}</p>}
+                      <p>
+                        {selectedTemplate.counts.modules} modules · {selectedTemplate.counts.questions} questions ·{" "}
+                        {selectedTemplate.counts.announcements} announcements · {selectedTemplate.counts.advertisements} ads
+                      </p>
+                      <p>
+                        Saved {format(new Date(selectedTemplate.created_at), "MMM d, yyyy")}
+                        {selectedTemplate.division_name && ` from ${selectedTemplate.division_name}`}
+                      </p>
+                    </div>
+                    {selectedTemplate.can_delete && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteTemplate(selectedTemplate)}
+                        disabled={deletingId !== null}
+                        title="Delete template"
+                      >
+                        {deletingId === selectedTemplate.id ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-3.5 w-3.5" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="cloneName">Program Name *</Label>
+              <Input id="cloneName" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cloneDescription">Description</Label>
+              <Textarea
+                id="cloneDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            {isSuperAdmin && (
+              <div className="space-y-2">
+                <Label>Division *</Label>
+                <Select value={divisionId} onValueChange={setDivisionId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a division" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {divisions.map((division) => (
+                      <SelectItem key={division.id} value={division.id}>
+                        {division.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch id="cloneAllPanchayaths" checked={allPanchayaths} onCheckedChange={setAllPanchayaths} />
+              <Label htmlFor="cloneAllPanchayaths">Available in all panchayaths</Label>
+            </div>
+
+            {!allPanchayaths && (
+              <div className="space-y-2">
+                <Label>Panchayath *</Label>
+                <Select value={panchayathId} onValueChange={setPanchayathId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a panchayath" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {panchayaths.map((panchayath) => (
+                      <SelectItem key={panchayath.id} value={panchayath.id}>
+                        {panchayath.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cloneStartDate">Start Date</Label>
+                <Input id="cloneStartDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cloneEndDate">End Date</Label>
+                <Input id="cloneEndDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="includeAnnouncements" className="cursor-pointer">Copy announcements</Label>
+                <Switch
+                  id="includeAnnouncements"
+                  checked={includeAnnouncements}
+                  onCheckedChange={setIncludeAnnouncements}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="includeAdvertisements" className="cursor-pointer">Copy advertisements</Label>
+                <Switch
+                  id="includeAdvertisements"
+                  checked={includeAdvertisements}
+                  onCheckedChange={setIncludeAdvertisements}
+                />
+              </div>
+            </div>
+
+            <DialogFooter className="flex-col sm:flex-row gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="w-full sm:w-auto">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting} variant="golden" className="w-full sm:w-auto">
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Program
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
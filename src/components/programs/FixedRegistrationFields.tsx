@@ -28,12 +28,15 @@ interface FixedRegistrationFieldsProps {
   values: FixedFieldValues;
   onChange: (values: FixedFieldValues) => void;
   errors?: Partial<Record<keyof FixedFieldValues, string>>;
+  // Shown but not editable, e.g. mobile and panchayath when an applicant edits a registration
+  lockedFields?: (keyof FixedFieldValues)[];
 }
 
 export function FixedRegistrationFields({
   values,
   onChange,
   errors,
+  lockedFields = [],
 }: FixedRegistrationFieldsProps) {
   const [panchayaths, setPanchayaths] = useState<Panchayath[]>([]);
   const [wards, setWards] = useState<string[]>([]);
@@ -139,6 +142,7 @@ export function FixedRegistrationFields({
           onChange={handleMobileChange}
           placeholder="Enter 10-digit mobile number"
           maxLength={10}
+          disabled={lockedFields.includes("mobile")}
           className={errors?.mobile ? "border-destructive" : ""}
         />
         {errors?.mobile && (
@@ -165,6 +169,7 @@ export function FixedRegistrationFields({
           <Select
             value={values.panchayath_id}
             onValueChange={handlePanchayathChange}
+            disabled={lockedFields.includes("panchayath_id")}
           >
             <SelectTrigger className={errors?.panchayath_id ? "border-destructive" : ""}>
               <SelectValue placeholder="Select panchayath" />
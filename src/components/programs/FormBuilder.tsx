@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import type { Json } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,8 +25,35 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Plus, Trash2, GripVertical, FileText, Loader2 } from "lucide-react";
+import { Plus, Trash2, ChevronUp, ChevronDown, FileText, Loader2, SplitSquareVertical } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { ProgramFormQuestion } from "@/hooks/usePrograms";
+import {
+  cleanQuestionConfig,
+  DEFAULT_MAX_FILE_SIZE_MB,
+  DEFAULT_RATING_SCALE,
+  FILE_ACCEPT,
+  type FileAcceptKind,
+  getQuestionConfig,
+  getQuestionTypeLabel,
+  MAX_FILE_SIZE_MB,
+  OPTION_QUESTION_TYPES,
+  QUESTION_TYPES,
+  type QuestionConfig,
+  RATING_SCALES,
+} from "@/lib/formQuestions";
+import {
+  getInputQuestions,
+  getSkipTargets,
+  getVisibilityRule,
+  isSection,
+  SECTION_QUESTION_TYPE,
+  SKIP_QUESTION_TYPES,
+  type VisibilityRule,
+} from "@/lib/formLogic";
+import { AUTO_SCORE_QUESTION_TYPES, DEFAULT_MAX_MARKS, isAutoScored, isScoredQuestion } from "@/lib/formScoring";
+import { SkipLogicEditor, VisibilityRuleEditor } from "./QuestionLogicEditor";
+import { QuestionScoringEditor } from "./QuestionScoringEditor";
 
 interface FormBuilderProps {
   programId: string;
@@ -32,15 +61,6 @@ interface FormBuilderProps {
   onQuestionsChange: () => void;
 }
 
-const QUESTION_TYPES = [
-  { value: "text", label: "Short Text" },
-  { value: "phone", label: "Phone" },
-  { value: "select", label: "Dropdown" },
-  { value: "radio", label: "Single Choice (Radio)" },
-  { value: "checkbox", label: "Multiple Choice (Checkbox)" },
-  { value: "multi_text", label: "Multiple Answers (Add More)" },
-];
-
 export function FormBuilder({ programId, questions, onQuestionsChange }: FormBuilderProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -51,17 +71,39 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
   const [questionType, setQuestionType] = useState("text");
   const [isRequired, setIsRequired] = useState(false);
   const [options, setOptions] = useState("");
+  const [config, setConfig] = useState<QuestionConfig>({});
+  const [visibilityRule, setVisibilityRule] = useState<VisibilityRule | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
 
   const { toast } = useToast();
   const { adminToken } = useAuth();
 
   const sortedQuestions = [...questions].sort((a, b) => a.sort_order - b.sort_order);
 
+  const callAdminQuestionsApi = async (action: string, data: Record<string, unknown>) => {
+    const response = await invokeAdminFunction("admin-form-questions", {
+      body: { action, data },
+      headers: adminToken ? { "x-admin-token": adminToken } : {},
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || "API call failed");
+    }
+
+    if ((response.data as any)?.error) {
+      throw new Error((response.data as any).error);
+    }
+
+    return response.data;
+  };
+
   const resetForm = () => {
     setQuestionText("");
     setQuestionType("text");
     setIsRequired(false);
     setOptions("");
+    setConfig({});
+    setVisibilityRule(null);
     setEditingQuestion(null);
   };
 
@@ -73,6 +115,8 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
     setOptions(
       question.options ? (question.options as string[]).join("\n") : ""
     );
+    setConfig(getQuestionConfig(question));
+    setVisibilityRule(getVisibilityRule(question));
     setIsDialogOpen(true);
   };
 
@@ -86,6 +130,16 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
       return;
     }
 
+    const configError = validateConfig();
+    if (configError) {
+      toast({
+        title: "Error",
+        description: configError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -93,33 +147,21 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
         program_id: programId,
         question_text: questionText.trim(),
         question_type: questionType,
-        is_required: isRequired,
+        is_required: isSectionType ? false : isRequired,
         options:
-          ["select", "radio", "checkbox"].includes(questionType) && options.trim()
+          OPTION_QUESTION_TYPES.includes(questionType) && options.trim()
             ? options
                 .split("\n")
                 .map((o) => o.trim())
                 .filter(Boolean)
             : null,
-        sort_order: editingQuestion?.sort_order ?? sortedQuestions.length,
+        config: cleanQuestionConfig(questionType, getSavedConfig()) as Json,
+        visibility_rule: visibilityRule as unknown as Json,
+        sort_order:
+          editingQuestion?.sort_order ??
+          Math.max(-1, ...sortedQuestions.map((q) => q.sort_order)) + 1,
       };
 
-      const callAdminQuestionsApi = async (action: string, data: Record<string, unknown>) => {
-        const response = await supabase.functions.invoke("admin-form-questions", {
-          body: { action, data },
-          headers: adminToken ? { "x-admin-token": adminToken } : {},
-        });
-
-        if (response.error) {
-          throw new Error(response.error.message || "API call failed");
-        }
-
-        if ((response.data as any)?.error) {
-          throw new Error((response.data as any).error);
-        }
-
-        return response.data;
-      };
 
       if (editingQuestion) {
         if (adminToken) {
@@ -169,7 +211,7 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
   const handleDelete = async (questionId: string) => {
     try {
       if (adminToken) {
-        const response = await supabase.functions.invoke("admin-form-questions", {
+        const response = await invokeAdminFunction("admin-form-questions", {
           body: { action: "delete", data: { id: questionId } },
           headers: { "x-admin-token": adminToken },
         });
@@ -199,7 +241,101 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
     }
   };
 
-  const needsOptions = ["select", "radio", "checkbox"].includes(questionType);
+  const needsOptions = OPTION_QUESTION_TYPES.includes(questionType);
+  const isSectionType = questionType === SECTION_QUESTION_TYPE;
+
+  // Rules can only look back, and skips can only jump forward, from this question's position
+  const editingIndex = editingQuestion ? sortedQuestions.findIndex((q) => q.id === editingQuestion.id) : sortedQuestions.length;
+  const earlierQuestions = getInputQuestions(sortedQuestions.slice(0, editingIndex));
+  const laterSections = sortedQuestions.slice(editingIndex + 1).filter(isSection);
+  const choiceList =
+    questionType === "yes_no"
+      ? ["yes", "no"]
+      : OPTION_QUESTION_TYPES.includes(questionType)
+        ? options.split("\n").map((o) => o.trim()).filter(Boolean)
+        : [];
+  const skipChoices = SKIP_QUESTION_TYPES.includes(questionType) ? choiceList : [];
+
+  // Swap with the neighbouring question; section breaks move the same way
+  const moveQuestion = async (index: number, direction: -1 | 1) => {
+    const current = sortedQuestions[index];
+    const neighbour = sortedQuestions[index + direction];
+    if (!current || !neighbour) return;
+
+    setMovingId(current.id);
+    try {
+      const updates = [
+        { id: current.id, sort_order: neighbour.sort_order === current.sort_order ? current.sort_order + direction : neighbour.sort_order },
+        { id: neighbour.id, sort_order: current.sort_order },
+      ];
+      for (const update of updates) {
+        if (adminToken) {
+          await callAdminQuestionsApi("update", update);
+        } else {
+          const { error } = await supabase
+            .from("program_form_questions")
+            .update({ sort_order: update.sort_order })
+            .eq("id", update.id);
+          if (error) throw error;
+        }
+      }
+      onQuestionsChange();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to reorder questions",
+        variant: "destructive",
+      });
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const updateConfig = (changes: Partial<QuestionConfig>) => {
+    setConfig((prev) => ({ ...prev, ...changes }));
+  };
+
+  const numberOrNull = (value: string) => (value.trim() === "" ? null : Number(value));
+
+  // Points for options that were removed, and rubric levels left blank, are not kept
+  const getSavedConfig = (): QuestionConfig => {
+    const optionPoints = Object.fromEntries(
+      Object.entries(config.option_points ?? {}).filter(([choice]) => choiceList.includes(choice))
+    );
+    const rubric = (config.rubric ?? []).filter((level) => level.description.trim());
+    return {
+      ...config,
+      option_points: Object.keys(optionPoints).length > 0 ? optionPoints : undefined,
+      rubric: rubric.length > 0 ? rubric : undefined,
+    };
+  };
+
+  const validateConfig = (): string | null => {
+    if (questionType === "number" && config.min != null && config.max != null && config.min > config.max) {
+      return "Minimum cannot be greater than maximum";
+    }
+    if (questionType === "date" && config.min_date && config.max_date && config.min_date > config.max_date) {
+      return "Earliest date cannot be after the latest date";
+    }
+    if (questionType === "file" && config.max_size_mb != null && (config.max_size_mb < 1 || config.max_size_mb > MAX_FILE_SIZE_MB)) {
+      return `Maximum file size must be between 1 and ${MAX_FILE_SIZE_MB} MB`;
+    }
+    if (config.max_marks != null && !(config.max_marks > 0)) {
+      return "Max marks must be more than 0";
+    }
+    if (config.weight != null && !(config.weight > 0)) {
+      return "Weight must be more than 0";
+    }
+    const maxMarks = config.max_marks ?? DEFAULT_MAX_MARKS;
+    if (AUTO_SCORE_QUESTION_TYPES.includes(questionType) &&
+      Object.values(config.option_points ?? {}).some((points) => points < 0 || points > maxMarks)) {
+      return `Points for each answer must be between 0 and ${maxMarks}`;
+    }
+    if ((config.rubric ?? []).some((level) => level.points < 0 || level.points > maxMarks)) {
+      return `Rubric points must be between 0 and ${maxMarks}`;
+    }
+    return null;
+  };
 
   return (
     <>
@@ -233,18 +369,54 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
               {sortedQuestions.map((question, index) => (
                 <div
                   key={question.id}
-                  className="flex items-center gap-3 p-3 border rounded-lg bg-muted/50"
+                  className={`flex items-center gap-3 p-3 border rounded-lg ${
+                    isSection(question) ? "bg-primary/5 border-primary/30 mt-4" : "bg-muted/50"
+                  }`}
                 >
-                  <GripVertical className="h-4 w-4 text-muted-foreground cursor-move" />
+                  <div className="flex flex-col">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={() => moveQuestion(index, -1)}
+                      disabled={index === 0 || movingId !== null}
+                      title="Move up"
+                    >
+                      <ChevronUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={() => moveQuestion(index, 1)}
+                      disabled={index === sortedQuestions.length - 1 || movingId !== null}
+                      title="Move down"
+                    >
+                      <ChevronDown className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
                   <div className="flex-1">
-                    <div className="flex items-center gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {isSection(question) && <SplitSquareVertical className="h-4 w-4 text-primary" />}
                       <span className="font-medium">{question.question_text}</span>
                       {question.is_required && (
                         <span className="text-xs text-destructive">*Required</span>
                       )}
+                      {getVisibilityRule(question) && (
+                        <Badge variant="outline" className="text-[10px]">Conditional</Badge>
+                      )}
+                      {Object.keys(getSkipTargets(question)).length > 0 && (
+                        <Badge variant="outline" className="text-[10px]">Skip logic</Badge>
+                      )}
+                      {!isSection(question) && !isScoredQuestion(question) && (
+                        <Badge variant="outline" className="text-[10px]">Not scored</Badge>
+                      )}
+                      {isScoredQuestion(question) && isAutoScored(question) && (
+                        <Badge variant="outline" className="text-[10px]">Auto-scored</Badge>
+                      )}
                     </div>
-                    <span className="text-xs text-muted-foreground capitalize">
-                      {question.question_type.replace("_", " ")}
+                    <span className="text-xs text-muted-foreground">
+                      {getQuestionTypeLabel(question.question_type)}
                     </span>
                   </div>
                   <Button
@@ -288,12 +460,14 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
 
           <div className="space-y-4 py-2">
             <div className="space-y-2">
-              <Label htmlFor="questionText" className="text-sm font-medium">Question Text</Label>
+              <Label htmlFor="questionText" className="text-sm font-medium">
+                {isSectionType ? "Section Title" : "Question Text"}
+              </Label>
               <Input
                 id="questionText"
                 value={questionText}
                 onChange={(e) => setQuestionText(e.target.value)}
-                placeholder="Enter your question"
+                placeholder={isSectionType ? "e.g. Education details" : "Enter your question"}
               />
             </div>
 
@@ -327,14 +501,204 @@ export function FormBuilder({ programId, questions, onQuestionsChange }: FormBui
               </div>
             )}
 
-            <div className="flex items-center gap-3 py-2">
-              <Switch
-                id="isRequired"
-                checked={isRequired}
-                onCheckedChange={setIsRequired}
+            {questionType === "textarea" && (
+              <div className="space-y-2">
+                <Label htmlFor="maxLength" className="text-sm font-medium">Maximum characters (optional)</Label>
+                <Input
+                  id="maxLength"
+                  type="number"
+                  min={1}
+                  value={config.max_length ?? ""}
+                  onChange={(e) => updateConfig({ max_length: numberOrNull(e.target.value) })}
+                  placeholder="No limit"
+                />
+              </div>
+            )}
+
+            {questionType === "number" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="minValue" className="text-sm font-medium">Minimum</Label>
+                  <Input
+                    id="minValue"
+                    type="number"
+                    value={config.min ?? ""}
+                    onChange={(e) => updateConfig({ min: numberOrNull(e.target.value) })}
+                    placeholder="No minimum"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxValue" className="text-sm font-medium">Maximum</Label>
+                  <Input
+                    id="maxValue"
+                    type="number"
+                    value={config.max ?? ""}
+                    onChange={(e) => updateConfig({ max: numberOrNull(e.target.value) })}
+                    placeholder="No maximum"
+                  />
+                </div>
+              </div>
+            )}
+
+            {questionType === "date" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="minDate" className="text-sm font-medium">Earliest date</Label>
+                  <Input
+                    id="minDate"
+                    type="date"
+                    value={config.min_date ?? ""}
+                    onChange={(e) => updateConfig({ min_date: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxDate" className="text-sm font-medium">Latest date</Label>
+                  <Input
+                    id="maxDate"
+                    type="date"
+                    value={config.max_date ?? ""}
+                    onChange={(e) => updateConfig({ max_date: e.target.value || null })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {questionType === "rating" && (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Scale</Label>
+                  <Select
+                    value={String(config.scale ?? DEFAULT_RATING_SCALE)}
+                    onValueChange={(v) => updateConfig({ scale: Number(v) })}
+                  >
+                    <SelectTrigger className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RATING_SCALES.map((scale) => (
+                        <SelectItem key={scale} value={String(scale)}>
+                          1 to {scale}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="lowLabel" className="text-sm font-medium">Lowest label</Label>
+                    <Input
+                      id="lowLabel"
+                      value={config.low_label ?? ""}
+                      onChange={(e) => updateConfig({ low_label: e.target.value })}
+                      placeholder="e.g. Poor"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="highLabel" className="text-sm font-medium">Highest label</Label>
+                    <Input
+                      id="highLabel"
+                      value={config.high_label ?? ""}
+                      onChange={(e) => updateConfig({ high_label: e.target.value })}
+                      placeholder="e.g. Excellent"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {questionType === "file" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Allowed files</Label>
+                  <Select
+                    value={config.accept ?? "image"}
+                    onValueChange={(v) => updateConfig({ accept: v as FileAcceptKind })}
+                  >
+                    <SelectTrigger className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FILE_ACCEPT) as FileAcceptKind[]).map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {FILE_ACCEPT[kind].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxSize" className="text-sm font-medium">Max size (MB)</Label>
+                  <Input
+                    id="maxSize"
+                    type="number"
+                    min={1}
+                    max={MAX_FILE_SIZE_MB}
+                    value={config.max_size_mb ?? ""}
+                    onChange={(e) => updateConfig({ max_size_mb: numberOrNull(e.target.value) ?? undefined })}
+                    placeholder={String(DEFAULT_MAX_FILE_SIZE_MB)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {isSectionType && (
+              <div className="space-y-2">
+                <Label htmlFor="sectionDescription" className="text-sm font-medium">Description (optional)</Label>
+                <Textarea
+                  id="sectionDescription"
+                  value={config.description ?? ""}
+                  onChange={(e) => updateConfig({ description: e.target.value })}
+                  placeholder="Shown at the top of this page of the form"
+                  rows={3}
+                  className="text-base resize-none"
+                />
+              </div>
+            )}
+
+            {SKIP_QUESTION_TYPES.includes(questionType) && (
+              <SkipLogicEditor
+                choices={skipChoices}
+                skipTo={config.skip_to ?? {}}
+                onChange={(skipTo) => updateConfig({ skip_to: skipTo })}
+                laterSections={laterSections}
               />
-              <Label htmlFor="isRequired" className="text-sm font-medium cursor-pointer">Required field</Label>
-            </div>
+            )}
+
+            <VisibilityRuleEditor
+              rule={visibilityRule}
+              onChange={setVisibilityRule}
+              earlierQuestions={earlierQuestions}
+            />
+
+            {!isSectionType && (
+              <QuestionScoringEditor
+                questionType={questionType}
+                questionText={questionText}
+                choices={choiceList}
+                config={config}
+                onChange={updateConfig}
+              />
+            )}
+
+            {questionType === "aadhaar" && (
+              <p className="text-xs text-muted-foreground">
+                Applicants must enter a 12-digit Aadhaar number; the check digit is verified on entry and on submission.
+              </p>
+            )}
+
+            {!isSectionType && (
+              <div className="flex items-center gap-3 py-2">
+                <Switch
+                  id="isRequired"
+                  checked={isRequired}
+                  onCheckedChange={setIsRequired}
+                />
+                <Label htmlFor="isRequired" className="text-sm font-medium cursor-pointer">Required field</Label>
+              </div>
+            )}
+            {!isSectionType && visibilityRule && isRequired && (
+              <p className="text-xs text-muted-foreground -mt-2">Only required while the question is shown.</p>
+            )}
           </div>
 
           <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:gap-2">
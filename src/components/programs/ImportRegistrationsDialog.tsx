@@ -0,0 +1,389 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import * as XLSX from "xlsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { getQuestionTypeLabel } from "@/lib/formQuestions";
+import {
+  autoMapColumns,
+  buildImportRows,
+  getImportableQuestions,
+  IMPORT_FIXED_FIELDS,
+  type ImportPanchayath,
+  type ImportRow,
+  type SpreadsheetRow,
+} from "@/lib/registrationImport";
+
+type Step = "file" | "map" | "preview" | "done";
+
+// Matches MAX_IMPORT_BATCH in submit-registration
+const IMPORT_BATCH_SIZE = 50;
+const NOT_IMPORTED = "__none";
+const PREVIEW_ERROR_ROWS = 50;
+
+interface ImportFailure {
+  rowNumber: number;
+  message: string;
+}
+
+interface ImportRegistrationsDialogProps {
+  programId: string;
+  questions: ProgramFormQuestion[];
+  allowDuplicateMobile: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function ImportRegistrationsDialog({
+  programId,
+  questions,
+  allowDuplicateMobile,
+  open,
+  onOpenChange,
+  onImported,
+}: ImportRegistrationsDialogProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("file");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<SpreadsheetRow[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [panchayaths, setPanchayaths] = useState<ImportPanchayath[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [imported, setImported] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+
+  const importable = useMemo(() => getImportableQuestions(questions), [questions]);
+  const skippedFileQuestions = questions.filter((q) => q.question_type === "file");
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("file");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setProgress(null);
+    setImported(0);
+    setFailures([]);
+
+    supabase
+      .from("panchayaths")
+      .select("id, name, name_ml, ward")
+      .eq("is_active", true)
+      .order("name")
+      .then(({ data }) => setPanchayaths(data || []));
+  }, [open]);
+
+  const importRows = useMemo<ImportRow[]>(
+    () => (step === "preview" ? buildImportRows(rows, mapping, questions, panchayaths, allowDuplicateMobile) : []),
+    [step, rows, mapping, questions, panchayaths, allowDuplicateMobile]
+  );
+  const validRows = importRows.filter((r) => r.errors.length === 0);
+  const invalidRows = importRows.filter((r) => r.errors.length > 0);
+  const missingRequired = IMPORT_FIXED_FIELDS.filter((f) => !mapping[f.key]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const wb = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+      const ws = wb.Sheets[wb.SheetNames[0]];
+      const json = XLSX.utils.sheet_to_json<SpreadsheetRow>(ws, { defval: "" });
+
+      if (json.length === 0) {
+        toast({ title: "Empty file", description: "No data rows found", variant: "destructive" });
+        return;
+      }
+
+      const cols = Object.keys(json[0]);
+      setFileName(file.name);
+      setHeaders(cols);
+      setRows(json);
+      setMapping(autoMapColumns(cols, questions));
+      setStep("map");
+    } catch (err) {
+      console.error("Error reading spreadsheet:", err);
+      toast({ title: "Could not read file", description: "Choose an .xlsx, .xls or .csv file", variant: "destructive" });
+    }
+  };
+
+  const setColumn = (key: string, header: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (header === NOT_IMPORTED) delete next[key];
+      else next[key] = header;
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const toImport = validRows;
+    setProgress({ done: 0, total: toImport.length });
+    let importedCount = 0;
+    const failed: ImportFailure[] = [];
+
+    for (let i = 0; i < toImport.length; i += IMPORT_BATCH_SIZE) {
+      const batch = toImport.slice(i, i + IMPORT_BATCH_SIZE);
+      const { data, error } = await invokeAdminFunction("submit-registration", {
+        headers: adminToken ? { "x-admin-token": adminToken } : {},
+        body: {
+          program_id: programId,
+          registrations: batch.map((row) => ({ fixed: row.fixed, answers: row.answers })),
+        },
+      });
+
+      if (error) {
+        const message = await getFunctionErrorMessage(error, "Import failed");
+        batch.forEach((row) => failed.push({ rowNumber: row.rowNumber, message }));
+      } else {
+        importedCount += data.imported;
+        for (const result of data.results as { index: number; error?: string; field_errors?: Record<string, string> }[]) {
+          if (!result.error) continue;
+          const details = Object.values(result.field_errors ?? {});
+          failed.push({
+            rowNumber: batch[result.index].rowNumber,
+            message: details.length > 0 ? details.join("; ") : result.error,
+          });
+        }
+      }
+      setProgress({ done: Math.min(i + IMPORT_BATCH_SIZE, toImport.length), total: toImport.length });
+    }
+
+    setImported(importedCount);
+    setFailures(failed);
+    setProgress(null);
+    setStep("done");
+    if (importedCount > 0) onImported();
+  };
+
+  const isImporting = progress !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isImporting && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Registrations
+          </DialogTitle>
+          <DialogDescription>
+            {step === "file" && "Upload a spreadsheet of registrations collected on paper, one applicant per row."}
+            {step === "map" && `${rows.length} rows in ${fileName}. Match its columns to the registration form.`}
+            {step === "preview" && "Rows are checked the same way as the registration form."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-3">
+            <input ref={fileRef} type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} className="hidden" />
+            <Button variant="outline" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" /> Choose File
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              The first row must hold the column headers. Columns named like the form fields and questions are
+              matched automatically. Panchayaths can be written in English or Malayalam; dates as dd/mm/yyyy.
+            </p>
+            {skippedFileQuestions.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                File uploads cannot be imported and are left empty:{" "}
+                {skippedFileQuestions.map((q) => q.question_text).join(", ")}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {[
+              ...IMPORT_FIXED_FIELDS.map((f) => ({ key: f.key, label: f.label, required: true, hint: null })),
+              ...importable.map((q) => ({
+                key: q.id,
+                label: q.question_text,
+                required: q.is_required,
+                hint: getQuestionTypeLabel(q.question_type),
+              })),
+            ].map((field) => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-sm font-medium block truncate" title={field.label}>
+                  {field.label}
+                  {field.required && <span className="text-destructive ml-1">*</span>}
+                  {field.hint && <span className="ml-2 text-xs font-normal text-muted-foreground">{field.hint}</span>}
+                </label>
+                <Select value={mapping[field.key] ?? NOT_IMPORTED} onValueChange={(v) => setColumn(field.key, v)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_IMPORTED}>— Not imported —</SelectItem>
+                    {headers.map((h) => (
+                      <SelectItem key={h} value={h}>{h}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle2 className="h-3 w-3" />
+                {validRows.length} ready
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="outline" className="gap-1 bg-destructive/10 text-destructive">
+                  <AlertTriangle className="h-3 w-3" />
+                  {invalidRows.length} with problems (not imported)
+                </Badge>
+              )}
+            </div>
+
+            {invalidRows.length > 0 && (
+              <div className="overflow-x-auto rounded border max-h-64">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invalidRows.slice(0, PREVIEW_ERROR_ROWS).map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                        <TableCell className="text-xs">{row.fixed.name || "-"}</TableCell>
+                        <TableCell className="text-xs text-destructive">{row.errors.join("; ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {invalidRows.length > PREVIEW_ERROR_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                and {invalidRows.length - PREVIEW_ERROR_ROWS} more rows with problems
+              </p>
+            )}
+
+            {validRows.length > 0 && (
+              <div className="overflow-x-auto rounded border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Mobile</TableHead>
+                      <TableHead>Panchayath</TableHead>
+                      <TableHead>Ward</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {validRows.slice(0, 5).map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                        <TableCell className="text-xs">{row.fixed.name}</TableCell>
+                        <TableCell className="text-xs">{row.fixed.mobile}</TableCell>
+                        <TableCell className="text-xs">{row.fixed.panchayath_name}</TableCell>
+                        <TableCell className="text-xs">{row.fixed.ward}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  Imported {progress.done} of {progress.total}...
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+              {imported} registration{imported === 1 ? "" : "s"} imported
+            </div>
+            {failures.length > 0 && (
+              <div className="rounded border p-3 space-y-1 max-h-64 overflow-y-auto">
+                <p className="text-sm font-medium text-destructive">{failures.length} rows were not imported</p>
+                {failures.map((f) => (
+                  <p key={f.rowNumber} className="text-xs text-muted-foreground">
+                    Row {f.rowNumber}: {f.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("file")}>
+                Back
+              </Button>
+              <Button
+                onClick={() => setStep("preview")}
+                disabled={missingRequired.length > 0}
+                title={missingRequired.length > 0 ? `Choose columns for ${missingRequired.map((f) => f.label).join(", ")}` : undefined}
+              >
+                Check Rows
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={isImporting}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || validRows.length === 0}>
+                {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {validRows.length} Registration{validRows.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => onOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
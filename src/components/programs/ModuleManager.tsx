@@ -1,12 +1,12 @@
 import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Megaphone, FileText, Video, Globe } from "lucide-react";
+import { Megaphone, FileText, Video, Globe, QrCode } from "lucide-react";
 import { ProgramModule } from "@/hooks/usePrograms";
 interface ModuleManagerProps {
   programId: string;
@@ -33,6 +33,14 @@ const MODULE_TYPES = [
     description: "Display promotional content for the program",
     icon: Video,
   },
+  {
+    type: "attendance",
+    label: "Attendance",
+    description: "Check participants in at each session by scanning their QR codes",
+    icon: QrCode,
+    // Used by admins at the venue only, so there is nothing to publish
+    adminOnly: true,
+  },
 ];
 
 export function ModuleManager({ programId, modules, onModulesChange }: ModuleManagerProps) {
@@ -43,7 +51,7 @@ export function ModuleManager({ programId, modules, onModulesChange }: ModuleMan
   const getModule = (type: string) => modules.find((m) => m.module_type === type);
 
   const callAdminModulesApi = async (action: string, data: Record<string, unknown>) => {
-    const response = await supabase.functions.invoke("admin-modules", {
+    const response = await invokeAdminFunction("admin-modules", {
       body: { action, data },
       headers: adminToken ? { "x-admin-token": adminToken } : {},
     });
@@ -144,6 +152,7 @@ export function ModuleManager({ programId, modules, onModulesChange }: ModuleMan
           const module = getModule(moduleType.type);
           const isEnabled = !!module;
           const isPublished = module?.is_published || false;
+          const canPublish = isEnabled && !moduleType.adminOnly;
           const Icon = moduleType.icon;
 
           return (
@@ -159,7 +168,7 @@ export function ModuleManager({ programId, modules, onModulesChange }: ModuleMan
                   <div className="min-w-0">
                     <div className="flex flex-wrap items-center gap-1.5 sm:gap-2">
                       <Label className="font-medium text-sm sm:text-base">{moduleType.label}</Label>
-                      {isEnabled && (
+                      {canPublish && (
                         <Badge variant={isPublished ? "default" : "secondary"} className="text-xs">
                           {isPublished ? "Published" : "Draft"}
                         </Badge>
@@ -184,7 +193,7 @@ export function ModuleManager({ programId, modules, onModulesChange }: ModuleMan
               </div>
               
               {/* Publish toggle shown below on mobile when enabled */}
-              {isEnabled && (
+              {canPublish && (
                 <div className="flex items-center justify-end gap-2 pt-2 border-t sm:hidden">
                   <Label htmlFor={`publish-mobile-${moduleType.type}`} className="text-xs">
                     Publish to public
@@ -199,7 +208,7 @@ export function ModuleManager({ programId, modules, onModulesChange }: ModuleMan
               )}
               
               {/* Desktop publish toggle */}
-              {isEnabled && (
+              {canPublish && (
                 <div className="hidden sm:flex items-center gap-2 justify-end -mt-8">
                   <Label htmlFor={`publish-${moduleType.type}`} className="text-sm">
                     Publish
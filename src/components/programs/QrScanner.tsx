@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { CameraOff, Loader2 } from "lucide-react";
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  paused?: boolean;
+  className?: string;
+}
+
+// The same code held in front of the camera is only reported again after this long
+const REPEAT_AFTER_MS = 3000;
+// Frames are scaled down before decoding; plenty for a printed QR code and much faster
+const MAX_DECODE_WIDTH = 640;
+
+// Reads QR codes from the back camera, decoding frames in the browser
+export function QrScanner({ onScan, paused = false, className = "" }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [status, setStatus] = useState<"starting" | "scanning" | "unavailable">("starting");
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    let last = { value: "", at: 0 };
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    const tick = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && context && !pausedRef.current && video.readyState === video.HAVE_ENOUGH_DATA) {
+        const scale = Math.min(1, MAX_DECODE_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+        const now = Date.now();
+        if (code?.data && (code.data !== last.value || now - last.at > REPEAT_AFTER_MS)) {
+          last = { value: code.data, at: now };
+          onScanRef.current(code.data);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setStatus("scanning");
+        frame = requestAnimationFrame(tick);
+      } catch (err) {
+        console.error("Camera error:", err);
+        if (!stopped) setStatus("unavailable");
+      }
+    };
+
+    if (navigator.mediaDevices?.getUserMedia) start();
+    else setStatus("unavailable");
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className={`relative overflow-hidden rounded-lg bg-black aspect-square ${className}`}>
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      {status === "scanning" && (
+        <div className="pointer-events-none absolute inset-[15%] rounded-lg border-4 border-white/70" />
+      )}
+      {status !== "scanning" && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-white/80">
+          {status === "starting" ? (
+            <Loader2 className="h-8 w-8 animate-spin" />
+          ) : (
+            <>
+              <CameraOff className="h-8 w-8" />
+              The camera is not available. Allow camera access, or type the code below.
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
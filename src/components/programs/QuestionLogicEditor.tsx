@@ -0,0 +1,231 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { ProgramFormQuestion } from "@/hooks/usePrograms";
+import {
+  CONDITION_OPERATORS,
+  type ConditionOperator,
+  SKIP_TO_END,
+  type VisibilityCondition,
+  type VisibilityRule,
+} from "@/lib/formLogic";
+
+const CONTINUE = "__continue";
+
+function answerChoices(question: ProgramFormQuestion | undefined): string[] {
+  if (!question) return [];
+  if (question.question_type === "yes_no") return ["yes", "no"];
+  if (["select", "radio", "checkbox"].includes(question.question_type)) return (question.options as string[]) || [];
+  return [];
+}
+
+interface VisibilityRuleEditorProps {
+  rule: VisibilityRule | null;
+  onChange: (rule: VisibilityRule | null) => void;
+  // Only questions that come before this one can be referenced
+  earlierQuestions: ProgramFormQuestion[];
+}
+
+export function VisibilityRuleEditor({ rule, onChange, earlierQuestions }: VisibilityRuleEditorProps) {
+  const conditions = rule?.conditions ?? [];
+
+  const updateCondition = (index: number, changes: Partial<VisibilityCondition>) => {
+    onChange({
+      match: rule?.match ?? "all",
+      conditions: conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const addCondition = () => {
+    if (earlierQuestions.length === 0) return;
+    onChange({
+      match: rule?.match ?? "all",
+      conditions: [...conditions, { question_id: earlierQuestions[earlierQuestions.length - 1].id, operator: "equals", value: "" }],
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    const remaining = conditions.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? { match: rule?.match ?? "all", conditions: remaining } : null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm font-medium">Show this</Label>
+        <Select
+          value={conditions.length === 0 ? "always" : "conditional"}
+          onValueChange={(v) => (v === "always" ? onChange(null) : addCondition())}
+          disabled={earlierQuestions.length === 0}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="always">Always</SelectItem>
+            <SelectItem value="conditional">Only when…</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {earlierQuestions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Conditions can only use questions that come before this one.</p>
+      )}
+
+      {conditions.length > 0 && (
+        <>
+          {conditions.length > 1 && (
+            <Select
+              value={rule?.match ?? "all"}
+              onValueChange={(v) => onChange({ match: v as VisibilityRule["match"], conditions })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All of these are true</SelectItem>
+                <SelectItem value="any">Any of these is true</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          {conditions.map((condition, index) => {
+            const source = earlierQuestions.find((q) => q.id === condition.question_id);
+            const choices = answerChoices(source);
+            const operator = CONDITION_OPERATORS.find((o) => o.value === condition.operator);
+            return (
+              <div key={index} className="space-y-2 rounded-md bg-muted/50 p-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={source ? condition.question_id : undefined}
+                    onValueChange={(v) => updateCondition(index, { question_id: v, value: "" })}
+                  >
+                    <SelectTrigger className="h-8 flex-1 text-xs">
+                      <SelectValue placeholder="Question (deleted)" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {earlierQuestions.map((q) => (
+                        <SelectItem key={q.id} value={q.id}>
+                          {q.question_text}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => removeCondition(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(v) => updateCondition(index, { operator: v as ConditionOperator })}
+                  >
+                    <SelectTrigger className="h-8 w-[140px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONDITION_OPERATORS.map((o) => (
+                        <SelectItem key={o.value} value={o.value}>
+                          {o.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {operator?.needsValue &&
+                    (choices.length > 0 ? (
+                      <Select
+                        value={condition.value || undefined}
+                        onValueChange={(v) => updateCondition(index, { value: v })}
+                      >
+                        <SelectTrigger className="h-8 flex-1 text-xs">
+                          <SelectValue placeholder="Choose answer" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {choices.map((choice) => (
+                            <SelectItem key={choice} value={choice}>
+                              {choice === "yes" ? "Yes" : choice === "no" ? "No" : choice}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        className="h-8 flex-1 text-xs"
+                        value={condition.value ?? ""}
+                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                        placeholder="Value"
+                      />
+                    ))}
+                </div>
+              </div>
+            );
+          })}
+
+          <Button type="button" variant="outline" size="sm" onClick={addCondition}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add condition
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface SkipLogicEditorProps {
+  choices: string[];
+  skipTo: Record<string, string>;
+  onChange: (skipTo: Record<string, string>) => void;
+  // Only sections after this question can be skipped to
+  laterSections: ProgramFormQuestion[];
+}
+
+export function SkipLogicEditor({ choices, skipTo, onChange, laterSections }: SkipLogicEditorProps) {
+  if (choices.length === 0) return null;
+
+  const setTarget = (choice: string, target: string) => {
+    const next = { ...skipTo };
+    if (target === CONTINUE) delete next[choice];
+    else next[choice] = target;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <Label className="text-sm font-medium">After answering, go to</Label>
+      {choices.map((choice) => (
+        <div key={choice} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-sm">
+            {choice === "yes" ? "Yes" : choice === "no" ? "No" : choice}
+          </span>
+          <Select value={skipTo[choice] ?? CONTINUE} onValueChange={(v) => setTarget(choice, v)}>
+            <SelectTrigger className="h-8 w-[190px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CONTINUE}>Next section</SelectItem>
+              {laterSections.map((section) => (
+                <SelectItem key={section.id} value={section.id}>
+                  {section.question_text}
+                </SelectItem>
+              ))}
+              <SelectItem value={SKIP_TO_END}>End of form</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, X } from "lucide-react";
+import type { QuestionConfig, RubricLevel } from "@/lib/formQuestions";
+import {
+  AUTO_SCORE_QUESTION_TYPES,
+  DEFAULT_MAX_MARKS,
+  DEFAULT_WEIGHT,
+  isScoredByDefault,
+} from "@/lib/formScoring";
+
+interface QuestionScoringEditorProps {
+  questionType: string;
+  questionText: string;
+  // Answers a choice question can have; empty for other types
+  choices: string[];
+  config: QuestionConfig;
+  onChange: (changes: Partial<QuestionConfig>) => void;
+}
+
+export function QuestionScoringEditor({ questionType, questionText, choices, config, onChange }: QuestionScoringEditorProps) {
+  const scored = config.scored ?? isScoredByDefault(questionText);
+  const optionPoints = config.option_points ?? {};
+  const canAutoScore = AUTO_SCORE_QUESTION_TYPES.includes(questionType) && choices.length > 0;
+  const isAutoScored = canAutoScore && choices.some((choice) => optionPoints[choice] !== undefined);
+  const rubric = config.rubric ?? [];
+
+  const numberOrUndefined = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+  const setOptionPoints = (choice: string, value: string) => {
+    const next = { ...optionPoints };
+    const points = numberOrUndefined(value);
+    if (points === undefined) delete next[choice];
+    else next[choice] = points;
+    onChange({ option_points: next });
+  };
+
+  const updateLevel = (index: number, changes: Partial<RubricLevel>) => {
+    onChange({ rubric: rubric.map((level, i) => (i === index ? { ...level, ...changes } : level)) });
+  };
+
+  const addLevel = () => {
+    onChange({ rubric: [...rubric, { points: 0, description: "" }] });
+  };
+
+  const removeLevel = (index: number) => {
+    onChange({ rubric: rubric.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="scored" className="text-sm font-medium cursor-pointer">Counts towards verification score</Label>
+        <Switch id="scored" checked={scored} onCheckedChange={(checked) => onChange({ scored: checked })} />
+      </div>
+
+      {scored && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="maxMarks" className="text-xs">Max marks</Label>
+              <Input
+                id="maxMarks"
+                type="number"
+                min={1}
+                value={config.max_marks ?? ""}
+                onChange={(e) => onChange({ max_marks: numberOrUndefined(e.target.value) })}
+                placeholder={String(DEFAULT_MAX_MARKS)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="weight" className="text-xs">Weight</Label>
+              <Input
+                id="weight"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={config.weight ?? ""}
+                onChange={(e) => onChange({ weight: numberOrUndefined(e.target.value) })}
+                placeholder={String(DEFAULT_WEIGHT)}
+              />
+            </div>
+          </div>
+
+          {canAutoScore && (
+            <div className="space-y-2">
+              <Label className="text-xs">Points per answer (leave all blank to mark by hand)</Label>
+              {choices.map((choice) => (
+                <div key={choice} className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-sm">
+                    {choice === "yes" ? "Yes" : choice === "no" ? "No" : choice}
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={optionPoints[choice] ?? ""}
+                    onChange={(e) => setOptionPoints(choice, e.target.value)}
+                    className="h-8 w-20 text-xs"
+                    placeholder="-"
+                  />
+                </div>
+              ))}
+              {questionType === "checkbox" && isAutoScored && (
+                <p className="text-xs text-muted-foreground">Points for every ticked option are added up, up to the max marks.</p>
+              )}
+            </div>
+          )}
+
+          {!isAutoScored && (
+            <div className="space-y-2">
+              <Label className="text-xs">Rubric for reviewers (optional)</Label>
+              {rubric.map((level, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={level.points}
+                    onChange={(e) => updateLevel(index, { points: Number(e.target.value) || 0 })}
+                    className="h-8 w-16 text-xs"
+                    aria-label="Points"
+                  />
+                  <Input
+                    value={level.description}
+                    onChange={(e) => updateLevel(index, { description: e.target.value })}
+                    className="h-8 flex-1 text-xs"
+                    placeholder="e.g. Clear plan with costs worked out"
+                  />
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeLevel(index)}>
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={addLevel}>
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                Add level
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { eachDayOfInterval, format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3, Loader2, MapPin, RefreshCw } from "lucide-react";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { getScoreChoices } from "@/lib/formScoring";
+import { REGISTRATION_STATUSES, getRegistrationStatusBadgeClass } from "@/lib/registrationStatus";
+
+// Shape of program_registration_analytics(), returned by admin-registrations?action=analytics
+interface RegistrationAnalyticsData {
+  total: number;
+  by_day: { date: string; count: number }[];
+  by_status: Record<string, number>;
+  by_panchayath: { panchayath: string; count: number; wards: { ward: string | null; count: number }[] }[];
+  verification: { verified: number; pending: number; conflict: number };
+  score_histogram: { from: number; to: number; count: number }[];
+  answers: Record<string, { responses: number; counts: Record<string, number> }>;
+}
+
+const CHOICE_QUESTION_TYPES = ["select", "radio", "checkbox", "yes_no"];
+
+const chartConfig = {
+  count: { label: "Registrations", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface RegistrationAnalyticsProps {
+  programId: string;
+  questions: ProgramFormQuestion[];
+  verificationEnabled: boolean;
+}
+
+function ShareBar({ value, max }: { value: number; max: number }) {
+  return (
+    <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+      <div className="h-full rounded-full bg-primary" style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }} />
+    </div>
+  );
+}
+
+export function RegistrationAnalytics({ programId, questions, verificationEnabled }: RegistrationAnalyticsProps) {
+  const [analytics, setAnalytics] = useState<RegistrationAnalyticsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { adminToken } = useAuth();
+
+  const fetchAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const params = new URLSearchParams({ action: "analytics", program_id: programId });
+    const { data, error: funcError } = await invokeAdminFunction("admin-registrations?" + params.toString(), {
+      method: "GET",
+      headers: adminToken ? { "x-admin-token": adminToken } : {},
+    });
+    if (funcError) {
+      setError(await getFunctionErrorMessage(funcError, "Failed to load analytics"));
+    } else {
+      setAnalytics(data.analytics);
+    }
+    setIsLoading(false);
+  }, [programId, adminToken]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  // Days without registrations are shown as zero so the timeline is not misleading
+  const timeline = useMemo(() => {
+    const days = analytics?.by_day ?? [];
+    if (days.length === 0) return [];
+    const counts = new Map(days.map((d) => [d.date, d.count]));
+    return eachDayOfInterval({ start: parseISO(days[0].date), end: parseISO(days[days.length - 1].date) }).map((day) => {
+      const key = format(day, "yyyy-MM-dd");
+      return { date: format(day, "MMM d"), count: counts.get(key) ?? 0 };
+    });
+  }, [analytics]);
+
+  const choiceQuestions = questions
+    .filter((q) => CHOICE_QUESTION_TYPES.includes(q.question_type))
+    .sort((a, b) => a.sort_order - b.sort_order);
+
+  if (isLoading && !analytics) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-3">
+          <p className="text-sm text-destructive">{error ?? "Failed to load analytics"}</p>
+          <Button variant="outline" size="sm" onClick={fetchAnalytics}>
+            Try again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const verifiedShare = analytics.total > 0 ? (analytics.verification.verified / analytics.total) * 100 : 0;
+  const maxPanchayathCount = Math.max(0, ...analytics.by_panchayath.map((p) => p.count));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <BarChart3 className="h-5 w-5" />
+              Analytics
+              <Badge variant="secondary">{analytics.total}</Badge>
+            </CardTitle>
+            <Button variant="ghost" size="icon" onClick={fetchAnalytics} disabled={isLoading} title="Refresh">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+          <CardDescription className="flex flex-wrap gap-1.5 pt-1">
+            {REGISTRATION_STATUSES.filter((s) => analytics.by_status[s.value]).map((s) => (
+              <Badge key={s.value} variant="outline" className={getRegistrationStatusBadgeClass(s.value)}>
+                {s.label}: {analytics.by_status[s.value]}
+              </Badge>
+            ))}
+          </CardDescription>
+        </CardHeader>
+        {verificationEnabled && (
+          <CardContent className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Verification progress</span>
+              <span className="text-muted-foreground">
+                {analytics.verification.verified} of {analytics.total} verified
+              </span>
+            </div>
+            <Progress value={verifiedShare} />
+            <p className="text-xs text-muted-foreground">
+              {analytics.verification.pending} pending
+              {analytics.verification.conflict > 0 && ` · ${analytics.verification.conflict} with reviewer disagreement`}
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {analytics.total === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            <p>No registrations yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Registrations over time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={timeline}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {verificationEnabled && analytics.verification.verified > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Score distribution</CardTitle>
+                <CardDescription>Verified registrations by score %</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                  <BarChart data={analytics.score_histogram.map((b) => ({ band: `${b.from}-${b.to}`, count: b.count }))}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="band" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={3} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                By panchayath and ward
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {analytics.by_panchayath.map((row) => (
+                <div key={row.panchayath} className="space-y-1">
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="w-36 truncate font-medium" title={row.panchayath}>{row.panchayath}</span>
+                    <ShareBar value={row.count} max={maxPanchayathCount} />
+                    <span className="w-10 text-right tabular-nums">{row.count}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 sm:pl-[9.75rem]">
+                    {row.wards.map((ward) => (
+                      <Badge key={ward.ward ?? "none"} variant="outline" className="text-[10px] font-normal">
+                        {ward.ward ? `Ward ${ward.ward}` : "No ward"}: {ward.count}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {choiceQuestions.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Answers</CardTitle>
+                <CardDescription>Share of applicants who answered each question</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {choiceQuestions.map((question) => {
+                  const stats = analytics.answers[question.id] ?? { responses: 0, counts: {} };
+                  // Configured options first, then any older answers no longer in the list
+                  const choices = getScoreChoices(question);
+                  const values = [...choices, ...Object.keys(stats.counts).filter((v) => !choices.includes(v))];
+                  return (
+                    <div key={question.id} className="space-y-1.5">
+                      <p className="text-sm font-medium">
+                        {question.question_text}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          {stats.responses} response{stats.responses === 1 ? "" : "s"}
+                        </span>
+                      </p>
+                      {values.map((value) => {
+                        const count = stats.counts[value] ?? 0;
+                        const label = value === "yes" ? "Yes" : value === "no" ? "No" : value;
+                        return (
+                          <div key={value} className="flex items-center gap-3 text-xs">
+                            <span className="w-36 truncate" title={label}>{label}</span>
+                            <ShareBar value={count} max={stats.responses} />
+                            <span className="w-20 text-right tabular-nums text-muted-foreground">
+                              {count}
+                              {stats.responses > 0 && ` (${Math.round((count / stats.responses) * 100)}%)`}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
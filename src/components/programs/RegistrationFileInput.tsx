@@ -0,0 +1,126 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { FileText, Image as ImageIcon, Loader2, Upload, X } from "lucide-react";
+import { ProgramFormQuestion } from "@/hooks/usePrograms";
+import {
+  DEFAULT_MAX_FILE_SIZE_MB,
+  FILE_ACCEPT,
+  type FileAnswer,
+  getQuestionConfig,
+  isFileAnswer,
+  REGISTRATION_UPLOADS_BUCKET,
+} from "@/lib/formQuestions";
+
+interface RegistrationFileInputProps {
+  programId: string;
+  question: ProgramFormQuestion;
+  value: unknown;
+  onChange: (value: FileAnswer | null) => void;
+}
+
+function matchesAccept(file: File, accept: string | undefined): boolean {
+  if (!accept) return true;
+  return accept.split(",").some((type) =>
+    type.endsWith("/*") ? file.type.startsWith(type.slice(0, -1)) : file.type === type
+  );
+}
+
+// Uploads as soon as a file is picked, so the registration only carries the storage path
+export function RegistrationFileInput({ programId, question, value, onChange }: RegistrationFileInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const config = getQuestionConfig(question);
+  const accept = FILE_ACCEPT[config.accept || "image"].accept;
+  const maxSizeMb = config.max_size_mb || DEFAULT_MAX_FILE_SIZE_MB;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+
+    if (!matchesAccept(file, accept)) {
+      setError(config.accept === "document" ? "Please choose a photo or PDF" : "Please choose a photo");
+      return;
+    }
+    if (file.size > maxSizeMb * 1024 * 1024) {
+      setError(`File must be smaller than ${maxSizeMb} MB`);
+      return;
+    }
+
+    setIsUploading(true);
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_").slice(-80);
+    const path = `programs/${programId}/${crypto.randomUUID()}-${safeName}`;
+    const { error: uploadError } = await supabase.storage
+      .from(REGISTRATION_UPLOADS_BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+    setIsUploading(false);
+
+    if (uploadError) {
+      console.error("Error uploading file:", uploadError);
+      setError("Upload failed. Please try again.");
+      return;
+    }
+
+    onChange({ path, name: file.name, size: file.size, type: file.type });
+  };
+
+  const uploaded = isFileAnswer(value) ? value : null;
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        capture={config.accept === "image" ? "environment" : undefined}
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+      {uploaded ? (
+        <div className="flex items-center gap-3 rounded-lg border p-3">
+          {uploaded.type.startsWith("image/") ? (
+            <ImageIcon className="h-5 w-5 text-primary shrink-0" />
+          ) : (
+            <FileText className="h-5 w-5 text-primary shrink-0" />
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{uploaded.name}</p>
+            <p className="text-xs text-muted-foreground">{(uploaded.size / 1024 / 1024).toFixed(2)} MB</p>
+          </div>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(null)} title="Remove file">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+        >
+          {isUploading ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            <>
+              <Upload className="h-4 w-4 mr-2" />
+              {config.accept === "image" || !config.accept ? "Upload Photo" : "Upload File"}
+            </>
+          )}
+        </Button>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {FILE_ACCEPT[config.accept || "image"].label}, up to {maxSizeMb} MB
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { isFileAnswer, REGISTRATION_UPLOADS_BUCKET } from "@/lib/formQuestions";
+
+interface RegistrationFileLinkProps {
+  registrationId: string;
+  questionId: string;
+  value: unknown;
+}
+
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+// Opens an uploaded registration file through a short-lived signed URL
+export function RegistrationFileLink({ registrationId, questionId, value }: RegistrationFileLinkProps) {
+  const [isOpening, setIsOpening] = useState(false);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+
+  if (!isFileAnswer(value)) return <span>-</span>;
+
+  const openFile = async () => {
+    setIsOpening(true);
+    // Open the tab up front so the browser does not treat it as a popup
+    const tab = window.open("", "_blank");
+    try {
+      let url: string | null = null;
+      if (adminToken) {
+        const params = new URLSearchParams({ action: "file_url", registration_id: registrationId, question_id: questionId });
+        const { data, error } = await invokeAdminFunction("admin-registrations?" + params.toString(), {
+          method: "GET",
+          headers: { "x-admin-token": adminToken },
+        });
+        if (error || !data?.url) throw new Error(await getFunctionErrorMessage(error, data?.error || "File not found"));
+        url = data.url;
+      } else {
+        const { data, error } = await supabase.storage
+          .from(REGISTRATION_UPLOADS_BUCKET)
+          .createSignedUrl(value.path, SIGNED_URL_TTL_SECONDS);
+        if (error || !data) throw new Error(error?.message || "File not found");
+        url = data.signedUrl;
+      }
+      if (tab) tab.location.href = url;
+    } catch (err) {
+      tab?.close();
+      toast({ title: "Error", description: err instanceof Error ? err.message : "File not found", variant: "destructive" });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="link" className="h-auto p-0" onClick={openFile} disabled={isOpening}>
+      {isOpening ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <ExternalLink className="h-3.5 w-3.5 mr-1" />}
+      {value.name}
+    </Button>
+  );
+}
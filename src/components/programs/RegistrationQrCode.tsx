@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { getRegistrationQrValue } from "@/lib/registrationDocuments";
+
+interface RegistrationQrCodeProps {
+  registrationId: string;
+  className?: string;
+}
+
+// The code scanned at check-in; the same one printed on acknowledgements and admit cards
+export function RegistrationQrCode({ registrationId, className = "h-32 w-32" }: RegistrationQrCodeProps) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(getRegistrationQrValue(registrationId), { margin: 1, width: 256 })
+      .then((url) => !cancelled && setSrc(url))
+      .catch((err) => console.error("Error drawing QR code:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [registrationId]);
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      {src ? <img src={src} alt="Registration QR code" className={`${className} rounded border bg-white`} /> : <div className={className} />}
+      <p className="font-mono text-[10px] text-muted-foreground break-all">{registrationId}</p>
+    </div>
+  );
+}
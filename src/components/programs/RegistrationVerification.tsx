@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -12,12 +12,26 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { supabase } from "@/integrations/supabase/client";
+import { Textarea } from "@/components/ui/textarea";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { ProgramFormQuestion, ProgramRegistration } from "@/hooks/usePrograms";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { Loader2, Star, CheckCircle2, User } from "lucide-react";
+import { Loader2, Star, CheckCircle2, User, Sparkles, Users, Scale, AlertTriangle } from "lucide-react";
 import { format } from "date-fns";
+import { RegistrationFileLink } from "./RegistrationFileLink";
+import { formatAnswer } from "@/lib/formQuestions";
+import {
+  calculateScoreTotals,
+  getMaxMarks,
+  getRubric,
+  getScoredQuestions,
+  getWeight,
+  isAutoScored,
+  resolveScores,
+  type ScoreTotals,
+} from "@/lib/formScoring";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
 
 interface RegistrationVerificationProps {
   registration: ProgramRegistration | null;
@@ -25,54 +39,74 @@ interface RegistrationVerificationProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onVerificationComplete: () => void;
+  // Reviews needed before the marks are combined into a final score
+  reviewersRequired?: number;
 }
 
-// Fixed fields that should not be scored (personal details)
-const FIXED_FIELDS = ["name", "mobile", "panchayath", "panchayath_name", "ward", "cluster", "cluster_name"];
-
 export function RegistrationVerification({
   registration,
   questions,
   open,
   onOpenChange,
   onVerificationComplete,
+  reviewersRequired = 1,
 }: RegistrationVerificationProps) {
-  const [scores, setScores] = useState<Record<string, number>>({});
+  const [manualScores, setManualScores] = useState<Record<string, number>>({});
+  const [adjudicationNote, setAdjudicationNote] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
-  const { adminToken } = useAuth();
+  const { adminToken, adminData, hasCapability } = useAuth();
+
+  const isVerified = registration?.verification_status === "verified";
+  const reviews = useMemo(() => registration?.reviews ?? [], [registration]);
+  const submittedReviews = reviews.filter((r) => r.submitted_at);
+  const myReview = reviews.find((r) => r.reviewer_id === adminData?.id) ?? null;
+  const isConflict = !isVerified && !!registration?.review_conflict;
+  // Disagreements are settled by a senior admin entering the final marks
+  const isAdjudicating = isConflict && hasCapability("registrations.adjudicate");
+  // Once reviewers are assigned, only they can score
+  const isAssignedToOthers = !myReview && reviews.some((r) => r.assigned_at);
+  const canScore = !isVerified && (isAdjudicating || (!isConflict && !isAssignedToOthers));
+  const savedScores = (registration?.verification_scores ?? null) as Record<string, number> | null;
+  const registrationAnswers = useMemo(
+    () => (registration?.answers ?? {}) as Record<string, unknown>,
+    [registration]
+  );
 
-  // Filter questions that should be scored (exclude personal details)
-  const scorableQuestions = questions.filter(
-    (q) => !FIXED_FIELDS.some((field) => 
-      q.question_text.toLowerCase().includes(field.toLowerCase())
-    )
-  ).sort((a, b) => a.sort_order - b.sort_order);
+  // Scored questions the applicant saw, in form order
+  const scorableQuestions = useMemo(
+    () => getScoredQuestions(questions, registrationAnswers),
+    [questions, registrationAnswers]
+  );
 
   useEffect(() => {
     if (registration && open) {
-      // Initialize scores from existing verification or empty
-      const existingScores = (registration as any).verification_scores as Record<string, number> | null;
-      if (existingScores) {
-        setScores(existingScores);
-      } else {
-        // Initialize all scorable questions with 0
-        const initialScores: Record<string, number> = {};
-        scorableQuestions.forEach((q) => {
-          initialScores[q.id] = 0;
-        });
-        setScores(initialScores);
-      }
+      const ownScores = (myReview?.scores ?? null) as Record<string, number> | null;
+      setManualScores(isAdjudicating ? {} : (savedScores ?? ownScores ?? {}));
+      setAdjudicationNote("");
     }
-  }, [registration, open, scorableQuestions.length]);
+  }, [registration, open, savedScores, myReview, isAdjudicating]);
 
-  const getAnswerDisplay = (questionId: string) => {
+  // A finished verification shows what was saved, even if the marking has changed since
+  const scores = isVerified && savedScores
+    ? savedScores
+    : resolveScores(scorableQuestions, registrationAnswers, manualScores);
+  const { totalScore, maxScore, percentage }: ScoreTotals = isVerified
+    ? {
+        totalScore: Number(registration?.total_score ?? 0),
+        maxScore: Number(registration?.max_score ?? 0),
+        percentage: Number(registration?.percentage ?? 0),
+      }
+    : calculateScoreTotals(scorableQuestions, scores);
+
+  const getAnswerDisplay = (question: ProgramFormQuestion) => {
     if (!registration) return "-";
     const answers = registration.answers as Record<string, any>;
-    const answer = answers[questionId];
-    if (answer === undefined || answer === null || answer === "") return "-";
-    if (Array.isArray(answer)) return answer.join(", ");
-    return String(answer);
+    const answer = answers[question.id];
+    if (question.question_type === "file") {
+      return <RegistrationFileLink registrationId={registration.id} questionId={question.id} value={answer} />;
+    }
+    return formatAnswer(question, answer) || "-";
   };
 
   const getFixedFieldDisplay = (field: string) => {
@@ -85,18 +119,9 @@ export function RegistrationVerification({
     return String(value);
   };
 
+  // Clamped to the question's max marks when the scores are resolved
   const handleScoreChange = (questionId: string, value: string) => {
-    const numValue = parseInt(value) || 0;
-    // Clamp between 0 and 10
-    const clampedValue = Math.min(10, Math.max(0, numValue));
-    setScores((prev) => ({ ...prev, [questionId]: clampedValue }));
-  };
-
-  const calculateTotals = () => {
-    const totalScore = Object.values(scores).reduce((sum, score) => sum + score, 0);
-    const maxScore = scorableQuestions.length * 10;
-    const percentage = maxScore > 0 ? (totalScore / maxScore) * 100 : 0;
-    return { totalScore, maxScore, percentage };
+    setManualScores((prev) => ({ ...prev, [questionId]: Number(value) || 0 }));
   };
 
   const handleSubmitVerification = async () => {
@@ -114,41 +139,46 @@ export function RegistrationVerification({
     setIsSubmitting(true);
 
     try {
-      const { totalScore, maxScore, percentage } = calculateTotals();
-
-      const response = await supabase.functions.invoke("admin-registrations", {
+      // The totals are worked out again on the server, and ranks follow from them
+      const { data, error } = await invokeAdminFunction("admin-registrations", {
         method: "PUT",
         headers: {
           "x-admin-token": adminToken,
         },
-        body: {
-          registration_id: registration.id,
-          verification_scores: scores,
-          total_score: totalScore,
-          max_score: maxScore,
-          percentage: percentage,
-        },
+        body: isAdjudicating
+          ? { registration_id: registration.id, adjudication: { scores, note: adjudicationNote } }
+          : { registration_id: registration.id, verification_scores: scores },
       });
 
-      if (response.error) {
-        throw new Error(response.error.message || "Failed to save verification");
+      if (error) {
+        throw new Error(await getFunctionErrorMessage(error, "Failed to save verification"));
       }
 
-      if (response.data?.error) {
-        throw new Error(response.data.error);
-      }
+      const describeScore = (result: { total_score: number; max_score: number; percentage: number }) =>
+        `${result.total_score}/${result.max_score} (${Number(result.percentage).toFixed(1)}%)`;
 
-      toast({
-        title: "Verification completed",
-        description: `Total score: ${totalScore}/${maxScore} (${percentage.toFixed(1)}%)`,
-      });
+      if (isAdjudicating) {
+        toast({ title: "Final score settled", description: `Total score: ${describeScore(data)}` });
+      } else if (data.outcome === "verified") {
+        toast({ title: "Verification completed", description: `Final score: ${describeScore(data.final)}` });
+      } else if (data.outcome === "conflict") {
+        toast({
+          title: "Reviewers disagree",
+          description: "The scores are too far apart; a senior admin will settle the final score.",
+        });
+      } else {
+        toast({
+          title: "Review submitted",
+          description: `${data.reviews_submitted} of ${data.reviews_required} reviews are in.`,
+        });
+      }
 
       onOpenChange(false);
       onVerificationComplete();
-    } catch (err: any) {
+    } catch (err) {
       toast({
         title: "Error",
-        description: err.message || "Failed to save verification",
+        description: err instanceof Error ? err.message : "Failed to save verification",
         variant: "destructive",
       });
     } finally {
@@ -156,9 +186,6 @@ export function RegistrationVerification({
     }
   };
 
-  const { totalScore, maxScore, percentage } = calculateTotals();
-  const isVerified = (registration as any)?.verification_status === "verified";
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -170,7 +197,9 @@ export function RegistrationVerification({
           <DialogDescription>
             {isVerified
               ? "This registration has already been verified"
-              : "Score each response out of 10 points (excluding personal details)"}
+              : isAdjudicating
+                ? "Reviewers disagree on this registration. Enter the final marks, using their scores as a guide."
+                : "Score each response against its rubric; choice questions are marked automatically"}
           </DialogDescription>
         </DialogHeader>
 
@@ -221,39 +250,154 @@ export function RegistrationVerification({
                   </Badge>
                 </div>
 
-                {scorableQuestions.map((question, index) => (
-                  <div
-                    key={question.id}
-                    className="p-4 border rounded-lg space-y-3"
-                  >
-                    <div className="flex items-start justify-between gap-4">
-                      <div className="flex-1">
-                        <Label className="text-sm font-medium">
-                          {index + 1}. {question.question_text}
-                        </Label>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          Answer: <span className="text-foreground">{getAnswerDisplay(question.id)}</span>
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-2 shrink-0">
-                        <Input
-                          type="number"
-                          min="0"
-                          max="10"
-                          value={scores[question.id] ?? 0}
-                          onChange={(e) => handleScoreChange(question.id, e.target.value)}
-                          className="w-16 text-center font-mono"
-                          disabled={isVerified}
-                        />
-                        <span className="text-sm text-muted-foreground">/ 10</span>
+                {scorableQuestions.map((question, index) => {
+                  const autoScored = isAutoScored(question);
+                  const maxMarks = getMaxMarks(question);
+                  const weight = getWeight(question);
+                  const rubric = autoScored ? [] : getRubric(question);
+                  return (
+                    <div
+                      key={question.id}
+                      className="p-4 border rounded-lg space-y-3"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <Label className="text-sm font-medium">
+                            {index + 1}. {question.question_text}
+                          </Label>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Answer: <span className="text-foreground">{getAnswerDisplay(question)}</span>
+                          </p>
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {autoScored && (
+                              <Badge variant="secondary" className="text-[10px]">
+                                <Sparkles className="h-3 w-3 mr-1" />
+                                Auto-scored
+                              </Badge>
+                            )}
+                            {weight !== 1 && (
+                              <Badge variant="outline" className="text-[10px]">Weight ×{weight}</Badge>
+                            )}
+                          </div>
+                          {isAdjudicating && submittedReviews.length > 0 && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              Reviewers:{" "}
+                              {submittedReviews
+                                .map((r) => `${r.reviewer_name} ${(r.scores as Record<string, number> | null)?.[question.id] ?? "-"}`)
+                                .join(" · ")}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Input
+                            type="number"
+                            min="0"
+                            max={maxMarks}
+                            step="0.5"
+                            value={scores[question.id] ?? 0}
+                            onChange={(e) => handleScoreChange(question.id, e.target.value)}
+                            className="w-16 text-center font-mono"
+                            disabled={!canScore || autoScored}
+                          />
+                          <span className="text-sm text-muted-foreground">/ {maxMarks}</span>
+                        </div>
                       </div>
+
+                      {rubric.length > 0 && (
+                        <div className="rounded-md bg-muted/50 p-2 space-y-1">
+                          <p className="text-xs font-medium text-muted-foreground">Rubric</p>
+                          {rubric.map((level) => (
+                            <button
+                              key={level.points}
+                              type="button"
+                              onClick={() => handleScoreChange(question.id, String(level.points))}
+                              disabled={!canScore}
+                              className={`w-full flex items-start gap-2 rounded px-2 py-1 text-left text-xs transition-colors disabled:cursor-default ${
+                                scores[question.id] === level.points
+                                  ? "bg-primary/10 text-foreground"
+                                  : "hover:bg-muted text-muted-foreground"
+                              }`}
+                            >
+                              <span className="font-mono font-medium w-8 shrink-0">{level.points}</span>
+                              <span>{level.description}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <Separator />
+
+            {/* Reviews */}
+            {(reviewersRequired > 1 || reviews.length > 0) && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium flex items-center gap-2">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    Reviews
+                  </span>
+                  <Badge variant="outline" className="font-mono">
+                    {submittedReviews.length} of {reviewersRequired} in
+                  </Badge>
+                </div>
+                {reviews.map((review) => (
+                  <div key={review.id} className="flex items-center justify-between text-sm px-3 py-2 border rounded-md">
+                    <span>
+                      {review.reviewer_name}
+                      {review.reviewer_id === adminData?.id && " (you)"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {!review.submitted_at
+                        ? "Not scored yet"
+                        : review.percentage != null
+                          ? `${Number(review.percentage).toFixed(1)}%`
+                          : "Submitted"}
+                    </span>
                   </div>
                 ))}
+                {isConflict && (
+                  <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      The reviewers' scores are too far apart.
+                      {!isAdjudicating && " A senior admin needs to settle the final score."}
+                    </span>
+                  </div>
+                )}
+                {isAssignedToOthers && !isVerified && !isConflict && (
+                  <p className="text-xs text-muted-foreground">
+                    This registration is assigned to other reviewers.
+                  </p>
+                )}
+                {isVerified && registration.adjudicated_at && (
+                  <div className="flex items-start gap-2 p-3 rounded-md bg-muted/50 text-sm">
+                    <Scale className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <span>
+                      Final score settled on {format(new Date(registration.adjudicated_at), "MMM d, yyyy")}
+                      {registration.adjudication_note && `: ${registration.adjudication_note}`}
+                    </span>
+                  </div>
+                )}
               </div>
             )}
 
-            <Separator />
+            {isAdjudicating && (
+              <div className="space-y-2">
+                <Label htmlFor="adjudicationNote" className="text-sm font-medium">Note (optional)</Label>
+                <Textarea
+                  id="adjudicationNote"
+                  value={adjudicationNote}
+                  onChange={(e) => setAdjudicationNote(e.target.value)}
+                  placeholder="Why the final marks were chosen"
+                  rows={2}
+                  className="resize-none"
+                />
+              </div>
+            )}
 
             {/* Score Summary */}
             <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
@@ -286,9 +430,9 @@ export function RegistrationVerification({
                 </div>
               </div>
 
-              {isVerified && (registration as any).verified_at && (
+              {isVerified && registration.verified_at && (
                 <div className="mt-3 pt-3 border-t text-xs text-muted-foreground">
-                  Verified on {format(new Date((registration as any).verified_at), "MMM d, yyyy 'at' h:mm a")}
+                  Verified on {format(new Date(registration.verified_at), "MMM d, yyyy 'at' h:mm a")}
                 </div>
               )}
             </div>
@@ -299,7 +443,7 @@ export function RegistrationVerification({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             {isVerified ? "Close" : "Cancel"}
           </Button>
-          {!isVerified && scorableQuestions.length > 0 && (
+          {canScore && scorableQuestions.length > 0 && (
             <Button onClick={handleSubmitVerification} disabled={isSubmitting}>
               {isSubmitting ? (
                 <>
@@ -309,7 +453,11 @@ export function RegistrationVerification({
               ) : (
                 <>
                   <CheckCircle2 className="h-4 w-4 mr-2" />
-                  Complete Verification
+                  {isAdjudicating
+                    ? "Settle Final Score"
+                    : reviewersRequired > 1
+                      ? myReview?.submitted_at ? "Update Review" : "Submit Review"
+                      : "Complete Verification"}
                 </>
               )}
             </Button>
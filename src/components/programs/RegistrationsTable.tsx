@@ -17,6 +17,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -24,31 +42,59 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Download, Users, Eye, Loader2, Star, CheckCircle2, Clock, Filter, X, Trophy, Save } from "lucide-react";
+import { Download, Users, Eye, Loader2, Star, CheckCircle2, Clock, Filter, X, Trophy, UserPlus, AlertTriangle, ListChecks, MoreVertical, FileSpreadsheet, Upload, IdCard } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { ProgramFormQuestion, ProgramRegistration } from "@/hooks/usePrograms";
 import { RegistrationVerification } from "./RegistrationVerification";
-import { exportRegistrationsToXlsx } from "@/lib/exportXlsx";
+import { AssignReviewersDialog } from "./AssignReviewersDialog";
+import { BulkStatusDialog } from "./BulkStatusDialog";
+import { ImportRegistrationsDialog } from "./ImportRegistrationsDialog";
+import { RegistrationFileLink } from "./RegistrationFileLink";
+import { RegistrationQrCode } from "./RegistrationQrCode";
+import { formatAnswer } from "@/lib/formQuestions";
+import { getInputQuestions } from "@/lib/formLogic";
+import { exportRegistrationsToXlsx, exportSelectionListToXlsx } from "@/lib/exportXlsx";
+import { printAdmitCards } from "@/lib/registrationDocuments";
+import {
+  REGISTRATION_STATUSES,
+  canChangeStatus,
+  getRegistrationStatusBadgeClass,
+  getRegistrationStatusLabel,
+  holdsSeat,
+  statusNeedsReason,
+  statusTakesReason,
+} from "@/lib/registrationStatus";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
 import { format } from "date-fns";
-import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 
 interface RegistrationsTableProps {
+  programId: string;
   programName: string;
   questions: ProgramFormQuestion[];
   registrations: ProgramRegistration[];
   isLoading: boolean;
   verificationEnabled?: boolean;
+  maxSeats?: number | null;
+  reviewersRequired?: number;
+  allowDuplicateMobile?: boolean;
   onRefresh?: () => void;
 }
 
 export function RegistrationsTable({
+  programId,
   programName,
   questions,
   registrations,
   isLoading,
   verificationEnabled = false,
+  maxSeats = null,
+  reviewersRequired = 1,
+  allowDuplicateMobile = false,
   onRefresh,
 }: RegistrationsTableProps) {
   const [selectedRegistration, setSelectedRegistration] = useState<ProgramRegistration | null>(
@@ -58,18 +104,27 @@ export function RegistrationsTable({
     null
   );
   const [isExporting, setIsExporting] = useState(false);
+  const [isPrintingAdmitCards, setIsPrintingAdmitCards] = useState(false);
   const [panchayathFilter, setPanchayathFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
   const [minPercent, setMinPercent] = useState<string>("");
   const [maxPercent, setMaxPercent] = useState<string>("");
   const [minRank, setMinRank] = useState<string>("");
   const [maxRank, setMaxRank] = useState<string>("");
-  const [editingRanks, setEditingRanks] = useState<Record<string, string>>({});
-  const [savingRank, setSavingRank] = useState<string | null>(null);
-  const { adminToken } = useAuth();
+  const [seatFilter, setSeatFilter] = useState("all");
+  const [statusChange, setStatusChange] = useState<{ registration: ProgramRegistration; status: string } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
+  const [isBulkStatusOpen, setIsBulkStatusOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [updatingStatusId, setUpdatingStatusId] = useState<string | null>(null);
+  const [assigningRegistrations, setAssigningRegistrations] = useState<ProgramRegistration[] | null>(null);
+  const { adminToken, hasCapability } = useAuth();
+  const canAssignReviewers = verificationEnabled && !!adminToken && hasCapability("registrations.adjudicate");
+  const canBulkUpdateStatus = verificationEnabled && !!adminToken && hasCapability("registrations.verify");
+  const canImport = hasCapability("programs.edit");
   const { toast } = useToast();
 
-  const sortedQuestions = [...questions].sort((a, b) => a.sort_order - b.sort_order);
+  const sortedQuestions = getInputQuestions(questions).sort((a, b) => a.sort_order - b.sort_order);
 
   // Extract unique panchayaths from registrations
   const panchayaths = useMemo(() => {
@@ -82,6 +137,20 @@ export function RegistrationsTable({
     return Array.from(set).sort();
   }, [registrations]);
 
+  const seatsTaken = registrations.filter((r) => holdsSeat(r.status)).length;
+
+  // Waitlist position by arrival order, as used for promotion
+  const waitlistPositions = useMemo(() => {
+    const positions: Record<string, number> = {};
+    registrations
+      .filter((r) => r.status === "waitlisted")
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach((r, index) => {
+        positions[r.id] = index + 1;
+      });
+    return positions;
+  }, [registrations]);
+
   // Filter and rank registrations
   const filteredRegistrations = useMemo(() => {
     // First filter
@@ -89,12 +158,14 @@ export function RegistrationsTable({
       const answers = r.answers as Record<string, any>;
       const pName = answers._fixed?.panchayath_name || "";
       if (panchayathFilter !== "all" && pName !== panchayathFilter) return false;
+      if (seatFilter !== "all" && r.status !== seatFilter) return false;
 
       if (verificationEnabled) {
         const status = (r as any).verification_status;
         if (statusFilter !== "all") {
           if (statusFilter === "pending" && status === "verified") return false;
           if (statusFilter === "verified" && status !== "verified") return false;
+          if (statusFilter === "conflict" && (status === "verified" || !r.review_conflict)) return false;
         }
 
         // Percentage range filter (manual inputs)
@@ -109,7 +180,7 @@ export function RegistrationsTable({
           return false; // Hide unverified when filtering by percentage
         }
 
-        // Rank filter (manual inputs)
+        // Rank range filter
         const hasMinRankFilter = minRank !== "" && !isNaN(Number(minRank));
         const hasMaxRankFilter = maxRank !== "" && !isNaN(Number(maxRank));
         
@@ -123,7 +194,7 @@ export function RegistrationsTable({
       return true;
     });
 
-    // Sort by rank (if set), then by percentage descending for verified
+    // Verified first, in rank order (worked out on the server from the scores)
     if (verificationEnabled) {
       filtered.sort((a, b) => {
         const aVerified = (a as any).verification_status === "verified";
@@ -131,7 +202,7 @@ export function RegistrationsTable({
         if (aVerified && !bVerified) return -1;
         if (!aVerified && bVerified) return 1;
         if (aVerified && bVerified) {
-          // Sort by manual rank first (if both have rank)
+          // Unranked (e.g. rejected) registrations go after ranked ones
           const aRank = (a as any).rank;
           const bRank = (b as any).rank;
           if (aRank != null && bRank != null) {
@@ -147,61 +218,92 @@ export function RegistrationsTable({
     }
 
     return filtered;
-  }, [registrations, panchayathFilter, statusFilter, minPercent, maxPercent, minRank, maxRank, verificationEnabled]);
+  }, [registrations, panchayathFilter, seatFilter, statusFilter, minPercent, maxPercent, minRank, maxRank, verificationEnabled]);
 
-  // Save rank for a registration
-  const handleSaveRank = async (registrationId: string) => {
+  const handleStatusChange = async (registration: ProgramRegistration, status: string, reason?: string) => {
     if (!adminToken) {
       toast({ title: "Error", description: "You must be logged in as admin", variant: "destructive" });
       return;
     }
 
-    setSavingRank(registrationId);
+    setUpdatingStatusId(registration.id);
     try {
-      const rankValue = editingRanks[registrationId];
-      const response = await supabase.functions.invoke("admin-registrations", {
+      const { error } = await invokeAdminFunction("admin-registrations", {
         method: "PUT",
         headers: { "x-admin-token": adminToken },
-        body: {
-          registration_id: registrationId,
-          rank: rankValue === "" ? null : parseInt(rankValue),
-        },
+        body: { registration_id: registration.id, status, reason },
       });
-
-      if (response.error || response.data?.error) {
-        throw new Error(response.error?.message || response.data?.error || "Failed to save rank");
-      }
-
-      toast({ title: "Rank saved", description: `Rank updated to ${rankValue || "none"}` });
-      setEditingRanks((prev) => {
-        const next = { ...prev };
-        delete next[registrationId];
-        return next;
+      if (error) throw new Error(await getFunctionErrorMessage(error, "Failed to update registration"));
+
+      const reinstated = status === "registered" && !holdsSeat(registration.status);
+      toast({
+        title: reinstated ? "Registration reinstated" : `Marked ${getRegistrationStatusLabel(status).toLowerCase()}`,
+        description: reinstated
+          ? "It gets a seat if one is free, otherwise it rejoins the waitlist."
+          : holdsSeat(registration.status) && !holdsSeat(status)
+            ? "Its seat has been offered to the waitlist."
+            : undefined,
       });
       onRefresh?.();
-    } catch (err: any) {
-      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update registration",
+        variant: "destructive",
+      });
     } finally {
-      setSavingRank(null);
+      setUpdatingStatusId(null);
+      setStatusChange(null);
+      setStatusReason("");
     }
   };
 
-  const getRankValue = (registration: ProgramRegistration) => {
-    const id = registration.id;
-    if (editingRanks[id] !== undefined) return editingRanks[id];
-    const dbRank = (registration as any).rank;
-    return dbRank != null ? String(dbRank) : "";
+  // Rejecting and withdrawing ask for a reason first; other moves apply straight away
+  const requestStatusChange = (registration: ProgramRegistration, status: string) => {
+    if (statusTakesReason(status)) {
+      setStatusReason("");
+      setStatusChange({ registration, status });
+    } else {
+      handleStatusChange(registration, status);
+    }
   };
 
-  const handleRankChange = (registrationId: string, value: string) => {
-    setEditingRanks((prev) => ({ ...prev, [registrationId]: value }));
+  const getStatusActions = (registration: ProgramRegistration) =>
+    [
+      { status: "shortlisted", label: "Shortlist" },
+      { status: "selected", label: "Select" },
+      {
+        status: "registered",
+        label: holdsSeat(registration.status) ? "Move back to registered" : "Reinstate",
+      },
+      { status: "withdrawn", label: "Withdraw" },
+      { status: "rejected", label: "Reject" },
+    ].filter((action) => canChangeStatus(registration, action.status, verificationEnabled));
+
+  const handleSelectionExport = (status: "selected" | "shortlisted") => {
+    const listed = filteredRegistrations.filter((r) => r.status === status);
+    if (listed.length === 0) {
+      toast({ title: "Nothing to export", description: `No ${status} registrations match the filters.` });
+      return;
+    }
+    exportSelectionListToXlsx(listed, programName, `${getRegistrationStatusLabel(status)} List`);
   };
 
-  const isRankEdited = (registrationId: string, dbRank: number | null) => {
-    if (editingRanks[registrationId] === undefined) return false;
-    const currentValue = editingRanks[registrationId];
-    const dbValue = dbRank != null ? String(dbRank) : "";
-    return currentValue !== dbValue;
+  const handleAdmitCards = async () => {
+    const selected = filteredRegistrations.filter((r) => r.status === "selected");
+    if (selected.length === 0) {
+      toast({ title: "Nothing to print", description: "No selected registrations match the filters." });
+      return;
+    }
+    setIsPrintingAdmitCards(true);
+    try {
+      await printAdmitCards(programName, selected);
+    } catch (err) {
+      console.error("Error printing admit cards:", err);
+      toast({ title: "Error", description: "Failed to print admit cards", variant: "destructive" });
+    } finally {
+      setIsPrintingAdmitCards(false);
+    }
   };
 
   const handleExport = () => {
@@ -213,13 +315,14 @@ export function RegistrationsTable({
     }
   };
 
-  const getAnswerDisplay = (registration: ProgramRegistration, questionId: string) => {
+  const getAnswerDisplay = (registration: ProgramRegistration, question: ProgramFormQuestion) => {
     const answers = registration.answers as Record<string, any>;
-    const answer = answers[questionId];
+    const answer = answers[question.id];
 
-    if (answer === undefined || answer === null || answer === "") return "-";
-    if (Array.isArray(answer)) return answer.join(", ");
-    return String(answer);
+    if (question.question_type === "file") {
+      return <RegistrationFileLink registrationId={registration.id} questionId={question.id} value={answer} />;
+    }
+    return formatAnswer(question, answer) || "-";
   };
 
   const getFixedFieldDisplay = (registration: ProgramRegistration, field: string) => {
@@ -243,8 +346,17 @@ export function RegistrationsTable({
         color: percentage >= 70 ? "bg-emerald-600" : percentage >= 40 ? "bg-amber-600" : "bg-destructive",
       };
     }
+    if (registration.review_conflict) {
+      return {
+        label: "Disagreement",
+        variant: "destructive" as const,
+        icon: AlertTriangle,
+        color: "",
+      };
+    }
+    const submitted = (registration.reviews ?? []).filter((r) => r.submitted_at).length;
     return {
-      label: "Pending",
+      label: reviewersRequired > 1 ? `Reviews ${submitted}/${reviewersRequired}` : "Pending",
       variant: "secondary" as const,
       icon: Clock,
       color: "",
@@ -276,6 +388,16 @@ export function RegistrationsTable({
                 <Users className="h-5 w-5" />
                 Registrations
                 <Badge variant="secondary">{registrations.length}</Badge>
+                {maxSeats != null && (
+                  <Badge variant="outline" title="Seats taken">
+                    {seatsTaken} / {maxSeats} seats
+                  </Badge>
+                )}
+                {Object.keys(waitlistPositions).length > 0 && (
+                  <Badge variant="outline" className={getRegistrationStatusBadgeClass("waitlisted")}>
+                    {Object.keys(waitlistPositions).length} waitlisted
+                  </Badge>
+                )}
                 {verificationEnabled && (
                   <Badge variant="outline" className="hidden sm:inline-flex">
                     <Star className="h-3 w-3 mr-1" />
@@ -290,6 +412,84 @@ export function RegistrationsTable({
                 }
               </CardDescription>
             </div>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            {canAssignReviewers && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setAssigningRegistrations(
+                    filteredRegistrations.filter((r) => r.verification_status !== "verified")
+                  )
+                }
+                disabled={!filteredRegistrations.some((r) => r.verification_status !== "verified")}
+                className="w-full sm:w-auto"
+                title="Assign reviewers to the unverified registrations shown"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Assign Reviewers
+              </Button>
+            )}
+            {canImport && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsImportOpen(true)}
+                className="w-full sm:w-auto"
+                title="Add registrations collected on paper from an XLSX or CSV file"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            )}
+            {canBulkUpdateStatus && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsBulkStatusOpen(true)}
+                disabled={!filteredRegistrations.some((r) => r.rank != null)}
+                className="w-full sm:w-auto"
+                title="Shortlist, select or reject ranked registrations by rank or score"
+              >
+                <ListChecks className="h-4 w-4 mr-2" />
+                Update Status
+              </Button>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!filteredRegistrations.some((r) => r.status === "selected" || r.status === "shortlisted")}
+                  className="w-full sm:w-auto"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Selection List
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  By panchayath and ward
+                </DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleSelectionExport("selected")}>Selected applicants</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleSelectionExport("shortlisted")}>Shortlisted applicants</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAdmitCards}
+              disabled={isPrintingAdmitCards || !filteredRegistrations.some((r) => r.status === "selected")}
+              className="w-full sm:w-auto"
+              title="Print admit cards with QR codes for the selected applicants shown"
+            >
+              {isPrintingAdmitCards ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <IdCard className="h-4 w-4 mr-2" />
+              )}
+              Print Admit Cards
+            </Button>
             <Button 
               onClick={handleExport} 
               disabled={filteredRegistrations.length === 0 || isExporting}
@@ -308,6 +508,7 @@ export function RegistrationsTable({
                 </>
               )}
             </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -326,6 +527,17 @@ export function RegistrationsTable({
                   ))}
                 </SelectContent>
               </Select>
+              <Select value={seatFilter} onValueChange={setSeatFilter}>
+                <SelectTrigger className="w-36 h-8 text-xs">
+                  <SelectValue placeholder="Registration" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Registrations</SelectItem>
+                  {REGISTRATION_STATUSES.map((status) => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               {verificationEnabled && (
                 <>
                   <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -336,6 +548,7 @@ export function RegistrationsTable({
                       <SelectItem value="all">All Status</SelectItem>
                       <SelectItem value="verified">Verified</SelectItem>
                       <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="conflict">Disagreement</SelectItem>
                     </SelectContent>
                   </Select>
                   <div className="flex items-center gap-1" title="Score % range">
@@ -441,9 +654,6 @@ export function RegistrationsTable({
                   {filteredRegistrations.map((registration, index) => {
                     const verification = verificationEnabled ? getVerificationStatus(registration) : null;
                     const StatusIcon = verification?.icon;
-                    const dbRank = (registration as any).rank;
-                    const rankValue = getRankValue(registration);
-                    const isEdited = isRankEdited(registration.id, dbRank);
 
                     return (
                       <TableRow key={registration.id}>
@@ -453,6 +663,15 @@ export function RegistrationsTable({
                         </TableCell>
                         <TableCell className="font-medium">
                           {getFixedFieldDisplay(registration, "name")}
+                          {registration.status !== "registered" && (
+                            <Badge
+                              variant="outline"
+                              className={`ml-2 text-[10px] ${getRegistrationStatusBadgeClass(registration.status)}`}
+                            >
+                              {getRegistrationStatusLabel(registration.status)}
+                              {waitlistPositions[registration.id] && ` #${waitlistPositions[registration.id]}`}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="hidden md:table-cell">
                           {getFixedFieldDisplay(registration, "mobile")}
@@ -463,35 +682,17 @@ export function RegistrationsTable({
                         {verificationEnabled && verification && StatusIcon && (
                           <>
                             <TableCell className="text-center">
-                              <div className="flex items-center justify-center gap-1">
-                                <Input
-                                  type="number"
-                                  value={rankValue}
-                                  onChange={(e) => handleRankChange(registration.id, e.target.value)}
-                                  placeholder="-"
-                                  className={`w-14 h-7 text-xs text-center ${
-                                    rankValue && parseInt(rankValue) <= 3 
-                                      ? "border-amber-400 bg-amber-50 dark:bg-amber-950/30" 
-                                      : ""
+                              {registration.rank != null ? (
+                                <span
+                                  className={`inline-block min-w-[2rem] rounded px-1.5 py-0.5 text-xs font-mono font-medium ${
+                                    registration.rank <= 3 ? "bg-amber-100 text-amber-800 dark:bg-amber-950/30 dark:text-amber-300" : ""
                                   }`}
-                                  min={1}
-                                />
-                                {isEdited && (
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    className="h-6 w-6"
-                                    onClick={() => handleSaveRank(registration.id)}
-                                    disabled={savingRank === registration.id}
-                                  >
-                                    {savingRank === registration.id ? (
-                                      <Loader2 className="h-3 w-3 animate-spin" />
-                                    ) : (
-                                      <Save className="h-3 w-3" />
-                                    )}
-                                  </Button>
-                                )}
-                              </div>
+                                >
+                                  {registration.rank}
+                                </span>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">-</span>
+                              )}
                             </TableCell>
                             <TableCell className="text-center">
                               <Badge 
@@ -525,6 +726,49 @@ export function RegistrationsTable({
                                 <Star className="h-4 w-4" />
                               </Button>
                             )}
+                            {canAssignReviewers && registration.verification_status !== "verified" && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setAssigningRegistrations([registration])}
+                                title="Assign reviewers"
+                              >
+                                <UserPlus className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {getStatusActions(registration).length > 0 && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    disabled={updatingStatusId === registration.id}
+                                    title="Change status"
+                                  >
+                                    {updatingStatusId === registration.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <MoreVertical className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                                    {getRegistrationStatusLabel(registration.status)}
+                                  </DropdownMenuLabel>
+                                  <DropdownMenuSeparator />
+                                  {getStatusActions(registration).map((action) => (
+                                    <DropdownMenuItem
+                                      key={action.status}
+                                      onClick={() => requestStatusChange(registration, action.status)}
+                                      className={action.status === "rejected" ? "text-destructive focus:text-destructive" : undefined}
+                                    >
+                                      {action.label}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -549,6 +793,10 @@ export function RegistrationsTable({
               Submitted on{" "}
               {selectedRegistration &&
                 format(new Date(selectedRegistration.created_at), "MMMM d, yyyy 'at' h:mm a")}
+              {selectedRegistration && ` · ${getRegistrationStatusLabel(selectedRegistration.status)}`}
+              {selectedRegistration?.status_reason && ` (${selectedRegistration.status_reason})`}
+              {selectedRegistration?.applicant_updated_at &&
+                ` · Edited by applicant on ${format(new Date(selectedRegistration.applicant_updated_at), "MMM d, yyyy")}`}
             </DialogDescription>
           </DialogHeader>
 
@@ -588,6 +836,10 @@ export function RegistrationsTable({
                     Ward {getFixedFieldDisplay(selectedRegistration, "ward")}
                   </p>
                 </div>
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-muted-foreground">Check-in QR Code</p>
+                  <RegistrationQrCode registrationId={selectedRegistration.id} />
+                </div>
               </div>
 
               {/* Custom Questions */}
@@ -600,9 +852,9 @@ export function RegistrationsTable({
                         {question.question_text}
                         {question.is_required && <span className="text-destructive ml-1">*</span>}
                       </p>
-                      <p className="text-foreground">
-                        {getAnswerDisplay(selectedRegistration, question.id)}
-                      </p>
+                      <div className="text-foreground">
+                        {getAnswerDisplay(selectedRegistration, question)}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -630,6 +882,56 @@ export function RegistrationsTable({
         </DialogContent>
       </Dialog>
 
+      {/* Reject / Withdraw Confirmation */}
+      <AlertDialog
+        open={!!statusChange}
+        onOpenChange={(open) => !open && setStatusChange(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {statusChange?.status === "withdrawn" ? "Withdraw registration?" : "Reject registration?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {statusChange && getFixedFieldDisplay(statusChange.registration, "name")} will lose their
+              {statusChange?.registration.status === "waitlisted" ? " place on the waitlist" : " seat"}.
+              {statusChange && holdsSeat(statusChange.registration.status) &&
+                " The first waitlisted applicant who fits is moved in automatically."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor="statusReason">
+              Reason{" "}
+              {statusChange && statusNeedsReason(statusChange.status) ? (
+                <span className="text-destructive">*</span>
+              ) : (
+                "(optional)"
+              )}
+            </Label>
+            <Textarea
+              id="statusReason"
+              value={statusReason}
+              onChange={(e) => setStatusReason(e.target.value)}
+              placeholder="Shown to the applicant when they check their status"
+              rows={2}
+              maxLength={500}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                statusChange && handleStatusChange(statusChange.registration, statusChange.status, statusReason.trim())
+              }
+              disabled={!!statusChange && statusNeedsReason(statusChange.status) && !statusReason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {statusChange?.status === "withdrawn" ? "Withdraw" : "Reject"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Verification Dialog */}
       <RegistrationVerification
         registration={verifyingRegistration}
@@ -637,7 +939,39 @@ export function RegistrationsTable({
         open={!!verifyingRegistration}
         onOpenChange={(open) => !open && setVerifyingRegistration(null)}
         onVerificationComplete={handleVerificationComplete}
+        reviewersRequired={reviewersRequired}
       />
+
+      {canBulkUpdateStatus && (
+        <BulkStatusDialog
+          registrations={filteredRegistrations}
+          verificationEnabled={verificationEnabled}
+          open={isBulkStatusOpen}
+          onOpenChange={setIsBulkStatusOpen}
+          onUpdated={() => onRefresh?.()}
+        />
+      )}
+
+      {canImport && (
+        <ImportRegistrationsDialog
+          programId={programId}
+          questions={questions}
+          allowDuplicateMobile={allowDuplicateMobile}
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={() => onRefresh?.()}
+        />
+      )}
+
+      {canAssignReviewers && (
+        <AssignReviewersDialog
+          programId={programId}
+          registrations={assigningRegistrations ?? []}
+          open={!!assigningRegistrations}
+          onOpenChange={(open) => !open && setAssigningRegistrations(null)}
+          onAssigned={() => onRefresh?.()}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { Program } from "@/hooks/usePrograms";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+
+interface SaveTemplateDialogProps {
+  program: Program;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveTemplateDialog({ program, open, onOpenChange }: SaveTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(program.name);
+    setDescription("");
+  }, [open, program.name]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      const { error } = await invokeAdminFunction("admin-programs", {
+        headers: adminToken ? { "x-admin-token": adminToken } : {},
+        body: {
+          action: "save_template",
+          data: { program_id: program.id, name: name.trim(), description: description.trim() || null },
+        },
+      });
+      if (error) throw new Error(await getFunctionErrorMessage(error, "Failed to save template"));
+
+      toast({
+        title: "Template saved",
+        description: "Pick it under \"From Template\" when creating a program.",
+      });
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="h-5 w-5" />
+            Save as Template
+          </DialogTitle>
+          <DialogDescription>
+            Saves this program's settings, modules, form questions (with options and scoring), announcements and
+            advertisements. Registrations are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Template Name *</Label>
+            <Input id="templateName" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription">Notes</Label>
+            <Textarea
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this template is for..."
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
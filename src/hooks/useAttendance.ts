@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchAttendance, type AttendanceRecord, type AttendanceSession } from "@/lib/attendance";
+
+// Sessions and check-ins of a program with the attendance module
+export function useAttendance(programId: string | undefined) {
+  const [sessions, setSessions] = useState<AttendanceSession[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(!!programId);
+  const [error, setError] = useState<string | null>(null);
+  const { adminToken } = useAuth();
+
+  const fetchAll = useCallback(async () => {
+    if (!programId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await fetchAttendance(programId, adminToken);
+      setSessions(data.sessions);
+      setAttendance(data.attendance);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load attendance");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [programId, adminToken]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  // Check-ins made on this screen are added without reloading every session
+  const addCheckIn = useCallback((record: AttendanceRecord) => {
+    setAttendance((current) => [...current.filter((a) => a.id !== record.id), record]);
+  }, []);
+
+  const removeCheckIn = useCallback((id: string) => {
+    setAttendance((current) => current.filter((a) => a.id !== id));
+  }, []);
+
+  return { sessions, attendance, isLoading, error, refetch: fetchAll, addCheckIn, removeCheckIn };
+}
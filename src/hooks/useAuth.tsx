@@ -1,22 +1,24 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
-import { User, Session } from "@supabase/supabase-js";
+import { User, Session, FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from "@/integrations/supabase/types";
+import { decodeAdminToken, isAdminTokenExpired } from "@/lib/adminToken";
+import {
+  ADMIN_DATA_KEY,
+  ADMIN_TOKEN_KEY,
+  type AdminData,
+  clearStoredAdminSession,
+  hasAdminRefreshToken,
+  invokeAdminFunction,
+  onAdminSessionRefreshed,
+  refreshAdminToken,
+  storeAdminSession,
+} from "@/lib/adminSession";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { CAPABILITIES, type Capability } from "@/lib/permissions";
 
 type AppRole = Database["public"]["Enums"]["app_role"];
 
-interface AdminData {
-  id: string;
-  user_id: string;
-  division_id: string;
-  full_name?: string | null;
-  access_all_divisions?: boolean;
-  additional_division_ids?: string[];
-  is_read_only?: boolean;
-  cash_collection_enabled?: boolean;
-  cash_collection_division_ids?: string[];
-}
-
 interface AuthContextType {
   user: User | null;
   session: Session | null;
@@ -28,15 +30,26 @@ interface AuthContextType {
   adminToken: string | null;
   adminData: AdminData | null;
   isReadOnly: boolean;
+  hasCapability: (capability: Capability) => boolean;
+  impersonation: AdminImpersonation | null;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signInAsAdmin: (token: string, admin: AdminData) => void;
+  signInAsAdmin: (token: string, admin: AdminData, refreshToken?: string | null) => void;
   signOut: () => Promise<void>;
+  signOutAllDevices: () => Promise<void>;
+  startImpersonation: (adminId: string) => Promise<{ error: string | null }>;
+  stopImpersonation: () => Promise<void>;
+}
+
+// A super admin viewing the app as a division admin, read-only, until expiresAt
+export interface AdminImpersonation {
+  adminName: string;
+  expiresAt: number; // ms since epoch
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const ADMIN_TOKEN_KEY = "elife_admin_token";
-const ADMIN_DATA_KEY = "elife_admin_data";
+// Renew the access token this long before it expires
+const ADMIN_TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
 
 function getStoredAdminSession(): { token: string; data: AdminData } | null {
   try {
@@ -44,24 +57,39 @@ function getStoredAdminSession(): { token: string; data: AdminData } | null {
     const storedAdminData = localStorage.getItem(ADMIN_DATA_KEY);
     if (!storedToken || !storedAdminData) return null;
 
-    const [payload] = storedToken.split(".");
-    const decoded = JSON.parse(atob(payload));
+    const decoded = decodeAdminToken(storedToken);
 
-    if (decoded.exp && decoded.exp > Date.now()) {
+    // An expired access token is fine while the session can still be refreshed
+    if (decoded && (hasAdminRefreshToken() || !isAdminTokenExpired(decoded))) {
       return { token: storedToken, data: JSON.parse(storedAdminData) };
     }
 
-    // Token expired, clear it
-    localStorage.removeItem(ADMIN_TOKEN_KEY);
-    localStorage.removeItem(ADMIN_DATA_KEY);
+    // Token expired or in a legacy format, clear it
+    clearStoredAdminSession();
     return null;
   } catch {
-    localStorage.removeItem(ADMIN_TOKEN_KEY);
-    localStorage.removeItem(ADMIN_DATA_KEY);
+    clearStoredAdminSession();
     return null;
   }
 }
 
+// Keep only the fields the client relies on from an admin-auth response
+function toAdminData(admin: AdminData): AdminData {
+  return {
+    id: admin.id,
+    user_id: admin.user_id,
+    division_id: admin.division_id,
+    full_name: admin.full_name,
+    access_all_divisions: admin.access_all_divisions,
+    additional_division_ids: admin.additional_division_ids,
+    is_read_only: admin.is_read_only,
+    cash_collection_enabled: admin.cash_collection_enabled,
+    cash_collection_division_ids: admin.cash_collection_division_ids,
+    role_name: admin.role_name,
+    capabilities: admin.capabilities,
+  };
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -90,23 +118,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (!adminToken) return;
       
       try {
-        const { data, error } = await supabase.functions.invoke("admin-auth", {
+        const { data, error } = await invokeAdminFunction("admin-auth", {
           body: { action: "refresh" },
           headers: { "x-admin-token": adminToken },
         });
 
+        // Session revoked server-side (signed out elsewhere, deactivated, password reset)
+        if (error instanceof FunctionsHttpError && error.context.status === 401) {
+          clearAdminSession();
+          return;
+        }
+
         if (!error && data?.success && data?.admin) {
-          const updatedAdmin: AdminData = {
-            id: data.admin.id,
-            user_id: data.admin.user_id,
-            division_id: data.admin.division_id,
-            full_name: data.admin.full_name,
-            access_all_divisions: data.admin.access_all_divisions,
-            additional_division_ids: data.admin.additional_division_ids,
-            is_read_only: data.admin.is_read_only,
-            cash_collection_enabled: data.admin.cash_collection_enabled,
-            cash_collection_division_ids: data.admin.cash_collection_division_ids,
-          };
+          const updatedAdmin = toAdminData(data.admin);
           setAdminData(updatedAdmin);
           localStorage.setItem(ADMIN_DATA_KEY, JSON.stringify(updatedAdmin));
         }
@@ -118,6 +142,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refreshAdminData();
   }, [adminToken]);
 
+  // Renew the access token shortly before it expires (immediately if it already has)
+  useEffect(() => {
+    if (!adminToken) return;
+    const claims = decodeAdminToken(adminToken);
+    if (!claims) return;
+
+    // Impersonation sessions cannot be refreshed; they simply end when the token expires
+    if (claims.impersonated_by) {
+      const timer = window.setTimeout(clearAdminSession, Math.max(claims.exp * 1000 - Date.now(), 0));
+      return () => window.clearTimeout(timer);
+    }
+
+    const delay = Math.max(claims.exp * 1000 - Date.now() - ADMIN_TOKEN_REFRESH_MARGIN_MS, 0);
+    const timer = window.setTimeout(() => {
+      refreshAdminToken(adminToken);
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [adminToken]);
+
+  // Pick up tokens renewed by the timer, a retried function call or another tab
+  useEffect(() => {
+    return onAdminSessionRefreshed((refreshed) => {
+      if (!refreshed) {
+        setAdminToken(null);
+        setAdminData(null);
+        setRoles((current) => current.filter((r) => r !== "admin"));
+        return;
+      }
+
+      setAdminToken(refreshed.token);
+      if (refreshed.admin) {
+        const updatedAdmin = toAdminData(refreshed.admin);
+        setAdminData(updatedAdmin);
+        localStorage.setItem(ADMIN_DATA_KEY, JSON.stringify(updatedAdmin));
+      }
+    });
+  }, []);
+
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -161,21 +223,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error: error as Error | null };
   };
 
-  const signInAsAdmin = (token: string, admin: AdminData) => {
+  const signInAsAdmin = (token: string, admin: AdminData, refreshToken?: string | null) => {
     setAdminToken(token);
     setAdminData(admin);
     setRoles(["admin"]);
-    localStorage.setItem(ADMIN_TOKEN_KEY, token);
+    storeAdminSession(token, refreshToken);
     localStorage.setItem(ADMIN_DATA_KEY, JSON.stringify(admin));
   };
 
+  const clearAdminSession = () => {
+    setAdminToken(null);
+    setAdminData(null);
+    setRoles((current) => current.filter((r) => r !== "admin"));
+    clearStoredAdminSession();
+  };
+
+  const revokeAdminSession = async (action: "logout" | "logout_all") => {
+    if (!adminToken) return;
+    try {
+      await invokeAdminFunction("admin-auth", {
+        body: { action },
+        headers: { "x-admin-token": adminToken },
+      });
+    } catch (err) {
+      console.error("Error revoking admin session:", err);
+    }
+  };
+
   const signOut = async () => {
-    // Clear admin session
+    // Revoke and clear admin session
     if (adminToken) {
-      setAdminToken(null);
-      setAdminData(null);
-      localStorage.removeItem(ADMIN_TOKEN_KEY);
-      localStorage.removeItem(ADMIN_DATA_KEY);
+      await revokeAdminSession("logout");
+      clearAdminSession();
     }
     
     // Clear Supabase session
@@ -183,17 +262,68 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setRoles([]);
   };
 
-  const isSuperAdmin = roles.includes("super_admin");
-  const isAdmin = roles.includes("admin") || isSuperAdmin;
-  const isMember = roles.includes("member") || isAdmin;
+  const signOutAllDevices = async () => {
+    await revokeAdminSession("logout_all");
+    clearAdminSession();
+    await supabase.auth.signOut();
+    setRoles([]);
+  };
+
+  // Super admin only: open a read-only session as another admin. The super admin's own
+  // Supabase session is kept, so stopping returns straight to it.
+  const startImpersonation = async (adminId: string) => {
+    const { data, error } = await supabase.functions.invoke("admin-auth", {
+      body: { action: "impersonate", admin_id: adminId },
+    });
+
+    if (error || !data?.success || !data?.token) {
+      return { error: await getFunctionErrorMessage(error, data?.error || "Failed to view as admin") };
+    }
+
+    // roles keep the super admin's own; effectiveRoles switches to "admin" below
+    const admin = toAdminData(data.admin);
+    clearStoredAdminSession();
+    storeAdminSession(data.token);
+    localStorage.setItem(ADMIN_DATA_KEY, JSON.stringify(admin));
+    setAdminToken(data.token);
+    setAdminData(admin);
+    return { error: null };
+  };
+
+  // Signing out an impersonation session records the stop event server-side
+  const stopImpersonation = async () => {
+    await revokeAdminSession("logout");
+    clearAdminSession();
+  };
+
+  const tokenClaims = adminToken ? decodeAdminToken(adminToken) : null;
+  const impersonation: AdminImpersonation | null = tokenClaims?.impersonated_by
+    ? { adminName: adminData?.full_name || tokenClaims.full_name || "Admin", expiresAt: tokenClaims.exp * 1000 }
+    : null;
+
+  // While impersonating, the super admin's own roles are set aside so the app behaves
+  // exactly as it does for the viewed admin
+  const effectiveRoles: AppRole[] = impersonation ? ["admin"] : roles;
+  const isSuperAdmin = effectiveRoles.includes("super_admin");
+  const isAdmin = effectiveRoles.includes("admin") || isSuperAdmin;
+  const isMember = effectiveRoles.includes("member") || isAdmin;
   const isReadOnly = adminData?.is_read_only ?? false;
 
+  // Super admins hold every capability. Admin data stored before roles existed has no
+  // capabilities yet; treat it as unrestricted (unless read-only) until it is refreshed.
+  const hasCapability = (capability: Capability) => {
+    if (isSuperAdmin) return true;
+    if (!adminData) return false;
+    const capabilities = adminData.capabilities ?? (isReadOnly ? [] : CAPABILITIES);
+    return capabilities.includes(capability);
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
         session,
-        roles,
+        roles: effectiveRoles,
         isLoading,
         isSuperAdmin,
         isAdmin,
@@ -201,9 +331,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         adminToken,
         adminData,
         isReadOnly,
+        hasCapability,
+        impersonation,
         signIn,
         signInAsAdmin,
         signOut,
+        signOutAllDevices,
+        startImpersonation,
+        stopImpersonation,
       }}
     >
       {children}
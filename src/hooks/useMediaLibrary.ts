@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchMediaAssets, type MediaAsset } from "@/lib/media";
+
+// Loads the media library when enabled, e.g. once the picker dialog is opened
+export function useMediaLibrary(enabled = true) {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  const { adminToken } = useAuth();
+
+  const fetchAssets = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAssets(await fetchMediaAssets(adminToken));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load media");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    if (enabled) fetchAssets();
+  }, [enabled, fetchAssets]);
+
+  // Newly uploaded files go to the top without reloading the whole library
+  const addAsset = useCallback((asset: MediaAsset) => {
+    setAssets((current) => [asset, ...current.filter((a) => a.id !== asset.id)]);
+  }, []);
+
+  const removeAsset = useCallback((id: string) => {
+    setAssets((current) => current.filter((a) => a.id !== id));
+  }, []);
+
+  return { assets, isLoading, error, refetch: fetchAssets, addAsset, removeAsset };
+}
@@ -19,7 +19,9 @@ export type ProgramModule = Tables<"program_modules">;
 export type ProgramAnnouncement = Tables<"program_announcements">;
 export type ProgramAdvertisement = Tables<"program_advertisements">;
 export type ProgramFormQuestion = Tables<"program_form_questions">;
-export type ProgramRegistration = Tables<"program_registrations">;
+export type RegistrationReview = Tables<"registration_reviews">;
+// Reviews come with the registration; other reviewers' marks are blanked for non-adjudicators
+export type ProgramRegistration = Tables<"program_registrations"> & { reviews?: RegistrationReview[] };
 
 export function usePrograms() {
   const [programs, setPrograms] = useState<Program[]>([]);
@@ -182,7 +184,7 @@ export function useProgramRegistrations(programId: string | undefined) {
         // Super admin or authenticated user - use direct Supabase query
         const { data, error: fetchError } = await supabase
           .from("program_registrations")
-          .select("*")
+          .select("*, reviews:registration_reviews(*)")
           .eq("program_id", programId)
           .order("created_at", { ascending: false });
 
@@ -14,6 +14,154 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_login_throttles: {
+        Row: {
+          failure_count: number
+          key: string
+          kind: string
+          last_failure_at: string | null
+          locked_until: string | null
+          updated_at: string
+        }
+        Insert: {
+          failure_count?: number
+          key: string
+          kind: string
+          last_failure_at?: string | null
+          locked_until?: string | null
+          updated_at?: string
+        }
+        Update: {
+          failure_count?: number
+          key?: string
+          kind?: string
+          last_failure_at?: string | null
+          locked_until?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      admin_password_resets: {
+        Row: {
+          admin_id: string
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          id: string
+          used_at: string | null
+        }
+        Insert: {
+          admin_id: string
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          used_at?: string | null
+        }
+        Update: {
+          admin_id?: string
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_password_resets_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_roles: {
+        Row: {
+          capabilities: string[]
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          capabilities?: string[]
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          capabilities?: string[]
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      admin_sessions: {
+        Row: {
+          absolute_expires_at: string | null
+          admin_id: string
+          created_at: string
+          expires_at: string
+          impersonated_by: string | null
+          ip_address: string | null
+          jti: string
+          last_seen_at: string | null
+          refresh_token_hash: string | null
+          revoked_at: string | null
+          revoked_reason: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          absolute_expires_at?: string | null
+          admin_id: string
+          created_at?: string
+          expires_at: string
+          impersonated_by?: string | null
+          ip_address?: string | null
+          jti: string
+          last_seen_at?: string | null
+          refresh_token_hash?: string | null
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          absolute_expires_at?: string | null
+          admin_id?: string
+          created_at?: string
+          expires_at?: string
+          impersonated_by?: string | null
+          ip_address?: string | null
+          jti?: string
+          last_seen_at?: string | null
+          refresh_token_hash?: string | null
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_sessions_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       admins: {
         Row: {
           access_all_divisions: boolean
@@ -24,11 +172,15 @@ export type Database = {
           created_by: string | null
           division_id: string
           full_name: string | null
+          granted_capabilities: string[]
           id: string
           is_active: boolean | null
           is_read_only: boolean
+          must_change_password: boolean
           password_hash: string | null
           phone: string | null
+          revoked_capabilities: string[]
+          role_id: string | null
           user_id: string | null
         }
         Insert: {
@@ -40,11 +192,15 @@ export type Database = {
           created_by?: string | null
           division_id: string
           full_name?: string | null
+          granted_capabilities?: string[]
           id?: string
           is_active?: boolean | null
           is_read_only?: boolean
+          must_change_password?: boolean
           password_hash?: string | null
           phone?: string | null
+          revoked_capabilities?: string[]
+          role_id?: string | null
           user_id?: string | null
         }
         Update: {
@@ -56,11 +212,15 @@ export type Database = {
           created_by?: string | null
           division_id?: string
           full_name?: string | null
+          granted_capabilities?: string[]
           id?: string
           is_active?: boolean | null
           is_read_only?: boolean
+          must_change_password?: boolean
           password_hash?: string | null
           phone?: string | null
+          revoked_capabilities?: string[]
+          role_id?: string | null
           user_id?: string | null
         }
         Relationships: [
@@ -71,6 +231,13 @@ export type Database = {
             referencedRelation: "divisions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "admins_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "admin_roles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       agent_wallet_transactions: {
@@ -155,6 +322,62 @@ export type Database = {
           },
         ]
       }
+      audit_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          actor_type: string
+          after: Json | null
+          before: Json | null
+          created_at: string
+          division_id: string | null
+          entity_id: string | null
+          entity_type: string
+          id: string
+          ip_address: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          actor_type: string
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          division_id?: string | null
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          actor_type?: string
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          division_id?: string | null
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_events_division_id_fkey"
+            columns: ["division_id"]
+            isOneToOne: false
+            referencedRelation: "divisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cash_collections: {
         Row: {
           amount: number
@@ -317,6 +540,62 @@ export type Database = {
         }
         Relationships: []
       }
+      media_assets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          division_id: string | null
+          file_name: string
+          height: number | null
+          id: string
+          mime_type: string
+          path: string
+          size_bytes: number
+          thumbnail_path: string | null
+          thumbnail_url: string | null
+          url: string
+          width: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          division_id?: string | null
+          file_name: string
+          height?: number | null
+          id?: string
+          mime_type: string
+          path: string
+          size_bytes: number
+          thumbnail_path?: string | null
+          thumbnail_url?: string | null
+          url: string
+          width?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          division_id?: string | null
+          file_name?: string
+          height?: number | null
+          id?: string
+          mime_type?: string
+          path?: string
+          size_bytes?: number
+          thumbnail_path?: string | null
+          thumbnail_url?: string | null
+          url?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_assets_division_id_fkey"
+            columns: ["division_id"]
+            isOneToOne: false
+            referencedRelation: "divisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       members: {
         Row: {
           added_by: string | null
@@ -794,7 +1073,9 @@ export type Database = {
           is_published: boolean
           poster_url: string | null
           program_id: string
+          publish_at: string | null
           title: string | null
+          unpublish_at: string | null
           updated_at: string
           video_url: string | null
         }
@@ -805,7 +1086,9 @@ export type Database = {
           is_published?: boolean
           poster_url?: string | null
           program_id: string
+          publish_at?: string | null
           title?: string | null
+          unpublish_at?: string | null
           updated_at?: string
           video_url?: string | null
         }
@@ -816,7 +1099,9 @@ export type Database = {
           is_published?: boolean
           poster_url?: string | null
           program_id?: string
+          publish_at?: string | null
           title?: string | null
+          unpublish_at?: string | null
           updated_at?: string
           video_url?: string | null
         }
@@ -838,7 +1123,9 @@ export type Database = {
           is_published: boolean
           poster_url: string | null
           program_id: string
+          publish_at: string | null
           title: string
+          unpublish_at: string | null
           updated_at: string
           video_url: string | null
         }
@@ -849,7 +1136,9 @@ export type Database = {
           is_published?: boolean
           poster_url?: string | null
           program_id: string
+          publish_at?: string | null
           title: string
+          unpublish_at?: string | null
           updated_at?: string
           video_url?: string | null
         }
@@ -860,7 +1149,9 @@ export type Database = {
           is_published?: boolean
           poster_url?: string | null
           program_id?: string
+          publish_at?: string | null
           title?: string
+          unpublish_at?: string | null
           updated_at?: string
           video_url?: string | null
         }
@@ -874,8 +1165,96 @@ export type Database = {
           },
         ]
       }
+      program_attendance: {
+        Row: {
+          checked_in_at: string
+          checked_in_by: string | null
+          id: string
+          method: string
+          program_id: string
+          registration_id: string
+          session_id: string
+        }
+        Insert: {
+          checked_in_at?: string
+          checked_in_by?: string | null
+          id?: string
+          method?: string
+          program_id: string
+          registration_id: string
+          session_id: string
+        }
+        Update: {
+          checked_in_at?: string
+          checked_in_by?: string | null
+          id?: string
+          method?: string
+          program_id?: string
+          registration_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_attendance_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "program_attendance_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "program_registrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "program_attendance_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "program_attendance_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      program_attendance_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          program_id: string
+          sort_order: number
+          starts_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          program_id: string
+          sort_order?: number
+          starts_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          program_id?: string
+          sort_order?: number
+          starts_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_attendance_sessions_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       program_form_questions: {
         Row: {
+          config: Json
           created_at: string
           id: string
           is_required: boolean
@@ -884,8 +1263,10 @@ export type Database = {
           question_text: string
           question_type: string
           sort_order: number
+          visibility_rule: Json | null
         }
         Insert: {
+          config?: Json
           created_at?: string
           id?: string
           is_required?: boolean
@@ -894,8 +1275,10 @@ export type Database = {
           question_text: string
           question_type: string
           sort_order?: number
+          visibility_rule?: Json | null
         }
         Update: {
+          config?: Json
           created_at?: string
           id?: string
           is_required?: boolean
@@ -904,6 +1287,7 @@ export type Database = {
           question_text?: string
           question_type?: string
           sort_order?: number
+          visibility_rule?: Json | null
         }
         Relationships: [
           {
@@ -952,13 +1336,21 @@ export type Database = {
       }
       program_registrations: {
         Row: {
+          adjudicated_at: string | null
+          adjudicated_by: string | null
+          adjudication_note: string | null
           answers: Json
+          applicant_updated_at: string | null
           created_at: string
           id: string
           max_score: number | null
           percentage: number | null
           program_id: string
           rank: number | null
+          review_conflict: boolean
+          status: string
+          status_changed_at: string | null
+          status_reason: string | null
           total_score: number | null
           verification_scores: Json | null
           verification_status: string
@@ -966,13 +1358,21 @@ export type Database = {
           verified_by: string | null
         }
         Insert: {
+          adjudicated_at?: string | null
+          adjudicated_by?: string | null
+          adjudication_note?: string | null
           answers?: Json
+          applicant_updated_at?: string | null
           created_at?: string
           id?: string
           max_score?: number | null
           percentage?: number | null
           program_id: string
           rank?: number | null
+          review_conflict?: boolean
+          status?: string
+          status_changed_at?: string | null
+          status_reason?: string | null
           total_score?: number | null
           verification_scores?: Json | null
           verification_status?: string
@@ -980,13 +1380,21 @@ export type Database = {
           verified_by?: string | null
         }
         Update: {
+          adjudicated_at?: string | null
+          adjudicated_by?: string | null
+          adjudication_note?: string | null
           answers?: Json
+          applicant_updated_at?: string | null
           created_at?: string
           id?: string
           max_score?: number | null
           percentage?: number | null
           program_id?: string
           rank?: number | null
+          review_conflict?: boolean
+          status?: string
+          status_changed_at?: string | null
+          status_reason?: string | null
           total_score?: number | null
           verification_scores?: Json | null
           verification_status?: string
@@ -1003,9 +1411,59 @@ export type Database = {
           },
         ]
       }
+      program_templates: {
+        Row: {
+          content: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          division_id: string | null
+          id: string
+          name: string
+          source_program_id: string | null
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          division_id?: string | null
+          id?: string
+          name: string
+          source_program_id?: string | null
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          division_id?: string | null
+          id?: string
+          name?: string
+          source_program_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_templates_division_id_fkey"
+            columns: ["division_id"]
+            isOneToOne: false
+            referencedRelation: "divisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "program_templates_source_program_id_fkey"
+            columns: ["source_program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       programs: {
         Row: {
           all_panchayaths: boolean
+          allow_duplicate_mobile: boolean
+          applicant_edit_until: string | null
           created_at: string
           created_by: string
           description: string | null
@@ -1013,14 +1471,21 @@ export type Database = {
           end_date: string | null
           id: string
           is_active: boolean
+          max_seats: number | null
+          max_seats_per_panchayath: number | null
           name: string
           panchayath_id: string | null
+          review_conflict_threshold: number
+          reviewers_required: number
+          score_aggregation: string
           start_date: string | null
           updated_at: string
           verification_enabled: boolean
         }
         Insert: {
           all_panchayaths?: boolean
+          allow_duplicate_mobile?: boolean
+          applicant_edit_until?: string | null
           created_at?: string
           created_by: string
           description?: string | null
@@ -1028,14 +1493,21 @@ export type Database = {
           end_date?: string | null
           id?: string
           is_active?: boolean
+          max_seats?: number | null
+          max_seats_per_panchayath?: number | null
           name: string
           panchayath_id?: string | null
+          review_conflict_threshold?: number
+          reviewers_required?: number
+          score_aggregation?: string
           start_date?: string | null
           updated_at?: string
           verification_enabled?: boolean
         }
         Update: {
           all_panchayaths?: boolean
+          allow_duplicate_mobile?: boolean
+          applicant_edit_until?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
@@ -1043,8 +1515,13 @@ export type Database = {
           end_date?: string | null
           id?: string
           is_active?: boolean
+          max_seats?: number | null
+          max_seats_per_panchayath?: number | null
           name?: string
           panchayath_id?: string | null
+          review_conflict_threshold?: number
+          reviewers_required?: number
+          score_aggregation?: string
           start_date?: string | null
           updated_at?: string
           verification_enabled?: boolean
@@ -1066,6 +1543,88 @@ export type Database = {
           },
         ]
       }
+      registration_edit_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          failed_attempts: number
+          registration_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          failed_attempts?: number
+          registration_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          failed_attempts?: number
+          registration_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_edit_codes_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: true
+            referencedRelation: "program_registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_reviews: {
+        Row: {
+          assigned_at: string | null
+          assigned_by: string | null
+          created_at: string
+          id: string
+          max_score: number | null
+          percentage: number | null
+          registration_id: string
+          reviewer_id: string
+          reviewer_name: string
+          scores: Json | null
+          submitted_at: string | null
+          total_score: number | null
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          max_score?: number | null
+          percentage?: number | null
+          registration_id: string
+          reviewer_id: string
+          reviewer_name: string
+          scores?: Json | null
+          submitted_at?: string | null
+          total_score?: number | null
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          max_score?: number | null
+          percentage?: number | null
+          registration_id?: string
+          reviewer_id?: string
+          reviewer_name?: string
+          scores?: Json | null
+          submitted_at?: string | null
+          total_score?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_reviews_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "program_registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -1097,6 +1656,14 @@ export type Database = {
         }
         Returns: boolean
       }
+      program_seats_left: {
+        Args: { _panchayath_id?: string; _program_id: string }
+        Returns: number
+      }
+      record_admin_login_failure: {
+        Args: { _key: string; _kind: string; _window_seconds: number }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "super_admin" | "admin" | "member"
@@ -0,0 +1,130 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Capability } from "@/lib/permissions";
+
+// Division admin session storage and renewal.
+// Access tokens from admin-auth are short-lived; the refresh token stored alongside is
+// exchanged (and rotated) for a new access token shortly before expiry, or when a call
+// comes back 401. Concurrent callers share a single refresh request.
+
+export const ADMIN_TOKEN_KEY = "elife_admin_token";
+export const ADMIN_DATA_KEY = "elife_admin_data";
+export const ADMIN_REFRESH_TOKEN_KEY = "elife_admin_refresh_token";
+
+export interface AdminData {
+  id: string;
+  user_id: string;
+  division_id: string;
+  full_name?: string | null;
+  access_all_divisions?: boolean;
+  additional_division_ids?: string[];
+  is_read_only?: boolean;
+  cash_collection_enabled?: boolean;
+  cash_collection_division_ids?: string[];
+  role_name?: string | null;
+  capabilities?: Capability[];
+}
+
+export interface RefreshedAdminSession {
+  token: string;
+  admin: AdminData | null;
+}
+
+type RefreshListener = (session: RefreshedAdminSession | null) => void;
+
+const listeners = new Set<RefreshListener>();
+let inFlight: Promise<string | null> | null = null;
+
+export function storeAdminSession(token: string, refreshToken?: string | null) {
+  localStorage.setItem(ADMIN_TOKEN_KEY, token);
+  if (refreshToken) localStorage.setItem(ADMIN_REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function clearStoredAdminSession() {
+  localStorage.removeItem(ADMIN_TOKEN_KEY);
+  localStorage.removeItem(ADMIN_DATA_KEY);
+  localStorage.removeItem(ADMIN_REFRESH_TOKEN_KEY);
+}
+
+export function hasAdminRefreshToken(): boolean {
+  return !!localStorage.getItem(ADMIN_REFRESH_TOKEN_KEY);
+}
+
+// Called with the new session after every refresh, or null once the session is gone
+export function onAdminSessionRefreshed(listener: RefreshListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(session: RefreshedAdminSession | null) {
+  listeners.forEach((listener) => listener(session));
+}
+
+async function exchangeRefreshToken(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(ADMIN_REFRESH_TOKEN_KEY);
+  if (!refreshToken) return null;
+
+  const { data, error } = await supabase.functions.invoke("admin-auth", {
+    body: { action: "refresh_session", refresh_token: refreshToken },
+  });
+
+  if (!error && data?.success && data?.token) {
+    storeAdminSession(data.token, data.refresh_token);
+    notify({ token: data.token, admin: data.admin ?? null });
+    return data.token;
+  }
+
+  if (error instanceof FunctionsHttpError && error.context.status === 401) {
+    // Another tab may have rotated the refresh token a moment before us
+    const latestRefreshToken = localStorage.getItem(ADMIN_REFRESH_TOKEN_KEY);
+    const latestToken = localStorage.getItem(ADMIN_TOKEN_KEY);
+    if (latestRefreshToken && latestRefreshToken !== refreshToken && latestToken) {
+      notify({ token: latestToken, admin: null });
+      return latestToken;
+    }
+
+    clearStoredAdminSession();
+    notify(null);
+    return null;
+  }
+
+  // Network or server error: keep the session and let the caller surface the failure
+  console.error("Error refreshing admin session:", error || data?.error);
+  return null;
+}
+
+// Returns a usable access token, or null if the session could not be renewed.
+// If staleToken was already replaced (by another caller or tab) the newer token is returned.
+export function refreshAdminToken(staleToken?: string | null): Promise<string | null> {
+  const storedToken = localStorage.getItem(ADMIN_TOKEN_KEY);
+  if (staleToken && storedToken && storedToken !== staleToken) {
+    notify({ token: storedToken, admin: null });
+    return Promise.resolve(storedToken);
+  }
+
+  if (!inFlight) {
+    inFlight = exchangeRefreshToken().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+// supabase.functions.invoke for admin calls. A call that sent an x-admin-token and came
+// back 401 is retried once with a fresh token, after a successful refresh.
+export const invokeAdminFunction: typeof supabase.functions.invoke = async (functionName, options) => {
+  const result = await supabase.functions.invoke(functionName, options);
+
+  const headers = options?.headers as Record<string, string> | undefined;
+  const sentToken = headers?.["x-admin-token"];
+  if (!sentToken || !(result.error instanceof FunctionsHttpError) || result.error.context.status !== 401) {
+    return result;
+  }
+
+  const freshToken = await refreshAdminToken(sentToken);
+  if (!freshToken) return result;
+
+  return supabase.functions.invoke(functionName, { ...options, headers: { ...headers, "x-admin-token": freshToken } });
+};
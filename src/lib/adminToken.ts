@@ -0,0 +1,37 @@
+// Client-side view of the admin session JWT issued by the admin-auth edge function.
+// The signature can only be checked server-side; here we only read the claims.
+
+export interface AdminTokenClaims {
+  admin_id: string;
+  user_id: string | null;
+  division_id: string;
+  full_name?: string | null;
+  impersonated_by?: string | null; // set when a super admin is viewing as this admin
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+function base64UrlDecode(input: string): string {
+  const padded = input.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(input.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+export function decodeAdminToken(token: string): AdminTokenClaims | null {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+    const claims = JSON.parse(base64UrlDecode(parts[1]));
+    if (!claims?.admin_id || typeof claims.exp !== "number") return null;
+    return claims as AdminTokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+export function isAdminTokenExpired(claims: AdminTokenClaims, now = Date.now()): boolean {
+  // exp is in seconds (JWT NumericDate)
+  return claims.exp * 1000 <= now;
+}
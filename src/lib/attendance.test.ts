@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { checkInRegistration, countBySession, type AttendanceRecord } from "@/lib/attendance";
+
+vi.mock("@/lib/adminSession", () => ({ invokeAdminFunction: vi.fn() }));
+
+const invoke = vi.mocked(invokeAdminFunction);
+
+const APPLICANT = { id: "r1", status: "selected", name: "Asha", mobile: "9876543210", panchayath_name: "Mukkam", ward: "3" };
+
+const record = (id: string, session_id: string): AttendanceRecord => ({
+  id,
+  session_id,
+  registration_id: `reg-${id}`,
+  checked_in_at: "2026-10-15T09:00:00Z",
+  method: "scan",
+});
+
+// The error supabase.functions.invoke reports for a non-2xx response with a JSON body
+const httpError = (status: number, body: unknown) =>
+  new FunctionsHttpError(new Response(JSON.stringify(body), { status }));
+
+describe("countBySession", () => {
+  it("counts check-ins per session", () => {
+    const counts = countBySession([record("a", "s1"), record("b", "s2"), record("c", "s1")]);
+    expect(Object.fromEntries(counts)).toEqual({ s1: 2, s2: 1 });
+    expect(countBySession([]).size).toBe(0);
+  });
+});
+
+describe("checkInRegistration", () => {
+  beforeEach(() => invoke.mockReset());
+
+  it("sends the scanned code with the admin token", async () => {
+    invoke.mockResolvedValue({ data: { registration: APPLICANT, attendance: record("a", "s1") }, error: null });
+    await checkInRegistration("p1", "s1", "CODE", "scan", "token");
+    expect(invoke).toHaveBeenCalledWith("admin-attendance", {
+      headers: { "x-admin-token": "token" },
+      body: { action: "check_in", data: { program_id: "p1", session_id: "s1", code: "CODE", method: "scan" } },
+    });
+  });
+
+  it("tells a new check-in from a repeated one", async () => {
+    const attendance = record("a", "s1");
+    invoke.mockResolvedValueOnce({ data: { registration: APPLICANT, attendance }, error: null });
+    invoke.mockResolvedValueOnce({ data: { registration: APPLICANT, attendance, already_checked_in: true }, error: null });
+
+    expect(await checkInRegistration("p1", "s1", "CODE", "scan", null)).toEqual({
+      kind: "checked_in",
+      applicant: APPLICANT,
+      attendance,
+    });
+    expect((await checkInRegistration("p1", "s1", "CODE", "scan", null)).kind).toBe("already_checked_in");
+  });
+
+  it("returns refusals as an outcome with the function's message", async () => {
+    invoke.mockResolvedValue({
+      data: null,
+      error: httpError(409, { error: "Asha is on the waitlist", registration: APPLICANT }),
+    });
+    expect(await checkInRegistration("p1", "s1", "CODE", "scan", null)).toEqual({
+      kind: "refused",
+      message: "Asha is on the waitlist",
+      applicant: APPLICANT,
+    });
+  });
+
+  it("falls back to a generic refusal when the error has no body", async () => {
+    invoke.mockResolvedValue({ data: null, error: new Error("network") });
+    expect(await checkInRegistration("p1", "s1", "CODE", "manual", null)).toEqual({
+      kind: "refused",
+      message: "Check-in failed",
+      applicant: null,
+    });
+  });
+});
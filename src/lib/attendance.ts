@@ -0,0 +1,117 @@
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { getFunctionErrorBody, getFunctionErrorMessage } from "@/lib/functionErrors";
+
+// Attendance at programs held as events: sessions (days or sittings) and the check-ins made at
+// each by scanning the QR code on an applicant's acknowledgement or admit card. Everything goes
+// through the admin-attendance edge function.
+
+export interface AttendanceSession {
+  id: string;
+  program_id: string;
+  name: string;
+  starts_at: string | null;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface AttendanceRecord {
+  id: string;
+  session_id: string;
+  registration_id: string;
+  checked_in_at: string;
+  method: "scan" | "manual";
+}
+
+export interface CheckInApplicant {
+  id: string;
+  status: string;
+  name: string;
+  mobile: string;
+  panchayath_name: string;
+  ward: string;
+}
+
+export type CheckInOutcome =
+  | { kind: "checked_in" | "already_checked_in"; applicant: CheckInApplicant; attendance: AttendanceRecord }
+  | { kind: "refused"; message: string; applicant: CheckInApplicant | null };
+
+async function invokeAttendance<T>(adminToken: string | null, body: Record<string, unknown>, fallback: string): Promise<T> {
+  const { data, error } = await invokeAdminFunction("admin-attendance", {
+    headers: adminToken ? { "x-admin-token": adminToken } : {},
+    body,
+  });
+  if (error) throw new Error(await getFunctionErrorMessage(error, fallback));
+  return data as T;
+}
+
+export async function fetchAttendance(
+  programId: string,
+  adminToken: string | null
+): Promise<{ sessions: AttendanceSession[]; attendance: AttendanceRecord[] }> {
+  return invokeAttendance(adminToken, { action: "list", data: { program_id: programId } }, "Failed to load attendance");
+}
+
+export async function createAttendanceSession(
+  programId: string,
+  session: { name: string; starts_at: string | null },
+  adminToken: string | null
+): Promise<AttendanceSession> {
+  const data = await invokeAttendance<{ session: AttendanceSession }>(
+    adminToken,
+    { action: "create_session", data: { program_id: programId, ...session } },
+    "Failed to add session"
+  );
+  return data.session;
+}
+
+export async function deleteAttendanceSession(programId: string, sessionId: string, adminToken: string | null) {
+  await invokeAttendance(
+    adminToken,
+    { action: "delete_session", data: { program_id: programId, session_id: sessionId } },
+    "Failed to delete session"
+  );
+}
+
+// Refusals (unknown code, waitlisted or withdrawn applicant) come back as an outcome rather
+// than an error, so the check-in screen can show them and carry on scanning
+export async function checkInRegistration(
+  programId: string,
+  sessionId: string,
+  code: string,
+  method: AttendanceRecord["method"],
+  adminToken: string | null
+): Promise<CheckInOutcome> {
+  const { data, error } = await invokeAdminFunction("admin-attendance", {
+    headers: adminToken ? { "x-admin-token": adminToken } : {},
+    body: { action: "check_in", data: { program_id: programId, session_id: sessionId, code, method } },
+  });
+
+  if (error) {
+    const body = await getFunctionErrorBody(error);
+    return {
+      kind: "refused",
+      message: typeof body?.error === "string" ? body.error : "Check-in failed",
+      applicant: (body?.registration as CheckInApplicant | undefined) ?? null,
+    };
+  }
+  return {
+    kind: data.already_checked_in ? "already_checked_in" : "checked_in",
+    applicant: data.registration,
+    attendance: data.attendance,
+  };
+}
+
+export async function undoCheckIn(programId: string, attendanceId: string, adminToken: string | null) {
+  await invokeAttendance(
+    adminToken,
+    { action: "undo_check_in", data: { program_id: programId, attendance_id: attendanceId } },
+    "Failed to undo check-in"
+  );
+}
+
+// Check-ins per session, keyed by session id
+export function countBySession(attendance: AttendanceRecord[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  attendance.forEach((a) => counts.set(a.session_id, (counts.get(a.session_id) ?? 0) + 1));
+  return counts;
+}
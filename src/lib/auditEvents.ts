@@ -0,0 +1,66 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AuditEvent = Tables<"audit_events">;
+
+// Tables (and edge function entities) that show up in the activity log
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  admins: "Admin",
+  admin_roles: "Admin role",
+  user_roles: "User role",
+  divisions: "Division",
+  panchayaths: "Panchayath",
+  clusters: "Cluster",
+  members: "Member",
+  programs: "Program",
+  program_modules: "Program module",
+  program_form_questions: "Form question",
+  program_registrations: "Registration",
+  program_templates: "Program template",
+  registration_reviews: "Registration review",
+  program_announcements: "Announcement",
+  program_advertisements: "Advertisement",
+  program_attendance_sessions: "Attendance session",
+  program_attendance: "Check-in",
+  media_assets: "Media",
+  cash_collections: "Cash collection",
+  pennyekart_agents: "Pennyekart agent",
+  agent_wallet_transactions: "Wallet transaction",
+  payout_commission_rates: "Commission rate",
+  old_payments: "Old payments",
+};
+
+export function describeEntity(entityType: string): string {
+  return AUDIT_ENTITY_LABELS[entityType] ?? entityType;
+}
+
+// Bookkeeping columns that change on every update and only add noise to a diff
+const IGNORED_FIELDS = new Set(["updated_at"]);
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+// Fields that differ between before and after; every field for a create or delete
+export function getChangedFields(event: Pick<AuditEvent, "before" | "after">): AuditFieldChange[] {
+  const before = asRecord(event.before);
+  const after = asRecord(event.after);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+    .sort((a, b) => a.field.localeCompare(b.field));
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
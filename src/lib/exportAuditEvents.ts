@@ -0,0 +1,45 @@
+import * as XLSX from "xlsx";
+import { type AuditEvent, describeEntity, formatAuditValue, getChangedFields } from "@/lib/auditEvents";
+
+export function exportAuditEventsToXlsx(events: AuditEvent[], divisionNames: Map<string, string>) {
+  const rows = events.map((event, i) => ({
+    "#": i + 1,
+    Time: new Date(event.created_at).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "medium" }),
+    Actor: event.actor_name || event.actor_id || "",
+    "Actor Type": event.actor_type,
+    Action: event.action,
+    Entity: describeEntity(event.entity_type),
+    "Entity ID": event.entity_id || "",
+    Division: event.division_id ? divisionNames.get(event.division_id) || event.division_id : "",
+    Changes: getChangedFields(event)
+      .map((change) => `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`)
+      .join("\n"),
+    "IP Address": event.ip_address || "",
+    Before: event.before ? JSON.stringify(event.before) : "",
+    After: event.after ? JSON.stringify(event.after) : "",
+  }));
+
+  const ws = XLSX.utils.json_to_sheet(rows);
+
+  // Column widths
+  ws["!cols"] = [
+    { wch: 6 },  // #
+    { wch: 22 }, // Time
+    { wch: 22 }, // Actor
+    { wch: 12 }, // Actor Type
+    { wch: 18 }, // Action
+    { wch: 20 }, // Entity
+    { wch: 38 }, // Entity ID
+    { wch: 18 }, // Division
+    { wch: 50 }, // Changes
+    { wch: 16 }, // IP Address
+    { wch: 60 }, // Before
+    { wch: 60 }, // After
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Activity");
+
+  const timestamp = new Date().toISOString().split("T")[0];
+  XLSX.writeFile(wb, `Activity_Log_${timestamp}.xlsx`);
+}
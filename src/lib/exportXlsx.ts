@@ -1,18 +1,31 @@
 import * as XLSX from "xlsx";
 import { ProgramFormQuestion, ProgramRegistration } from "@/hooks/usePrograms";
+import { DEFAULT_RATING_SCALE, formatAnswer, getQuestionConfig, isAnswerEmpty } from "@/lib/formQuestions";
+import { getInputQuestions } from "@/lib/formLogic";
+import { getRegistrationStatusLabel, holdsSeat } from "@/lib/registrationStatus";
+import { countBySession, type AttendanceRecord, type AttendanceSession } from "@/lib/attendance";
 
 export interface ExportColumn {
   header: string;
   key: string;
 }
 
+// Numbers and ratings stay numeric so they can be sorted and summed in the sheet
+function getExportCell(question: ProgramFormQuestion, answer: unknown): string | number {
+  if (isAnswerEmpty(answer)) return "";
+  if ((question.question_type === "number" || question.question_type === "rating") && !isNaN(Number(answer))) {
+    return Number(answer);
+  }
+  return formatAnswer(question, answer);
+}
+
 export function exportRegistrationsToXlsx(
   registrations: ProgramRegistration[],
   questions: ProgramFormQuestion[],
   programName: string
 ) {
-  // Sort questions by sort_order
-  const sortedQuestions = [...questions].sort((a, b) => a.sort_order - b.sort_order);
+  // Sort questions by sort_order, leaving out section breaks
+  const sortedQuestions = getInputQuestions(questions).sort((a, b) => a.sort_order - b.sort_order);
 
   // Create header row with fixed fields first
   const headers = [
@@ -23,8 +36,16 @@ export function exportRegistrationsToXlsx(
     "Mobile Number",
     "Panchayath",
     "Ward",
+    "Status",
+    "Status Reason",
     "Score %",
-    ...sortedQuestions.map((q) => q.question_text),
+    ...sortedQuestions.map((q) =>
+      q.question_type === "rating"
+        ? `${q.question_text} (1-${getQuestionConfig(q).scale || DEFAULT_RATING_SCALE})`
+        : q.question_type === "file"
+          ? `${q.question_text} (file name)`
+          : q.question_text
+    ),
   ];
 
   // Create data rows
@@ -43,16 +64,13 @@ export function exportRegistrationsToXlsx(
       fixedData.mobile || "",
       fixedData.panchayath_name || "",
       fixedData.ward ? `Ward ${fixedData.ward}` : "",
+      getRegistrationStatusLabel(reg.status),
+      reg.status_reason || "",
       (reg as any).percentage != null ? `${(reg as any).percentage.toFixed(1)}%` : "-",
     ];
 
     sortedQuestions.forEach((question) => {
-      const answer = answers[question.id];
-      if (Array.isArray(answer)) {
-        row.push(answer.join(", "));
-      } else {
-        row.push(answer || "");
-      }
+      row.push(getExportCell(question, answers[question.id]));
     });
 
     return row;
@@ -79,3 +97,151 @@ export function exportRegistrationsToXlsx(
   // Download
   XLSX.writeFile(wb, fileName);
 }
+
+function getFixed(reg: ProgramRegistration): Record<string, string | undefined> {
+  return (reg.answers as { _fixed?: Record<string, string | undefined> } | null)?._fixed || {};
+}
+
+// Excel limits sheet names to 31 characters without []:*?/\ and needs them unique
+function getSheetName(name: string, used: Set<string>): string {
+  const base = (name.replace(/[[\]:*?/\\]/g, " ").trim() || "Unknown").substring(0, 28);
+  let sheetName = base;
+  for (let i = 2; used.has(sheetName.toLowerCase()); i++) sheetName = `${base} ${i}`;
+  used.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+// Selection list for the field teams: a summary of counts by panchayath and ward, then one
+// sheet per panchayath listing its applicants ward by ward in rank order
+export function exportSelectionListToXlsx(
+  registrations: ProgramRegistration[],
+  programName: string,
+  listName: string
+) {
+  const byPanchayath = new Map<string, ProgramRegistration[]>();
+  registrations.forEach((reg) => {
+    const panchayath = getFixed(reg).panchayath_name || "Unknown";
+    byPanchayath.set(panchayath, [...(byPanchayath.get(panchayath) ?? []), reg]);
+  });
+  const panchayathNames = Array.from(byPanchayath.keys()).sort();
+
+  const wardNumber = (reg: ProgramRegistration) => Number(getFixed(reg).ward) || 0;
+  const byWardAndRank = (a: ProgramRegistration, b: ProgramRegistration) =>
+    wardNumber(a) - wardNumber(b) ||
+    (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER) ||
+    String(getFixed(a).name || "").localeCompare(String(getFixed(b).name || ""));
+
+  const wb = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  const summaryRows: (string | number)[][] = [["Panchayath", "Ward", listName]];
+  panchayathNames.forEach((panchayath) => {
+    const wardCounts = new Map<number, number>();
+    byPanchayath.get(panchayath)!.forEach((reg) => {
+      wardCounts.set(wardNumber(reg), (wardCounts.get(wardNumber(reg)) ?? 0) + 1);
+    });
+    Array.from(wardCounts.keys())
+      .sort((a, b) => a - b)
+      .forEach((ward) => summaryRows.push([panchayath, ward ? `Ward ${ward}` : "-", wardCounts.get(ward)!]));
+    summaryRows.push([`${panchayath} total`, "", byPanchayath.get(panchayath)!.length]);
+  });
+  summaryRows.push(["Total", "", registrations.length]);
+
+  const summary = XLSX.utils.aoa_to_sheet(summaryRows);
+  summary["!cols"] = [{ wch: 30 }, { wch: 10 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(wb, summary, getSheetName("Summary", usedNames));
+
+  panchayathNames.forEach((panchayath) => {
+    const headers = ["#", "Ward", "Rank", "Name", "Mobile Number", "Score %", "Status"];
+    const rows = byPanchayath
+      .get(panchayath)!
+      .sort(byWardAndRank)
+      .map((reg, index) => {
+        const fixedData = getFixed(reg);
+        return [
+          index + 1,
+          fixedData.ward ? `Ward ${fixedData.ward}` : "",
+          reg.rank ?? "-",
+          fixedData.name || "",
+          fixedData.mobile || "",
+          reg.percentage != null ? `${reg.percentage.toFixed(1)}%` : "-",
+          getRegistrationStatusLabel(reg.status),
+        ];
+      });
+
+    const ws = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+    ws["!cols"] = headers.map((header) => ({ wch: header === "Name" ? 30 : 15 }));
+    XLSX.utils.book_append_sheet(wb, ws, getSheetName(panchayath, usedNames));
+  });
+
+  const timestamp = new Date().toISOString().split("T")[0];
+  const safeFileName = programName.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 50);
+  const safeListName = listName.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase();
+  XLSX.writeFile(wb, `${safeFileName}_${safeListName}_${timestamp}.xlsx`);
+}
+
+// Attendance: check-in counts per session, then one row per applicant with their check-in
+// time at each session. Everyone holding a seat is listed, checked in or not.
+export function exportAttendanceToXlsx(
+  registrations: ProgramRegistration[],
+  sessions: AttendanceSession[],
+  attendance: AttendanceRecord[],
+  programName: string
+) {
+  const checkIns = new Map(attendance.map((a) => [`${a.session_id}:${a.registration_id}`, a]));
+  const attended = new Set(attendance.map((a) => a.registration_id));
+  const listed = registrations
+    .filter((reg) => holdsSeat(reg.status) || attended.has(reg.id))
+    .sort(
+      (a, b) =>
+        String(getFixed(a).panchayath_name || "").localeCompare(String(getFixed(b).panchayath_name || "")) ||
+        (Number(getFixed(a).ward) || 0) - (Number(getFixed(b).ward) || 0) ||
+        String(getFixed(a).name || "").localeCompare(String(getFixed(b).name || ""))
+    );
+  const counts = countBySession(attendance);
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+
+  const wb = XLSX.utils.book_new();
+
+  const summaryRows: (string | number)[][] = [["Session", "Starts", "Checked In", "Expected", "Attendance %"]];
+  sessions.forEach((session) => {
+    const checkedIn = counts.get(session.id) ?? 0;
+    summaryRows.push([
+      session.name,
+      session.starts_at ? formatTime(session.starts_at) : "",
+      checkedIn,
+      listed.length,
+      listed.length > 0 ? `${((checkedIn / listed.length) * 100).toFixed(1)}%` : "-",
+    ]);
+  });
+  const summary = XLSX.utils.aoa_to_sheet(summaryRows);
+  summary["!cols"] = [{ wch: 30 }, { wch: 20 }, { wch: 12 }, { wch: 12 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(wb, summary, "Summary");
+
+  const headers = ["#", "Name", "Mobile Number", "Panchayath", "Ward", "Status", ...sessions.map((s) => s.name), "Sessions Attended"];
+  const rows = listed.map((reg, index) => {
+    const fixedData = getFixed(reg);
+    const times = sessions.map((session) => {
+      const checkIn = checkIns.get(`${session.id}:${reg.id}`);
+      return checkIn ? formatTime(checkIn.checked_in_at) : "";
+    });
+    return [
+      index + 1,
+      fixedData.name || "",
+      fixedData.mobile || "",
+      fixedData.panchayath_name || "",
+      fixedData.ward ? `Ward ${fixedData.ward}` : "",
+      getRegistrationStatusLabel(reg.status),
+      ...times,
+      times.filter(Boolean).length,
+    ];
+  });
+  const ws = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  ws["!cols"] = headers.map((header) => ({ wch: header === "Name" ? 30 : Math.max(header.length, 15) }));
+  XLSX.utils.book_append_sheet(wb, ws, "Attendance");
+
+  const timestamp = new Date().toISOString().split("T")[0];
+  const safeFileName = programName.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 50);
+  XLSX.writeFile(wb, `${safeFileName}_attendance_${timestamp}.xlsx`);
+}
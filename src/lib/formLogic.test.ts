@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import {
+  buildFormPages,
+  createFormLogic,
+  evaluateCondition,
+  getInputQuestions,
+  isRuleSatisfied,
+  type VisibilityRule,
+} from "@/lib/formLogic";
+
+function question(
+  id: string,
+  question_type: string,
+  extra: { options?: string[]; config?: object; visibility_rule?: VisibilityRule } = {},
+): ProgramFormQuestion {
+  return {
+    id,
+    question_text: id,
+    question_type,
+    is_required: false,
+    options: extra.options ?? null,
+    config: extra.config ?? {},
+    visibility_rule: extra.visibility_rule ?? null,
+    sort_order: 0,
+  } as unknown as ProgramFormQuestion;
+}
+
+describe("evaluateCondition", () => {
+  it("compares answers case-insensitively and ignores surrounding spaces", () => {
+    expect(evaluateCondition({ question_id: "q", operator: "equals", value: "Yes" }, " yes ")).toBe(true);
+    expect(evaluateCondition({ question_id: "q", operator: "not_equals", value: "Yes" }, "no")).toBe(true);
+  });
+
+  it("never treats an empty answer as equal", () => {
+    expect(evaluateCondition({ question_id: "q", operator: "equals", value: "" }, "")).toBe(false);
+  });
+
+  it("matches any of a checkbox answer's values", () => {
+    const answer = ["Cooking", "Tailoring"];
+    expect(evaluateCondition({ question_id: "q", operator: "equals", value: "tailoring" }, answer)).toBe(true);
+    expect(evaluateCondition({ question_id: "q", operator: "contains", value: "cook" }, answer)).toBe(true);
+    expect(evaluateCondition({ question_id: "q", operator: "not_equals", value: "cooking" }, answer)).toBe(false);
+  });
+
+  it("compares numbers and fails on anything that is not one", () => {
+    expect(evaluateCondition({ question_id: "q", operator: "greater_than", value: "18" }, "21")).toBe(true);
+    expect(evaluateCondition({ question_id: "q", operator: "less_than", value: "18" }, 21)).toBe(false);
+    expect(evaluateCondition({ question_id: "q", operator: "greater_than", value: "18" }, "abc")).toBe(false);
+    expect(evaluateCondition({ question_id: "q", operator: "greater_than", value: "18" }, "")).toBe(false);
+  });
+
+  it("checks whether a question was answered", () => {
+    expect(evaluateCondition({ question_id: "q", operator: "answered" }, "x")).toBe(true);
+    expect(evaluateCondition({ question_id: "q", operator: "not_answered" }, [])).toBe(true);
+  });
+});
+
+describe("isRuleSatisfied", () => {
+  const ids = new Set(["a", "b"]);
+  const rule = (match: "all" | "any"): VisibilityRule => ({
+    match,
+    conditions: [
+      { question_id: "a", operator: "equals", value: "yes" },
+      { question_id: "b", operator: "answered" },
+    ],
+  });
+
+  it("shows questions without a rule", () => {
+    expect(isRuleSatisfied(null, {}, ids)).toBe(true);
+  });
+
+  it("needs every condition for 'all' and one for 'any'", () => {
+    expect(isRuleSatisfied(rule("all"), { a: "yes" }, ids)).toBe(false);
+    expect(isRuleSatisfied(rule("all"), { a: "yes", b: "x" }, ids)).toBe(true);
+    expect(isRuleSatisfied(rule("any"), { a: "yes" }, ids)).toBe(true);
+    expect(isRuleSatisfied(rule("any"), {}, ids)).toBe(false);
+  });
+
+  it("ignores conditions on deleted questions", () => {
+    expect(isRuleSatisfied(rule("all"), { a: "yes" }, new Set(["a"]))).toBe(true);
+    expect(isRuleSatisfied(rule("all"), {}, new Set())).toBe(true);
+  });
+});
+
+describe("buildFormPages", () => {
+  it("starts a new page at each section break", () => {
+    const pages = buildFormPages([
+      question("q1", "text"),
+      question("s1", "section"),
+      question("q2", "text"),
+      question("q3", "text"),
+    ]);
+    expect(pages.map((p) => [p.section?.id ?? null, p.questions.map((q) => q.id)])).toEqual([
+      [null, ["q1"]],
+      ["s1", ["q2", "q3"]],
+    ]);
+  });
+
+  it("leaves section breaks out of the input questions", () => {
+    expect(getInputQuestions([question("q1", "text"), question("s1", "section")]).map((q) => q.id)).toEqual(["q1"]);
+  });
+});
+
+describe("createFormLogic", () => {
+  // q1 skips to s2 on "no" and ends the form on "stop"; s1 only shows when q1 is "yes"
+  const form = () =>
+    createFormLogic(
+      buildFormPages([
+        question("q1", "radio", {
+          options: ["yes", "no", "stop"],
+          config: { skip_to: { no: "s2", stop: "end" } },
+        }),
+        question("s1", "section", {
+          visibility_rule: { match: "all", conditions: [{ question_id: "q1", operator: "equals", value: "yes" }] },
+        }),
+        question("q2", "text"),
+        question("s2", "section"),
+        question("q3", "text", {
+          visibility_rule: { match: "all", conditions: [{ question_id: "q2", operator: "answered" }] },
+        }),
+        question("q4", "text"),
+      ]),
+    );
+
+  it("moves to the next shown page when no skip applies", () => {
+    expect(form().getNextPageIndex(0, { q1: "yes" })).toBe(1);
+    expect(form().getNextPageIndex(0, {})).toBe(2);
+  });
+
+  it("follows skip targets and ends the form on 'end'", () => {
+    expect(form().getNextPageIndex(0, { q1: "no" })).toBe(2);
+    expect(form().getNextPageIndex(0, { q1: "stop" })).toBeNull();
+    expect(form().getNextPageIndex(2, {})).toBeNull();
+  });
+
+  it("lists only the questions the applicant would see", () => {
+    const visible = (answers: Record<string, unknown>) => form().getVisibleQuestions(answers).map((q) => q.id);
+    expect(visible({ q1: "yes", q2: "x" })).toEqual(["q1", "q2", "q3", "q4"]);
+    expect(visible({ q1: "stop" })).toEqual(["q1"]);
+  });
+
+  it("does not count answers on skipped pages towards later rules", () => {
+    const visible = form().getVisibleQuestions({ q1: "no", q2: "left over" }).map((q) => q.id);
+    expect(visible).toEqual(["q1", "q4"]);
+  });
+});
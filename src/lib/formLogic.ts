@@ -0,0 +1,186 @@
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import { getQuestionConfig, isAnswerEmpty } from "@/lib/formQuestions";
+
+// Branching for program registration forms. "section" questions split the form into pages;
+// any question or section can carry a visibility rule on earlier answers, and single-choice
+// questions can skip ahead to a later section (or straight to the end) based on the answer.
+
+export const SECTION_QUESTION_TYPE = "section";
+export const SKIP_TO_END = "end";
+
+export type ConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than"
+  | "less_than"
+  | "answered"
+  | "not_answered";
+
+export interface VisibilityCondition {
+  question_id: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+// Stored in program_form_questions.visibility_rule; null means always shown
+export interface VisibilityRule {
+  match: "all" | "any";
+  conditions: VisibilityCondition[];
+}
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: "equals", label: "equals", needsValue: true },
+  { value: "not_equals", label: "does not equal", needsValue: true },
+  { value: "contains", label: "contains", needsValue: true },
+  { value: "greater_than", label: "is greater than", needsValue: true },
+  { value: "less_than", label: "is less than", needsValue: true },
+  { value: "answered", label: "is answered", needsValue: false },
+  { value: "not_answered", label: "is not answered", needsValue: false },
+];
+
+// Question types whose single answer can send the applicant to a later section
+export const SKIP_QUESTION_TYPES = ["select", "radio", "yes_no"];
+
+export function isSection(question: Pick<ProgramFormQuestion, "question_type">): boolean {
+  return question.question_type === SECTION_QUESTION_TYPE;
+}
+
+// Questions that collect an answer, i.e. everything except section breaks
+export function getInputQuestions<T extends Pick<ProgramFormQuestion, "question_type">>(questions: T[]): T[] {
+  return questions.filter((q) => !isSection(q));
+}
+
+export function getVisibilityRule(question: Pick<ProgramFormQuestion, "visibility_rule">): VisibilityRule | null {
+  const rule = question.visibility_rule as unknown as VisibilityRule | null;
+  if (!rule || !Array.isArray(rule.conditions) || rule.conditions.length === 0) return null;
+  return rule;
+}
+
+export function getSkipTargets(question: ProgramFormQuestion): Record<string, string> {
+  return getQuestionConfig(question).skip_to ?? {};
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+export function evaluateCondition(condition: VisibilityCondition, answer: unknown): boolean {
+  const expected = normalize(condition.value);
+  const values = Array.isArray(answer) ? answer.map(normalize) : [normalize(answer)];
+
+  switch (condition.operator) {
+    case "answered":
+      return !isAnswerEmpty(answer);
+    case "not_answered":
+      return isAnswerEmpty(answer);
+    case "equals":
+      return !isAnswerEmpty(answer) && values.includes(expected);
+    case "not_equals":
+      return !values.includes(expected);
+    case "contains":
+      return values.some((v) => v.includes(expected));
+    case "greater_than":
+    case "less_than": {
+      if (isAnswerEmpty(answer) || isNaN(Number(answer)) || condition.value === undefined || isNaN(Number(condition.value))) {
+        return false;
+      }
+      return condition.operator === "greater_than"
+        ? Number(answer) > Number(condition.value)
+        : Number(answer) < Number(condition.value);
+    }
+    default:
+      return true;
+  }
+}
+
+// Conditions on questions that no longer exist are ignored
+export function isRuleSatisfied(
+  rule: VisibilityRule | null,
+  answers: Record<string, unknown>,
+  questionIds: Set<string>,
+): boolean {
+  const conditions = (rule?.conditions ?? []).filter((c) => questionIds.has(c.question_id));
+  if (conditions.length === 0) return true;
+
+  const results = conditions.map((c) => evaluateCondition(c, answers[c.question_id]));
+  return rule!.match === "any" ? results.some(Boolean) : results.every(Boolean);
+}
+
+export interface FormPage {
+  section: ProgramFormQuestion | null; // null for the questions before the first section break
+  questions: ProgramFormQuestion[];
+}
+
+// Split questions (already sorted by sort_order) into pages at each section break
+export function buildFormPages(sortedQuestions: ProgramFormQuestion[]): FormPage[] {
+  const pages: FormPage[] = [{ section: null, questions: [] }];
+  sortedQuestions.forEach((question) => {
+    if (isSection(question)) {
+      pages.push({ section: question, questions: [] });
+    } else {
+      pages[pages.length - 1].questions.push(question);
+    }
+  });
+  return pages;
+}
+
+export interface FormLogic {
+  questionIds: Set<string>;
+  getNextPageIndex: (pageIndex: number, answers: Record<string, unknown>) => number | null;
+  getVisibleQuestions: (answers: Record<string, unknown>) => ProgramFormQuestion[];
+}
+
+export function createFormLogic(pages: FormPage[]): FormLogic {
+  const questionIds = new Set(pages.flatMap((p) => [...(p.section ? [p.section.id] : []), ...p.questions.map((q) => q.id)]));
+
+  const isPageShown = (page: FormPage, answers: Record<string, unknown>) =>
+    !page.section || isRuleSatisfied(getVisibilityRule(page.section), answers, questionIds);
+
+  const getPageQuestions = (page: FormPage, answers: Record<string, unknown>) =>
+    page.questions.filter((q) => isRuleSatisfied(getVisibilityRule(q), answers, questionIds));
+
+  // null once the form is finished. The last answered skip question on the page decides;
+  // otherwise the next page whose section is shown follows.
+  const getNextPageIndex = (pageIndex: number, answers: Record<string, unknown>): number | null => {
+    let target: string | null = null;
+    getPageQuestions(pages[pageIndex], answers).forEach((question) => {
+      if (!SKIP_QUESTION_TYPES.includes(question.question_type)) return;
+      const answer = answers[question.id];
+      if (isAnswerEmpty(answer)) return;
+      const skipTo = getSkipTargets(question)[String(answer)];
+      if (skipTo) target = skipTo;
+    });
+
+    if (target === SKIP_TO_END) return null;
+    if (target) {
+      const targetIndex = pages.findIndex((p) => p.section?.id === target);
+      if (targetIndex > pageIndex && isPageShown(pages[targetIndex], answers)) return targetIndex;
+    }
+
+    for (let next = pageIndex + 1; next < pages.length; next++) {
+      if (isPageShown(pages[next], answers)) return next;
+    }
+    return null;
+  };
+
+  // Walk the pages the applicant would actually see. Answers to questions left behind
+  // (hidden or skipped) do not count towards later rules.
+  const getVisibleQuestions = (answers: Record<string, unknown>): ProgramFormQuestion[] => {
+    const visible: ProgramFormQuestion[] = [];
+    const visibleAnswers: Record<string, unknown> = {};
+    let pageIndex: number | null = 0;
+
+    while (pageIndex !== null) {
+      pages[pageIndex].questions.forEach((question) => {
+        if (!isRuleSatisfied(getVisibilityRule(question), visibleAnswers, questionIds)) return;
+        visible.push(question);
+        visibleAnswers[question.id] = answers[question.id];
+      });
+      pageIndex = getNextPageIndex(pageIndex, visibleAnswers);
+    }
+    return visible;
+  };
+
+  return { questionIds, getNextPageIndex, getVisibleQuestions };
+}
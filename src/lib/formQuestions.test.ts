@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import { formatAadhaar, isValidAadhaar, validateAnswer, type QuestionConfig } from "@/lib/formQuestions";
+import {
+  type FormQuestion,
+  validateAnswer as validateAnswerOnServer,
+} from "../../supabase/functions/_shared/registrationForm";
+
+const PROGRAM_ID = "program-1";
+
+function question(question_type: string, config: QuestionConfig = {}, options: string[] | null = null) {
+  return {
+    id: "q1",
+    question_text: "Question",
+    question_type,
+    is_required: false,
+    options,
+    config,
+    visibility_rule: null,
+    sort_order: 0,
+  } as unknown as ProgramFormQuestion & FormQuestion;
+}
+
+describe("isValidAadhaar", () => {
+  it("accepts numbers with a valid Verhoeff check digit", () => {
+    expect(isValidAadhaar("234123412346")).toBe(true);
+    expect(isValidAadhaar("499888777660")).toBe(true);
+  });
+
+  it("ignores spaces between digit groups", () => {
+    expect(isValidAadhaar("2341 2341 2346")).toBe(true);
+  });
+
+  it("rejects a wrong check digit", () => {
+    expect(isValidAadhaar("234123412347")).toBe(false);
+  });
+
+  it("rejects numbers starting with 0 or 1 even when the checksum holds", () => {
+    expect(isValidAadhaar("123456789011")).toBe(false);
+  });
+
+  it("rejects the wrong length and non-digits", () => {
+    expect(isValidAadhaar("23412341234")).toBe(false);
+    expect(isValidAadhaar("2341234123460")).toBe(false);
+    expect(isValidAadhaar("2341-2341-2346")).toBe(false);
+    expect(isValidAadhaar("")).toBe(false);
+  });
+});
+
+describe("formatAadhaar", () => {
+  it("groups digits in fours", () => {
+    expect(formatAadhaar("234123412346")).toBe("2341 2341 2346");
+  });
+});
+
+describe("validateAnswer", () => {
+  it("skips empty answers, which are checked as required separately", () => {
+    expect(validateAnswer(question("number"), "")).toBeNull();
+    expect(validateAnswer(question("aadhaar"), null)).toBeNull();
+    expect(validateAnswer(question("checkbox"), [])).toBeNull();
+  });
+
+  it("checks numbers against the configured range", () => {
+    const q = question("number", { min: 18, max: 60 });
+    expect(validateAnswer(q, "30")).toBeNull();
+    expect(validateAnswer(q, 30)).toBeNull();
+    expect(validateAnswer(q, "abc")).toBe("Enter a valid number");
+    expect(validateAnswer(q, "17")).toBe("Must be at least 18");
+    expect(validateAnswer(q, "61")).toBe("Must be at most 60");
+  });
+
+  it("checks dates and their limits", () => {
+    const q = question("date", { min_date: "2026-01-01", max_date: "2026-12-31" });
+    expect(validateAnswer(q, "2026-06-15")).toBeNull();
+    expect(validateAnswer(q, "15/06/2026")).toBe("Enter a valid date");
+    expect(validateAnswer(q, "2025-12-31")).toBe("Must be on or after 2026-01-01");
+    expect(validateAnswer(q, "2027-01-01")).toBe("Must be on or before 2026-12-31");
+  });
+
+  it("limits paragraph length", () => {
+    const q = question("textarea", { max_length: 5 });
+    expect(validateAnswer(q, "short")).toBeNull();
+    expect(validateAnswer(q, "too long")).toBe("Must be at most 5 characters");
+  });
+
+  it("checks email addresses", () => {
+    expect(validateAnswer(question("email"), "someone@example.com")).toBeNull();
+    expect(validateAnswer(question("email"), "someone@example")).toBe("Enter a valid email address");
+  });
+
+  it("checks Aadhaar numbers", () => {
+    expect(validateAnswer(question("aadhaar"), "2341 2341 2346")).toBeNull();
+    expect(validateAnswer(question("aadhaar"), "234123412347")).toBe("Enter a valid 12-digit Aadhaar number");
+  });
+
+  it("keeps ratings within the scale", () => {
+    expect(validateAnswer(question("rating"), 5)).toBeNull();
+    expect(validateAnswer(question("rating"), 6)).toBe("Choose a rating from 1 to 5");
+    expect(validateAnswer(question("rating", { scale: 10 }), "10")).toBeNull();
+    expect(validateAnswer(question("rating", { scale: 10 }), "2.5")).toBe("Choose a rating from 1 to 10");
+  });
+
+  it("only accepts yes or no for yes/no questions", () => {
+    expect(validateAnswer(question("yes_no"), "yes")).toBeNull();
+    expect(validateAnswer(question("yes_no"), "maybe")).toBe("Choose yes or no");
+  });
+
+  it("requires an uploaded file object for file questions", () => {
+    const file = { path: `programs/${PROGRAM_ID}/a.jpg`, name: "a.jpg", size: 10, type: "image/jpeg" };
+    expect(validateAnswer(question("file"), file)).toBeNull();
+    expect(validateAnswer(question("file"), "a.jpg")).toBe("Upload a file");
+  });
+});
+
+// The submit-registration function checks answers again with its own copy of these rules
+// (supabase/functions/_shared/registrationForm.ts); both must agree on what the form accepts.
+describe("validateAnswer on the server", () => {
+  const cases: [string, QuestionConfig, unknown][] = [
+    ["number", { min: 18, max: 60 }, "30"],
+    ["number", { min: 18, max: 60 }, "17"],
+    ["number", {}, "abc"],
+    ["date", { min_date: "2026-01-01" }, "2025-12-31"],
+    ["date", {}, "2026-02-30x"],
+    ["textarea", { max_length: 5 }, "too long"],
+    ["email", {}, "someone@example.com"],
+    ["email", {}, "someone@example"],
+    ["aadhaar", {}, "2341 2341 2346"],
+    ["aadhaar", {}, "234123412347"],
+    ["aadhaar", {}, "123456789011"],
+    ["rating", { scale: 3 }, "3"],
+    ["rating", { scale: 3 }, "4"],
+    ["yes_no", {}, "no"],
+    ["yes_no", {}, "maybe"],
+  ];
+
+  it.each(cases)("agrees with the form for a %s answer (%j, %j)", (type, config, value) => {
+    const q = question(type, config);
+    expect(validateAnswerOnServer(q, value, PROGRAM_ID)).toBe(validateAnswer(q, value));
+  });
+
+  it("also checks that choices come from the options", () => {
+    const q = question("radio", {}, ["A", "B"]);
+    expect(validateAnswerOnServer(q, "A", PROGRAM_ID)).toBeNull();
+    expect(validateAnswerOnServer(q, "C", PROGRAM_ID)).toBe("Choose one of the options");
+  });
+
+  it("only accepts files uploaded for this program", () => {
+    const q = question("file");
+    expect(validateAnswerOnServer(q, { path: `programs/${PROGRAM_ID}/a.jpg` }, PROGRAM_ID)).toBeNull();
+    expect(validateAnswerOnServer(q, { path: "programs/other/a.jpg" }, PROGRAM_ID)).toBe("Upload a file");
+  });
+});
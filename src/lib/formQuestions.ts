@@ -0,0 +1,236 @@
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+
+// Question types offered by the program FormBuilder, with their per-type settings and the
+// client-side checks that mirror the validate_registration_answers() trigger.
+
+export const QUESTION_TYPES = [
+  { value: "text", label: "Short Text" },
+  { value: "textarea", label: "Paragraph" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "aadhaar", label: "Aadhaar Number" },
+  { value: "select", label: "Dropdown" },
+  { value: "radio", label: "Single Choice (Radio)" },
+  { value: "checkbox", label: "Multiple Choice (Checkbox)" },
+  { value: "yes_no", label: "Yes / No" },
+  { value: "rating", label: "Rating Scale" },
+  { value: "multi_text", label: "Multiple Answers (Add More)" },
+  { value: "file", label: "File / Photo Upload" },
+  { value: "section", label: "Section / Page Break" },
+];
+
+export const OPTION_QUESTION_TYPES = ["select", "radio", "checkbox"];
+
+export function getQuestionTypeLabel(type: string): string {
+  return QUESTION_TYPES.find((t) => t.value === type)?.label ?? type.replace(/_/g, " ");
+}
+
+export type FileAcceptKind = "image" | "document" | "any";
+
+// Stored in program_form_questions.config; only the keys for the question's type are used
+export interface QuestionConfig {
+  min?: number | null; // number
+  max?: number | null; // number
+  max_length?: number | null; // textarea
+  min_date?: string | null; // date, yyyy-MM-dd
+  max_date?: string | null; // date, yyyy-MM-dd
+  scale?: number; // rating
+  low_label?: string; // rating
+  high_label?: string; // rating
+  accept?: FileAcceptKind; // file
+  max_size_mb?: number; // file
+  description?: string; // section
+  skip_to?: Record<string, string>; // select, radio, yes_no: answer -> section id or "end"
+  // Scoring, for every type except section; see src/lib/formScoring.ts
+  scored?: boolean;
+  max_marks?: number;
+  weight?: number;
+  option_points?: Record<string, number>; // select, radio, checkbox, yes_no: answer -> points
+  rubric?: RubricLevel[]; // guidance for reviewers on manually scored questions
+}
+
+export interface RubricLevel {
+  points: number;
+  description: string;
+}
+
+export const RATING_SCALES = [3, 4, 5, 7, 10];
+export const DEFAULT_RATING_SCALE = 5;
+export const DEFAULT_MAX_FILE_SIZE_MB = 5;
+export const MAX_FILE_SIZE_MB = 10;
+
+export const FILE_ACCEPT: Record<FileAcceptKind, { label: string; accept: string | undefined }> = {
+  image: { label: "Photos only", accept: "image/*" },
+  document: { label: "Photos and PDF", accept: "image/*,application/pdf" },
+  any: { label: "Any file", accept: undefined },
+};
+
+// Registration uploads live in a private bucket under programs/<program_id>/
+export const REGISTRATION_UPLOADS_BUCKET = "registration-uploads";
+
+export interface FileAnswer {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export function getQuestionConfig(question: Pick<ProgramFormQuestion, "config">): QuestionConfig {
+  const config = question.config;
+  return config && typeof config === "object" && !Array.isArray(config) ? (config as QuestionConfig) : {};
+}
+
+const CONFIG_KEYS: Record<string, (keyof QuestionConfig)[]> = {
+  textarea: ["max_length"],
+  number: ["min", "max"],
+  date: ["min_date", "max_date"],
+  rating: ["scale", "low_label", "high_label"],
+  file: ["accept", "max_size_mb"],
+  section: ["description"],
+  select: ["skip_to", "option_points"],
+  radio: ["skip_to", "option_points"],
+  checkbox: ["option_points"],
+  yes_no: ["skip_to", "option_points"],
+};
+
+const SCORING_CONFIG_KEYS: (keyof QuestionConfig)[] = ["scored", "max_marks", "weight", "rubric"];
+
+// Keep only the settings that apply to the question type, dropping blanks
+export function cleanQuestionConfig(type: string, config: QuestionConfig): QuestionConfig {
+  const cleaned: QuestionConfig = {};
+  const keys = [...(CONFIG_KEYS[type] ?? []), ...(type === "section" ? [] : SCORING_CONFIG_KEYS)];
+  keys.forEach((key) => {
+    const value = config[key];
+    if (value !== undefined && value !== null && value !== "") {
+      (cleaned as Record<string, unknown>)[key] = value;
+    }
+  });
+  return cleaned;
+}
+
+export function isFileAnswer(value: unknown): value is FileAnswer {
+  return !!value && typeof value === "object" && typeof (value as FileAnswer).path === "string";
+}
+
+export function isAnswerEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0 || value.every((v) => !String(v ?? "").trim());
+  if (typeof value === "object") return !isFileAnswer(value);
+  return false;
+}
+
+// Verhoeff checksum, used for the last digit of an Aadhaar number
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 7, 6, 8, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function isValidAadhaar(value: string): boolean {
+  const digits = value.replace(/\s/g, "");
+  if (!/^[2-9]\d{11}$/.test(digits)) return false;
+
+  let check = 0;
+  digits
+    .split("")
+    .reverse()
+    .forEach((digit, i) => {
+      check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+    });
+  return check === 0;
+}
+
+export function formatAadhaar(value: string): string {
+  return value.replace(/\D/g, "").replace(/(\d{4})(?=\d)/g, "$1 ");
+}
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Format checks for a filled-in answer; returns an error message or null.
+// Whether a required answer is missing is checked separately with isAnswerEmpty.
+export function validateAnswer(question: ProgramFormQuestion, value: unknown): string | null {
+  if (isAnswerEmpty(value)) return null;
+  const config = getQuestionConfig(question);
+  const text = typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+
+  switch (question.question_type) {
+    case "textarea":
+      if (config.max_length && text.length > config.max_length) {
+        return `Must be at most ${config.max_length} characters`;
+      }
+      return null;
+
+    case "number": {
+      if (!/^-?\d+(\.\d+)?$/.test(text)) return "Enter a valid number";
+      const num = Number(text);
+      if (config.min != null && num < config.min) return `Must be at least ${config.min}`;
+      if (config.max != null && num > config.max) return `Must be at most ${config.max}`;
+      return null;
+    }
+
+    case "date":
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(text).getTime())) return "Enter a valid date";
+      if (config.min_date && text < config.min_date) return `Must be on or after ${config.min_date}`;
+      if (config.max_date && text > config.max_date) return `Must be on or before ${config.max_date}`;
+      return null;
+
+    case "email":
+      return EMAIL_PATTERN.test(text) ? null : "Enter a valid email address";
+
+    case "aadhaar":
+      return isValidAadhaar(text) ? null : "Enter a valid 12-digit Aadhaar number";
+
+    case "rating": {
+      const scale = config.scale || DEFAULT_RATING_SCALE;
+      const rating = Number(text);
+      return Number.isInteger(rating) && rating >= 1 && rating <= scale ? null : `Choose a rating from 1 to ${scale}`;
+    }
+
+    case "yes_no":
+      return text === "yes" || text === "no" ? null : "Choose yes or no";
+
+    case "file":
+      return isFileAnswer(value) ? null : "Upload a file";
+
+    default:
+      return null;
+  }
+}
+
+// Human-readable answer for tables, verification and exports
+export function formatAnswer(question: ProgramFormQuestion, value: unknown): string {
+  if (isAnswerEmpty(value)) return "";
+  if (Array.isArray(value)) return value.filter((v) => String(v ?? "").trim()).join(", ");
+
+  switch (question.question_type) {
+    case "yes_no":
+      return value === "yes" ? "Yes" : value === "no" ? "No" : String(value);
+    case "rating":
+      return `${value} / ${getQuestionConfig(question).scale || DEFAULT_RATING_SCALE}`;
+    case "aadhaar":
+      return formatAadhaar(String(value));
+    case "file":
+      return isFileAnswer(value) ? value.name : "";
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import type { QuestionConfig } from "@/lib/formQuestions";
+import {
+  calculateScoreTotals,
+  clampScore,
+  getAutoScore,
+  getMaxMarks,
+  getRubric,
+  getScoreChoices,
+  getScoredQuestions,
+  getWeight,
+  isAutoScored,
+  isScoredQuestion,
+  resolveScores,
+} from "@/lib/formScoring";
+
+function question(
+  id: string,
+  question_type: string,
+  config: QuestionConfig = {},
+  extra: { question_text?: string; options?: string[]; sort_order?: number } = {},
+): ProgramFormQuestion {
+  return {
+    id,
+    question_text: extra.question_text ?? `Question ${id}`,
+    question_type,
+    is_required: false,
+    options: extra.options ?? null,
+    config,
+    visibility_rule: null,
+    sort_order: extra.sort_order ?? 0,
+  } as unknown as ProgramFormQuestion;
+}
+
+describe("isScoredQuestion", () => {
+  it("leaves personal details and section breaks unscored by default", () => {
+    expect(isScoredQuestion(question("q", "text", {}, { question_text: "Your mobile number" }))).toBe(false);
+    expect(isScoredQuestion(question("q", "section"))).toBe(false);
+    expect(isScoredQuestion(question("q", "textarea", {}, { question_text: "Why do you want to join?" }))).toBe(true);
+  });
+
+  it("follows the builder's choice when one was made", () => {
+    expect(isScoredQuestion(question("q", "text", { scored: true }, { question_text: "Ward" }))).toBe(true);
+    expect(isScoredQuestion(question("q", "text", { scored: false }))).toBe(false);
+  });
+});
+
+describe("marks and weights", () => {
+  it("falls back to the defaults for missing or invalid values", () => {
+    expect(getMaxMarks(question("q", "text"))).toBe(10);
+    expect(getMaxMarks(question("q", "text", { max_marks: 0 }))).toBe(10);
+    expect(getMaxMarks(question("q", "text", { max_marks: 20 }))).toBe(20);
+    expect(getWeight(question("q", "text"))).toBe(1);
+    expect(getWeight(question("q", "text", { weight: -2 }))).toBe(1);
+    expect(getWeight(question("q", "text", { weight: 2 }))).toBe(2);
+  });
+
+  it("keeps a score between zero and the max marks", () => {
+    const q = question("q", "text", { max_marks: 5 });
+    expect(clampScore(q, 7)).toBe(5);
+    expect(clampScore(q, -1)).toBe(0);
+    expect(clampScore(q, NaN)).toBe(0);
+    expect(clampScore(q, 3.5)).toBe(3.5);
+  });
+
+  it("sorts rubric levels from the highest points down", () => {
+    const q = question("q", "text", {
+      rubric: [
+        { points: 2, description: "Fair" },
+        { points: 5, description: "Good" },
+      ],
+    });
+    expect(getRubric(q).map((level) => level.points)).toEqual([5, 2]);
+  });
+});
+
+describe("auto scoring", () => {
+  const radio = question("q", "radio", { option_points: { A: 4, B: 1 }, max_marks: 5 }, { options: ["A", "B", "C"] });
+  const checkbox = question("c", "checkbox", { option_points: { A: 3, B: 4 }, max_marks: 5 }, { options: ["A", "B"] });
+
+  it("only applies to choice questions with option points", () => {
+    expect(isAutoScored(radio)).toBe(true);
+    expect(isAutoScored(question("q", "radio"))).toBe(false);
+    expect(isAutoScored(question("q", "text", { option_points: { A: 1 } }))).toBe(false);
+  });
+
+  it("lists the answers a choice question can have", () => {
+    expect(getScoreChoices(radio)).toEqual(["A", "B", "C"]);
+    expect(getScoreChoices(question("q", "yes_no"))).toEqual(["yes", "no"]);
+  });
+
+  it("scores the chosen option, or nothing for an unlisted one", () => {
+    expect(getAutoScore(radio, "A")).toBe(4);
+    expect(getAutoScore(radio, "C")).toBe(0);
+    expect(getAutoScore(radio, undefined)).toBe(0);
+  });
+
+  it("adds up multiple choices but never beyond the max marks", () => {
+    expect(getAutoScore(checkbox, ["A"])).toBe(3);
+    expect(getAutoScore(checkbox, ["A", "B"])).toBe(5);
+  });
+});
+
+describe("resolveScores and calculateScoreTotals", () => {
+  const auto = question("auto", "radio", { option_points: { A: 10 } }, { options: ["A", "B"] });
+  const manual = question("manual", "textarea", { max_marks: 5, weight: 2 });
+
+  it("uses worked-out marks for auto-scored questions and clamped reviewer marks for the rest", () => {
+    expect(resolveScores([auto, manual], { auto: "A" }, { auto: 1, manual: 9 })).toEqual({ auto: 10, manual: 5 });
+    expect(resolveScores([manual], {}, {})).toEqual({ manual: 0 });
+  });
+
+  it("weights each question's marks in the total and percentage", () => {
+    // auto: 10 of 10 at weight 1; manual: 2 of 5 at weight 2
+    expect(calculateScoreTotals([auto, manual], { auto: 10, manual: 2 })).toEqual({
+      totalScore: 14,
+      maxScore: 20,
+      percentage: 70,
+    });
+  });
+
+  it("rounds to two decimals and copes with nothing to score", () => {
+    const thirds = question("t", "text", { max_marks: 3 });
+    expect(calculateScoreTotals([thirds], { t: 1 }).percentage).toBe(33.33);
+    expect(calculateScoreTotals([], {})).toEqual({ totalScore: 0, maxScore: 0, percentage: 0 });
+  });
+});
+
+describe("getScoredQuestions", () => {
+  it("only counts scored questions the applicant was shown, in form order", () => {
+    const questions = [
+      question("second", "textarea", {}, { sort_order: 2 }),
+      question("name", "text", {}, { question_text: "Full name", sort_order: 0 }),
+      question("first", "yes_no", { skip_to: { no: "end" } }, { sort_order: 1 }),
+      question("s1", "section", {}, { sort_order: 2 }),
+      question("third", "textarea", {}, { sort_order: 3 }),
+    ];
+    expect(getScoredQuestions(questions, { first: "yes" }).map((q) => q.id)).toEqual(["first", "second", "third"]);
+    expect(getScoredQuestions(questions, { first: "no" }).map((q) => q.id)).toEqual(["first", "second"]);
+  });
+});
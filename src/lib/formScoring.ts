@@ -0,0 +1,120 @@
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import { getQuestionConfig, type RubricLevel } from "@/lib/formQuestions";
+import { buildFormPages, createFormLogic, isSection } from "@/lib/formLogic";
+
+// Marks used when verifying registrations. Each scored question is marked out of its max
+// marks and counts towards the total in proportion to its weight. Choice questions with
+// per-option points are marked from the answer; the rest are marked by the reviewer against
+// the question's rubric. supabase/functions/_shared/registrationScoring.ts repeats these
+// rules when a verification is saved, so keep the two in step.
+
+export const DEFAULT_MAX_MARKS = 10;
+export const DEFAULT_WEIGHT = 1;
+
+export const AUTO_SCORE_QUESTION_TYPES = ["select", "radio", "checkbox", "yes_no"];
+
+// Questions about the applicant's own details are not scored unless the builder says otherwise
+const PERSONAL_DETAIL_WORDS = ["name", "mobile", "panchayath", "ward", "cluster"];
+
+export interface ScoreTotals {
+  totalScore: number;
+  maxScore: number;
+  percentage: number;
+}
+
+type ScoringQuestion = Pick<ProgramFormQuestion, "question_type" | "question_text" | "config">;
+
+export function isScoredByDefault(questionText: string): boolean {
+  const text = questionText.toLowerCase();
+  return !PERSONAL_DETAIL_WORDS.some((word) => text.includes(word));
+}
+
+export function isScoredQuestion(question: ScoringQuestion): boolean {
+  if (isSection(question)) return false;
+  const { scored } = getQuestionConfig(question);
+  return scored ?? isScoredByDefault(question.question_text);
+}
+
+export function getMaxMarks(question: Pick<ProgramFormQuestion, "config">): number {
+  const maxMarks = getQuestionConfig(question).max_marks;
+  return maxMarks && maxMarks > 0 ? maxMarks : DEFAULT_MAX_MARKS;
+}
+
+export function getWeight(question: Pick<ProgramFormQuestion, "config">): number {
+  const weight = getQuestionConfig(question).weight;
+  return weight && weight > 0 ? weight : DEFAULT_WEIGHT;
+}
+
+// The answers a choice question can have, as stored in registration answers
+export function getScoreChoices(question: Pick<ProgramFormQuestion, "question_type" | "options">): string[] {
+  if (question.question_type === "yes_no") return ["yes", "no"];
+  return Array.isArray(question.options) ? (question.options as string[]) : [];
+}
+
+export function isAutoScored(question: Pick<ProgramFormQuestion, "question_type" | "config">): boolean {
+  if (!AUTO_SCORE_QUESTION_TYPES.includes(question.question_type)) return false;
+  return Object.keys(getQuestionConfig(question).option_points ?? {}).length > 0;
+}
+
+export function clampScore(question: Pick<ProgramFormQuestion, "config">, value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(getMaxMarks(question), Math.max(0, value));
+}
+
+// Points for every chosen option, so a multiple-choice answer adds up, capped at max marks
+export function getAutoScore(question: Pick<ProgramFormQuestion, "config">, answer: unknown): number {
+  const points = getQuestionConfig(question).option_points ?? {};
+  const chosen = Array.isArray(answer) ? answer : answer == null ? [] : [answer];
+  const total = chosen.reduce<number>((sum, value) => sum + (points[String(value)] ?? 0), 0);
+  return clampScore(question, total);
+}
+
+export function getRubric(question: Pick<ProgramFormQuestion, "config">): RubricLevel[] {
+  return [...(getQuestionConfig(question).rubric ?? [])].sort((a, b) => b.points - a.points);
+}
+
+// Scored questions the applicant was shown; hidden or skipped ones do not count towards max marks
+export function getScoredQuestions(
+  questions: ProgramFormQuestion[],
+  answers: Record<string, unknown>,
+): ProgramFormQuestion[] {
+  const sorted = [...questions].sort((a, b) => a.sort_order - b.sort_order);
+  return createFormLogic(buildFormPages(sorted)).getVisibleQuestions(answers).filter(isScoredQuestion);
+}
+
+// Marks per question: worked out for auto-scored questions, the reviewer's mark otherwise
+export function resolveScores(
+  scoredQuestions: ProgramFormQuestion[],
+  answers: Record<string, unknown>,
+  manualScores: Record<string, number>,
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+  scoredQuestions.forEach((question) => {
+    scores[question.id] = isAutoScored(question)
+      ? getAutoScore(question, answers[question.id])
+      : clampScore(question, Number(manualScores[question.id] ?? 0));
+  });
+  return scores;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function calculateScoreTotals(
+  scoredQuestions: ProgramFormQuestion[],
+  scores: Record<string, number>,
+): ScoreTotals {
+  let totalScore = 0;
+  let maxScore = 0;
+  scoredQuestions.forEach((question) => {
+    const weight = getWeight(question);
+    totalScore += (scores[question.id] ?? 0) * weight;
+    maxScore += getMaxMarks(question) * weight;
+  });
+  return {
+    totalScore: round2(totalScore),
+    maxScore: round2(maxScore),
+    percentage: maxScore > 0 ? round2((totalScore / maxScore) * 100) : 0,
+  };
+}
@@ -0,0 +1,23 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// supabase.functions.invoke reports non-2xx responses as a generic FunctionsHttpError;
+// the JSON body our edge functions return ({ error: "..." }) is on error.context.
+export async function getFunctionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  const body = await getFunctionErrorBody(error);
+  if (typeof body?.error === "string" && body.error) return body.error;
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
+
+// The parsed JSON error body, for functions that return more than a message (e.g. field_errors).
+// The response body can only be read once, so use this or getFunctionErrorMessage, not both.
+export async function getFunctionErrorBody(error: unknown): Promise<Record<string, unknown> | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    const body = await error.context.json();
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    // body was not JSON
+    return null;
+  }
+}
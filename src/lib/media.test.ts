@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { formatFileSize, getMediaFileError, getMediaKind, MAX_IMAGE_BYTES, MAX_VIDEO_BYTES } from "@/lib/media";
+
+// A File of the given size without allocating its contents
+function file(name: string, type: string, size: number): File {
+  const f = new File([], name, { type });
+  Object.defineProperty(f, "size", { value: size });
+  return f;
+}
+
+describe("getMediaKind", () => {
+  it("tells videos from images by mime type", () => {
+    expect(getMediaKind("video/mp4")).toBe("video");
+    expect(getMediaKind("image/gif")).toBe("image");
+  });
+});
+
+describe("formatFileSize", () => {
+  it("shows kilobytes below a megabyte, never less than 1 KB", () => {
+    expect(formatFileSize(100)).toBe("1 KB");
+    expect(formatFileSize(250 * 1024)).toBe("250 KB");
+  });
+
+  it("shows megabytes to one decimal", () => {
+    expect(formatFileSize(1.5 * 1024 * 1024)).toBe("1.5 MB");
+    expect(formatFileSize(MAX_VIDEO_BYTES)).toBe("50.0 MB");
+  });
+});
+
+describe("getMediaFileError", () => {
+  it("only accepts the supported image and video types", () => {
+    expect(getMediaFileError(file("poster.jpg", "image/jpeg", 1024))).toBeNull();
+    expect(getMediaFileError(file("clip.webm", "video/webm", 1024))).toBeNull();
+    expect(getMediaFileError(file("poster.svg", "image/svg+xml", 1024))).toBe(
+      "Only JPEG, PNG, WebP and GIF images or MP4 and WebM videos can be uploaded"
+    );
+  });
+
+  it("holds videos and GIFs to their size limits", () => {
+    expect(getMediaFileError(file("clip.mp4", "video/mp4", MAX_VIDEO_BYTES))).toBeNull();
+    expect(getMediaFileError(file("clip.mp4", "video/mp4", MAX_VIDEO_BYTES + 1))).toBe(
+      "clip.mp4 is larger than 50.0 MB"
+    );
+    expect(getMediaFileError(file("loop.gif", "image/gif", MAX_IMAGE_BYTES + 1))).toBe(
+      "loop.gif is larger than 10.0 MB"
+    );
+  });
+
+  it("lets large photos through, since they are shrunk before upload", () => {
+    expect(getMediaFileError(file("photo.png", "image/png", MAX_IMAGE_BYTES * 2))).toBeNull();
+  });
+});
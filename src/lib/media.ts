@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+
+// Media library for program posters and videos, stored in the public program-media bucket
+// through the admin-media edge function. Limits mirror the function and the bucket.
+
+export const MEDIA_BUCKET = "program-media";
+export const MEDIA_ACCEPT = "image/jpeg,image/png,image/webp,image/gif,video/mp4,video/webm";
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+// Posters are scaled down to this on their longest side before upload
+const MAX_IMAGE_DIMENSION = 1920;
+const THUMBNAIL_DIMENSION = 400;
+const WEBP_QUALITY = 0.85;
+
+export interface MediaUsage {
+  kind: "announcement" | "advertisement";
+  id: string;
+  title: string | null;
+  field: "poster_url" | "video_url";
+  program_id: string;
+  program_name: string | null;
+}
+
+export interface MediaAsset {
+  id: string;
+  division_id: string | null;
+  division_name?: string | null;
+  file_name: string;
+  path: string;
+  thumbnail_path: string | null;
+  url: string;
+  thumbnail_url: string | null;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+  can_delete: boolean;
+  usage: MediaUsage[];
+}
+
+export type MediaKind = "image" | "video";
+
+export function getMediaKind(mimeType: string): MediaKind {
+  return mimeType.startsWith("video/") ? "video" : "image";
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function getMediaFileError(file: File): string | null {
+  if (!MEDIA_ACCEPT.split(",").includes(file.type)) {
+    return "Only JPEG, PNG, WebP and GIF images or MP4 and WebM videos can be uploaded";
+  }
+  const maxBytes = getMediaKind(file.type) === "video" ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES;
+  // Large photos are shrunk before upload, so only videos and GIFs are held to the limit as picked
+  if ((file.type.startsWith("video/") || file.type === "image/gif") && file.size > maxBytes) {
+    return `${file.name} is larger than ${formatFileSize(maxBytes)}`;
+  }
+  return null;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not process the image"))), type, quality);
+  });
+}
+
+async function drawScaled(image: ImageBitmap, maxDimension: number, type: string) {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await canvasToBlob(canvas, type, WEBP_QUALITY);
+  return { blob, width: canvas.width, height: canvas.height };
+}
+
+interface PreparedMedia {
+  file: Blob;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  thumbnail: Blob | null;
+}
+
+// Still images are resized and re-encoded as WebP with a small WebP thumbnail. GIFs keep
+// their animation and videos are uploaded as they are.
+async function prepareMedia(file: File): Promise<PreparedMedia> {
+  if (file.type.startsWith("video/") || file.type === "image/gif") {
+    return { file, mimeType: file.type, width: null, height: null, thumbnail: null };
+  }
+
+  const image = await createImageBitmap(file);
+  try {
+    const main = await drawScaled(image, MAX_IMAGE_DIMENSION, "image/webp");
+    const thumbnail = await drawScaled(image, THUMBNAIL_DIMENSION, "image/webp");
+    // Browsers without WebP encoding fall back to PNG, which is rarely smaller than the original
+    if (main.blob.type !== "image/webp") {
+      return { file, mimeType: file.type, width: image.width, height: image.height, thumbnail: null };
+    }
+    return { file: main.blob, mimeType: "image/webp", width: main.width, height: main.height, thumbnail: thumbnail.blob };
+  } finally {
+    image.close();
+  }
+}
+
+async function invokeMedia<T>(adminToken: string | null, body: Record<string, unknown>, fallback: string): Promise<T> {
+  const { data, error } = await invokeAdminFunction("admin-media", {
+    headers: adminToken ? { "x-admin-token": adminToken } : {},
+    body,
+  });
+  if (error) throw new Error(await getFunctionErrorMessage(error, fallback));
+  return data as T;
+}
+
+export async function fetchMediaAssets(adminToken: string | null): Promise<MediaAsset[]> {
+  const data = await invokeMedia<{ assets: MediaAsset[] }>(adminToken, { action: "list" }, "Failed to load media");
+  return data.assets;
+}
+
+export async function uploadMediaAsset(file: File, adminToken: string | null): Promise<MediaAsset> {
+  const fileError = getMediaFileError(file);
+  if (fileError) throw new Error(fileError);
+
+  const prepared = await prepareMedia(file);
+  const upload = await invokeMedia<{
+    path: string;
+    token: string;
+    thumbnail_path: string | null;
+    thumbnail_token: string | null;
+  }>(
+    adminToken,
+    {
+      action: "create_upload",
+      data: { mime_type: prepared.mimeType, size_bytes: prepared.file.size, with_thumbnail: !!prepared.thumbnail },
+    },
+    "Failed to prepare the upload"
+  );
+
+  const storage = supabase.storage.from(MEDIA_BUCKET);
+  const uploads = [storage.uploadToSignedUrl(upload.path, upload.token, prepared.file, { contentType: prepared.mimeType })];
+  if (prepared.thumbnail && upload.thumbnail_path && upload.thumbnail_token) {
+    uploads.push(
+      storage.uploadToSignedUrl(upload.thumbnail_path, upload.thumbnail_token, prepared.thumbnail, {
+        contentType: "image/webp",
+      })
+    );
+  }
+  const results = await Promise.all(uploads);
+  const failed = results.find((result) => result.error);
+  if (failed) {
+    console.error("Error uploading media:", failed.error);
+    throw new Error(`Upload of ${file.name} failed. Please try again.`);
+  }
+
+  const data = await invokeMedia<{ asset: MediaAsset }>(
+    adminToken,
+    {
+      action: "register",
+      data: {
+        path: upload.path,
+        thumbnail_path: upload.thumbnail_path,
+        file_name: file.name,
+        mime_type: prepared.mimeType,
+        size_bytes: prepared.file.size,
+        width: prepared.width,
+        height: prepared.height,
+      },
+    },
+    "Failed to save the upload"
+  );
+  return data.asset;
+}
+
+export async function deleteMediaAsset(id: string, adminToken: string | null): Promise<void> {
+  await invokeMedia(adminToken, { action: "delete", data: { id } }, "Failed to delete media");
+}
@@ -0,0 +1,43 @@
+// Admin capabilities, mirrored from supabase/functions/_shared/capabilities.ts.
+// The edge functions enforce them; the client only uses them to hide what an admin cannot do.
+
+export const CAPABILITIES = [
+  "programs.edit",
+  "registrations.verify",
+  "registrations.adjudicate",
+  "cash.collect",
+  "cash.verify",
+  "cash.submit",
+  "agents.manage",
+  "locations.manage",
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+export const CAPABILITY_LABELS: Record<Capability, { label: string; description: string }> = {
+  "programs.edit": { label: "Edit programs", description: "Create and edit programs, modules and form questions" },
+  "registrations.verify": { label: "Verify registrations", description: "Score, verify and rank registrations" },
+  "registrations.adjudicate": {
+    label: "Adjudicate reviews",
+    description: "Assign reviewers and settle registrations where reviewers disagree",
+  },
+  "cash.collect": { label: "Collect cash", description: "Record new cash collections" },
+  "cash.verify": { label: "Verify cash", description: "Verify pending cash collections" },
+  "cash.submit": { label: "Submit cash", description: "Submit verified collections to the office" },
+  "agents.manage": { label: "Manage agents", description: "Add, edit and remove Pennyekart agents" },
+  "locations.manage": { label: "Manage locations", description: "Add and edit panchayaths and clusters" },
+};
+
+export function resolveCapabilities(source: {
+  roleCapabilities?: string[] | null;
+  granted?: string[] | null;
+  revoked?: string[] | null;
+  isReadOnly?: boolean | null;
+}): Capability[] {
+  // Read-only admins can never write, whatever their role says
+  if (source.isReadOnly) return [];
+
+  const revoked = new Set(source.revoked ?? []);
+  const effective = new Set([...(source.roleCapabilities ?? []), ...(source.granted ?? [])]);
+  return CAPABILITIES.filter((capability) => effective.has(capability) && !revoked.has(capability));
+}
@@ -0,0 +1,47 @@
+// Prints a generated HTML document; "Save as PDF" in the print dialog turns it into a PDF,
+// named after the document's <title>. The print window is opened straight away, while the
+// click still counts as a user gesture, and filled in once the document is built (QR codes
+// are generated asynchronously). Printing waits for web fonts such as Noto Sans Malayalam
+// so text is not printed in a fallback font. When pop-ups are blocked the document is
+// printed from a hidden frame instead.
+export async function printHtml(html: string | Promise<string>): Promise<void> {
+  const printWindow = window.open("", "_blank");
+  let content: string;
+  try {
+    content = await html;
+  } catch (error) {
+    printWindow?.close();
+    throw error;
+  }
+
+  if (printWindow) {
+    printWindow.document.open();
+    printWindow.document.write(content);
+    printWindow.document.close();
+    await whenLoaded(printWindow);
+    await printWhenReady(printWindow);
+    return;
+  }
+
+  const frame = document.createElement("iframe");
+  frame.style.cssText = "position: fixed; width: 0; height: 0; border: 0;";
+  const loaded = new Promise((resolve) => frame.addEventListener("load", resolve, { once: true }));
+  frame.srcdoc = content;
+  document.body.appendChild(frame);
+  await loaded;
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) return;
+  frameWindow.addEventListener("afterprint", () => frame.remove());
+  await printWhenReady(frameWindow);
+}
+
+function whenLoaded(target: Window): Promise<void> {
+  if (target.document.readyState === "complete") return Promise.resolve();
+  return new Promise((resolve) => target.addEventListener("load", () => resolve(), { once: true }));
+}
+
+async function printWhenReady(target: Window) {
+  await target.document.fonts.ready;
+  target.focus();
+  target.print();
+}
@@ -0,0 +1,21 @@
+import { invokeAdminFunction } from "@/lib/adminSession";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+
+// Announcements and advertisements are written through the admin-program-content edge
+// function, which checks the admin's capabilities and records each change in the audit log.
+
+export type ProgramContentKind = "announcement" | "advertisement";
+
+export async function invokeProgramContent(
+  kind: ProgramContentKind,
+  action: "create" | "update" | "set_published" | "delete",
+  data: Record<string, unknown>,
+  adminToken: string | null,
+  fallback: string
+): Promise<void> {
+  const { error } = await invokeAdminFunction("admin-program-content", {
+    headers: adminToken ? { "x-admin-token": adminToken } : {},
+    body: { action, kind, data },
+  });
+  if (error) throw new Error(await getFunctionErrorMessage(error, fallback));
+}
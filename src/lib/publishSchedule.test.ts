@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  describePublishWindow,
+  fromDateTimeLocalValue,
+  getPublishState,
+  getPublishWindowError,
+  isLive,
+  livePublishFilter,
+  toDateTimeLocalValue,
+} from "@/lib/publishSchedule";
+
+const NOW = new Date("2026-10-15T12:00:00Z");
+const BEFORE = "2026-10-10T12:00:00Z";
+const AFTER = "2026-10-20T12:00:00Z";
+
+const item = (is_published: boolean, publish_at: string | null = null, unpublish_at: string | null = null) => ({
+  is_published,
+  publish_at,
+  unpublish_at,
+});
+
+describe("getPublishState", () => {
+  it("keeps unpublished items as drafts whatever their window", () => {
+    expect(getPublishState(item(false, BEFORE, AFTER), NOW)).toBe("draft");
+  });
+
+  it("is live with open bounds or inside the window", () => {
+    expect(getPublishState(item(true), NOW)).toBe("live");
+    expect(getPublishState(item(true, BEFORE, AFTER), NOW)).toBe("live");
+  });
+
+  it("is scheduled before publish_at and expired from unpublish_at", () => {
+    expect(getPublishState(item(true, AFTER), NOW)).toBe("scheduled");
+    expect(getPublishState(item(true, null, BEFORE), NOW)).toBe("expired");
+    expect(getPublishState(item(true, null, NOW.toISOString()), NOW)).toBe("expired");
+  });
+
+  it("only counts live items as shown", () => {
+    expect(isLive(item(true, BEFORE), NOW)).toBe(true);
+    expect(isLive(item(true, AFTER), NOW)).toBe(false);
+  });
+});
+
+describe("livePublishFilter", () => {
+  it("asks PostgREST for published items inside their window", () => {
+    expect(livePublishFilter(NOW)).toBe(
+      'and(is_published.eq.true,or(publish_at.is.null,publish_at.lte."2026-10-15T12:00:00.000Z"),' +
+        'or(unpublish_at.is.null,unpublish_at.gt."2026-10-15T12:00:00.000Z"))'
+    );
+  });
+});
+
+describe("describePublishWindow", () => {
+  it("says nothing for an item that is live with no end", () => {
+    expect(describePublishWindow(item(true), NOW)).toBeNull();
+    expect(describePublishWindow(item(false), NOW)).toBeNull();
+  });
+
+  it("describes each state's bounds", () => {
+    expect(describePublishWindow(item(true, AFTER), NOW)).toMatch(/^Goes live 20 Oct 2026, /);
+    expect(describePublishWindow(item(true, AFTER, "2026-10-25T12:00:00Z"), NOW)).toMatch(
+      /^Goes live 20 Oct 2026, .* until 25 Oct 2026, /
+    );
+    expect(describePublishWindow(item(true, null, AFTER), NOW)).toMatch(/^Live until 20 Oct 2026, /);
+    expect(describePublishWindow(item(true, null, BEFORE), NOW)).toMatch(/^Ended 10 Oct 2026, /);
+    expect(describePublishWindow(item(false, BEFORE, AFTER), NOW)).toMatch(/^From 10 Oct 2026, .* until 20 Oct 2026, /);
+  });
+});
+
+describe("datetime-local values", () => {
+  it("round-trips through the input's local time format", () => {
+    const local = toDateTimeLocalValue(AFTER);
+    expect(local).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+    expect(fromDateTimeLocalValue(local)).toBe(new Date(AFTER).toISOString());
+  });
+
+  it("treats an empty input as no bound", () => {
+    expect(toDateTimeLocalValue(null)).toBe("");
+    expect(fromDateTimeLocalValue("")).toBeNull();
+  });
+});
+
+describe("getPublishWindowError", () => {
+  it("requires the window to end after it starts", () => {
+    expect(getPublishWindowError(BEFORE, AFTER)).toBeNull();
+    expect(getPublishWindowError(AFTER, BEFORE)).toBe("Unpublish time must be after the publish time");
+    expect(getPublishWindowError(AFTER, AFTER)).toBe("Unpublish time must be after the publish time");
+  });
+
+  it("allows either bound to be left open", () => {
+    expect(getPublishWindowError(null, BEFORE)).toBeNull();
+    expect(getPublishWindowError(AFTER, null)).toBeNull();
+  });
+});
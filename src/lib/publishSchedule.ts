@@ -0,0 +1,97 @@
+import { format } from "date-fns";
+
+// Scheduled publishing for program announcements and advertisements. A published item
+// is only shown between publish_at and unpublish_at; either bound may be left open.
+
+export type PublishState = "draft" | "scheduled" | "live" | "expired";
+
+interface Schedulable {
+  is_published: boolean;
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+export const PUBLISH_STATE_LABELS: Record<PublishState, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  live: "Live",
+  expired: "Expired",
+};
+
+// Completes "Announcement is now ..." after the publish toggle
+export const PUBLISH_TOGGLE_MESSAGES: Record<PublishState, string> = {
+  draft: "hidden",
+  scheduled: "scheduled to go live",
+  live: "visible",
+  expired: "published, but its take-down time has passed",
+};
+
+export function getPublishState(item: Schedulable, now: Date = new Date()): PublishState {
+  if (!item.is_published) return "draft";
+  if (item.publish_at && new Date(item.publish_at) > now) return "scheduled";
+  if (item.unpublish_at && new Date(item.unpublish_at) <= now) return "expired";
+  return "live";
+}
+
+export function isLive(item: Schedulable, now: Date = new Date()): boolean {
+  return getPublishState(item, now) === "live";
+}
+
+// The same check as a PostgREST filter, so public pages are only sent live items. Pass it to
+// .or() with the embedded table, e.g. .or(livePublishFilter(), { referencedTable: "announcements" }).
+// Division admins manage these rows through the anon role, so RLS cannot hide drafts from the public.
+export function livePublishFilter(now: Date = new Date()): string {
+  const at = `"${now.toISOString()}"`;
+  return `and(is_published.eq.true,or(publish_at.is.null,publish_at.lte.${at}),or(unpublish_at.is.null,unpublish_at.gt.${at}))`;
+}
+
+export function getPublishStateBadgeClass(state: PublishState): string {
+  switch (state) {
+    case "live":
+      return "bg-emerald-100 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-300";
+    case "scheduled":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-950/40 dark:text-blue-300";
+    case "expired":
+      return "bg-muted text-muted-foreground";
+    default:
+      return "";
+  }
+}
+
+// One line for the manager list, e.g. "Goes live 12 Oct 2026, 9:00 AM"
+export function describePublishWindow(item: Schedulable, now: Date = new Date()): string | null {
+  const formatTime = (value: string) => format(new Date(value), "d MMM yyyy, h:mm a");
+  switch (getPublishState(item, now)) {
+    case "scheduled":
+      return item.unpublish_at
+        ? `Goes live ${formatTime(item.publish_at)} until ${formatTime(item.unpublish_at)}`
+        : `Goes live ${formatTime(item.publish_at)}`;
+    case "live":
+      return item.unpublish_at ? `Live until ${formatTime(item.unpublish_at)}` : null;
+    case "expired":
+      return `Ended ${formatTime(item.unpublish_at)}`;
+    default:
+      if (item.publish_at && item.unpublish_at) {
+        return `From ${formatTime(item.publish_at)} until ${formatTime(item.unpublish_at)}`;
+      }
+      if (item.publish_at) return `From ${formatTime(item.publish_at)}`;
+      if (item.unpublish_at) return `Until ${formatTime(item.unpublish_at)}`;
+      return null;
+  }
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toDateTimeLocalValue(value: string | null): string {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+export function fromDateTimeLocalValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function getPublishWindowError(publishAt: string | null, unpublishAt: string | null): string | null {
+  if (publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt)) {
+    return "Unpublish time must be after the publish time";
+  }
+  return null;
+}
@@ -0,0 +1,186 @@
+import QRCode from "qrcode";
+import type { ProgramRegistration } from "@/hooks/usePrograms";
+import { printHtml } from "@/lib/printDocument";
+import { getRegistrationStatusLabel } from "@/lib/registrationStatus";
+
+// Printable acknowledgements and admit cards, saved as PDF from the browser's print dialog
+// like the other PDF exports. Labels are in English and Malayalam; the QR code carries the
+// registration ID so it can be scanned at the venue.
+
+export interface RegistrationDocumentDetails {
+  id: string;
+  name: string;
+  mobile: string;
+  panchayath_name?: string;
+  ward?: string;
+  status: string;
+  created_at: string;
+}
+
+const LABELS = {
+  acknowledgement: ["Registration Acknowledgement", "രജിസ്ട്രേഷൻ രസീത്"],
+  admitCard: ["Admit Card", "പ്രവേശന കാർഡ്"],
+  name: ["Name", "പേര്"],
+  mobile: ["Mobile Number", "മൊബൈൽ നമ്പർ"],
+  registrationId: ["Registration ID", "രജിസ്ട്രേഷൻ ഐഡി"],
+  panchayath: ["Panchayath", "പഞ്ചായത്ത്"],
+  ward: ["Ward", "വാർഡ്"],
+  status: ["Status", "സ്ഥിതി"],
+  registeredOn: ["Registered on", "രജിസ്റ്റർ ചെയ്ത തീയതി"],
+  keepNote: [
+    "Keep this acknowledgement and show it when asked.",
+    "ഈ രസീത് സൂക്ഷിച്ച് വെക്കുക, ആവശ്യപ്പെടുമ്പോൾ കാണിക്കുക.",
+  ],
+  admitNote: [
+    "Bring this card to the program. The QR code is scanned at the entrance.",
+    "പരിപാടിക്ക് വരുമ്പോൾ ഈ കാർഡ് കൊണ്ടുവരിക. പ്രവേശന കവാടത്തിൽ QR കോഡ് സ്കാൻ ചെയ്യും.",
+  ],
+} as const;
+
+const STATUS_LABELS_ML: Record<string, string> = {
+  registered: "രജിസ്റ്റർ ചെയ്തു",
+  waitlisted: "കാത്തിരിപ്പ് പട്ടികയിൽ",
+  shortlisted: "ചുരുക്കപ്പട്ടികയിൽ",
+  selected: "തിരഞ്ഞെടുക്കപ്പെട്ടു",
+  rejected: "നിരസിച്ചു",
+  withdrawn: "പിൻവലിച്ചു",
+};
+
+const STYLES = `
+  @import url("https://fonts.googleapis.com/css2?family=Noto+Sans+Malayalam:wght@400;700&display=swap");
+  body { font-family: Arial, "Noto Sans Malayalam", sans-serif; margin: 20px; font-size: 12px; color: #333; }
+  .card { border: 2px solid #1f2937; border-radius: 8px; padding: 16px; margin-bottom: 20px; page-break-inside: avoid; break-inside: avoid; }
+  .card-header { border-bottom: 1px solid #d1d5db; padding-bottom: 8px; margin-bottom: 12px; }
+  h1 { font-size: 18px; margin: 0; }
+  .ml { font-size: 12px; color: #555; font-weight: normal; }
+  .program { font-size: 14px; font-weight: bold; margin-top: 4px; }
+  .body { display: flex; gap: 16px; align-items: flex-start; }
+  table { border-collapse: collapse; flex: 1; }
+  th { text-align: left; padding: 5px 8px 5px 0; vertical-align: top; width: 40%; font-size: 11px; }
+  th .ml { display: block; font-size: 10px; }
+  td { padding: 5px 0; font-size: 13px; vertical-align: top; }
+  .id { font-family: "Courier New", monospace; font-size: 11px; word-break: break-all; }
+  .qr { width: 140px; height: 140px; }
+  .note { margin-top: 12px; font-size: 11px; color: #555; }
+  .meta { color: #666; font-size: 10px; margin-bottom: 12px; }
+  .page-break { page-break-after: always; break-after: page; }
+  @media print { body { margin: 10px; } }
+`;
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function bilingual([en, ml]: readonly [string, string]): string {
+  return `${en} <span class="ml">/ ${ml}</span>`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-IN", { dateStyle: "medium" });
+}
+
+// What the QR code on an acknowledgement or admit card holds
+export function getRegistrationQrValue(registrationId: string): string {
+  return registrationId;
+}
+
+export function getRegistrationDocumentDetails(registration: ProgramRegistration): RegistrationDocumentDetails {
+  const fixed = (registration.answers as { _fixed?: Record<string, string | undefined> } | null)?._fixed || {};
+  return {
+    id: registration.id,
+    name: fixed.name || "",
+    mobile: fixed.mobile || "",
+    panchayath_name: fixed.panchayath_name,
+    ward: fixed.ward,
+    status: registration.status,
+    created_at: registration.created_at,
+  };
+}
+
+async function buildCard(
+  kind: "acknowledgement" | "admitCard",
+  programName: string,
+  details: RegistrationDocumentDetails
+): Promise<string> {
+  const qr = await QRCode.toDataURL(getRegistrationQrValue(details.id), { margin: 1, width: 280 });
+  const rows: [readonly [string, string], string][] = [
+    [LABELS.name, escapeHtml(details.name)],
+    [LABELS.mobile, escapeHtml(details.mobile)],
+    [LABELS.registrationId, `<span class="id">${escapeHtml(details.id)}</span>`],
+  ];
+  if (details.panchayath_name) rows.push([LABELS.panchayath, escapeHtml(details.panchayath_name)]);
+  if (details.ward) rows.push([LABELS.ward, escapeHtml(details.ward)]);
+  rows.push([
+    LABELS.status,
+    `${escapeHtml(getRegistrationStatusLabel(details.status))} <span class="ml">/ ${STATUS_LABELS_ML[details.status] ?? ""}</span>`,
+  ]);
+  rows.push([LABELS.registeredOn, formatDate(details.created_at)]);
+
+  return `
+  <div class="card">
+    <div class="card-header">
+      <h1>${bilingual(LABELS[kind])}</h1>
+      <div class="program">${escapeHtml(programName)}</div>
+    </div>
+    <div class="body">
+      <table>
+        ${rows.map(([label, value]) => `<tr><th>${label[0]}<span class="ml">${label[1]}</span></th><td>${value}</td></tr>`).join("")}
+      </table>
+      <img class="qr" src="${qr}" alt="QR code" />
+    </div>
+    <div class="note">
+      ${kind === "admitCard" ? LABELS.admitNote[0] : LABELS.keepNote[0]}<br />
+      ${kind === "admitCard" ? LABELS.admitNote[1] : LABELS.keepNote[1]}
+    </div>
+  </div>`;
+}
+
+function buildHtml(title: string, body: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// The print window opens before the QR code is generated; call these straight from a click
+export function printRegistrationAcknowledgement(programName: string, details: RegistrationDocumentDetails) {
+  return printHtml(
+    buildCard("acknowledgement", programName, details).then((card) =>
+      buildHtml(`${programName} - ${LABELS.acknowledgement[0]} - ${details.id.slice(0, 8)}`, card)
+    )
+  );
+}
+
+// Admit cards two to a page, in panchayath, ward and name order like the selection list
+export function printAdmitCards(programName: string, registrations: ProgramRegistration[]) {
+  const details = registrations
+    .map(getRegistrationDocumentDetails)
+    .sort(
+      (a, b) =>
+        (a.panchayath_name || "").localeCompare(b.panchayath_name || "") ||
+        (Number(a.ward) || 0) - (Number(b.ward) || 0) ||
+        a.name.localeCompare(b.name)
+    );
+  return printHtml(
+    Promise.all(details.map((d) => buildCard("admitCard", programName, d))).then((cards) =>
+      buildHtml(
+        `${programName} - ${LABELS.admitCard[0]}`,
+        `<div class="meta">${details.length} ${LABELS.admitCard[0].toLowerCase()}s · Generated on ${new Date().toLocaleString("en-IN")}</div>${cards
+          .map((card, i) => (i % 2 === 1 && i < cards.length - 1 ? `${card}<div class="page-break"></div>` : card))
+          .join("")}`
+      )
+    )
+  );
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import {
+  autoMapColumns,
+  buildImportRows,
+  getImportableQuestions,
+  parseCell,
+  type ImportPanchayath,
+} from "@/lib/registrationImport";
+
+function question(
+  id: string,
+  question_type: string,
+  extra: { question_text?: string; options?: string[]; is_required?: boolean; sort_order?: number } = {},
+): ProgramFormQuestion {
+  return {
+    id,
+    question_text: extra.question_text ?? id,
+    question_type,
+    is_required: extra.is_required ?? false,
+    options: extra.options ?? null,
+    config: {},
+    visibility_rule: null,
+    sort_order: extra.sort_order ?? 0,
+  } as unknown as ProgramFormQuestion;
+}
+
+const PANCHAYATHS: ImportPanchayath[] = [
+  { id: "p1", name: "Kodiyathur", name_ml: "കൊടിയത്തൂർ", ward: "16" },
+  { id: "p2", name: "Mukkam", name_ml: null, ward: null },
+];
+
+const FIXED_MAPPING = {
+  "_fixed.name": "Name",
+  "_fixed.mobile": "Mobile",
+  "_fixed.panchayath": "Panchayath",
+  "_fixed.ward": "Ward",
+};
+
+const applicant = (extra: Record<string, unknown> = {}) => ({
+  Name: "Asha",
+  Mobile: "9876543210",
+  Panchayath: "Kodiyathur",
+  Ward: "3",
+  ...extra,
+});
+
+describe("getImportableQuestions", () => {
+  it("leaves out section breaks and uploads, in form order", () => {
+    const questions = [
+      question("b", "text", { sort_order: 2 }),
+      question("s", "section", { sort_order: 1 }),
+      question("f", "file", { sort_order: 0 }),
+      question("a", "text", { sort_order: 0 }),
+    ];
+    expect(getImportableQuestions(questions).map((q) => q.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("autoMapColumns", () => {
+  it("maps question text first, then fixed fields by their hints", () => {
+    const questions = [question("q1", "text", { question_text: "Qualification" })];
+    const mapping = autoMapColumns(["Applicant Name", "Phone No.", "Panchayat", "Ward No", "qualification"], questions);
+    expect(mapping).toEqual({
+      q1: "qualification",
+      "_fixed.name": "Applicant Name",
+      "_fixed.mobile": "Phone No.",
+      "_fixed.panchayath": "Panchayat",
+      "_fixed.ward": "Ward No",
+    });
+  });
+
+  it("never maps one column to two fields", () => {
+    const questions = [question("q1", "text", { question_text: "Name" })];
+    const mapping = autoMapColumns(["Name"], questions);
+    expect(mapping).toEqual({ q1: "Name" });
+  });
+});
+
+describe("parseCell", () => {
+  it("reads yes/no in English and Malayalam", () => {
+    const q = question("q", "yes_no");
+    expect(parseCell(q, "Y")).toBe("yes");
+    expect(parseCell(q, "ഇല്ല")).toBe("no");
+    expect(parseCell(q, "maybe")).toBe("maybe");
+  });
+
+  it("matches options regardless of case and splits multiple choices", () => {
+    const q = question("q", "checkbox", { options: ["Cooking", "Tailoring"] });
+    expect(parseCell(q, "cooking; TAILORING")).toEqual(["Cooking", "Tailoring"]);
+    expect(parseCell(question("r", "radio", { options: ["Cooking"] }), " cooking ")).toBe("Cooking");
+  });
+
+  it("turns Indian dates and spreadsheet dates into yyyy-MM-dd", () => {
+    const q = question("q", "date");
+    expect(parseCell(q, "5/3/2026")).toBe("2026-03-05");
+    expect(parseCell(q, "15-12-2025")).toBe("2025-12-15");
+    expect(parseCell(q, new Date(2026, 0, 9))).toBe("2026-01-09");
+  });
+
+  it("keeps only the digits of an Aadhaar number", () => {
+    expect(parseCell(question("q", "aadhaar"), "2341 2341 2346")).toBe("234123412346");
+  });
+
+  it("returns nothing for a blank cell", () => {
+    expect(parseCell(question("q", "text"), "  ")).toBeUndefined();
+    expect(parseCell(question("q", "text"), null)).toBeUndefined();
+  });
+});
+
+describe("buildImportRows", () => {
+  it("builds the fixed fields and numbers rows as the spreadsheet does", () => {
+    const [row] = buildImportRows(
+      [applicant({ Mobile: "+91 98765 43210", Panchayath: "കൊടിയത്തൂർ", Ward: "Ward 3" })],
+      FIXED_MAPPING,
+      [],
+      PANCHAYATHS,
+      false,
+    );
+    expect(row).toEqual({
+      rowNumber: 2,
+      fixed: { name: "Asha", mobile: "9876543210", panchayath_id: "p1", panchayath_name: "Kodiyathur", ward: "3" },
+      answers: {},
+      errors: [],
+    });
+  });
+
+  it("reports missing and invalid fixed fields", () => {
+    const [missing, invalid] = buildImportRows(
+      [{}, applicant({ Mobile: "12345", Panchayath: "Nowhere" })],
+      FIXED_MAPPING,
+      [],
+      PANCHAYATHS,
+      false,
+    );
+    expect(missing.errors).toEqual([
+      "Name is missing",
+      "Mobile number is missing",
+      "Panchayath is missing",
+      "Ward is missing",
+    ]);
+    expect(invalid.errors).toEqual(['Mobile number "12345" must be 10 digits', 'Panchayath "Nowhere" not found']);
+  });
+
+  it("checks wards against the panchayath's ward count, or 1-20 when it has none", () => {
+    const rows = buildImportRows(
+      [applicant({ Ward: "17" }), applicant({ Panchayath: "Mukkam", Ward: "20" })],
+      FIXED_MAPPING,
+      [],
+      PANCHAYATHS,
+      true,
+    );
+    expect(rows.map((r) => r.errors)).toEqual([['Ward "17" is not a ward of Kodiyathur'], []]);
+  });
+
+  it("flags mobile numbers repeated within the sheet unless the program allows it", () => {
+    const sheet = [applicant(), applicant()];
+    expect(buildImportRows(sheet, FIXED_MAPPING, [], PANCHAYATHS, false)[1].errors).toEqual([
+      "Mobile number repeats row 2",
+    ]);
+    expect(buildImportRows(sheet, FIXED_MAPPING, [], PANCHAYATHS, true)[1].errors).toEqual([]);
+  });
+
+  it("checks answers the way the form does and keeps the valid ones", () => {
+    const questions = [
+      question("age", "number", { question_text: "Age", is_required: true }),
+      question("skill", "radio", { question_text: "Skill", options: ["Cooking"] }),
+      question("note", "text", { question_text: "Note" }),
+    ];
+    const mapping = { ...FIXED_MAPPING, age: "Age", skill: "Skill", note: "Note" };
+    const [good, bad] = buildImportRows(
+      [applicant({ Age: 30, Skill: "cooking", Note: "" }), applicant({ Mobile: "9876543211", Age: "", Skill: "Driving" })],
+      mapping,
+      questions,
+      PANCHAYATHS,
+      false,
+    );
+    expect(good.answers).toEqual({ age: "30", skill: "Cooking" });
+    expect(good.errors).toEqual([]);
+    expect(bad.answers).toEqual({});
+    expect(bad.errors).toEqual(['"Age" is required', 'Skill: "Driving" is not one of the options']);
+  });
+});
@@ -0,0 +1,216 @@
+import type { ProgramFormQuestion } from "@/hooks/usePrograms";
+import { buildFormPages, createFormLogic, getInputQuestions } from "@/lib/formLogic";
+import { isAnswerEmpty, OPTION_QUESTION_TYPES, validateAnswer } from "@/lib/formQuestions";
+
+// Bulk import of paper registrations from a spreadsheet: map columns to the fixed fields and
+// form questions, turn each row into the answers the form would have produced, and check it
+// the way the form does before it is sent to submit-registration in batches.
+
+export type SpreadsheetRow = Record<string, unknown>;
+
+export interface ImportPanchayath {
+  id: string;
+  name: string;
+  name_ml: string | null;
+  ward: string | null;
+}
+
+export const IMPORT_FIXED_FIELDS = [
+  { key: "_fixed.name", label: "Name", required: true, hints: ["name", "applicant", "പേര്"] },
+  { key: "_fixed.mobile", label: "Mobile Number", required: true, hints: ["mobile", "phone", "contact", "ഫോൺ"] },
+  { key: "_fixed.panchayath", label: "Panchayath", required: true, hints: ["panchayath", "panchayat", "പഞ്ചായത്ത്"] },
+  { key: "_fixed.ward", label: "Ward", required: true, hints: ["ward", "വാർഡ്"] },
+] as const;
+
+// Spreadsheets cannot carry uploads
+const UNMAPPABLE_QUESTION_TYPES = ["file"];
+const DEFAULT_WARD_COUNT = 20;
+
+export interface ImportRow {
+  rowNumber: number; // as shown in the spreadsheet, counting the header row
+  fixed: { name: string; mobile: string; panchayath_id: string; panchayath_name: string; ward: string };
+  answers: Record<string, unknown>;
+  errors: string[];
+}
+
+export function getImportableQuestions(questions: ProgramFormQuestion[]): ProgramFormQuestion[] {
+  return getInputQuestions(questions)
+    .filter((q) => !UNMAPPABLE_QUESTION_TYPES.includes(q.question_type))
+    .sort((a, b) => a.sort_order - b.sort_order);
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+// Column -> field by header, as OldPaymentsUpload does: exact question text first, then hints
+export function autoMapColumns(headers: string[], questions: ProgramFormQuestion[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  const take = (key: string, header: string | undefined) => {
+    if (!header || mapping[key]) return;
+    mapping[key] = header;
+    used.add(header);
+  };
+
+  getImportableQuestions(questions).forEach((question) => {
+    const text = normalizeHeader(question.question_text);
+    take(question.id, headers.find((h) => !used.has(h) && normalizeHeader(h) === text));
+  });
+  IMPORT_FIXED_FIELDS.forEach((field) => {
+    take(
+      field.key,
+      headers.find((h) => !used.has(h) && field.hints.some((hint) => normalizeHeader(h).includes(normalizeHeader(hint))))
+    );
+  });
+  return mapping;
+}
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) return formatDate(value);
+  return String(value ?? "").trim();
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function matchOption(question: ProgramFormQuestion, value: string): string {
+  const options = Array.isArray(question.options) ? question.options.map(String) : [];
+  return options.find((o) => o.trim().toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+// The answer the form would store for a spreadsheet cell
+export function parseCell(question: ProgramFormQuestion, value: unknown): unknown {
+  const text = cellText(value);
+  if (!text) return undefined;
+
+  switch (question.question_type) {
+    case "yes_no": {
+      const lower = text.toLowerCase();
+      if (["yes", "y", "true", "1", "അതെ"].includes(lower)) return "yes";
+      if (["no", "n", "false", "0", "ഇല്ല"].includes(lower)) return "no";
+      return text;
+    }
+    case "select":
+    case "radio":
+      return matchOption(question, text);
+    case "checkbox":
+      return text
+        .split(/[,;\n]/)
+        .map((v) => v.trim())
+        .filter(Boolean)
+        .map((v) => matchOption(question, v));
+    case "multi_text":
+      return text
+        .split(/[;\n]/)
+        .map((v) => v.trim())
+        .filter(Boolean);
+    case "date": {
+      // Dates typed as dd/mm/yyyy or dd-mm-yyyy, as they usually are on paper forms in India
+      const match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+      return match ? `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}` : text;
+    }
+    case "aadhaar":
+      return text.replace(/\D/g, "");
+    default:
+      return text;
+  }
+}
+
+// validateAnswer leaves choices to the form's own controls; a spreadsheet can hold anything
+function getOptionProblem(question: ProgramFormQuestion, answer: unknown): string | null {
+  if (!OPTION_QUESTION_TYPES.includes(question.question_type)) return null;
+  const options = Array.isArray(question.options) ? question.options.map(String) : [];
+  const unknown = (Array.isArray(answer) ? answer : [answer]).map(String).filter((v) => !options.includes(v));
+  return unknown.length > 0 ? `"${unknown.join(", ")}" is not one of the options` : null;
+}
+
+// Same ward list as FixedRegistrationFields: the panchayath's ward count, or 1-20
+function getWardCount(panchayath: ImportPanchayath): number {
+  const count = parseInt(panchayath.ward ?? "", 10);
+  return !isNaN(count) && count > 0 ? count : DEFAULT_WARD_COUNT;
+}
+
+function findPanchayath(panchayaths: ImportPanchayath[], value: string): ImportPanchayath | undefined {
+  const wanted = normalizeHeader(value);
+  return panchayaths.find(
+    (p) => normalizeHeader(p.name) === wanted || (!!p.name_ml && normalizeHeader(p.name_ml) === wanted)
+  );
+}
+
+export function buildImportRows(
+  rows: SpreadsheetRow[],
+  mapping: Record<string, string>,
+  questions: ProgramFormQuestion[],
+  panchayaths: ImportPanchayath[],
+  allowDuplicateMobile: boolean
+): ImportRow[] {
+  const importable = getImportableQuestions(questions);
+  const formLogic = createFormLogic(buildFormPages([...questions].sort((a, b) => a.sort_order - b.sort_order)));
+  const seenMobiles = new Map<string, number>();
+  const column = (row: SpreadsheetRow, key: string) => (mapping[key] ? cellText(row[mapping[key]]) : "");
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+
+    const name = column(row, "_fixed.name");
+    const mobile = column(row, "_fixed.mobile").replace(/\D/g, "").replace(/^91(?=\d{10}$)/, "");
+    const panchayathText = column(row, "_fixed.panchayath");
+    const ward = column(row, "_fixed.ward").replace(/^ward\s*/i, "");
+    const panchayath = panchayathText ? findPanchayath(panchayaths, panchayathText) : undefined;
+
+    if (!name) errors.push("Name is missing");
+    if (!mobile) errors.push("Mobile number is missing");
+    else if (!/^\d{10}$/.test(mobile)) errors.push(`Mobile number "${column(row, "_fixed.mobile")}" must be 10 digits`);
+    if (!panchayathText) errors.push("Panchayath is missing");
+    else if (!panchayath) errors.push(`Panchayath "${panchayathText}" not found`);
+    if (!ward) errors.push("Ward is missing");
+    else if (panchayath && !(/^\d+$/.test(ward) && Number(ward) >= 1 && Number(ward) <= getWardCount(panchayath))) {
+      errors.push(`Ward "${ward}" is not a ward of ${panchayath.name}`);
+    }
+
+    if (mobile && !allowDuplicateMobile) {
+      const firstRow = seenMobiles.get(mobile);
+      if (firstRow) errors.push(`Mobile number repeats row ${firstRow}`);
+      else seenMobiles.set(mobile, rowNumber);
+    }
+
+    const answers: Record<string, unknown> = {};
+    importable.forEach((question) => {
+      if (!mapping[question.id]) return;
+      const answer = parseCell(question, row[mapping[question.id]]);
+      if (!isAnswerEmpty(answer)) answers[question.id] = answer;
+    });
+
+    // Only the questions the form would have shown count, as on the public form
+    const kept: Record<string, unknown> = {};
+    formLogic.getVisibleQuestions(answers).forEach((question) => {
+      const answer = answers[question.id];
+      if (isAnswerEmpty(answer)) {
+        if (question.is_required && !UNMAPPABLE_QUESTION_TYPES.includes(question.question_type)) {
+          errors.push(`"${question.question_text}" is required`);
+        }
+        return;
+      }
+      const problem = validateAnswer(question, answer) ?? getOptionProblem(question, answer);
+      if (problem) errors.push(`${question.question_text}: ${problem}`);
+      else kept[question.id] = answer;
+    });
+
+    return {
+      rowNumber,
+      fixed: {
+        name,
+        mobile,
+        panchayath_id: panchayath?.id ?? "",
+        panchayath_name: panchayath?.name ?? "",
+        ward,
+      },
+      answers: kept,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,106 @@
+// Where a registration stands for a seat in its program. Mirrors the status check on
+// program_registrations and registration_holds_seat() in the database.
+
+export const REGISTRATION_STATUSES = [
+  { value: "registered", label: "Registered" },
+  { value: "waitlisted", label: "Waitlisted" },
+  { value: "shortlisted", label: "Shortlisted" },
+  { value: "selected", label: "Selected" },
+  { value: "rejected", label: "Rejected" },
+  { value: "withdrawn", label: "Withdrawn" },
+] as const;
+
+export type RegistrationStatus = (typeof REGISTRATION_STATUSES)[number]["value"];
+
+// Statuses admins can move many registrations to at once from the ranked list
+export const BULK_REGISTRATION_STATUSES: RegistrationStatus[] = ["shortlisted", "selected", "rejected", "withdrawn"];
+
+export function getRegistrationStatusLabel(status: string): string {
+  return REGISTRATION_STATUSES.find((s) => s.value === status)?.label ?? status;
+}
+
+export function holdsSeat(status: string): boolean {
+  return status !== "waitlisted" && status !== "rejected" && status !== "withdrawn";
+}
+
+export function getRegistrationStatusBadgeClass(status: string): string {
+  switch (status) {
+    case "waitlisted":
+      return "bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300";
+    case "shortlisted":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-950/40 dark:text-blue-300";
+    case "selected":
+      return "bg-emerald-100 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-300";
+    case "rejected":
+      return "bg-destructive/10 text-destructive";
+    case "withdrawn":
+      return "bg-muted text-muted-foreground";
+    default:
+      return "";
+  }
+}
+
+// Rejecting needs a reason, since the applicant is shown it; withdrawing can have one
+export function statusNeedsReason(status: string): boolean {
+  return status === "rejected";
+}
+
+export function statusTakesReason(status: string): boolean {
+  return status === "rejected" || status === "withdrawn";
+}
+
+// Which moves the admin-registrations function accepts; keep the two in step.
+// "registered" puts a shortlisted or selected applicant back in the pool, or
+// reinstates a rejected or withdrawn one onto the waitlist.
+export function canChangeStatus(
+  registration: { status: string; verification_status: string },
+  next: string,
+  verificationEnabled: boolean
+): boolean {
+  const current = registration.status;
+  if (current === next) return false;
+  switch (next) {
+    case "shortlisted":
+    case "selected":
+      return (
+        ["registered", "shortlisted", "selected"].includes(current) &&
+        (!verificationEnabled || registration.verification_status === "verified")
+      );
+    case "rejected":
+      return true;
+    case "withdrawn":
+      return current !== "rejected";
+    case "registered":
+      return current !== "waitlisted";
+    default:
+      return false;
+  }
+}
+
+// What the applicant sees next to their registration in the home status lookup
+export function getApplicantStatusMessage(status: string): string | null {
+  switch (status) {
+    case "waitlisted":
+      return "The program is full. You will get a seat if one becomes free.";
+    case "shortlisted":
+      return "You have been shortlisted. The final selection will be announced soon.";
+    case "selected":
+      return "Congratulations, you have been selected for this program.";
+    case "rejected":
+      return "Your registration was not accepted.";
+    case "withdrawn":
+      return "Your registration has been withdrawn.";
+    default:
+      return null;
+  }
+}
+
+// Passed as router state from the home status lookup to the program page once the
+// applicant's edit code has been accepted by the registration-status function
+export interface ApplicantEditSession {
+  registrationId: string;
+  mobile: string;
+  code: string;
+  answers: Record<string, unknown>;
+  editUntil: string;
+}
@@ -7,9 +7,10 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Leaf, Loader2, AlertCircle, Shield, UserCog } from "lucide-react";
+import { Leaf, Loader2, AlertCircle, CheckCircle2, Shield, UserCog } from "lucide-react";
 import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
 
 const superAdminSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -21,6 +22,15 @@ const adminSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+const newPasswordSchema = z
+  .object({
+    newPassword: z.string().min(6, "New password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((d) => d.newPassword === d.confirmPassword, { message: "Passwords do not match" });
+
+type AdminView = "login" | "change_password" | "request_reset" | "reset_password";
+
 export default function Auth() {
   const [activeTab, setActiveTab] = useState<"super_admin" | "admin">("super_admin");
   
@@ -31,8 +41,13 @@ export default function Auth() {
   // Admin form
   const [phone, setPhone] = useState("");
   const [adminPassword, setAdminPassword] = useState("");
+  const [adminView, setAdminView] = useState<AdminView>("login");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [resetCode, setResetCode] = useState("");
   
   const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const { signIn, signInAsAdmin, user, isLoading, adminToken } = useAuth();
@@ -91,15 +106,17 @@ export default function Auth() {
       });
 
       if (funcError) {
-        throw new Error(funcError.message || "Login failed");
+        throw new Error(await getFunctionErrorMessage(funcError, "Login failed"));
       }
 
       if (data?.error) {
         throw new Error(data.error);
       }
 
-      if (data?.success && data?.token) {
-        signInAsAdmin(data.token, data.admin);
+      if (data?.success && data?.must_change_password) {
+        switchAdminView("change_password", "Your password was reset by the Super Admin. Choose a new password to continue.");
+      } else if (data?.success && data?.token) {
+        signInAsAdmin(data.token, data.admin, data.refresh_token);
       } else {
         throw new Error("Invalid response from server");
       }
@@ -110,6 +127,169 @@ export default function Auth() {
     }
   };
 
+  const switchAdminView = (view: AdminView, message = "") => {
+    setAdminView(view);
+    setError("");
+    setNotice(message);
+    setNewPassword("");
+    setConfirmPassword("");
+    setResetCode("");
+  };
+
+  const validateNewPassword = () => {
+    const validation = newPasswordSchema.safeParse({ newPassword, confirmPassword });
+    if (!validation.success) {
+      setError(validation.error.errors[0].message);
+      return false;
+    }
+    return true;
+  };
+
+  const handleChangePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!validateNewPassword()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const { data, error: funcError } = await supabase.functions.invoke("admin-auth", {
+        body: { action: "change_password", phone, password: adminPassword, new_password: newPassword },
+      });
+
+      if (funcError) {
+        throw new Error(await getFunctionErrorMessage(funcError, "Password change failed"));
+      }
+
+      if (data?.error) {
+        throw new Error(data.error);
+      }
+
+      if (data?.success && data?.token) {
+        signInAsAdmin(data.token, data.admin, data.refresh_token);
+      } else {
+        throw new Error("Invalid response from server");
+      }
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Password change failed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRequestResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (phone.replace(/\s+/g, "").length < 10) {
+      setError("Please enter a valid phone number");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { data, error: funcError } = await supabase.functions.invoke("admin-auth", {
+        body: { action: "request_reset", phone },
+      });
+
+      if (funcError) {
+        throw new Error(await getFunctionErrorMessage(funcError, "Could not request a reset code"));
+      }
+
+      if (data?.error) {
+        throw new Error(data.error);
+      }
+
+      switchAdminView("reset_password", data?.message || "A reset code has been sent.");
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Could not request a reset code. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetPasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!/^\d{6}$/.test(resetCode.trim())) {
+      setError("Enter the 6-digit reset code");
+      return;
+    }
+    if (!validateNewPassword()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const { data, error: funcError } = await supabase.functions.invoke("admin-auth", {
+        body: { action: "reset_password", phone, code: resetCode.trim(), new_password: newPassword },
+      });
+
+      if (funcError) {
+        throw new Error(await getFunctionErrorMessage(funcError, "Password reset failed"));
+      }
+
+      if (data?.error) {
+        throw new Error(data.error);
+      }
+
+      setAdminPassword("");
+      switchAdminView("login", "Password updated. Sign in with your new password.");
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Password reset failed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderNewPasswordFields = () => (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">New Password</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          placeholder="••••••••"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm New Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          placeholder="••••••••"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+    </>
+  );
+
+  const renderMessages = () => (
+    <>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && !error && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -137,7 +317,7 @@ export default function Auth() {
         <CardContent>
           <Tabs value={activeTab} onValueChange={(v) => {
             setActiveTab(v as "super_admin" | "admin");
-            setError("");
+            switchAdminView("login");
           }}>
             <TabsList className="grid w-full grid-cols-2 mb-6">
               <TabsTrigger value="super_admin" className="flex items-center gap-2">
@@ -203,55 +383,171 @@ export default function Auth() {
             </TabsContent>
 
             <TabsContent value="admin">
-              <form onSubmit={handleAdminSubmit} className="space-y-4">
-                {error && (
-                  <Alert variant="destructive">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertDescription>{error}</AlertDescription>
-                  </Alert>
-                )}
+              {adminView === "login" && (
+                <form onSubmit={handleAdminSubmit} className="space-y-4">
+                  {renderMessages()}
 
-                <div className="space-y-2">
-                  <Label htmlFor="phone">Phone Number</Label>
-                  <Input
-                    id="phone"
-                    type="tel"
-                    placeholder="+91 9876543210"
-                    value={phone}
-                    onChange={(e) => setPhone(e.target.value)}
-                    disabled={isSubmitting}
-                    required
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Phone Number</Label>
+                    <Input
+                      id="phone"
+                      type="tel"
+                      placeholder="+91 9876543210"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="adminPassword">Password</Label>
-                  <Input
-                    id="adminPassword"
-                    type="password"
-                    placeholder="••••••••"
-                    value={adminPassword}
-                    onChange={(e) => setAdminPassword(e.target.value)}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="adminPassword">Password</Label>
+                      <button
+                        type="button"
+                        className="text-xs text-primary hover:underline"
+                        onClick={() => switchAdminView("request_reset")}
+                      >
+                        Forgot password?
+                      </button>
+                    </div>
+                    <Input
+                      id="adminPassword"
+                      type="password"
+                      placeholder="••••••••"
+                      value={adminPassword}
+                      onChange={(e) => setAdminPassword(e.target.value)}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
                     disabled={isSubmitting}
-                    required
-                  />
-                </div>
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Signing in...
+                      </>
+                    ) : (
+                      "Sign In as Admin"
+                    )}
+                  </Button>
+                </form>
+              )}
 
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={isSubmitting}
-                >
-                  {isSubmitting ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Signing in...
-                    </>
-                  ) : (
-                    "Sign In as Admin"
-                  )}
-                </Button>
-              </form>
+              {adminView === "change_password" && (
+                <form onSubmit={handleChangePasswordSubmit} className="space-y-4">
+                  {renderMessages()}
+
+                  {renderNewPasswordFields()}
+
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      "Set New Password & Sign In"
+                    )}
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={() => switchAdminView("login")}>
+                    Back to sign in
+                  </Button>
+                </form>
+              )}
+
+              {adminView === "request_reset" && (
+                <form onSubmit={handleRequestResetSubmit} className="space-y-4">
+                  {renderMessages()}
+
+                  <p className="text-sm text-muted-foreground">
+                    Enter your registered phone number and we will send you a one-time reset code.
+                  </p>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="resetPhone">Phone Number</Label>
+                    <Input
+                      id="resetPhone"
+                      type="tel"
+                      placeholder="+91 9876543210"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Sending...
+                      </>
+                    ) : (
+                      "Send Reset Code"
+                    )}
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={() => switchAdminView("reset_password")}>
+                    I already have a code
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={() => switchAdminView("login")}>
+                    Back to sign in
+                  </Button>
+                </form>
+              )}
+
+              {adminView === "reset_password" && (
+                <form onSubmit={handleResetPasswordSubmit} className="space-y-4">
+                  {renderMessages()}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="resetPhoneConfirm">Phone Number</Label>
+                    <Input
+                      id="resetPhoneConfirm"
+                      type="tel"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="resetCode">Reset Code</Label>
+                    <Input
+                      id="resetCode"
+                      inputMode="numeric"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={resetCode}
+                      onChange={(e) => setResetCode(e.target.value.replace(/\D/g, ""))}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+
+                  {renderNewPasswordFields()}
+
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Resetting...
+                      </>
+                    ) : (
+                      "Reset Password"
+                    )}
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={() => switchAdminView("login")}>
+                    Back to sign in
+                  </Button>
+                </form>
+              )}
             </TabsContent>
           </Tabs>
 
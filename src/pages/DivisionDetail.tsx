@@ -13,6 +13,7 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { Loader2, ArrowLeft, Calendar, MapPin, Megaphone, ArrowRight } from "lucide-react";
 import { format } from "date-fns";
+import { isLive, livePublishFilter } from "@/lib/publishSchedule";
 
 // Import division logos
 import farmelifeLogo from "@/assets/divisions/farmelife.png";
@@ -148,6 +149,8 @@ interface Program {
     description: string | null;
     poster_url: string | null;
     is_published: boolean;
+    publish_at: string | null;
+    unpublish_at: string | null;
     created_at: string;
   }[];
 }
@@ -196,10 +199,11 @@ export default function DivisionDetailPage() {
               is_active,
               panchayath:panchayaths(name),
               modules:program_modules(module_type, is_published),
-              announcements:program_announcements(id, title, description, poster_url, is_published, created_at)
+              announcements:program_announcements(id, title, description, poster_url, is_published, publish_at, unpublish_at, created_at)
             `)
             .eq("division_id", divisionData.id)
             .eq("is_active", true)
+            .or(livePublishFilter(), { referencedTable: "announcements" })
             .order("created_at", { ascending: false });
 
           if (programsError) {
@@ -218,11 +222,12 @@ export default function DivisionDetailPage() {
     fetchDivisionData();
   }, [slug]);
 
-  // Get all published announcements from all programs
+  // Get the announcements that are live now from all programs
+  const now = new Date();
   const allAnnouncements = programs
     .flatMap((p) =>
       (p.announcements || [])
-        .filter((a) => a.is_published)
+        .filter((a) => isLive(a, now))
         .map((a) => ({ ...a, programName: p.name, programId: p.id }))
     )
     .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
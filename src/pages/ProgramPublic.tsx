@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useState, useEffect, useMemo } from "react";
+import { useParams, Link, useLocation } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,7 +23,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
-import { Loader2, Calendar, MapPin, ArrowLeft, Check, Megaphone, Video } from "lucide-react";
+import { Loader2, Calendar, MapPin, ArrowLeft, Check, Clock, Megaphone, Printer, Video } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { Program, ProgramFormQuestion, ProgramAnnouncement, ProgramAdvertisement } from "@/hooks/usePrograms";
@@ -33,6 +33,20 @@ import {
   FIXED_FIELD_DEFAULTS,
   validateFixedFields,
 } from "@/components/programs/FixedRegistrationFields";
+import { RegistrationFileInput } from "@/components/programs/RegistrationFileInput";
+import {
+  DEFAULT_RATING_SCALE,
+  formatAadhaar,
+  getQuestionConfig,
+  isAnswerEmpty,
+  isValidAadhaar,
+  validateAnswer,
+} from "@/lib/formQuestions";
+import { buildFormPages, createFormLogic } from "@/lib/formLogic";
+import { getFunctionErrorBody } from "@/lib/functionErrors";
+import { isLive, livePublishFilter } from "@/lib/publishSchedule";
+import { printRegistrationAcknowledgement, type RegistrationDocumentDetails } from "@/lib/registrationDocuments";
+import type { ApplicantEditSession } from "@/lib/registrationStatus";
 
 export default function ProgramPublicPage() {
   const { id } = useParams<{ id: string }>();
@@ -40,12 +54,40 @@ export default function ProgramPublicPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
-  const [answers, setAnswers] = useState<Record<string, any>>({});
-  const [fixedFields, setFixedFields] = useState<FixedFieldValues>(FIXED_FIELD_DEFAULTS);
+  // Set when an applicant reopens their registration from the home status lookup
+  const editSession = (useLocation().state as { editSession?: ApplicantEditSession } | null)?.editSession ?? null;
+  const [answers, setAnswers] = useState<Record<string, any>>(() => {
+    if (!editSession) return {};
+    const { _fixed, ...rest } = editSession.answers;
+    return rest;
+  });
+  const [fixedFields, setFixedFields] = useState<FixedFieldValues>(() =>
+    editSession ? { ...FIXED_FIELD_DEFAULTS, ...(editSession.answers._fixed as Partial<FixedFieldValues>) } : FIXED_FIELD_DEFAULTS
+  );
   const [fixedFieldErrors, setFixedFieldErrors] = useState<Partial<Record<keyof FixedFieldValues, string>>>({});
+  const [questionErrors, setQuestionErrors] = useState<Record<string, string>>({});
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageHistory, setPageHistory] = useState<number[]>([]);
+  const [seatsLeft, setSeatsLeft] = useState<number | null>(null);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const [editCode, setEditCode] = useState<string | null>(null);
+  const [acknowledgement, setAcknowledgement] = useState<RegistrationDocumentDetails | null>(null);
 
   const { toast } = useToast();
 
+  // Section breaks split the form into pages; visibility and skip rules decide which are shown
+  const formPages = useMemo(
+    () => buildFormPages([...(program?.form_questions || [])].sort((a, b) => a.sort_order - b.sort_order)),
+    [program]
+  );
+  const formLogic = useMemo(() => createFormLogic(formPages), [formPages]);
+  const visibleQuestions = formLogic.getVisibleQuestions(answers);
+  const visibleAnswers = Object.fromEntries(visibleQuestions.map((q) => [q.id, answers[q.id]]));
+  const visibleQuestionIds = new Set(visibleQuestions.map((q) => q.id));
+  const currentPage = formPages[pageIndex] ?? formPages[0];
+  const pageQuestions = currentPage.questions.filter((q) => visibleQuestionIds.has(q.id));
+  const nextPageIndex = formLogic.getNextPageIndex(pageIndex, visibleAnswers);
+
   useEffect(() => {
     const fetchProgram = async () => {
       if (!id) return;
@@ -63,6 +105,8 @@ export default function ProgramPublicPage() {
         `)
         .eq("id", id)
         .eq("is_active", true)
+        .or(livePublishFilter(), { referencedTable: "announcements" })
+        .or(livePublishFilter(), { referencedTable: "advertisements" })
         .maybeSingle();
 
       if (error) {
@@ -76,12 +120,49 @@ export default function ProgramPublicPage() {
     fetchProgram();
   }, [id]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Seats left in the program, narrowed to the chosen panchayath when it has its own limit
+  const hasSeatLimit = program?.max_seats != null || program?.max_seats_per_panchayath != null;
+  useEffect(() => {
+    if (!program || !hasSeatLimit) return;
 
-    if (!program) return;
+    const fetchSeatsLeft = async () => {
+      const { data, error } = await supabase.rpc("program_seats_left", {
+        _program_id: program.id,
+        _panchayath_id: fixedFields.panchayath_id || undefined,
+      });
+      if (!error) setSeatsLeft(data);
+    };
+
+    fetchSeatsLeft();
+  }, [program, hasSeatLimit, fixedFields.panchayath_id, submitted]);
+
+  // Hidden questions are never required, and their answers are not checked
+  const validateQuestions = (questions: ProgramFormQuestion[]) => {
+    for (const question of questions) {
+      const answer = answers[question.id];
+      if (question.is_required && isAnswerEmpty(answer)) {
+        toast({
+          title: "Required field",
+          description: `Please fill in: ${question.question_text}`,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const answerError = validateAnswer(question, answer);
+      if (answerError) {
+        toast({
+          title: "Invalid answer",
+          description: `${question.question_text}: ${answerError}`,
+          variant: "destructive",
+        });
+        return false;
+      }
+    }
+    return true;
+  };
 
-    // Validate fixed fields first
+  const validateFixed = () => {
     const fixedValidation = validateFixedFields(fixedFields);
     if (!fixedValidation.valid) {
       setFixedFieldErrors(fixedValidation.errors);
@@ -90,67 +171,109 @@ export default function ProgramPublicPage() {
         description: "Please fill in all required fields",
         variant: "destructive",
       });
-      return;
+      return false;
     }
     setFixedFieldErrors({});
+    return true;
+  };
 
-    // Validate custom required fields
-    const sortedQuestions = (program.form_questions || []).sort(
-      (a, b) => a.sort_order - b.sort_order
-    );
+  const handleNext = () => {
+    if (nextPageIndex === null) return;
+    if (pageIndex === 0 && !validateFixed()) return;
+    if (!validateQuestions(pageQuestions)) return;
 
-    for (const question of sortedQuestions) {
-      if (question.is_required) {
-        const answer = answers[question.id];
-        // For multi_text, check if at least one non-empty value exists
-        const isEmpty =
-          answer === undefined ||
-          answer === null ||
-          answer === "" ||
-          (Array.isArray(answer) && (answer.length === 0 || answer.every((v) => !v?.trim())));
-        
-        if (isEmpty) {
-          toast({
-            title: "Required field",
-            description: `Please fill in: ${question.question_text}`,
-            variant: "destructive",
-          });
-          return;
-        }
-      }
+    setPageHistory((prev) => [...prev, pageIndex]);
+    setPageIndex(nextPageIndex);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleBack = () => {
+    const previous = pageHistory[pageHistory.length - 1];
+    if (previous === undefined) return;
+    setPageHistory((prev) => prev.slice(0, -1));
+    setPageIndex(previous);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!program) return;
+
+    // Enter on an earlier page moves on rather than submitting
+    if (nextPageIndex !== null) {
+      handleNext();
+      return;
     }
 
+    if (!validateFixed()) return;
+    if (!validateQuestions(visibleQuestions)) return;
+
     setIsSubmitting(true);
+    setQuestionErrors({});
 
     try {
-      // Combine fixed fields with custom answers
-      const combinedAnswers = {
-        _fixed: {
-          name: fixedFields.name,
-          mobile: fixedFields.mobile,
-          panchayath_id: fixedFields.panchayath_id,
-          panchayath_name: fixedFields.panchayath_name,
-          ward: fixedFields.ward,
-        },
-        ...answers,
-      };
+      if (editSession) {
+        const { error } = await supabase.functions.invoke("registration-status", {
+          body: {
+            action: "update",
+            registration_id: editSession.registrationId,
+            mobile: editSession.mobile,
+            code: editSession.code,
+            fixed: fixedFields,
+            answers: visibleAnswers,
+          },
+        });
+
+        if (error) {
+          const body = await getFunctionErrorBody(error);
+          if (body?.field_errors) showFieldErrors(body.field_errors as Record<string, string>);
+          throw new Error(typeof body?.error === "string" ? body.error : error.message);
+        }
+
+        setSubmitted(true);
+        toast({ title: "Changes saved", description: "Your registration has been updated." });
+        return;
+      }
 
-      const { error } = await supabase.from("program_registrations").insert({
-        program_id: program.id,
-        answers: combinedAnswers,
+      // The server repeats every check, drops answers to hidden questions and
+      // rejects a second registration from the same mobile number
+      const { data, error } = await supabase.functions.invoke("submit-registration", {
+        body: {
+          program_id: program.id,
+          fixed: fixedFields,
+          answers: visibleAnswers,
+        },
       });
 
-      if (error) throw error;
+      if (error) {
+        const body = await getFunctionErrorBody(error);
+        if (body?.field_errors) showFieldErrors(body.field_errors as Record<string, string>);
+        throw new Error(typeof body?.error === "string" ? body.error : error.message);
+      }
 
+      const waitlisted = data?.registration?.status === "waitlisted";
+      setWaitlistPosition(waitlisted ? data.waitlist_position ?? 0 : null);
+      setEditCode(data?.edit_code ?? null);
+      setAcknowledgement({
+        id: data.registration.id,
+        name: fixedFields.name,
+        mobile: fixedFields.mobile,
+        panchayath_name: fixedFields.panchayath_name,
+        ward: fixedFields.ward,
+        status: data.registration.status,
+        created_at: data.registration.created_at,
+      });
       setSubmitted(true);
       toast({
-        title: "Registration successful!",
-        description: "Thank you for registering for this program.",
+        title: waitlisted ? "Added to the waitlist" : "Registration successful!",
+        description: waitlisted
+          ? "All seats are taken. You will get a seat if one becomes free."
+          : "Thank you for registering for this program.",
       });
-    } catch (err: any) {
+    } catch (err) {
       toast({
         title: "Error",
-        description: err.message || "Failed to submit registration",
+        description: err instanceof Error && err.message ? err.message : "Failed to submit registration",
         variant: "destructive",
       });
     } finally {
@@ -158,13 +281,43 @@ export default function ProgramPublicPage() {
     }
   };
 
+  // Show server-side field errors and return to the earliest page that has one
+  const showFieldErrors = (fieldErrors: Record<string, string>) => {
+    const fixedErrors: Partial<Record<keyof FixedFieldValues, string>> = {};
+    const answerErrors: Record<string, string> = {};
+    Object.entries(fieldErrors).forEach(([key, message]) => {
+      if (key.startsWith("_fixed.")) fixedErrors[key.slice("_fixed.".length) as keyof FixedFieldValues] = message;
+      else answerErrors[key] = message;
+    });
+    setFixedFieldErrors(fixedErrors);
+    setQuestionErrors(answerErrors);
+
+    const target = formPages.findIndex(
+      (page, index) =>
+        (index === 0 && Object.keys(fixedErrors).length > 0) || page.questions.some((q) => answerErrors[q.id])
+    );
+    if (target < 0 || target === pageIndex) return;
+
+    const position = pageHistory.indexOf(target);
+    if (position >= 0) {
+      setPageHistory((prev) => prev.slice(0, position));
+      setPageIndex(target);
+    }
+  };
+
   const updateAnswer = (questionId: string, value: any) => {
     setAnswers((prev) => ({ ...prev, [questionId]: value }));
+    setQuestionErrors((prev) => {
+      if (!prev[questionId]) return prev;
+      const { [questionId]: _cleared, ...rest } = prev;
+      return rest;
+    });
   };
 
   const renderFormField = (question: ProgramFormQuestion) => {
     const value = answers[question.id];
     const options = (question.options as string[]) || [];
+    const config = getQuestionConfig(question);
 
     switch (question.question_type) {
       case "text":
@@ -178,21 +331,36 @@ export default function ProgramPublicPage() {
 
       case "textarea":
         return (
-          <Textarea
-            value={value || ""}
-            onChange={(e) => updateAnswer(question.id, e.target.value)}
-            placeholder={`Enter ${question.question_text.toLowerCase()}`}
-            rows={4}
-          />
+          <div className="space-y-1">
+            <Textarea
+              value={value || ""}
+              onChange={(e) => updateAnswer(question.id, e.target.value)}
+              placeholder={`Enter ${question.question_text.toLowerCase()}`}
+              maxLength={config.max_length || undefined}
+              rows={4}
+            />
+            {config.max_length && (
+              <p className="text-xs text-muted-foreground text-right">
+                {(value || "").length} / {config.max_length}
+              </p>
+            )}
+          </div>
         );
 
       case "number":
         return (
           <Input
             type="number"
-            value={value || ""}
+            inputMode="decimal"
+            value={value ?? ""}
             onChange={(e) => updateAnswer(question.id, e.target.value)}
-            placeholder="Enter a number"
+            min={config.min ?? undefined}
+            max={config.max ?? undefined}
+            placeholder={
+              config.min != null && config.max != null
+                ? `Between ${config.min} and ${config.max}`
+                : "Enter a number"
+            }
           />
         );
 
@@ -222,6 +390,83 @@ export default function ProgramPublicPage() {
             type="date"
             value={value || ""}
             onChange={(e) => updateAnswer(question.id, e.target.value)}
+            min={config.min_date || undefined}
+            max={config.max_date || undefined}
+          />
+        );
+
+      case "aadhaar": {
+        const digits = String(value || "");
+        return (
+          <div className="space-y-1">
+            <Input
+              inputMode="numeric"
+              autoComplete="off"
+              value={formatAadhaar(digits)}
+              onChange={(e) => updateAnswer(question.id, e.target.value.replace(/\D/g, "").slice(0, 12))}
+              placeholder="XXXX XXXX XXXX"
+            />
+            {digits.length === 12 && !isValidAadhaar(digits) && (
+              <p className="text-sm text-destructive">This Aadhaar number is not valid</p>
+            )}
+          </div>
+        );
+      }
+
+      case "yes_no":
+        return (
+          <RadioGroup
+            value={value || ""}
+            onValueChange={(v) => updateAnswer(question.id, v)}
+            className="flex gap-6"
+          >
+            {[
+              { value: "yes", label: "Yes" },
+              { value: "no", label: "No" },
+            ].map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`${question.id}-${option.value}`} />
+                <Label htmlFor={`${question.id}-${option.value}`}>{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case "rating": {
+        const scale = config.scale || DEFAULT_RATING_SCALE;
+        return (
+          <div className="space-y-1">
+            <div className="flex flex-wrap gap-2">
+              {Array.from({ length: scale }, (_, i) => i + 1).map((rating) => (
+                <Button
+                  key={rating}
+                  type="button"
+                  size="sm"
+                  variant={value === rating ? "default" : "outline"}
+                  className="w-10"
+                  onClick={() => updateAnswer(question.id, value === rating ? null : rating)}
+                >
+                  {rating}
+                </Button>
+              ))}
+            </div>
+            {(config.low_label || config.high_label) && (
+              <div className="flex justify-between text-xs text-muted-foreground" style={{ maxWidth: `${scale * 3}rem` }}>
+                <span>{config.low_label}</span>
+                <span>{config.high_label}</span>
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case "file":
+        return (
+          <RegistrationFileInput
+            programId={program!.id}
+            question={question}
+            value={value}
+            onChange={(file) => updateAnswer(question.id, file)}
           />
         );
 
@@ -366,14 +611,52 @@ export default function ProgramPublicPage() {
     );
   }
 
-  // Get published modules
-  const publishedAnnouncements = (program.announcements || []).filter((a) => a.is_published);
-  const publishedAds = (program.advertisements || []).filter((a) => a.is_published);
+  // Get published modules; announcements and ads only while inside their publish window
+  const now = new Date();
+  const publishedAnnouncements = (program.announcements || []).filter((a) => isLive(a, now));
+  const publishedAds = (program.advertisements || []).filter((a) => isLive(a, now));
   const hasRegistrationModule = program.modules?.some(
     (m) => m.module_type === "registration" && m.is_published
   );
-  const sortedQuestions = (program.form_questions || []).sort(
-    (a, b) => a.sort_order - b.sort_order
+  // Registration is open from the start date through the end date (inclusive)
+  const today = format(new Date(), "yyyy-MM-dd");
+  const registrationNotOpen = !!program.start_date && today < program.start_date;
+  const registrationClosed = !!program.end_date && today > program.end_date;
+  const formUnavailable = !editSession && (registrationClosed || registrationNotOpen);
+
+  const editCodeNotice = editCode && program.applicant_edit_until && (
+    <div className="mt-6 p-4 rounded-lg border bg-muted/40 text-left">
+      <p className="text-sm text-muted-foreground">Your edit code</p>
+      <p className="text-2xl font-mono font-bold tracking-[0.3em] my-1">{editCode}</p>
+      <p className="text-xs text-muted-foreground">
+        Keep this code. Until {format(new Date(program.applicant_edit_until), "MMMM d, yyyy h:mm a")} you can
+        change your answers from "Check Your Status" on the home page using your mobile number and this code.
+      </p>
+    </div>
+  );
+
+  const handlePrintAcknowledgement = async () => {
+    try {
+      await printRegistrationAcknowledgement(program.name, acknowledgement);
+    } catch (err) {
+      console.error("Error printing acknowledgement:", err);
+      toast({
+        title: "Could not print",
+        description: "Please try again, or note down your registration details.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const acknowledgementButton = acknowledgement && (
+    <Button
+      variant="outline"
+      className="mt-6"
+      onClick={handlePrintAcknowledgement}
+    >
+      <Printer className="h-4 w-4 mr-2" />
+      Print Acknowledgement
+    </Button>
   );
 
   return (
@@ -524,40 +807,99 @@ export default function ProgramPublicPage() {
         {hasRegistrationModule && (
           <Card>
             <CardHeader>
-              <CardTitle>Register for this Program</CardTitle>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle>{editSession ? "Edit Your Registration" : "Register for this Program"}</CardTitle>
+                {seatsLeft !== null && !editSession && !submitted && !registrationClosed && (
+                  <Badge
+                    variant="outline"
+                    className={seatsLeft > 0 ? "" : "border-amber-500 text-amber-700 dark:text-amber-400"}
+                  >
+                    {seatsLeft > 0
+                      ? `${seatsLeft} ${seatsLeft === 1 ? "seat" : "seats"} left`
+                      : "Full · Waitlist open"}
+                  </Badge>
+                )}
+              </div>
               <CardDescription>
-                Fill out the form below to register. Fields marked with * are required.
+                {editSession
+                  ? `You can change your answers until ${format(new Date(editSession.editUntil), "MMMM d, yyyy h:mm a")}. Your mobile number and panchayath cannot be changed.`
+                  : registrationClosed
+                  ? "Registration for this program has closed."
+                  : registrationNotOpen
+                    ? `Registration opens on ${format(new Date(program.start_date!), "MMMM d, yyyy")}.`
+                    : seatsLeft === 0
+                      ? "All seats are taken. You can still register to join the waitlist."
+                      : "Fill out the form below to register. Fields marked with * are required."}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {submitted ? (
+              {submitted && waitlistPosition !== null ? (
+                <div className="text-center py-8">
+                  <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400 mb-4">
+                    <Clock className="h-8 w-8" />
+                  </div>
+                  <h3 className="text-xl font-semibold mb-2">Waitlisted</h3>
+                  <p className="text-muted-foreground">
+                    {waitlistPosition > 0 && `You are number ${waitlistPosition} on the waitlist. `}
+                    Your registration will be confirmed automatically if a seat becomes free.
+                  </p>
+                  {acknowledgementButton}
+                  {editCodeNotice}
+                </div>
+              ) : submitted ? (
                 <div className="text-center py-8">
                   <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 text-primary mb-4">
                     <Check className="h-8 w-8" />
                   </div>
-                  <h3 className="text-xl font-semibold mb-2">Registration Successful!</h3>
+                  <h3 className="text-xl font-semibold mb-2">
+                    {editSession ? "Changes Saved" : "Registration Successful!"}
+                  </h3>
                   <p className="text-muted-foreground">
-                    Thank you for registering. We will contact you with more details soon.
+                    {editSession
+                      ? "Your registration has been updated."
+                      : "Thank you for registering. We will contact you with more details soon."}
                   </p>
+                  {acknowledgementButton}
+                  {editCodeNotice}
                 </div>
-              ) : (
+              ) : formUnavailable ? null : (
                 <form onSubmit={handleSubmit} className="space-y-6">
-                  {/* Fixed Required Fields */}
-                  <FixedRegistrationFields
-                    values={fixedFields}
-                    onChange={setFixedFields}
-                    errors={fixedFieldErrors}
-                  />
+                  {formPages.length > 1 && (
+                    <p className="text-xs text-muted-foreground">Step {pageHistory.length + 1}</p>
+                  )}
 
-                  {/* Separator if there are custom questions */}
-                  {sortedQuestions.length > 0 && (
-                    <div className="border-t pt-6">
-                      <p className="text-sm text-muted-foreground mb-4">Additional Information</p>
-                    </div>
+                  {pageIndex === 0 ? (
+                    <>
+                      {/* Fixed Required Fields */}
+                      <FixedRegistrationFields
+                        values={fixedFields}
+                        onChange={setFixedFields}
+                        errors={fixedFieldErrors}
+                        lockedFields={editSession ? ["mobile", "panchayath_id"] : []}
+                      />
+
+                      {/* Separator if there are custom questions */}
+                      {pageQuestions.length > 0 && (
+                        <div className="border-t pt-6">
+                          <p className="text-sm text-muted-foreground mb-4">Additional Information</p>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    currentPage.section && (
+                      <div className="border-b pb-4">
+                        <h3 className="text-lg font-semibold">{currentPage.section.question_text}</h3>
+                        {getQuestionConfig(currentPage.section).description && (
+                          <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">
+                            {getQuestionConfig(currentPage.section).description}
+                          </p>
+                        )}
+                      </div>
+                    )
                   )}
 
                   {/* Custom Questions */}
-                  {sortedQuestions.map((question) => (
+                  {pageQuestions.map((question) => (
                     <div key={question.id} className="space-y-2">
                       <Label>
                         {question.question_text}
@@ -566,18 +908,35 @@ export default function ProgramPublicPage() {
                         )}
                       </Label>
                       {renderFormField(question)}
+                      {questionErrors[question.id] && (
+                        <p className="text-sm text-destructive">{questionErrors[question.id]}</p>
+                      )}
                     </div>
                   ))}
-                  <Button type="submit" className="w-full" disabled={isSubmitting}>
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Submitting...
-                      </>
+                  <div className="flex gap-3">
+                    {pageHistory.length > 0 && (
+                      <Button type="button" variant="outline" onClick={handleBack} disabled={isSubmitting}>
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Back
+                      </Button>
+                    )}
+                    {nextPageIndex !== null ? (
+                      <Button type="button" className="flex-1" onClick={handleNext}>
+                        Next
+                      </Button>
                     ) : (
-                      "Submit Registration"
+                      <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                        {isSubmitting ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Submitting...
+                          </>
+                        ) : (
+                          editSession ? "Save Changes" : "Submit Registration"
+                        )}
+                      </Button>
                     )}
-                  </Button>
+                  </div>
                 </form>
               )}
             </CardContent>
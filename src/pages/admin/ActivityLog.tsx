@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Link, Navigate } from "react-router-dom";
+import { ArrowLeft, Loader2, History, Download, Eye, X } from "lucide-react";
+import { format, endOfDay, startOfDay } from "date-fns";
+import { AuditEventDetailsDialog } from "@/components/admin/AuditEventDetailsDialog";
+import { AUDIT_ENTITY_LABELS, type AuditEvent, describeEntity, getChangedFields } from "@/lib/auditEvents";
+import { exportAuditEventsToXlsx } from "@/lib/exportAuditEvents";
+
+interface Division {
+  id: string;
+  name: string;
+}
+
+interface Filters {
+  actor: string;
+  entityType: string;
+  divisionId: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_MAX_ROWS = 20000;
+
+const EMPTY_FILTERS: Filters = { actor: "", entityType: "all", divisionId: "all", from: "", to: "" };
+
+const ACTOR_TYPE_LABELS: Record<string, string> = {
+  admin: "Admin",
+  super_admin: "Super Admin",
+  user: "User",
+  anonymous: "Anonymous",
+  system: "System",
+};
+
+export default function ActivityLog() {
+  const { isSuperAdmin } = useAuth();
+  const { toast } = useToast();
+
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [actorSearch, setActorSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<AuditEvent | null>(null);
+
+  const divisionNames = useMemo(() => new Map(divisions.map((d) => [d.id, d.name])), [divisions]);
+
+  useEffect(() => {
+    supabase
+      .from("divisions")
+      .select("id, name")
+      .order("name")
+      .then(({ data }) => setDivisions(data || []));
+  }, []);
+
+  // Apply the actor filter a moment after typing stops
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setFilters((f) => (f.actor === actorSearch.trim() ? f : { ...f, actor: actorSearch.trim() }));
+    }, 400);
+    return () => window.clearTimeout(timer);
+  }, [actorSearch]);
+
+  const buildQuery = useCallback(
+    (from: number, to: number) => {
+      let query = supabase
+        .from("audit_events")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .range(from, to);
+
+      if (filters.actor) query = query.ilike("actor_name", `%${filters.actor}%`);
+      if (filters.entityType !== "all") query = query.eq("entity_type", filters.entityType);
+      if (filters.divisionId !== "all") query = query.eq("division_id", filters.divisionId);
+      if (filters.from) query = query.gte("created_at", startOfDay(new Date(filters.from)).toISOString());
+      if (filters.to) query = query.lte("created_at", endOfDay(new Date(filters.to)).toISOString());
+      return query;
+    },
+    [filters]
+  );
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await buildQuery(0, PAGE_SIZE - 1);
+    setIsLoading(false);
+    if (error) {
+      toast({ title: "Error", description: "Failed to load activity", variant: "destructive" });
+      return;
+    }
+    setEvents(data || []);
+    setHasMore((data?.length || 0) === PAGE_SIZE);
+  }, [buildQuery, toast]);
+
+  useEffect(() => {
+    if (isSuperAdmin) loadEvents();
+  }, [isSuperAdmin, loadEvents]);
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    const { data, error } = await buildQuery(events.length, events.length + PAGE_SIZE - 1);
+    setIsLoadingMore(false);
+    if (error) {
+      toast({ title: "Error", description: "Failed to load more activity", variant: "destructive" });
+      return;
+    }
+    setEvents((prev) => [...prev, ...(data || [])]);
+    setHasMore((data?.length || 0) === PAGE_SIZE);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all: AuditEvent[] = [];
+      while (all.length < EXPORT_MAX_ROWS) {
+        const { data, error } = await buildQuery(all.length, all.length + EXPORT_BATCH_SIZE - 1);
+        if (error) throw error;
+        all.push(...(data || []));
+        if ((data?.length || 0) < EXPORT_BATCH_SIZE) break;
+      }
+
+      if (all.length === 0) {
+        toast({ title: "Nothing to export", description: "No activity matches the current filters" });
+        return;
+      }
+
+      exportAuditEventsToXlsx(all, divisionNames);
+      toast({
+        title: "Exported",
+        description:
+          all.length >= EXPORT_MAX_ROWS
+            ? `First ${EXPORT_MAX_ROWS.toLocaleString()} events exported; narrow the filters to export the rest`
+            : `${all.length} event(s) exported`,
+      });
+    } catch {
+      toast({ title: "Error", description: "Failed to export activity", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const hasFilters =
+    !!actorSearch || filters.entityType !== "all" || filters.divisionId !== "all" || !!filters.from || !!filters.to;
+
+  const clearFilters = () => {
+    setActorSearch("");
+    setFilters(EMPTY_FILTERS);
+  };
+
+  if (!isSuperAdmin) return <Navigate to="/unauthorized" replace />;
+
+  return (
+    <Layout>
+      <div className="container py-6 max-w-6xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/super-admin"><ArrowLeft className="h-5 w-5" /></Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <History className="h-6 w-6 text-primary" />
+              Activity
+            </h1>
+            <p className="text-sm text-muted-foreground">Every change made by admins and super admins</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || events.length === 0}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex flex-col gap-3">
+              <div>
+                <CardTitle className="text-lg">Audit Log</CardTitle>
+                <CardDescription>Newest first; open an entry to see what changed</CardDescription>
+              </div>
+              <div className="grid gap-2 grid-cols-2 lg:grid-cols-5 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs">Actor</Label>
+                  <Input
+                    placeholder="Search by name..."
+                    value={actorSearch}
+                    onChange={(e) => setActorSearch(e.target.value)}
+                    className="h-9"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Entity</Label>
+                  <Select value={filters.entityType} onValueChange={(value) => setFilters((f) => ({ ...f, entityType: value }))}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Entity" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Entities</SelectItem>
+                      {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Division</Label>
+                  <Select value={filters.divisionId} onValueChange={(value) => setFilters((f) => ({ ...f, divisionId: value }))}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Division" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Divisions</SelectItem>
+                      {divisions.map((d) => (
+                        <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">From</Label>
+                  <Input
+                    type="date"
+                    value={filters.from}
+                    max={filters.to || undefined}
+                    onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+                    className="h-9"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">To</Label>
+                  <div className="flex gap-1">
+                    <Input
+                      type="date"
+                      value={filters.to}
+                      min={filters.from || undefined}
+                      onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+                      className="h-9"
+                    />
+                    {hasFilters && (
+                      <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={clearFilters} title="Clear filters">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : events.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No activity found</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Actor</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Entity</TableHead>
+                        <TableHead>Division</TableHead>
+                        <TableHead>Changes</TableHead>
+                        <TableHead>IP</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {events.map((event) => {
+                        const changedFields = getChangedFields(event).map((c) => c.field);
+                        return (
+                          <TableRow key={event.id}>
+                            <TableCell className="text-xs whitespace-nowrap">
+                              {format(new Date(event.created_at), "dd MMM yyyy, hh:mm a")}
+                            </TableCell>
+                            <TableCell>
+                              <p className="text-sm font-medium whitespace-nowrap">{event.actor_name || "Unknown"}</p>
+                              <p className="text-[10px] text-muted-foreground">
+                                {ACTOR_TYPE_LABELS[event.actor_type] ?? event.actor_type}
+                              </p>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={event.action === "delete" ? "destructive" : "outline"} className="text-[10px] capitalize whitespace-nowrap">
+                                {event.action.replace(/_/g, " ")}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-sm whitespace-nowrap">{describeEntity(event.entity_type)}</TableCell>
+                            <TableCell className="text-sm whitespace-nowrap">
+                              {event.division_id ? divisionNames.get(event.division_id) || "—" : "—"}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground max-w-[220px] truncate" title={changedFields.join(", ")}>
+                              {changedFields.length > 0 ? changedFields.join(", ") : "—"}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs whitespace-nowrap">{event.ip_address || "—"}</TableCell>
+                            <TableCell>
+                              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setSelectedEvent(event)} title="View details">
+                                <Eye className="h-3.5 w-3.5" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+                {hasMore && (
+                  <div className="flex justify-center mt-4">
+                    <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                      {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Load more
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <AuditEventDetailsDialog
+          event={selectedEvent}
+          divisionName={selectedEvent?.division_id ? divisionNames.get(selectedEvent.division_id) : undefined}
+          onOpenChange={(open) => !open && setSelectedEvent(null)}
+        />
+      </div>
+    </Layout>
+  );
+}
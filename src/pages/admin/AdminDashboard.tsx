@@ -24,6 +24,7 @@ import {
   Layers,
   ArrowRight,
   LogOut,
+  MonitorOff,
   Shield,
   Loader2,
   Building2,
@@ -48,7 +49,7 @@ interface PanchayathFilter {
 }
 
 export default function AdminDashboard() {
-  const { isAdmin, isSuperAdmin, signOut, adminData, adminToken, user } = useAuth();
+  const { isAdmin, isSuperAdmin, signOut, signOutAllDevices, adminData, adminToken, user } = useAuth();
   const stats = useAdminStats();
   const [divisionInfo, setDivisionInfo] = useState<DivisionInfo | null>(null);
   const [registrationsDialogOpen, setRegistrationsDialogOpen] = useState(false);
@@ -142,6 +143,18 @@ export default function AdminDashboard() {
                 <span className="hidden xs:inline">Sign Out</span>
                 <span className="xs:hidden">Exit</span>
               </Button>
+              {adminToken && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={signOutAllDevices}
+                  className="h-8 sm:h-9"
+                  title="Sign out on every device"
+                >
+                  <MonitorOff className="h-4 w-4 mr-1.5 sm:mr-2" />
+                  <span className="hidden sm:inline">All Devices</span>
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -14,11 +14,16 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Loader2, Plus, ArrowLeft } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { AdminPermissionsDialog } from "@/components/admin/AdminPermissionsDialog";
 import { AdminFormDialog } from "@/components/admin/AdminFormDialog";
 import { AdminsTable } from "@/components/admin/AdminsTable";
+import { PasswordHashReport } from "@/components/admin/PasswordHashReport";
+import { LockedAccountsCard } from "@/components/admin/LockedAccountsCard";
+import { AdminRolesCard } from "@/components/admin/AdminRolesCard";
+import { AdminSessionsDialog } from "@/components/admin/AdminSessionsDialog";
 import { useToast } from "@/hooks/use-toast";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
 
 interface Admin {
   id: string;
@@ -26,6 +31,7 @@ interface Admin {
   division_id: string;
   is_active: boolean;
   is_read_only?: boolean;
+  must_change_password?: boolean;
   cash_collection_enabled?: boolean;
   cash_collection_division_ids?: string[];
   created_at: string;
@@ -33,7 +39,11 @@ interface Admin {
   full_name?: string;
   access_all_divisions?: boolean;
   additional_division_ids?: string[];
+  role_id?: string | null;
+  granted_capabilities?: string[];
+  revoked_capabilities?: string[];
   division?: { name: string };
+  role?: { name: string } | null;
 }
 
 interface Division {
@@ -41,9 +51,18 @@ interface Division {
   name: string;
 }
 
+interface AdminRole {
+  id: string;
+  name: string;
+  description: string | null;
+  capabilities: string[];
+  is_default: boolean;
+}
+
 export default function AdminsManagement() {
   const [admins, setAdmins] = useState<Admin[]>([]);
   const [divisions, setDivisions] = useState<Division[]>([]);
+  const [roles, setRoles] = useState<AdminRole[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -53,14 +72,21 @@ export default function AdminsManagement() {
   const [deletingAdmin, setDeletingAdmin] = useState<Admin | null>(null);
   const [permissionsAdmin, setPermissionsAdmin] = useState<Admin | null>(null);
   const [isPermissionsOpen, setIsPermissionsOpen] = useState(false);
+  const [tempPasswordAdmin, setTempPasswordAdmin] = useState<Admin | null>(null);
+  const [tempPassword, setTempPassword] = useState<string | null>(null);
+  const [isIssuingTempPassword, setIsIssuingTempPassword] = useState(false);
+  const [sessionsAdmin, setSessionsAdmin] = useState<Admin | null>(null);
+  const [viewAsAdmin, setViewAsAdmin] = useState<Admin | null>(null);
+  const [isStartingViewAs, setIsStartingViewAs] = useState(false);
 
-  const { user } = useAuth();
+  const { startImpersonation } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   const fetchAdmins = async () => {
     const { data, error } = await supabase
       .from("admins")
-      .select("*, division:divisions(name)")
+      .select("*, division:divisions(name), role:admin_roles(name)")
       .order("created_at", { ascending: false });
 
     if (!error) setAdmins(data || []);
@@ -76,45 +102,53 @@ export default function AdminsManagement() {
     if (!error) setDivisions(data || []);
   };
 
+  const fetchRoles = async () => {
+    const { data, error } = await supabase
+      .from("admin_roles")
+      .select("id, name, description, capabilities, is_default")
+      .order("name");
+
+    if (!error) setRoles(data || []);
+  };
+
   useEffect(() => {
     const load = async () => {
       setIsLoading(true);
-      await Promise.all([fetchAdmins(), fetchDivisions()]);
+      await Promise.all([fetchAdmins(), fetchDivisions(), fetchRoles()]);
       setIsLoading(false);
     };
     load();
   }, []);
 
-  const hashPassword = async (password: string) => {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    return Array.from(new Uint8Array(hashBuffer))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
+  // Passwords are hashed server-side (salted PBKDF2) by the admin-auth function
+  const setAdminPassword = async (adminId: string, password: string) => {
+    const { data, error } = await supabase.functions.invoke("admin-auth", {
+      body: { action: "set_password", admin_id: adminId, password },
+    });
+    if (error || !data?.success) throw new Error(data?.error || error?.message || "Failed to set password");
   };
 
   const handleCreate = async (data: { fullName: string; phone: string; password: string; divisionId: string; isReadOnly: boolean; cashCollectionEnabled: boolean; cashCollectionDivisionIds: string[] }) => {
     if (!data.phone || data.phone.length < 10) throw new Error("Please enter a valid phone number");
     if (!data.password || data.password.length < 6) throw new Error("Password must be at least 6 characters");
 
-    const phone = data.phone.replace(/\s+/g, "").trim();
-    const { data: existing } = await supabase.from("admins").select("id").eq("phone", phone).single();
-    if (existing) throw new Error("An admin with this phone number already exists");
-
-    const passwordHash = await hashPassword(data.password);
-    const { error } = await supabase.from("admins").insert({
-      division_id: data.divisionId,
-      created_by: user?.id,
-      phone,
-      password_hash: passwordHash,
-      full_name: data.fullName,
-      is_read_only: data.isReadOnly,
-      cash_collection_enabled: data.cashCollectionEnabled,
-      cash_collection_division_ids: data.cashCollectionDivisionIds,
-    } as any);
-
-    if (error) throw error;
+    const { data: result, error } = await supabase.functions.invoke("admin-auth", {
+      body: {
+        action: "create_admin",
+        phone: data.phone,
+        password: data.password,
+        details: {
+          division_id: data.divisionId,
+          full_name: data.fullName,
+          is_read_only: data.isReadOnly,
+          cash_collection_enabled: data.cashCollectionEnabled,
+          cash_collection_division_ids: data.cashCollectionDivisionIds,
+        },
+      },
+    });
+    if (error || !result?.success) {
+      throw new Error(await getFunctionErrorMessage(error, result?.error || "Failed to create admin"));
+    }
     toast({ title: "Admin created", description: "New admin has been created successfully." });
     fetchAdmins();
   };
@@ -129,13 +163,11 @@ export default function AdminsManagement() {
     }
 
     const updateData: any = { full_name: data.fullName, phone, division_id: data.divisionId, is_read_only: data.isReadOnly, cash_collection_enabled: data.cashCollectionEnabled, cash_collection_division_ids: data.cashCollectionDivisionIds };
-    if (data.password) {
-      if (data.password.length < 6) throw new Error("Password must be at least 6 characters");
-      updateData.password_hash = await hashPassword(data.password);
-    }
+    if (data.password && data.password.length < 6) throw new Error("Password must be at least 6 characters");
 
     const { error } = await supabase.from("admins").update(updateData).eq("id", editingAdmin.id);
     if (error) throw error;
+    if (data.password) await setAdminPassword(editingAdmin.id, data.password);
     toast({ title: "Admin updated", description: "Admin details have been updated successfully." });
     setEditingAdmin(null);
     fetchAdmins();
@@ -168,6 +200,42 @@ export default function AdminsManagement() {
     fetchAdmins();
   };
 
+  const handleIssueTempPassword = async () => {
+    if (!tempPasswordAdmin) return;
+    setIsIssuingTempPassword(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("admin-auth", {
+        body: { action: "issue_temp_password", admin_id: tempPasswordAdmin.id },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message || "Failed to issue temporary password");
+      setTempPassword(data.temp_password);
+      fetchAdmins();
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+      setTempPasswordAdmin(null);
+    } finally {
+      setIsIssuingTempPassword(false);
+    }
+  };
+
+  const handleViewAsAdmin = async () => {
+    if (!viewAsAdmin) return;
+    setIsStartingViewAs(true);
+    const { error } = await startImpersonation(viewAsAdmin.id);
+    setIsStartingViewAs(false);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    setViewAsAdmin(null);
+    navigate("/admin-dashboard");
+  };
+
+  const closeTempPasswordDialog = () => {
+    setTempPasswordAdmin(null);
+    setTempPassword(null);
+  };
+
   if (isLoading) {
     return (
       <Layout>
@@ -199,6 +267,19 @@ export default function AdminsManagement() {
           </Button>
         </div>
 
+        <PasswordHashReport refreshKey={admins} />
+
+        <LockedAccountsCard admins={admins} />
+
+        <AdminRolesCard
+          roles={roles}
+          admins={admins}
+          onChanged={() => {
+            fetchRoles();
+            fetchAdmins();
+          }}
+        />
+
         <AdminsTable
           admins={admins}
           divisions={divisions}
@@ -215,6 +296,9 @@ export default function AdminsManagement() {
             setPermissionsAdmin(admin);
             setIsPermissionsOpen(true);
           }}
+          onIssueTempPassword={setTempPasswordAdmin}
+          onViewSessions={setSessionsAdmin}
+          onViewAsAdmin={setViewAsAdmin}
         />
 
         {/* Create Dialog */}
@@ -276,6 +360,78 @@ export default function AdminsManagement() {
           </AlertDialogContent>
         </AlertDialog>
 
+        {/* Temporary Password */}
+        <AlertDialog open={!!tempPasswordAdmin} onOpenChange={(open) => !open && closeTempPasswordDialog()}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Temporary Password</AlertDialogTitle>
+              <AlertDialogDescription>
+                {tempPassword
+                  ? `Share this password with ${tempPasswordAdmin?.full_name || "the admin"}. It is shown only once and must be changed at first login.`
+                  : `Issue a temporary password for ${tempPasswordAdmin?.full_name || "this admin"}? Their current password will stop working and they will be asked to choose a new one at next login.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {tempPassword && (
+              <div className="rounded-md border bg-muted px-4 py-3 text-center font-mono text-lg tracking-wider select-all">
+                {tempPassword}
+              </div>
+            )}
+            <AlertDialogFooter>
+              {tempPassword ? (
+                <AlertDialogAction onClick={closeTempPasswordDialog}>Done</AlertDialogAction>
+              ) : (
+                <>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <Button onClick={handleIssueTempPassword} disabled={isIssuingTempPassword}>
+                    {isIssuingTempPassword ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Issuing...
+                      </>
+                    ) : (
+                      "Issue Password"
+                    )}
+                  </Button>
+                </>
+              )}
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* View as Admin */}
+        <AlertDialog open={!!viewAsAdmin} onOpenChange={(open) => !open && setViewAsAdmin(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>View as Admin</AlertDialogTitle>
+              <AlertDialogDescription>
+                See the app exactly as {viewAsAdmin?.full_name || "this admin"} does, for up to one hour.
+                You will not be able to make changes, and the start and end of the session are recorded in the
+                activity log.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button onClick={handleViewAsAdmin} disabled={isStartingViewAs}>
+                {isStartingViewAs ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Starting...
+                  </>
+                ) : (
+                  "View as Admin"
+                )}
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Sessions Dialog */}
+        <AdminSessionsDialog
+          open={!!sessionsAdmin}
+          onOpenChange={(open) => !open && setSessionsAdmin(null)}
+          admin={sessionsAdmin}
+        />
+
         {/* Permissions Dialog */}
         <AdminPermissionsDialog
           open={isPermissionsOpen}
@@ -285,6 +441,7 @@ export default function AdminsManagement() {
           }}
           admin={permissionsAdmin}
           divisions={divisions}
+          roles={roles}
           onSaved={fetchAdmins}
         />
       </div>
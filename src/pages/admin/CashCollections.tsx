@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -67,7 +67,10 @@ interface Report {
 
 export default function CashCollections() {
   const { divisionId } = useParams<{ divisionId: string }>();
-  const { isAdmin, isSuperAdmin, adminToken, adminData, isReadOnly } = useAuth();
+  const { isAdmin, isSuperAdmin, adminToken, adminData, hasCapability } = useAuth();
+  const canCollect = hasCapability("cash.collect");
+  const canVerify = hasCapability("cash.verify");
+  const canSubmit = hasCapability("cash.submit");
 
   const { toast } = useToast();
 
@@ -99,7 +102,7 @@ export default function CashCollections() {
       if (adminToken) {
         headers["x-admin-token"] = adminToken;
       }
-      const { data, error } = await supabase.functions.invoke("admin-cash-collections?" + queryStr, {
+      const { data, error } = await invokeAdminFunction("admin-cash-collections?" + queryStr, {
         method,
         body: body ? JSON.stringify(body) : undefined,
         headers,
@@ -476,7 +479,7 @@ export default function CashCollections() {
                     </div>
                     <Button
                       onClick={handleCollect}
-                      disabled={isSubmitting || isReadOnly}
+                      disabled={isSubmitting || !canCollect}
                       className="w-full"
                     >
                       {isSubmitting ? (
@@ -551,7 +554,7 @@ export default function CashCollections() {
           <TabsContent value="verify">
             <div className="space-y-4">
               {/* Batch submit button */}
-              {selectedIds.size > 0 && (
+              {selectedIds.size > 0 && canSubmit && (
                 <Card className="bg-primary/5 border-primary/20">
                   <CardContent className="p-3 flex items-center justify-between">
                     <span className="text-sm font-medium">
@@ -629,7 +632,7 @@ export default function CashCollections() {
                               </TableCell>
                               <TableCell className="text-sm">{c.collected_by_name}</TableCell>
                               <TableCell>
-                                {c.status === "pending" && !isReadOnly && (
+                                {c.status === "pending" && canVerify && (
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -35,6 +35,7 @@ import {
 } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { Loader2, Plus, ArrowLeft, AlertCircle, MapPin, Building } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
@@ -91,7 +92,7 @@ export default function LocationsManagement() {
     // Use edge function for admin-token sessions
     if (adminToken) {
       try {
-        const response = await supabase.functions.invoke("admin-locations", {
+        const response = await invokeAdminFunction("admin-locations", {
           headers: { "x-admin-token": adminToken },
           body: null,
         });
@@ -126,7 +127,7 @@ export default function LocationsManagement() {
     // Use edge function for admin-token sessions
     if (adminToken) {
       try {
-        const response = await supabase.functions.invoke("admin-locations?resource=clusters", {
+        const response = await invokeAdminFunction("admin-locations?resource=clusters", {
           headers: { "x-admin-token": adminToken },
           body: null,
         });
@@ -184,7 +185,7 @@ export default function LocationsManagement() {
       };
 
       if (adminToken) {
-        const response = await supabase.functions.invoke("admin-locations?resource=panchayaths&action=create", {
+        const response = await invokeAdminFunction("admin-locations?resource=panchayaths&action=create", {
           method: "POST",
           headers: { "x-admin-token": adminToken },
           body: panchayathData,
@@ -231,7 +232,7 @@ export default function LocationsManagement() {
       };
 
       if (adminToken) {
-        const response = await supabase.functions.invoke("admin-locations?resource=clusters&action=create", {
+        const response = await invokeAdminFunction("admin-locations?resource=clusters&action=create", {
           method: "POST",
           headers: { "x-admin-token": adminToken },
           body: clusterData,
@@ -280,7 +281,7 @@ export default function LocationsManagement() {
   const togglePanchayathStatus = async (id: string, currentStatus: boolean) => {
     try {
       if (adminToken) {
-        const response = await supabase.functions.invoke("admin-locations?resource=panchayaths&action=update", {
+        const response = await invokeAdminFunction("admin-locations?resource=panchayaths&action=update", {
           method: "PATCH",
           headers: { "x-admin-token": adminToken },
           body: { id, is_active: !currentStatus },
@@ -314,7 +315,7 @@ export default function LocationsManagement() {
   const toggleClusterStatus = async (id: string, currentStatus: boolean) => {
     try {
       if (adminToken) {
-        const response = await supabase.functions.invoke("admin-locations?resource=clusters&action=update", {
+        const response = await invokeAdminFunction("admin-locations?resource=clusters&action=update", {
           method: "PATCH",
           headers: { "x-admin-token": adminToken },
           body: { id, is_active: !currentStatus },
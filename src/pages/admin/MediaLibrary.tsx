@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Copy, ExternalLink, ImagePlus, Loader2, RefreshCw, Search, Trash2 } from "lucide-react";
+import { MediaPreview } from "@/components/media/MediaPreview";
+import { MediaUploadZone } from "@/components/media/MediaUploadZone";
+import { useAuth } from "@/hooks/useAuth";
+import { useMediaLibrary } from "@/hooks/useMediaLibrary";
+import { useToast } from "@/hooks/use-toast";
+import { deleteMediaAsset, formatFileSize, getMediaKind, type MediaAsset } from "@/lib/media";
+
+type UsageFilter = "all" | "used" | "unused";
+
+export default function MediaLibrary() {
+  const [search, setSearch] = useState("");
+  const [kindFilter, setKindFilter] = useState("all");
+  const [usageFilter, setUsageFilter] = useState<UsageFilter>("all");
+  const [deleting, setDeleting] = useState<MediaAsset | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+  const { assets, isLoading, error, refetch, addAsset, removeAsset } = useMediaLibrary();
+
+  const term = search.trim().toLowerCase();
+  const visible = assets.filter(
+    (asset) =>
+      (kindFilter === "all" || getMediaKind(asset.mime_type) === kindFilter) &&
+      (usageFilter === "all" || (usageFilter === "used") === asset.usage.length > 0) &&
+      (!term ||
+        asset.file_name.toLowerCase().includes(term) ||
+        asset.division_name?.toLowerCase().includes(term) ||
+        asset.usage.some((u) => u.program_name?.toLowerCase().includes(term)))
+  );
+  const unused = assets.filter((asset) => asset.usage.length === 0);
+  const unusedBytes = unused.reduce((sum, asset) => sum + asset.size_bytes, 0);
+
+  const copyUrl = async (asset: MediaAsset) => {
+    await navigator.clipboard.writeText(asset.url);
+    toast({ title: "Link copied" });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setIsDeleting(true);
+    try {
+      await deleteMediaAsset(deleting.id, adminToken);
+      removeAsset(deleting.id);
+      toast({ title: "Media deleted", description: `${deleting.file_name} has been removed.` });
+      setDeleting(null);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to delete media",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container py-4 md:py-8 px-4 max-w-6xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Button asChild variant="golden" size="icon">
+            <Link to="/admin/programs">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl sm:text-3xl font-bold text-foreground flex items-center gap-2">
+              <ImagePlus className="h-6 w-6 text-primary" />
+              Media Library
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Posters and videos for program announcements and advertisements
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={refetch} disabled={isLoading} title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        <MediaUploadZone multiple onUploaded={addAsset} className="mb-6 p-6" />
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Files</CardTitle>
+            <CardDescription>
+              {assets.length} file{assets.length === 1 ? "" : "s"}
+              {unused.length > 0 && ` · ${unused.length} not used anywhere (${formatFileSize(unusedBytes)})`}
+            </CardDescription>
+            <div className="grid gap-2 grid-cols-1 sm:grid-cols-3 pt-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by file, division or program..."
+                  className="pl-9 h-9"
+                />
+              </div>
+              <Select value={kindFilter} onValueChange={setKindFilter}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Images and videos</SelectItem>
+                  <SelectItem value="image">Images</SelectItem>
+                  <SelectItem value="video">Videos</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={usageFilter} onValueChange={(value) => setUsageFilter(value as UsageFilter)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Used and unused</SelectItem>
+                  <SelectItem value="used">In use</SelectItem>
+                  <SelectItem value="unused">Not used anywhere</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading && assets.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <div className="py-12 text-center space-y-3">
+                <p className="text-sm text-destructive">{error}</p>
+                <Button variant="outline" size="sm" onClick={refetch}>
+                  Try again
+                </Button>
+              </div>
+            ) : visible.length === 0 ? (
+              <p className="py-12 text-center text-muted-foreground">
+                {assets.length === 0 ? "No media uploaded yet." : "Nothing matches these filters."}
+              </p>
+            ) : (
+              <div className="divide-y">
+                {visible.map((asset) => (
+                  <div key={asset.id} className="flex items-start gap-3 py-3">
+                    <MediaPreview asset={asset} className="h-16 w-16 shrink-0 rounded" />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="font-medium truncate" title={asset.file_name}>{asset.file_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {asset.division_name ?? "Shared"} · {formatFileSize(asset.size_bytes)}
+                        {asset.width && asset.height && ` · ${asset.width}×${asset.height}`}
+                        {" · "}
+                        {format(new Date(asset.created_at), "d MMM yyyy")}
+                      </p>
+                      {asset.usage.length === 0 ? (
+                        <Badge variant="outline" className="text-muted-foreground">Not used</Badge>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {asset.usage.map((use) => (
+                            <Badge key={`${use.kind}-${use.id}-${use.field}`} variant="secondary" className="font-normal">
+                              <Link to={`/admin/programs/${use.program_id}`} className="hover:underline">
+                                {use.program_name ?? "Program"}
+                              </Link>
+                              <span className="ml-1 text-muted-foreground">
+                                · {use.kind === "announcement" ? "Announcement" : "Advertisement"}
+                                {use.title && `: ${use.title}`}
+                              </span>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => copyUrl(asset)} title="Copy link">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button asChild variant="ghost" size="icon" title="Open">
+                        <a href={asset.url} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      {asset.can_delete && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeleting(asset)}
+                          disabled={asset.usage.length > 0}
+                          title={asset.usage.length > 0 ? "Remove it from its announcements and advertisements first" : "Delete"}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.file_name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file is not used by any announcement or advertisement. It will be removed from storage and
+              cannot be recovered.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
@@ -60,7 +60,7 @@ interface Panchayath {
 const PENNYEKART_DIVISION_ID = "e108eb84-b8a2-452d-b0d4-350d0c90303b";
 
 export default function PennyekartAgentHierarchy() {
-  const { isAdmin, isSuperAdmin, adminData, isLoading: authLoading } = useAuth();
+  const { isAdmin, isSuperAdmin, adminData, hasCapability, isLoading: authLoading } = useAuth();
   const [filters, setFilters] = useState<AgentFilters>({});
   const [panchayaths, setPanchayaths] = useState<Panchayath[]>([]);
   const [wards, setWards] = useState<string[]>([]);
@@ -210,10 +210,12 @@ export default function PennyekartAgentHierarchy() {
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
-            <Button onClick={handleAddAgent} size="sm" className="flex-1 sm:flex-none">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Agent
-            </Button>
+            {hasCapability("agents.manage") && (
+              <Button onClick={handleAddAgent} size="sm" className="flex-1 sm:flex-none">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Agent
+              </Button>
+            )}
           </div>
         </div>
 
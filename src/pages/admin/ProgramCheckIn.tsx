@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Loader2, QrCode, Undo2, XCircle } from "lucide-react";
+import { QrScanner } from "@/components/programs/QrScanner";
+import { useAuth } from "@/hooks/useAuth";
+import { useAttendance } from "@/hooks/useAttendance";
+import { useProgram } from "@/hooks/usePrograms";
+import { useToast } from "@/hooks/use-toast";
+import { checkInRegistration, undoCheckIn, type AttendanceRecord, type CheckInOutcome } from "@/lib/attendance";
+import { getRegistrationStatusLabel } from "@/lib/registrationStatus";
+
+const RECENT_LIMIT = 10;
+
+interface ScanResult {
+  outcome: CheckInOutcome;
+  code: string;
+  at: Date;
+}
+
+// Phone-sized screen for the entrance: pick the session, then scan admit cards one after another
+export default function ProgramCheckIn() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [manualCode, setManualCode] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+  const { program, isLoading: programLoading } = useProgram(id);
+  const { sessions, attendance, isLoading, error, refetch, addCheckIn, removeCheckIn } = useAttendance(id);
+
+  const sessionId = searchParams.get("session") ?? sessions[0]?.id ?? "";
+  const session = sessions.find((s) => s.id === sessionId);
+  const checkedIn = attendance.filter((a) => a.session_id === sessionId).length;
+
+  const selectSession = (value: string) => {
+    setSearchParams({ session: value }, { replace: true });
+    setResults([]);
+  };
+
+  const handleCode = async (code: string, method: AttendanceRecord["method"]) => {
+    if (!id || !session || isChecking) return;
+    setIsChecking(true);
+    try {
+      const outcome = await checkInRegistration(id, session.id, code, method, adminToken);
+      if (outcome.kind === "checked_in") addCheckIn(outcome.attendance);
+      setResults((current) => [{ outcome, code, at: new Date() }, ...current].slice(0, RECENT_LIMIT));
+      navigator.vibrate?.(outcome.kind === "checked_in" ? 100 : [100, 80, 100]);
+      if (method === "manual" && outcome.kind !== "refused") setManualCode("");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleUndo = async (record: AttendanceRecord) => {
+    if (!id) return;
+    setUndoingId(record.id);
+    try {
+      await undoCheckIn(id, record.id, adminToken);
+      removeCheckIn(record.id);
+      setResults((current) =>
+        current.filter((r) => !(r.outcome.kind !== "refused" && r.outcome.attendance.id === record.id))
+      );
+      toast({ title: "Check-in undone" });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to undo check-in",
+        variant: "destructive",
+      });
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const latest = results[0];
+
+  return (
+    <Layout>
+      <div className="container py-4 px-4 max-w-md">
+        <div className="flex items-center gap-3 mb-4">
+          <Button asChild variant="golden" size="icon">
+            <Link to={`/admin/programs/${id}`}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold text-foreground flex items-center gap-2">
+              <QrCode className="h-5 w-5 text-primary" />
+              Check-in
+            </h1>
+            <p className="text-sm text-muted-foreground truncate">{programLoading ? "Loading..." : program?.name}</p>
+          </div>
+        </div>
+
+        {isLoading && sessions.length === 0 ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="py-16 text-center space-y-3">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={refetch}>
+              Try again
+            </Button>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="py-16 text-center text-muted-foreground">
+            No sessions yet. Add one under Attendance on the program page.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Select value={sessionId} onValueChange={selectSession}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a session" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessions.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                      {s.starts_at && ` · ${format(new Date(s.starts_at), "d MMM, h:mm a")}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Badge variant="secondary" className="shrink-0 text-sm">
+                {checkedIn} in
+              </Badge>
+            </div>
+
+            {session && (
+              <>
+                <QrScanner onScan={(value) => handleCode(value, "scan")} paused={isChecking} />
+
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (manualCode.trim()) handleCode(manualCode, "manual");
+                  }}
+                >
+                  <Input
+                    value={manualCode}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    placeholder="Registration ID or mobile number"
+                    inputMode="text"
+                    autoComplete="off"
+                  />
+                  <Button type="submit" disabled={isChecking || !manualCode.trim()}>
+                    {isChecking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Check In
+                  </Button>
+                </form>
+              </>
+            )}
+
+            {latest && (
+              <Card
+                className={
+                  latest.outcome.kind === "checked_in"
+                    ? "border-emerald-500 bg-emerald-50 dark:bg-emerald-950/30"
+                    : latest.outcome.kind === "already_checked_in"
+                      ? "border-amber-500 bg-amber-50 dark:bg-amber-950/30"
+                      : "border-destructive bg-destructive/10"
+                }
+              >
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center gap-2 font-semibold">
+                    {latest.outcome.kind === "checked_in" ? (
+                      <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+                    ) : latest.outcome.kind === "already_checked_in" ? (
+                      <AlertTriangle className="h-5 w-5 text-amber-600" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-destructive" />
+                    )}
+                    {latest.outcome.kind === "refused"
+                      ? latest.outcome.message
+                      : latest.outcome.kind === "checked_in"
+                        ? "Checked in"
+                        : `Already checked in at ${format(new Date(latest.outcome.attendance.checked_in_at), "h:mm a")}`}
+                  </div>
+                  {latest.outcome.applicant && (
+                    <div className="text-sm">
+                      <p className="text-lg font-medium">{latest.outcome.applicant.name}</p>
+                      <p className="text-muted-foreground">
+                        {latest.outcome.applicant.mobile} · {latest.outcome.applicant.panchayath_name}
+                        {latest.outcome.applicant.ward && `, Ward ${latest.outcome.applicant.ward}`} ·{" "}
+                        {getRegistrationStatusLabel(latest.outcome.applicant.status)}
+                      </p>
+                    </div>
+                  )}
+                  {latest.outcome.kind === "checked_in" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => latest.outcome.kind === "checked_in" && handleUndo(latest.outcome.attendance)}
+                      disabled={undoingId === latest.outcome.attendance.id}
+                    >
+                      {undoingId === latest.outcome.attendance.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Undo2 className="h-4 w-4 mr-2" />
+                      )}
+                      Undo
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {results.length > 1 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Earlier</p>
+                {results.slice(1).map((result) => (
+                  <div key={result.at.getTime()} className="flex items-center gap-2 text-sm py-1 border-b last:border-0">
+                    {result.outcome.kind === "checked_in" ? (
+                      <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600" />
+                    ) : result.outcome.kind === "already_checked_in" ? (
+                      <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                    )}
+                    <span className="flex-1 truncate">{result.outcome.applicant?.name ?? result.code}</span>
+                    <span className="text-xs text-muted-foreground">{format(result.at, "h:mm:ss a")}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -9,6 +9,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Card,
   CardContent,
@@ -25,12 +32,17 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { useProgram, useProgramRegistrations } from "@/hooks/usePrograms";
 import { ModuleManager } from "@/components/programs/ModuleManager";
 import { FormBuilder } from "@/components/programs/FormBuilder";
 import { AnnouncementManager } from "@/components/programs/AnnouncementManager";
 import { AdvertisementManager } from "@/components/programs/AdvertisementManager";
 import { RegistrationsTable } from "@/components/programs/RegistrationsTable";
+import { RegistrationAnalytics } from "@/components/programs/RegistrationAnalytics";
+import { AttendanceManager } from "@/components/programs/AttendanceManager";
+import { SaveTemplateDialog } from "@/components/programs/SaveTemplateDialog";
+import { CloneProgramDialog } from "@/components/programs/CloneProgramDialog";
 import {
   Loader2,
   ArrowLeft,
@@ -43,6 +55,10 @@ import {
   Edit,
   Trash2,
   Star,
+  BookmarkPlus,
+  CopyPlus,
+  BarChart3,
+  ClipboardCheck,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
@@ -55,6 +71,8 @@ export default function ProgramDetail() {
     useProgramRegistrations(id);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isCloneDialogOpen, setIsCloneDialogOpen] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [copied, setCopied] = useState(false);
 
@@ -65,6 +83,13 @@ export default function ProgramDetail() {
   const [editEndDate, setEditEndDate] = useState("");
   const [editIsActive, setEditIsActive] = useState(true);
   const [editVerificationEnabled, setEditVerificationEnabled] = useState(false);
+  const [editAllowDuplicateMobile, setEditAllowDuplicateMobile] = useState(false);
+  const [editMaxSeats, setEditMaxSeats] = useState("");
+  const [editApplicantEditUntil, setEditApplicantEditUntil] = useState("");
+  const [editMaxSeatsPerPanchayath, setEditMaxSeatsPerPanchayath] = useState("");
+  const [editReviewersRequired, setEditReviewersRequired] = useState("1");
+  const [editScoreAggregation, setEditScoreAggregation] = useState("average");
+  const [editReviewConflictThreshold, setEditReviewConflictThreshold] = useState("20");
 
   const { toast } = useToast();
 
@@ -78,6 +103,17 @@ export default function ProgramDetail() {
       setEditEndDate(program.end_date || "");
       setEditIsActive(program.is_active);
       setEditVerificationEnabled((program as any).verification_enabled || false);
+      setEditAllowDuplicateMobile(program.allow_duplicate_mobile);
+      setEditMaxSeats(program.max_seats != null ? String(program.max_seats) : "");
+      setEditApplicantEditUntil(
+        program.applicant_edit_until ? format(new Date(program.applicant_edit_until), "yyyy-MM-dd'T'HH:mm") : ""
+      );
+      setEditMaxSeatsPerPanchayath(
+        program.max_seats_per_panchayath != null ? String(program.max_seats_per_panchayath) : ""
+      );
+      setEditReviewersRequired(String(program.reviewers_required));
+      setEditScoreAggregation(program.score_aggregation);
+      setEditReviewConflictThreshold(String(program.review_conflict_threshold));
       setIsEditDialogOpen(true);
     }
   };
@@ -87,7 +123,7 @@ export default function ProgramDetail() {
     setIsUpdating(true);
 
     try {
-      const response = await supabase.functions.invoke("admin-programs", {
+      const response = await invokeAdminFunction("admin-programs", {
         headers: { "x-admin-token": adminToken },
         body: {
           action: "update",
@@ -99,6 +135,13 @@ export default function ProgramDetail() {
             end_date: editEndDate || null,
             is_active: editIsActive,
             verification_enabled: editVerificationEnabled,
+            allow_duplicate_mobile: editAllowDuplicateMobile,
+            max_seats: editMaxSeats ? parseInt(editMaxSeats, 10) : null,
+            applicant_edit_until: editApplicantEditUntil ? new Date(editApplicantEditUntil).toISOString() : null,
+            max_seats_per_panchayath: editMaxSeatsPerPanchayath ? parseInt(editMaxSeatsPerPanchayath, 10) : null,
+            reviewers_required: parseInt(editReviewersRequired, 10) || 1,
+            score_aggregation: editScoreAggregation,
+            review_conflict_threshold: Number(editReviewConflictThreshold) || 0,
           },
         },
       });
@@ -217,6 +260,7 @@ export default function ProgramDetail() {
   const hasAnnouncements = program.modules?.some((m) => m.module_type === "announcement");
   const hasRegistration = program.modules?.some((m) => m.module_type === "registration");
   const hasAdvertisement = program.modules?.some((m) => m.module_type === "advertisement");
+  const hasAttendance = program.modules?.some((m) => m.module_type === "attendance");
 
   return (
     <Layout>
@@ -289,6 +333,14 @@ export default function ProgramDetail() {
             <Button variant="outline" size="sm" onClick={toggleProgramStatus}>
               {program.is_active ? "Deactivate" : "Activate"}
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsCloneDialogOpen(true)} title="Clone program">
+              <CopyPlus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Clone</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsSaveTemplateOpen(true)} title="Save as template">
+              <BookmarkPlus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Save as Template</span>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -359,6 +411,18 @@ export default function ProgramDetail() {
                   <span className="ml-1">({program.registration_count || 0})</span>
                 </TabsTrigger>
               )}
+              {hasRegistration && (
+                <TabsTrigger value="analytics" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                  <BarChart3 className="h-3 w-3 sm:h-4 sm:w-4" />
+                  <span>Analytics</span>
+                </TabsTrigger>
+              )}
+              {hasAttendance && (
+                <TabsTrigger value="attendance" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                  <ClipboardCheck className="h-3 w-3 sm:h-4 sm:w-4" />
+                  <span>Attendance</span>
+                </TabsTrigger>
+              )}
             </TabsList>
           </div>
 
@@ -403,15 +467,39 @@ export default function ProgramDetail() {
           {hasRegistration && (
             <TabsContent value="registrations">
               <RegistrationsTable
+                programId={program.id}
                 programName={program.name}
                 questions={program.form_questions || []}
                 registrations={registrations}
                 isLoading={registrationsLoading}
                 verificationEnabled={(program as any).verification_enabled || false}
+                maxSeats={program.max_seats}
+                reviewersRequired={program.reviewers_required}
+                allowDuplicateMobile={program.allow_duplicate_mobile}
                 onRefresh={refetchRegistrations}
               />
             </TabsContent>
           )}
+
+          {hasRegistration && (
+            <TabsContent value="analytics">
+              <RegistrationAnalytics
+                programId={program.id}
+                questions={program.form_questions || []}
+                verificationEnabled={program.verification_enabled}
+              />
+            </TabsContent>
+          )}
+
+          {hasAttendance && (
+            <TabsContent value="attendance">
+              <AttendanceManager
+                programId={program.id}
+                programName={program.name}
+                registrations={registrations}
+              />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -464,6 +552,49 @@ export default function ProgramDetail() {
                 />
               </div>
             </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="editMaxSeats" className="text-sm font-medium">Maximum Seats</Label>
+                <Input
+                  id="editMaxSeats"
+                  type="number"
+                  min={1}
+                  value={editMaxSeats}
+                  onChange={(e) => setEditMaxSeats(e.target.value)}
+                  placeholder="No limit"
+                  className="text-base"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="editMaxSeatsPerPanchayath" className="text-sm font-medium">Seats per Panchayath</Label>
+                <Input
+                  id="editMaxSeatsPerPanchayath"
+                  type="number"
+                  min={1}
+                  value={editMaxSeatsPerPanchayath}
+                  onChange={(e) => setEditMaxSeatsPerPanchayath(e.target.value)}
+                  placeholder="No limit"
+                  className="text-base"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground sm:col-span-2 -mt-2">
+                Registrations beyond the limit join a waitlist and move up when a registration is rejected.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editApplicantEditUntil" className="text-sm font-medium">Applicants Can Edit Until</Label>
+              <Input
+                id="editApplicantEditUntil"
+                type="datetime-local"
+                value={editApplicantEditUntil}
+                onChange={(e) => setEditApplicantEditUntil(e.target.value)}
+                className="text-base"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to turn off editing. Applicants get an edit code after registering and can change
+                their answers until this time, or until verification starts.
+              </p>
+            </div>
             <div className="flex items-center gap-3 py-2">
               <Switch
                 id="editIsActive"
@@ -484,7 +615,66 @@ export default function ProgramDetail() {
                   Enable Form Verification
                 </Label>
                 <p className="text-xs text-muted-foreground mt-0.5">
-                  Allow scoring registrations (0-10 per question) to evaluate applicants
+                  Allow scoring registrations against each question's marks to evaluate applicants
+                </p>
+              </div>
+            </div>
+            {editVerificationEnabled && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="editReviewersRequired" className="text-sm font-medium">Reviewers per Registration</Label>
+                  <Input
+                    id="editReviewersRequired"
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={editReviewersRequired}
+                    onChange={(e) => setEditReviewersRequired(e.target.value)}
+                    className="text-base"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Final Score</Label>
+                  <Select value={editScoreAggregation} onValueChange={setEditScoreAggregation}>
+                    <SelectTrigger className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="average">Average of reviews</SelectItem>
+                      <SelectItem value="median">Median of reviews</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="editReviewConflictThreshold" className="text-sm font-medium">Disagreement Gap (%)</Label>
+                  <Input
+                    id="editReviewConflictThreshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={editReviewConflictThreshold}
+                    onChange={(e) => setEditReviewConflictThreshold(e.target.value)}
+                    className="text-base"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground sm:col-span-3 -mt-2">
+                  A registration is verified once this many reviewers have scored it. If their percentages are
+                  further apart than the gap, it waits for a senior admin to settle the final score.
+                </p>
+              </div>
+            )}
+            <div className="flex items-center gap-3 py-2">
+              <Switch
+                id="editAllowDuplicateMobile"
+                checked={editAllowDuplicateMobile}
+                onCheckedChange={setEditAllowDuplicateMobile}
+              />
+              <div className="flex-1">
+                <Label htmlFor="editAllowDuplicateMobile" className="cursor-pointer">
+                  Allow repeat registrations
+                </Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Let the same mobile number register more than once for this program
                 </p>
               </div>
             </div>
@@ -535,6 +725,9 @@ export default function ProgramDetail() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <SaveTemplateDialog program={program} open={isSaveTemplateOpen} onOpenChange={setIsSaveTemplateOpen} />
+      <CloneProgramDialog open={isCloneDialogOpen} onOpenChange={setIsCloneDialogOpen} sourceProgram={program} />
     </Layout>
   );
 }
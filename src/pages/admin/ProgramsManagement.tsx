@@ -22,10 +22,12 @@ import {
 } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeAdminFunction } from "@/lib/adminSession";
 import { useAuth } from "@/hooks/useAuth";
 import { usePrograms } from "@/hooks/usePrograms";
 import { ProgramCard } from "@/components/programs/ProgramCard";
-import { Loader2, Plus, ArrowLeft, AlertCircle, Calendar, Filter } from "lucide-react";
+import { CloneProgramDialog } from "@/components/programs/CloneProgramDialog";
+import { Loader2, Plus, ArrowLeft, AlertCircle, Calendar, Filter, CopyPlus, ImagePlus } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 
@@ -45,6 +47,7 @@ export default function ProgramsManagement() {
   const [divisions, setDivisions] = useState<Division[]>([]);
   const [panchayaths, setPanchayaths] = useState<Panchayath[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isCloneDialogOpen, setIsCloneDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   const [filterDivision, setFilterDivision] = useState("all");
@@ -58,7 +61,7 @@ export default function ProgramsManagement() {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
 
-  const { adminData, isSuperAdmin, user, adminToken } = useAuth();
+  const { adminData, isSuperAdmin, user, adminToken, hasCapability } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -105,7 +108,7 @@ export default function ProgramsManagement() {
       // Check if we're using admin token or regular Supabase auth
       if (adminToken) {
         // Use edge function for admin token users
-        const { data: response, error: funcError } = await supabase.functions.invoke("admin-programs", {
+        const { data: response, error: funcError } = await invokeAdminFunction("admin-programs", {
           body: {
             action: "create",
             data: {
@@ -213,10 +216,24 @@ export default function ProgramsManagement() {
               if (!open) resetForm();
             }}
           >
-            <Button onClick={() => setIsDialogOpen(true)} variant="golden" className="w-full sm:w-auto">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Program
-            </Button>
+            {hasCapability("programs.edit") && (
+              <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                <Button asChild variant="outline" className="w-full sm:w-auto">
+                  <Link to="/admin/media">
+                    <ImagePlus className="h-4 w-4 mr-2" />
+                    Media Library
+                  </Link>
+                </Button>
+                <Button onClick={() => setIsCloneDialogOpen(true)} variant="outline" className="w-full sm:w-auto">
+                  <CopyPlus className="h-4 w-4 mr-2" />
+                  From Template
+                </Button>
+                <Button onClick={() => setIsDialogOpen(true)} variant="golden" className="w-full sm:w-auto">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Program
+                </Button>
+              </div>
+            )}
             <DialogContent className="max-w-lg">
               <DialogHeader>
                 <DialogTitle>Create New Program</DialogTitle>
@@ -336,6 +353,7 @@ export default function ProgramsManagement() {
               </form>
             </DialogContent>
           </Dialog>
+          <CloneProgramDialog open={isCloneDialogOpen} onOpenChange={setIsCloneDialogOpen} programs={programs} />
         </div>
 
         {/* Filter */}
@@ -31,7 +31,8 @@ import {
   Plus,
   IndianRupee,
   FileSpreadsheet,
-  BarChart3
+  BarChart3,
+  History
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
@@ -187,6 +188,12 @@ export default function SuperAdminDashboard() {
               <span className="text-[10px] sm:text-sm">Payouts</span>
             </Link>
           </Button>
+          <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+            <Link to="/super-admin/activity" className="flex flex-col items-center gap-1.5 sm:gap-2">
+              <History className="h-5 w-5 sm:h-6 sm:w-6" />
+              <span className="text-[10px] sm:text-sm">Activity</span>
+            </Link>
+          </Button>
           <Button asChild variant="outline" className="h-auto py-3 sm:py-4 hidden sm:flex">
             <Link to="/admin/members" className="flex flex-col items-center gap-1.5 sm:gap-2">
               <Users className="h-5 w-5 sm:h-6 sm:w-6" />
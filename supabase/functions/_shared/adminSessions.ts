@@ -0,0 +1,213 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  type AdminTokenPayload,
+  IMPERSONATION_TOKEN_TTL_SECONDS,
+  signAdminToken,
+  verifyAdminToken,
+} from "./adminToken.ts";
+import { clientIp } from "./http.ts";
+
+// Server-side registry of admin sessions, keyed by the jti carried in every access token.
+// A token is only accepted while its admin_sessions row exists and is not revoked,
+// so revoking a row (or deactivating the admin) takes effect on the next request.
+// Access tokens are short-lived; the session slides forward each time its refresh token
+// is exchanged, until it sits idle too long or reaches its absolute lifetime.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type AdminClaims = Parameters<typeof signAdminToken>[0];
+
+export interface AdminSessionTokens {
+  token: string;
+  refresh_token: string;
+  expires_at: number; // access token expiry, seconds since epoch
+}
+
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+export const SESSION_IDLE_TIMEOUT_SECONDS = 24 * 60 * 60; // 24 hours without a refresh
+export const SESSION_MAX_LIFETIME_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+function generateRefreshToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function hashRefreshToken(refreshToken: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(refreshToken));
+  return Array.from(new Uint8Array(hashBuffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function idleExpiry(now: number, absoluteExpiresAt: number): string {
+  return new Date(Math.min(now + SESSION_IDLE_TIMEOUT_SECONDS * 1000, absoluteExpiresAt)).toISOString();
+}
+
+// Issue an access token and refresh token for a freshly authenticated admin
+export async function startAdminSession(
+  supabase: SupabaseClient,
+  claims: AdminClaims,
+  req: Request,
+): Promise<AdminSessionTokens> {
+  const { token, payload } = await signAdminToken(claims);
+  const refreshToken = generateRefreshToken();
+  const now = Date.now();
+  const absoluteExpiresAt = now + SESSION_MAX_LIFETIME_SECONDS * 1000;
+
+  const { error } = await supabase.from("admin_sessions").insert({
+    jti: payload.jti,
+    admin_id: payload.admin_id,
+    expires_at: idleExpiry(now, absoluteExpiresAt),
+    absolute_expires_at: new Date(absoluteExpiresAt).toISOString(),
+    refresh_token_hash: await hashRefreshToken(refreshToken),
+    ip_address: clientIp(req),
+    user_agent: req.headers.get("user-agent"),
+  });
+  if (error) throw new Error(`Failed to create admin session: ${error.message}`);
+
+  return { token, refresh_token: refreshToken, expires_at: payload.exp };
+}
+
+// Issue a read-only session for a super admin viewing as another admin. There is no
+// refresh token: the session ends when its single access token expires.
+export async function startImpersonationSession(
+  supabase: SupabaseClient,
+  claims: Omit<AdminClaims, "impersonated_by">,
+  superAdminId: string,
+  req: Request,
+): Promise<{ token: string; expires_at: number; jti: string }> {
+  const { token, payload } = await signAdminToken(
+    { ...claims, impersonated_by: superAdminId },
+    { ttlSeconds: IMPERSONATION_TOKEN_TTL_SECONDS },
+  );
+  const expiresAt = new Date(payload.exp * 1000).toISOString();
+
+  const { error } = await supabase.from("admin_sessions").insert({
+    jti: payload.jti,
+    admin_id: payload.admin_id,
+    expires_at: expiresAt,
+    absolute_expires_at: expiresAt,
+    impersonated_by: superAdminId,
+    ip_address: clientIp(req),
+    user_agent: req.headers.get("user-agent"),
+  });
+  if (error) throw new Error(`Failed to create impersonation session: ${error.message}`);
+
+  return { token, expires_at: payload.exp, jti: payload.jti };
+}
+
+// Exchange a refresh token for a new access token on the same session.
+// The refresh token is rotated on every use, so each one works only once.
+export async function refreshAdminSession(
+  supabase: SupabaseClient,
+  refreshToken: string,
+): Promise<{ tokens: AdminSessionTokens; adminId: string } | null> {
+  const refreshTokenHash = await hashRefreshToken(refreshToken);
+
+  const { data: session } = await supabase
+    .from("admin_sessions")
+    .select("jti, admin_id, expires_at, absolute_expires_at, revoked_at")
+    .eq("refresh_token_hash", refreshTokenHash)
+    .maybeSingle();
+
+  const now = Date.now();
+  if (
+    !session ||
+    session.revoked_at ||
+    new Date(session.expires_at).getTime() <= now ||
+    new Date(session.absolute_expires_at).getTime() <= now
+  ) {
+    console.log("Admin refresh token unknown, revoked or expired");
+    return null;
+  }
+
+  const { data: admin } = await supabase
+    .from("admins")
+    .select("id, user_id, division_id, full_name, is_active")
+    .eq("id", session.admin_id)
+    .maybeSingle();
+
+  if (!admin?.is_active) {
+    console.log("Admin not found or inactive during refresh");
+    return null;
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  // Matching on the old hash means only one of two concurrent refreshes wins
+  const { data: rotated } = await supabase
+    .from("admin_sessions")
+    .update({
+      refresh_token_hash: await hashRefreshToken(nextRefreshToken),
+      expires_at: idleExpiry(now, new Date(session.absolute_expires_at).getTime()),
+      last_seen_at: new Date(now).toISOString(),
+    })
+    .eq("jti", session.jti)
+    .eq("refresh_token_hash", refreshTokenHash)
+    .select("jti");
+
+  if (!rotated || rotated.length === 0) {
+    console.log("Admin refresh token already rotated");
+    return null;
+  }
+
+  const { token, payload } = await signAdminToken(
+    {
+      admin_id: admin.id,
+      user_id: admin.user_id,
+      division_id: admin.division_id,
+      full_name: admin.full_name,
+    },
+    { jti: session.jti },
+  );
+
+  return {
+    tokens: { token, refresh_token: nextRefreshToken, expires_at: payload.exp },
+    adminId: admin.id,
+  };
+}
+
+// Verify the token signature and that its session is still live
+export async function verifyAdminSession(
+  supabase: SupabaseClient,
+  token: string,
+): Promise<AdminTokenPayload | null> {
+  const payload = await verifyAdminToken(token);
+  if (!payload) return null;
+
+  const { data: session } = await supabase
+    .from("admin_sessions")
+    .select("admin_id, revoked_at, last_seen_at")
+    .eq("jti", payload.jti)
+    .maybeSingle();
+
+  if (!session || session.revoked_at || session.admin_id !== payload.admin_id) {
+    console.log("Admin session revoked or unknown");
+    return null;
+  }
+
+  if (!session.last_seen_at || Date.now() - new Date(session.last_seen_at).getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await supabase
+      .from("admin_sessions")
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("jti", payload.jti);
+  }
+
+  return payload;
+}
+
+export async function revokeAdminSessions(
+  supabase: SupabaseClient,
+  filter: { jti?: string; adminId?: string },
+  reason: string,
+): Promise<void> {
+  if (!filter.jti && !filter.adminId) return;
+
+  let query = supabase
+    .from("admin_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .is("revoked_at", null);
+
+  if (filter.jti) query = query.eq("jti", filter.jti);
+  if (filter.adminId) query = query.eq("admin_id", filter.adminId);
+
+  const { error } = await query;
+  if (error) console.error("Failed to revoke admin sessions:", error);
+}
@@ -0,0 +1,122 @@
+// Shared admin session token helpers.
+// Tokens are standard HS256 JWTs: base64url(header).base64url(payload).base64url(signature)
+// signed with ADMIN_JWT_SECRET (falls back to the service role key).
+
+export interface AdminTokenPayload {
+  admin_id: string;
+  user_id: string | null;
+  division_id: string;
+  full_name?: string | null;
+  impersonated_by?: string | null; // super admin user id when a super admin is viewing as this admin
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+  jti: string;
+}
+
+// Access tokens are short-lived; clients renew them with the session's refresh token
+export const ADMIN_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+// Impersonation tokens cannot be refreshed, so they carry the whole session
+export const IMPERSONATION_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSecret(): string {
+  const secret = Deno.env.get("ADMIN_JWT_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!secret) throw new Error("ADMIN_JWT_SECRET is not configured");
+  return secret;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const padded = input.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(input.length / 4) * 4, "=");
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function getSigningKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+// jti identifies the admin session; pass the existing one when re-issuing a token for it
+export async function signAdminToken(
+  claims: Pick<AdminTokenPayload, "admin_id" | "user_id" | "division_id" | "full_name" | "impersonated_by">,
+  options: { ttlSeconds?: number; jti?: string } = {},
+  secret = getSecret(),
+): Promise<{ token: string; payload: AdminTokenPayload }> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AdminTokenPayload = {
+    ...claims,
+    iat: now,
+    exp: now + (options.ttlSeconds ?? ADMIN_TOKEN_TTL_SECONDS),
+    jti: options.jti ?? crypto.randomUUID(),
+  };
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signingInput = `${header}.${body}`;
+
+  const key = await getSigningKey(secret);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(signingInput)));
+
+  return { token: `${signingInput}.${base64UrlEncode(signature)}`, payload };
+}
+
+export async function verifyAdminToken(
+  token: string,
+  secret = getSecret(),
+): Promise<AdminTokenPayload | null> {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+    const [header, body, signature] = parts;
+
+    const decodedHeader = JSON.parse(decoder.decode(base64UrlDecode(header)));
+    if (decodedHeader.alg !== "HS256") return null;
+
+    // crypto.subtle.verify compares in constant time
+    const key = await getSigningKey(secret);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${body}`),
+    );
+    if (!valid) {
+      console.log("Invalid admin token signature");
+      return null;
+    }
+
+    const payload: AdminTokenPayload = JSON.parse(decoder.decode(base64UrlDecode(body)));
+    if (!payload.admin_id || !payload.jti || typeof payload.exp !== "number") return null;
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      console.log("Admin token expired");
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    console.error("Admin token verification error:", error);
+    return null;
+  }
+}
+
+// Consistent 401 body for every function that rejects an admin token
+export function invalidTokenResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ error: "Invalid or expired admin token", code: "invalid_admin_token" }),
+    { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
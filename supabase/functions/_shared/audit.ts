@@ -0,0 +1,68 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type Principal, principalId } from "./auth.ts";
+import { clientIp } from "./http.ts";
+
+// Audit events for changes made by the edge functions. They write with the service role,
+// which the audit_row_change() table trigger ignores, so every mutation records its own
+// event here with the authenticated admin as the actor.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Actor for events not made through authenticate(), e.g. password changes in admin-auth
+export interface AuditActor {
+  type: "admin" | "super_admin" | "system";
+  id: string | null;
+  name: string | null;
+}
+
+export interface AuditEvent {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  divisionId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Never copy credentials into the log
+const REDACTED_FIELDS = ["password_hash", "refresh_token_hash", "code_hash"];
+
+function redact(value: unknown): unknown {
+  if (value == null) return null;
+  if (Array.isArray(value)) return value.map(redact);
+  if (typeof value !== "object") return value;
+
+  const copy: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  REDACTED_FIELDS.forEach((field) => delete copy[field]);
+  return copy;
+}
+
+function toActor(actor: Principal | AuditActor): AuditActor {
+  if ("type" in actor) return actor;
+  return { type: actor.kind, id: principalId(actor), name: actor.name };
+}
+
+// Failures are logged rather than thrown: the change itself has already been made
+export async function recordAuditEvent(
+  supabase: SupabaseClient,
+  req: Request,
+  actor: Principal | AuditActor,
+  event: AuditEvent,
+): Promise<void> {
+  const { type, id, name } = toActor(actor);
+  const { error } = await supabase.from("audit_events").insert({
+    actor_type: type,
+    actor_id: id,
+    actor_name: name,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId ?? null,
+    division_id: event.divisionId ?? null,
+    before: redact(event.before),
+    after: redact(event.after),
+    ip_address: clientIp(req),
+    user_agent: req.headers.get("user-agent"),
+  });
+
+  if (error) console.error("Failed to record audit event:", event.action, event.entityType, error.message);
+}
@@ -0,0 +1,225 @@
+// Run with: npm run test:functions (deno test --allow-env supabase/functions/_shared/)
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { signAdminToken } from "./adminToken.ts";
+import {
+  authenticate,
+  canAccessDivision,
+  canCollectCash,
+  hasCapability,
+  isHomeDivision,
+  principalId,
+  requireCapability,
+} from "./auth.ts";
+
+Deno.env.set("ADMIN_JWT_SECRET", "test-secret");
+
+type Row = Record<string, unknown>;
+type SupabaseClient = Parameters<typeof authenticate>[1];
+
+// Minimal in-memory stand-in for the query builder calls authenticate() makes
+function fakeSupabase(tables: Record<string, Row[]>, users: Record<string, { id: string; email: string }> = {}) {
+  return {
+    auth: {
+      getUser: (jwt: string) =>
+        Promise.resolve(
+          users[jwt]
+            ? { data: { user: users[jwt] }, error: null }
+            : { data: { user: null }, error: new Error("invalid JWT") },
+        ),
+    },
+    from(table: string) {
+      const filters: [string, unknown][] = [];
+      let updates: Row | null = null;
+      const rows = () => (tables[table] ?? []).filter((row) => filters.every(([col, value]) => row[col] === value));
+      const builder = {
+        select: () => builder,
+        update: (values: Row) => {
+          updates = values;
+          return builder;
+        },
+        eq: (col: string, value: unknown) => {
+          filters.push([col, value]);
+          return builder;
+        },
+        maybeSingle: () => Promise.resolve({ data: rows()[0] ?? null, error: null }),
+        then: (resolve: (value: { data: null; error: null }) => unknown) => {
+          if (updates) rows().forEach((row) => Object.assign(row, updates));
+          return Promise.resolve({ data: null, error: null }).then(resolve);
+        },
+      };
+      return builder;
+    },
+  } as unknown as SupabaseClient;
+}
+
+const ADMIN_ROW = {
+  id: "admin-1",
+  user_id: "user-1",
+  full_name: "Division Admin",
+  division_id: "div-home",
+  is_active: true,
+  is_read_only: false,
+  access_all_divisions: false,
+  additional_division_ids: ["div-extra"],
+  cash_collection_enabled: true,
+  cash_collection_division_ids: ["div-cash"],
+  granted_capabilities: [],
+  revoked_capabilities: [],
+  admin_role: { capabilities: ["programs.edit", "registrations.verify"] },
+};
+
+async function adminRequest(admin: Row = ADMIN_ROW, sessionOverrides: Row = {}, impersonatedBy: string | null = null) {
+  const { token, payload } = await signAdminToken({
+    admin_id: admin.id as string,
+    user_id: admin.user_id as string,
+    division_id: admin.division_id as string,
+    full_name: admin.full_name as string,
+    impersonated_by: impersonatedBy,
+  });
+  const supabase = fakeSupabase({
+    admins: [{ ...admin }],
+    admin_sessions: [{ jti: payload.jti, admin_id: admin.id, revoked_at: null, last_seen_at: null, ...sessionOverrides }],
+  });
+  const req = new Request("http://localhost/fn", { headers: { "x-admin-token": token } });
+  return { req, supabase };
+}
+
+function superAdminSetup(roles: Row[]) {
+  const supabase = fakeSupabase(
+    { user_roles: roles, profiles: [{ id: "super-1", full_name: "Super Admin One" }] },
+    { "valid-jwt": { id: "super-1", email: "super@example.com" } },
+  );
+  const req = new Request("http://localhost/fn", { headers: { authorization: "Bearer valid-jwt" } });
+  return { req, supabase };
+}
+
+Deno.test("rejects requests without credentials", async () => {
+  const result = await authenticate(new Request("http://localhost/fn"), fakeSupabase({}));
+  assertEquals(result.principal, undefined);
+  assertEquals(result.response?.status, 401);
+  assertEquals((await result.response!.json()).error, "Admin token required");
+});
+
+Deno.test("division admin token yields an admin principal with its scopes", async () => {
+  const { req, supabase } = await adminRequest();
+  const { principal } = await authenticate(req, supabase);
+
+  assert(principal?.kind === "admin");
+  assertEquals(principal.adminId, "admin-1");
+  assertEquals(principal.divisionId, "div-home");
+  assertEquals(principal.isReadOnly, false);
+  assertEquals(principalId(principal), "admin-1");
+
+  assert(isHomeDivision(principal, "div-home"));
+  assert(!isHomeDivision(principal, "div-extra"));
+  assert(canAccessDivision(principal, "div-extra"));
+  assert(!canAccessDivision(principal, "div-other"));
+  assert(canCollectCash(principal, "div-cash"));
+  assert(!canCollectCash(principal, "div-extra"));
+});
+
+Deno.test("read-only admin is flagged on the principal", async () => {
+  const { req, supabase } = await adminRequest({ ...ADMIN_ROW, is_read_only: true });
+  const { principal } = await authenticate(req, supabase);
+  assert(principal?.kind === "admin");
+  assertEquals(principal.isReadOnly, true);
+});
+
+Deno.test("admin capabilities come from the role plus grants minus revocations", async () => {
+  const { req, supabase } = await adminRequest({
+    ...ADMIN_ROW,
+    granted_capabilities: ["cash.collect"],
+    revoked_capabilities: ["programs.edit"],
+  });
+  const { principal } = await authenticate(req, supabase);
+  assert(principal);
+  assertEquals(principal.capabilities, ["registrations.verify", "cash.collect"]);
+  assert(hasCapability(principal, "cash.collect"));
+  assertEquals(requireCapability(principal, "registrations.verify"), null);
+
+  const denied = requireCapability(principal, "programs.edit");
+  assertEquals(denied?.status, 403);
+  const body = await denied!.json();
+  assertEquals(body.code, "missing_capability");
+  assertEquals(body.capability, "programs.edit");
+});
+
+Deno.test("read-only admin has no capabilities", async () => {
+  const { req, supabase } = await adminRequest({ ...ADMIN_ROW, is_read_only: true, granted_capabilities: ["cash.collect"] });
+  const { principal } = await authenticate(req, supabase);
+  assert(principal);
+  assertEquals(principal.capabilities, []);
+});
+
+Deno.test("impersonation token yields a read-only principal for the viewed admin", async () => {
+  const { req, supabase } = await adminRequest(ADMIN_ROW, {}, "super-1");
+  const { principal } = await authenticate(req, supabase);
+  assert(principal?.kind === "admin");
+  assertEquals(principal.adminId, "admin-1");
+  assertEquals(principal.impersonatedBy, "super-1");
+  assertEquals(principal.isReadOnly, true);
+  assertEquals(principal.capabilities, []);
+  assert(canAccessDivision(principal, "div-extra"));
+});
+
+Deno.test("admin with access to all divisions can access any division", async () => {
+  const { req, supabase } = await adminRequest({ ...ADMIN_ROW, access_all_divisions: true });
+  const { principal } = await authenticate(req, supabase);
+  assert(principal);
+  assert(canAccessDivision(principal, "div-other"));
+  assert(!isHomeDivision(principal, "div-other"));
+});
+
+Deno.test("admin without cash collection access is limited to the home division", async () => {
+  const { req, supabase } = await adminRequest({ ...ADMIN_ROW, cash_collection_enabled: false });
+  const { principal } = await authenticate(req, supabase);
+  assert(principal);
+  assert(canCollectCash(principal, "div-home"));
+  assert(!canCollectCash(principal, "div-cash"));
+});
+
+Deno.test("inactive admin is rejected", async () => {
+  const { req, supabase } = await adminRequest({ ...ADMIN_ROW, is_active: false });
+  const result = await authenticate(req, supabase);
+  assertEquals(result.response?.status, 401);
+});
+
+Deno.test("revoked admin session is rejected", async () => {
+  const { req, supabase } = await adminRequest(ADMIN_ROW, { revoked_at: new Date().toISOString() });
+  const result = await authenticate(req, supabase);
+  assertEquals(result.response?.status, 401);
+  assertEquals((await result.response!.json()).code, "invalid_admin_token");
+});
+
+Deno.test("super admin JWT yields a super admin principal when allowed", async () => {
+  const { req, supabase } = superAdminSetup([{ user_id: "super-1", role: "super_admin" }]);
+  const { principal } = await authenticate(req, supabase, { allowSuperAdmin: true });
+
+  assert(principal?.kind === "super_admin");
+  assertEquals(principal.userId, "super-1");
+  assertEquals(principal.name, "Super Admin One");
+  assertEquals(principalId(principal), "super-1");
+  assert(isHomeDivision(principal, "div-any"));
+  assert(canAccessDivision(principal, "div-any"));
+  assert(canCollectCash(principal, "div-any"));
+  assert(hasCapability(principal, "locations.manage"));
+});
+
+Deno.test("super admin JWT is ignored by admin-only functions", async () => {
+  const { req, supabase } = superAdminSetup([{ user_id: "super-1", role: "super_admin" }]);
+  const result = await authenticate(req, supabase);
+  assertEquals(result.response?.status, 401);
+});
+
+Deno.test("signed-in user without the super admin role is forbidden", async () => {
+  const { req, supabase } = superAdminSetup([{ user_id: "super-1", role: "member" }]);
+  const result = await authenticate(req, supabase, { allowSuperAdmin: true });
+  assertEquals(result.response?.status, 403);
+});
+
+Deno.test("invalid super admin JWT is rejected", async () => {
+  const { supabase } = superAdminSetup([]);
+  const req = new Request("http://localhost/fn", { headers: { authorization: "Bearer forged" } });
+  const result = await authenticate(req, supabase, { allowSuperAdmin: true });
+  assertEquals(result.response?.status, 401);
+});
@@ -0,0 +1,186 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type AdminTokenPayload, invalidTokenResponse } from "./adminToken.ts";
+import { verifyAdminSession } from "./adminSessions.ts";
+import { CAPABILITIES, type Capability, resolveCapabilities } from "./capabilities.ts";
+import { corsHeaders, jsonResponse } from "./http.ts";
+
+// Request authentication shared by the admin edge functions.
+// Division admins send their session token in x-admin-token; super admins send their
+// Supabase JWT as a Bearer token. Either way the caller gets back a typed principal,
+// or a ready-made error response to return as-is.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface AdminPrincipal {
+  kind: "admin";
+  adminId: string;
+  userId: string | null;
+  name: string;
+  divisionId: string;
+  accessAllDivisions: boolean;
+  additionalDivisionIds: string[];
+  isReadOnly: boolean;
+  cashCollectionEnabled: boolean;
+  cashCollectionDivisionIds: string[];
+  capabilities: Capability[];
+  // Super admin user id when this is a "view as admin" session; always read-only
+  impersonatedBy: string | null;
+  session: AdminTokenPayload;
+}
+
+export interface SuperAdminPrincipal {
+  kind: "super_admin";
+  userId: string;
+  name: string;
+  isReadOnly: false;
+  capabilities: Capability[];
+}
+
+export type Principal = AdminPrincipal | SuperAdminPrincipal;
+
+export type AuthResult =
+  | { principal: Principal; response?: undefined }
+  | { principal?: undefined; response: Response };
+
+export interface AuthOptions {
+  // Accept a super admin's Supabase JWT when no admin token is sent
+  allowSuperAdmin?: boolean;
+}
+
+const ADMIN_PRINCIPAL_COLUMNS =
+  "id, user_id, full_name, division_id, is_active, is_read_only, access_all_divisions, additional_division_ids, cash_collection_enabled, cash_collection_division_ids, granted_capabilities, revoked_capabilities, admin_role:admin_roles(capabilities)";
+
+async function authenticateAdmin(supabase: SupabaseClient, adminToken: string): Promise<AuthResult> {
+  const session = await verifyAdminSession(supabase, adminToken);
+  if (!session) {
+    return { response: invalidTokenResponse(corsHeaders) };
+  }
+
+  const { data: admin } = await supabase
+    .from("admins")
+    .select(ADMIN_PRINCIPAL_COLUMNS)
+    .eq("id", session.admin_id)
+    .maybeSingle();
+
+  if (!admin || !admin.is_active) {
+    return { response: jsonResponse({ error: "Admin account not found or inactive" }, 401) };
+  }
+
+  const impersonatedBy = session.impersonated_by ?? null;
+  const isReadOnly = impersonatedBy !== null || (admin.is_read_only ?? false);
+
+  return {
+    principal: {
+      kind: "admin",
+      adminId: admin.id,
+      userId: admin.user_id ?? null,
+      name: admin.full_name || session.full_name || "Admin",
+      divisionId: admin.division_id,
+      accessAllDivisions: admin.access_all_divisions ?? false,
+      additionalDivisionIds: admin.additional_division_ids ?? [],
+      isReadOnly,
+      cashCollectionEnabled: admin.cash_collection_enabled ?? false,
+      cashCollectionDivisionIds: admin.cash_collection_division_ids ?? [],
+      capabilities: resolveCapabilities({
+        roleCapabilities: admin.admin_role?.capabilities,
+        granted: admin.granted_capabilities,
+        revoked: admin.revoked_capabilities,
+        isReadOnly,
+      }),
+      impersonatedBy,
+      session,
+    },
+  };
+}
+
+async function authenticateSuperAdmin(supabase: SupabaseClient, jwt: string): Promise<AuthResult> {
+  const { data: userData, error } = await supabase.auth.getUser(jwt);
+  if (error || !userData?.user) {
+    return { response: jsonResponse({ error: "Invalid authorization" }, 401) };
+  }
+
+  const userId = userData.user.id;
+  const { data: roleData } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .eq("role", "super_admin")
+    .maybeSingle();
+
+  if (!roleData) {
+    return { response: jsonResponse({ error: "Insufficient permissions" }, 403) };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("full_name")
+    .eq("id", userId)
+    .maybeSingle();
+
+  return {
+    principal: {
+      kind: "super_admin",
+      userId,
+      name: profile?.full_name || userData.user.email || "Super Admin",
+      isReadOnly: false,
+      capabilities: [...CAPABILITIES],
+    },
+  };
+}
+
+export async function authenticate(
+  req: Request,
+  supabase: SupabaseClient,
+  options: AuthOptions = {},
+): Promise<AuthResult> {
+  const adminToken = req.headers.get("x-admin-token");
+  if (adminToken) {
+    return await authenticateAdmin(supabase, adminToken);
+  }
+
+  const authHeader = req.headers.get("authorization");
+  if (options.allowSuperAdmin && authHeader?.startsWith("Bearer ")) {
+    return await authenticateSuperAdmin(supabase, authHeader.replace("Bearer ", ""));
+  }
+
+  return { response: jsonResponse({ error: "Admin token required" }, 401) };
+}
+
+// Id recorded as the actor (created_by, verified_by, ...) for writes made by the principal
+export function principalId(principal: Principal): string {
+  return principal.kind === "admin" ? principal.adminId : principal.userId;
+}
+
+// The admin's own division only; super admins may act on any division
+export function isHomeDivision(principal: Principal, divisionId: string | null | undefined): boolean {
+  if (principal.kind === "super_admin") return true;
+  return !!divisionId && divisionId === principal.divisionId;
+}
+
+// Own division plus any extra divisions granted through admin permissions
+export function canAccessDivision(principal: Principal, divisionId: string | null | undefined): boolean {
+  if (principal.kind === "super_admin") return true;
+  if (principal.accessAllDivisions) return true;
+  if (!divisionId) return false;
+  return divisionId === principal.divisionId || principal.additionalDivisionIds.includes(divisionId);
+}
+
+// Cash collections are scoped separately from program access
+export function canCollectCash(principal: Principal, divisionId: string | null | undefined): boolean {
+  if (principal.kind === "super_admin") return true;
+  if (!divisionId || divisionId === principal.divisionId) return true;
+  return principal.cashCollectionEnabled && principal.cashCollectionDivisionIds.includes(divisionId);
+}
+
+export function hasCapability(principal: Principal, capability: Capability): boolean {
+  return principal.capabilities.includes(capability);
+}
+
+// 403 response when the principal lacks the capability, or null when the action is allowed
+export function requireCapability(principal: Principal, capability: Capability): Response | null {
+  if (hasCapability(principal, capability)) return null;
+  return jsonResponse(
+    { error: "You do not have permission to perform this action", code: "missing_capability", capability },
+    403,
+  );
+}
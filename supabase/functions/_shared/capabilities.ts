@@ -0,0 +1,34 @@
+// Named admin capabilities. Roles (admin_roles) group them; each admin gets their role's
+// capabilities plus granted_capabilities minus revoked_capabilities.
+// Keep in sync with src/lib/permissions.ts.
+
+export const CAPABILITIES = [
+  "programs.edit",
+  "registrations.verify",
+  "registrations.adjudicate",
+  "cash.collect",
+  "cash.verify",
+  "cash.submit",
+  "agents.manage",
+  "locations.manage",
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+export function isCapability(value: string): value is Capability {
+  return (CAPABILITIES as readonly string[]).includes(value);
+}
+
+export function resolveCapabilities(source: {
+  roleCapabilities?: string[] | null;
+  granted?: string[] | null;
+  revoked?: string[] | null;
+  isReadOnly?: boolean | null;
+}): Capability[] {
+  // Read-only admins can never write, whatever their role says
+  if (source.isReadOnly) return [];
+
+  const revoked = new Set(source.revoked ?? []);
+  const effective = new Set([...(source.roleCapabilities ?? []), ...(source.granted ?? [])]);
+  return CAPABILITIES.filter((capability) => effective.has(capability) && !revoked.has(capability));
+}
@@ -0,0 +1,57 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashPassword, verifyPassword } from "./password.ts";
+
+// Six-digit codes that let an applicant reopen their own registration. The code is shown
+// once after submitting; only its hash is stored, and a few wrong guesses lock it.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export const EDIT_CODE_LENGTH = 6;
+const MAX_FAILED_ATTEMPTS = 5;
+
+export type EditCodeCheck = "ok" | "invalid" | "locked";
+
+export function generateEditCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 10 ** EDIT_CODE_LENGTH).padStart(EDIT_CODE_LENGTH, "0");
+}
+
+export async function issueEditCode(supabase: SupabaseClient, registrationId: string): Promise<string> {
+  const code = generateEditCode();
+  const { error } = await supabase.from("registration_edit_codes").upsert(
+    { registration_id: registrationId, code_hash: await hashPassword(code), failed_attempts: 0 },
+    { onConflict: "registration_id" },
+  );
+  if (error) throw error;
+  return code;
+}
+
+export async function checkEditCode(
+  supabase: SupabaseClient,
+  registrationId: string,
+  code: string,
+): Promise<EditCodeCheck> {
+  const { data: stored } = await supabase
+    .from("registration_edit_codes")
+    .select("code_hash, failed_attempts")
+    .eq("registration_id", registrationId)
+    .maybeSingle();
+
+  if (!stored) return "invalid";
+  if (stored.failed_attempts >= MAX_FAILED_ATTEMPTS) return "locked";
+
+  const { valid } = await verifyPassword(code.trim(), stored.code_hash);
+  if (valid) {
+    if (stored.failed_attempts > 0) {
+      await supabase.from("registration_edit_codes").update({ failed_attempts: 0 }).eq("registration_id", registrationId);
+    }
+    return "ok";
+  }
+
+  const failedAttempts = stored.failed_attempts + 1;
+  await supabase
+    .from("registration_edit_codes")
+    .update({ failed_attempts: failedAttempts })
+    .eq("registration_id", registrationId);
+  return failedAttempts >= MAX_FAILED_ATTEMPTS ? "locked" : "invalid";
+}
@@ -0,0 +1,27 @@
+// CORS and JSON response helpers shared by the edge functions.
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-admin-token, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+};
+
+// Answer CORS preflight requests; returns null for every other request
+export function handleCorsPreflight(req: Request): Response | null {
+  if (req.method !== "OPTIONS") return null;
+  return new Response(null, { headers: corsHeaders });
+}
+
+// The platform proxy appends the address it saw to x-forwarded-for, so only the last entry
+// can be trusted; anything before it was sent by the client and may be forged
+export function clientIp(req: Request): string | null {
+  return req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || req.headers.get("x-real-ip") || null;
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+}
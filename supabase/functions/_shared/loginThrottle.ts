@@ -0,0 +1,119 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clientIp } from "./http.ts";
+
+// Failed-login throttling for admin-auth, tracked per phone number and per client IP.
+// The first few failures are free; after that each failure doubles the wait,
+// and past the lockout threshold the key is locked until it expires or a super admin unlocks it.
+// Counts are forgotten once a key has gone a full window without a failure.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  lockoutAfter: number;
+}
+
+const POLICIES: Record<"phone" | "ip", ThrottlePolicy> = {
+  phone: { freeAttempts: 3, lockoutAfter: 8 },
+  // Several admins can share an office connection, so IPs get more headroom
+  ip: { freeAttempts: 10, lockoutAfter: 30 },
+};
+
+const BASE_DELAY_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 15 * 60;
+const LOCKOUT_SECONDS = 60 * 60;
+const FAILURE_WINDOW_SECONDS = 24 * 60 * 60;
+
+export interface ThrottleKey {
+  key: string;
+  kind: "phone" | "ip";
+}
+
+export function getThrottleKeys(req: Request, normalizedPhone: string): ThrottleKey[] {
+  const keys: ThrottleKey[] = [{ key: `phone:${normalizedPhone}`, kind: "phone" }];
+  const ip = clientIp(req);
+  if (ip) keys.push({ key: `ip:${ip}`, kind: "ip" });
+  return keys;
+}
+
+// Seconds the caller has to wait before another attempt, or 0 if allowed
+export async function getRetryAfter(supabase: SupabaseClient, keys: ThrottleKey[]): Promise<number> {
+  const { data } = await supabase
+    .from("admin_login_throttles")
+    .select("locked_until")
+    .in("key", keys.map((k) => k.key));
+
+  const now = Date.now();
+  let retryAfter = 0;
+  for (const row of data || []) {
+    if (!row.locked_until) continue;
+    const remaining = Math.ceil((new Date(row.locked_until).getTime() - now) / 1000);
+    if (remaining > retryAfter) retryAfter = remaining;
+  }
+  return retryAfter;
+}
+
+function lockDurationSeconds(failures: number, policy: ThrottlePolicy): number {
+  if (failures >= policy.lockoutAfter) return LOCKOUT_SECONDS;
+  if (failures < policy.freeAttempts) return 0;
+  const delay = BASE_DELAY_SECONDS * 2 ** (failures - policy.freeAttempts);
+  return Math.min(delay, MAX_BACKOFF_SECONDS);
+}
+
+export async function recordFailure(supabase: SupabaseClient, keys: ThrottleKey[]): Promise<number> {
+  const now = Date.now();
+  let retryAfter = 0;
+
+  for (const { key, kind } of keys) {
+    // The increment (and reset after a quiet window) happens atomically in the database
+    const { data: failures, error } = await supabase.rpc("record_admin_login_failure", {
+      _key: key,
+      _kind: kind,
+      _window_seconds: FAILURE_WINDOW_SECONDS,
+    });
+    if (error || typeof failures !== "number") {
+      console.error("Failed to record login failure:", error);
+      continue;
+    }
+
+    const lockSeconds = lockDurationSeconds(failures, POLICIES[kind]);
+    if (lockSeconds === 0) continue;
+    retryAfter = Math.max(retryAfter, lockSeconds);
+
+    const { error: lockError } = await supabase
+      .from("admin_login_throttles")
+      .update({ locked_until: new Date(now + lockSeconds * 1000).toISOString() })
+      .eq("key", key);
+    if (lockError) console.error("Failed to lock throttle key:", lockError);
+  }
+
+  return retryAfter;
+}
+
+// A successful login clears the phone counter. IP counters are left to reset after
+// FAILURE_WINDOW_SECONDS without failures, or through unlock_login.
+export async function clearPhoneFailures(supabase: SupabaseClient, keys: ThrottleKey[]): Promise<void> {
+  const phoneKeys = keys.filter((k) => k.kind === "phone").map((k) => k.key);
+  if (phoneKeys.length === 0) return;
+  await supabase.from("admin_login_throttles").delete().in("key", phoneKeys);
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+export function tooManyAttemptsResponse(corsHeaders: Record<string, string>, retryAfter: number): Response {
+  return new Response(
+    JSON.stringify({
+      error: `Too many failed sign-in attempts. Try again in ${formatRetryAfter(retryAfter)}.`,
+      code: "too_many_attempts",
+      retry_after: retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    },
+  );
+}
@@ -0,0 +1,85 @@
+// Admin password hashing.
+// Current format: pbkdf2_sha256$<iterations>$<base64 salt>$<base64 hash>
+// Legacy format:  64-char hex SHA-256 digest of the password (unsalted)
+
+const PBKDF2_PREFIX = "pbkdf2_sha256";
+export const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+const encoder = new TextEncoder();
+
+export type PasswordHashScheme = "pbkdf2" | "legacy_sha256" | "unknown";
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(input: string): Uint8Array {
+  return Uint8Array.from(atob(input), (c) => c.charCodeAt(0));
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BYTES * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+async function legacySha256(password: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(password));
+  return Array.from(new Uint8Array(hashBuffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function getHashScheme(stored: string | null | undefined): PasswordHashScheme {
+  if (!stored) return "unknown";
+  if (stored.startsWith(`${PBKDF2_PREFIX}$`)) return "pbkdf2";
+  if (/^[0-9a-f]{64}$/i.test(stored)) return "legacy_sha256";
+  return "unknown";
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `${PBKDF2_PREFIX}$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+// Returns whether the password matches, and whether the stored hash should be
+// replaced with a fresh hashPassword() result (legacy scheme or old work factor).
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  const scheme = getHashScheme(stored);
+
+  if (scheme === "legacy_sha256") {
+    const candidate = await legacySha256(password);
+    const valid = timingSafeEqual(encoder.encode(candidate), encoder.encode(stored.toLowerCase()));
+    return { valid, needsRehash: valid };
+  }
+
+  if (scheme === "pbkdf2") {
+    const [, iterationsRaw, saltB64, hashB64] = stored.split("$");
+    const iterations = Number(iterationsRaw);
+    if (!iterations || !saltB64 || !hashB64) return { valid: false, needsRehash: false };
+
+    const expected = fromBase64(hashB64);
+    const candidate = await pbkdf2(password, fromBase64(saltB64), iterations);
+    const valid = timingSafeEqual(candidate, expected);
+    return { valid, needsRehash: valid && iterations < PBKDF2_ITERATIONS };
+  }
+
+  return { valid: false, needsRehash: false };
+}
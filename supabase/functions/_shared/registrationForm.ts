@@ -0,0 +1,320 @@
+// Server-side copy of the registration form rules in src/lib/formQuestions.ts and
+// src/lib/formLogic.ts: which questions an applicant actually saw (visibility rules,
+// section pages and skip logic) and whether each answer is present and well formed.
+// Keep the two in step when adding question types or operators.
+
+export interface FormQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  is_required: boolean;
+  options: unknown;
+  config: unknown;
+  visibility_rule: unknown;
+  sort_order: number;
+}
+
+export interface FixedFields {
+  name: string;
+  mobile: string;
+  panchayath_id: string;
+  panchayath_name: string;
+  ward: string;
+}
+
+// Field key -> message; fixed fields are keyed "_fixed.<field>", questions by their id
+export type FieldErrors = Record<string, string>;
+
+interface QuestionConfig {
+  min?: number | null;
+  max?: number | null;
+  max_length?: number | null;
+  min_date?: string | null;
+  max_date?: string | null;
+  scale?: number;
+  skip_to?: Record<string, string>;
+}
+
+interface VisibilityCondition {
+  question_id: string;
+  operator: string;
+  value?: string;
+}
+
+interface VisibilityRule {
+  match: "all" | "any";
+  conditions: VisibilityCondition[];
+}
+
+const SECTION_QUESTION_TYPE = "section";
+const SKIP_TO_END = "end";
+const SKIP_QUESTION_TYPES = ["select", "radio", "yes_no"];
+const DEFAULT_RATING_SCALE = 5;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+function getConfig(question: FormQuestion): QuestionConfig {
+  const config = question.config;
+  return config && typeof config === "object" && !Array.isArray(config) ? (config as QuestionConfig) : {};
+}
+
+function getVisibilityRule(question: FormQuestion): VisibilityRule | null {
+  const rule = question.visibility_rule as VisibilityRule | null;
+  if (!rule || !Array.isArray(rule.conditions) || rule.conditions.length === 0) return null;
+  return rule;
+}
+
+function isFileAnswer(value: unknown): value is { path: string } {
+  return !!value && typeof value === "object" && typeof (value as { path?: unknown }).path === "string";
+}
+
+export function isAnswerEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0 || value.every((v) => !String(v ?? "").trim());
+  if (typeof value === "object") return !isFileAnswer(value);
+  return false;
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 7, 6, 8, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function isValidAadhaar(value: string): boolean {
+  const digits = value.replace(/\s/g, "");
+  if (!/^[2-9]\d{11}$/.test(digits)) return false;
+
+  let check = 0;
+  digits
+    .split("")
+    .reverse()
+    .forEach((digit, i) => {
+      check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+    });
+  return check === 0;
+}
+
+// Format checks for a filled-in answer, plus a check that choices come from the options
+export function validateAnswer(question: FormQuestion, value: unknown, programId: string): string | null {
+  if (isAnswerEmpty(value)) return null;
+  const config = getConfig(question);
+  const text = typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+
+  switch (question.question_type) {
+    case "text":
+    case "phone":
+    case "textarea":
+      if (typeof value !== "string") return "Enter text";
+      if (question.question_type === "textarea" && config.max_length && text.length > config.max_length) {
+        return `Must be at most ${config.max_length} characters`;
+      }
+      return null;
+
+    case "number": {
+      if (!/^-?\d+(\.\d+)?$/.test(text)) return "Enter a valid number";
+      const num = Number(text);
+      if (config.min != null && num < config.min) return `Must be at least ${config.min}`;
+      if (config.max != null && num > config.max) return `Must be at most ${config.max}`;
+      return null;
+    }
+
+    case "date":
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(text).getTime())) return "Enter a valid date";
+      if (config.min_date && text < config.min_date) return `Must be on or after ${config.min_date}`;
+      if (config.max_date && text > config.max_date) return `Must be on or before ${config.max_date}`;
+      return null;
+
+    case "email":
+      return EMAIL_PATTERN.test(text) ? null : "Enter a valid email address";
+
+    case "aadhaar":
+      return isValidAadhaar(text) ? null : "Enter a valid 12-digit Aadhaar number";
+
+    case "select":
+    case "radio": {
+      const options = Array.isArray(question.options) ? question.options.map(String) : [];
+      return typeof value === "string" && options.includes(value) ? null : "Choose one of the options";
+    }
+
+    case "checkbox": {
+      const options = Array.isArray(question.options) ? question.options.map(String) : [];
+      return Array.isArray(value) && value.every((v) => options.includes(String(v)))
+        ? null
+        : "Choose from the listed options";
+    }
+
+    case "multi_text":
+      return Array.isArray(value) && value.every((v) => typeof v === "string") ? null : "Enter text";
+
+    case "rating": {
+      const scale = config.scale || DEFAULT_RATING_SCALE;
+      const rating = Number(text);
+      return Number.isInteger(rating) && rating >= 1 && rating <= scale ? null : `Choose a rating from 1 to ${scale}`;
+    }
+
+    case "yes_no":
+      return text === "yes" || text === "no" ? null : "Choose yes or no";
+
+    case "file":
+      return isFileAnswer(value) && value.path.startsWith(`programs/${programId}/`) ? null : "Upload a file";
+
+    default:
+      return null;
+  }
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+function evaluateCondition(condition: VisibilityCondition, answer: unknown): boolean {
+  const expected = normalize(condition.value);
+  const values = Array.isArray(answer) ? answer.map(normalize) : [normalize(answer)];
+
+  switch (condition.operator) {
+    case "answered":
+      return !isAnswerEmpty(answer);
+    case "not_answered":
+      return isAnswerEmpty(answer);
+    case "equals":
+      return !isAnswerEmpty(answer) && values.includes(expected);
+    case "not_equals":
+      return !values.includes(expected);
+    case "contains":
+      return values.some((v) => v.includes(expected));
+    case "greater_than":
+    case "less_than": {
+      if (isAnswerEmpty(answer) || isNaN(Number(answer)) || condition.value === undefined || isNaN(Number(condition.value))) {
+        return false;
+      }
+      return condition.operator === "greater_than"
+        ? Number(answer) > Number(condition.value)
+        : Number(answer) < Number(condition.value);
+    }
+    default:
+      return true;
+  }
+}
+
+function isRuleSatisfied(rule: VisibilityRule | null, answers: Record<string, unknown>, questionIds: Set<string>): boolean {
+  const conditions = (rule?.conditions ?? []).filter((c) => questionIds.has(c.question_id));
+  if (conditions.length === 0) return true;
+
+  const results = conditions.map((c) => evaluateCondition(c, answers[c.question_id]));
+  return rule!.match === "any" ? results.some(Boolean) : results.every(Boolean);
+}
+
+interface FormPage {
+  section: FormQuestion | null;
+  questions: FormQuestion[];
+}
+
+// Questions the applicant was shown for these answers, walking pages as the form does
+export function getVisibleQuestions(questions: FormQuestion[], answers: Record<string, unknown>): FormQuestion[] {
+  const pages: FormPage[] = [{ section: null, questions: [] }];
+  [...questions]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .forEach((question) => {
+      if (question.question_type === SECTION_QUESTION_TYPE) pages.push({ section: question, questions: [] });
+      else pages[pages.length - 1].questions.push(question);
+    });
+  const questionIds = new Set(questions.map((q) => q.id));
+
+  const isPageShown = (page: FormPage, shown: Record<string, unknown>) =>
+    !page.section || isRuleSatisfied(getVisibilityRule(page.section), shown, questionIds);
+
+  const getNextPageIndex = (pageIndex: number, pageQuestions: FormQuestion[], shown: Record<string, unknown>) => {
+    let target: string | null = null;
+    pageQuestions.forEach((question) => {
+      if (!SKIP_QUESTION_TYPES.includes(question.question_type)) return;
+      const answer = shown[question.id];
+      if (isAnswerEmpty(answer)) return;
+      const skipTo = getConfig(question).skip_to?.[String(answer)];
+      if (skipTo) target = skipTo;
+    });
+
+    if (target === SKIP_TO_END) return null;
+    if (target) {
+      const targetIndex = pages.findIndex((p) => p.section?.id === target);
+      if (targetIndex > pageIndex && isPageShown(pages[targetIndex], shown)) return targetIndex;
+    }
+
+    for (let next = pageIndex + 1; next < pages.length; next++) {
+      if (isPageShown(pages[next], shown)) return next;
+    }
+    return null;
+  };
+
+  const visible: FormQuestion[] = [];
+  const shown: Record<string, unknown> = {};
+  let pageIndex: number | null = 0;
+
+  while (pageIndex !== null) {
+    const pageQuestions = pages[pageIndex].questions.filter((q) =>
+      isRuleSatisfied(getVisibilityRule(q), shown, questionIds)
+    );
+    pageQuestions.forEach((question) => {
+      visible.push(question);
+      shown[question.id] = answers[question.id];
+    });
+    pageIndex = getNextPageIndex(pageIndex, pageQuestions, shown);
+  }
+  return visible;
+}
+
+// Same rules as validateFixedFields in FixedRegistrationFields
+export function validateFixedFields(fixed: Partial<FixedFields> | undefined): FieldErrors {
+  const errors: FieldErrors = {};
+  const name = String(fixed?.name ?? "").trim();
+  const mobile = String(fixed?.mobile ?? "").trim();
+
+  if (!name) errors["_fixed.name"] = "Name is required";
+  if (!mobile) errors["_fixed.mobile"] = "Mobile number is required";
+  else if (!/^\d{10}$/.test(mobile)) errors["_fixed.mobile"] = "Mobile number must be 10 digits";
+  if (!fixed?.panchayath_id) errors["_fixed.panchayath_id"] = "Please select a panchayath";
+  if (!fixed?.ward) errors["_fixed.ward"] = "Please select a ward";
+
+  return errors;
+}
+
+// Required and format checks for every question the applicant was shown. Answers to
+// questions that were hidden or skipped are dropped rather than stored.
+export function validateAnswers(
+  questions: FormQuestion[],
+  answers: Record<string, unknown>,
+  programId: string,
+): { errors: FieldErrors; answers: Record<string, unknown> } {
+  const errors: FieldErrors = {};
+  const kept: Record<string, unknown> = {};
+
+  getVisibleQuestions(questions, answers).forEach((question) => {
+    const answer = answers[question.id];
+    if (isAnswerEmpty(answer)) {
+      if (question.is_required) errors[question.id] = "This field is required";
+      return;
+    }
+
+    const problem = validateAnswer(question, answer, programId);
+    if (problem) errors[question.id] = problem;
+    else kept[question.id] = answer;
+  });
+
+  return { errors, answers: kept };
+}
@@ -0,0 +1,123 @@
+import { type FormQuestion, getVisibleQuestions } from "./registrationForm.ts";
+
+// Server-side copy of the marking rules in src/lib/formScoring.ts. Saved verifications are
+// re-marked here from the question settings, so the totals and ranks do not depend on what
+// the reviewer's browser worked out.
+
+interface ScoringConfig {
+  scored?: boolean;
+  max_marks?: number;
+  weight?: number;
+  option_points?: Record<string, number>;
+}
+
+export interface ScoreResult {
+  scores: Record<string, number>;
+  total_score: number;
+  max_score: number;
+  percentage: number;
+}
+
+const DEFAULT_MAX_MARKS = 10;
+const DEFAULT_WEIGHT = 1;
+const AUTO_SCORE_QUESTION_TYPES = ["select", "radio", "checkbox", "yes_no"];
+const PERSONAL_DETAIL_WORDS = ["name", "mobile", "panchayath", "ward", "cluster"];
+
+function getConfig(question: FormQuestion): ScoringConfig {
+  const config = question.config;
+  return config && typeof config === "object" && !Array.isArray(config) ? (config as ScoringConfig) : {};
+}
+
+function isScoredQuestion(question: FormQuestion): boolean {
+  const { scored } = getConfig(question);
+  if (scored !== undefined) return scored;
+  const text = question.question_text.toLowerCase();
+  return !PERSONAL_DETAIL_WORDS.some((word) => text.includes(word));
+}
+
+function getMaxMarks(question: FormQuestion): number {
+  const maxMarks = getConfig(question).max_marks;
+  return maxMarks && maxMarks > 0 ? maxMarks : DEFAULT_MAX_MARKS;
+}
+
+function getWeight(question: FormQuestion): number {
+  const weight = getConfig(question).weight;
+  return weight && weight > 0 ? weight : DEFAULT_WEIGHT;
+}
+
+function clampScore(question: FormQuestion, value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(getMaxMarks(question), Math.max(0, value));
+}
+
+function getAutoScore(question: FormQuestion, answer: unknown): number | null {
+  if (!AUTO_SCORE_QUESTION_TYPES.includes(question.question_type)) return null;
+  const points = getConfig(question).option_points ?? {};
+  if (Object.keys(points).length === 0) return null;
+
+  const chosen = Array.isArray(answer) ? answer : answer == null ? [] : [answer];
+  return clampScore(question, chosen.reduce<number>((sum, value) => sum + (points[String(value)] ?? 0), 0));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Marks each scored question the applicant was shown and adds them up by weight
+export function scoreRegistration(
+  questions: FormQuestion[],
+  answers: Record<string, unknown>,
+  manualScores: Record<string, unknown>,
+): ScoreResult {
+  const scores: Record<string, number> = {};
+  let total = 0;
+  let max = 0;
+
+  getVisibleQuestions(questions, answers)
+    .filter(isScoredQuestion)
+    .forEach((question) => {
+      const score = getAutoScore(question, answers[question.id]) ??
+        clampScore(question, Number(manualScores[question.id] ?? 0));
+      const weight = getWeight(question);
+      scores[question.id] = score;
+      total += score * weight;
+      max += getMaxMarks(question) * weight;
+    });
+
+  return {
+    scores,
+    total_score: round2(total),
+    max_score: round2(max),
+    percentage: max > 0 ? round2((total / max) * 100) : 0,
+  };
+}
+
+export type ScoreAggregation = "average" | "median";
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Combines reviewers' marks question by question; scoreRegistration() then weights the result
+export function combineReviewScores(
+  reviewScores: Record<string, number>[],
+  method: ScoreAggregation,
+): Record<string, number> {
+  const questionIds = new Set(reviewScores.flatMap((scores) => Object.keys(scores)));
+  const combined: Record<string, number> = {};
+  questionIds.forEach((questionId) => {
+    const values = reviewScores.map((scores) => Number(scores[questionId] ?? 0));
+    combined[questionId] = round2(
+      method === "median" ? median(values) : values.reduce((sum, value) => sum + value, 0) / values.length,
+    );
+  });
+  return combined;
+}
+
+// Reviewers disagree when their percentages are further apart than the threshold (in points)
+export function reviewsDisagree(percentages: number[], threshold: number): boolean {
+  if (percentages.length < 2) return false;
+  return Math.max(...percentages) - Math.min(...percentages) > threshold;
+}
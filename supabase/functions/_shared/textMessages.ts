@@ -0,0 +1,23 @@
+// SMS/WhatsApp messages go out through optional webhooks that take { phone, message }.
+// Each kind of message has its own webhook setting so it can be routed (or left off) separately.
+
+export async function sendTextMessage(webhookEnv: string, phone: string, message: string): Promise<boolean> {
+  const webhookUrl = Deno.env.get(webhookEnv);
+  if (!webhookUrl) {
+    console.warn(`${webhookEnv} not configured; message was not delivered`);
+    return false;
+  }
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ phone, message }),
+    });
+    if (!response.ok) console.error(`Message delivery via ${webhookEnv} failed:`, response.status);
+    return response.ok;
+  } catch (error) {
+    console.error(`Message delivery via ${webhookEnv} failed:`, error);
+    return false;
+  }
+}
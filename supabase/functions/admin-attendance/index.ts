@@ -0,0 +1,347 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  authenticate,
+  canAccessDivision,
+  hasCapability,
+  type Principal,
+  principalId,
+  requireCapability,
+} from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const SESSION_COLUMNS = "id, program_id, name, starts_at, sort_order, created_at";
+const ATTENDANCE_COLUMNS = "id, session_id, registration_id, checked_in_at, method";
+const SESSION_ACTIONS = ["create_session", "delete_session"];
+const PAGE_SIZE = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Matches holdsSeat() in src/lib/registrationStatus.ts
+const NO_SEAT_STATUSES = ["waitlisted", "rejected", "withdrawn"];
+
+interface AttendanceProgram {
+  id: string;
+  division_id: string;
+}
+
+// The program, when it exists, the admin may work on it and it has the attendance module
+async function loadProgram(
+  supabase: SupabaseClient,
+  principal: Principal,
+  programId: unknown,
+): Promise<{ program: AttendanceProgram; response?: undefined } | { response: Response; program?: undefined }> {
+  if (typeof programId !== "string" || !UUID_PATTERN.test(programId)) {
+    return { response: jsonResponse({ error: "program_id is required" }, 400) };
+  }
+
+  const { data: program } = await supabase
+    .from("programs")
+    .select("id, division_id, modules:program_modules(module_type)")
+    .eq("id", programId)
+    .maybeSingle();
+
+  if (!program) {
+    return { response: jsonResponse({ error: "Program not found" }, 404) };
+  }
+  if (!canAccessDivision(principal, program.division_id)) {
+    return { response: jsonResponse({ error: "Access denied: Program belongs to different division" }, 403) };
+  }
+  const modules = (program.modules ?? []) as { module_type: string }[];
+  if (!modules.some((m) => m.module_type === "attendance")) {
+    return { response: jsonResponse({ error: "Attendance is not enabled for this program" }, 400) };
+  }
+  return { program: { id: program.id, division_id: program.division_id } };
+}
+
+// Every check-in for the program, page by page past the API row limit
+async function loadAttendance(supabase: SupabaseClient, programId: string) {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("program_attendance")
+      .select(ATTENDANCE_COLUMNS)
+      .eq("program_id", programId)
+      .order("checked_in_at")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// A scanned QR code holds the registration ID; a typed code may also be the mobile number
+async function findRegistration(supabase: SupabaseClient, programId: string, code: string) {
+  const trimmed = code.trim();
+  const mobile = trimmed.replace(/\D/g, "").replace(/^91(?=\d{10}$)/, "");
+  const columns = "id, status, answers";
+
+  if (UUID_PATTERN.test(trimmed)) {
+    const { data } = await supabase
+      .from("program_registrations")
+      .select(columns)
+      .eq("program_id", programId)
+      .eq("id", trimmed.toLowerCase());
+    return data ?? [];
+  }
+  if (/^\d{10}$/.test(mobile)) {
+    const { data } = await supabase
+      .from("program_registrations")
+      .select(columns)
+      .eq("program_id", programId)
+      .eq("answers->_fixed->>mobile", mobile);
+    return data ?? [];
+  }
+  return [];
+}
+
+function applicantSummary(registration: { id: string; status: string; answers: unknown }) {
+  const fixed = (registration.answers as { _fixed?: Record<string, string> } | null)?._fixed ?? {};
+  return {
+    id: registration.id,
+    status: registration.status,
+    name: fixed.name ?? "",
+    mobile: fixed.mobile ?? "",
+    panchayath_name: fixed.panchayath_name ?? "",
+    ward: fixed.ward ?? "",
+  };
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
+
+    const body = await req.json();
+    const { action, data } = body;
+
+    // Sessions are set up by program editors and check-ins made by registration staff;
+    // either may see the counts
+    let denied: Response | null;
+    if (SESSION_ACTIONS.includes(action)) denied = requireCapability(principal, "programs.edit");
+    else if (action === "list" && hasCapability(principal, "programs.edit")) denied = null;
+    else denied = requireCapability(principal, "registrations.verify");
+    if (denied) return denied;
+
+    const loaded = await loadProgram(supabase, principal, data?.program_id);
+    if (loaded.response) return loaded.response;
+    const program = loaded.program;
+
+    switch (action) {
+      // Sessions with their check-ins, for the counts, the check-in screen and the export
+      case "list": {
+        const { data: sessions, error: sessionsError } = await supabase
+          .from("program_attendance_sessions")
+          .select(SESSION_COLUMNS)
+          .eq("program_id", program.id)
+          .order("sort_order")
+          .order("created_at");
+
+        if (sessionsError) {
+          console.error("Attendance sessions error:", sessionsError);
+          return jsonResponse({ error: "Failed to load attendance sessions" }, 500);
+        }
+
+        let attendance: Awaited<ReturnType<typeof loadAttendance>>;
+        try {
+          attendance = await loadAttendance(supabase, program.id);
+        } catch (attendanceError) {
+          console.error("Attendance error:", attendanceError);
+          return jsonResponse({ error: "Failed to load attendance" }, 500);
+        }
+
+        return jsonResponse({ sessions: sessions ?? [], attendance });
+      }
+
+      case "create_session": {
+        const name = typeof data.name === "string" ? data.name.trim() : "";
+        if (!name) {
+          return jsonResponse({ error: "Session name is required" }, 400);
+        }
+        if (data.starts_at != null && isNaN(Date.parse(data.starts_at))) {
+          return jsonResponse({ error: "Invalid session start time" }, 400);
+        }
+
+        const { count } = await supabase
+          .from("program_attendance_sessions")
+          .select("id", { count: "exact", head: true })
+          .eq("program_id", program.id);
+
+        const { data: session, error: insertError } = await supabase
+          .from("program_attendance_sessions")
+          .insert({
+            program_id: program.id,
+            name: name.slice(0, 100),
+            starts_at: data.starts_at ?? null,
+            sort_order: count ?? 0,
+          })
+          .select(SESSION_COLUMNS)
+          .single();
+
+        if (insertError) {
+          console.error("Attendance session insert error:", insertError);
+          return jsonResponse({ error: insertError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "create",
+          entityType: "program_attendance_sessions",
+          entityId: session.id,
+          divisionId: program.division_id,
+          after: session,
+        });
+
+        return jsonResponse({ success: true, session });
+      }
+
+      // Removes the session and every check-in recorded at it
+      case "delete_session": {
+        const { data: session } = await supabase
+          .from("program_attendance_sessions")
+          .select(SESSION_COLUMNS)
+          .eq("id", data.session_id)
+          .eq("program_id", program.id)
+          .maybeSingle();
+
+        if (!session) {
+          return jsonResponse({ error: "Session not found" }, 404);
+        }
+
+        const { error: deleteError } = await supabase.from("program_attendance_sessions").delete().eq("id", session.id);
+        if (deleteError) {
+          console.error("Attendance session delete error:", deleteError);
+          return jsonResponse({ error: deleteError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "program_attendance_sessions",
+          entityId: session.id,
+          divisionId: program.division_id,
+          before: session,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      // A second scan of the same code is not an error; it reports the first check-in
+      case "check_in": {
+        if (typeof data.code !== "string" || !data.code.trim()) {
+          return jsonResponse({ error: "Scan or enter a registration code" }, 400);
+        }
+
+        const { data: session } = await supabase
+          .from("program_attendance_sessions")
+          .select("id")
+          .eq("id", data.session_id)
+          .eq("program_id", program.id)
+          .maybeSingle();
+
+        if (!session) {
+          return jsonResponse({ error: "Session not found" }, 404);
+        }
+
+        const matches = await findRegistration(supabase, program.id, data.code);
+        if (matches.length === 0) {
+          return jsonResponse({ error: "No registration for this program matches this code" }, 404);
+        }
+        if (matches.length > 1) {
+          return jsonResponse(
+            { error: "Several registrations share this mobile number. Scan the QR code instead." },
+            409,
+          );
+        }
+
+        const applicant = applicantSummary(matches[0]);
+        if (NO_SEAT_STATUSES.includes(applicant.status)) {
+          return jsonResponse({ error: `This registration is ${applicant.status}`, registration: applicant }, 422);
+        }
+
+        const findExisting = () =>
+          supabase
+            .from("program_attendance")
+            .select(ATTENDANCE_COLUMNS)
+            .eq("session_id", session.id)
+            .eq("registration_id", applicant.id)
+            .maybeSingle();
+
+        const { data: existing } = await findExisting();
+        if (existing) {
+          return jsonResponse({ success: true, already_checked_in: true, registration: applicant, attendance: existing });
+        }
+
+        const { data: attendance, error: insertError } = await supabase
+          .from("program_attendance")
+          .insert({
+            program_id: program.id,
+            session_id: session.id,
+            registration_id: applicant.id,
+            checked_in_by: principalId(principal),
+            method: data.method === "manual" ? "manual" : "scan",
+          })
+          .select(ATTENDANCE_COLUMNS)
+          .single();
+
+        // Another device checked the same applicant in between the lookup and the insert
+        if (insertError?.code === "23505") {
+          const { data: raced } = await findExisting();
+          if (raced) {
+            return jsonResponse({ success: true, already_checked_in: true, registration: applicant, attendance: raced });
+          }
+        }
+        if (insertError) {
+          console.error("Check-in error:", insertError);
+          return jsonResponse({ error: insertError.message }, 400);
+        }
+
+        return jsonResponse({ success: true, already_checked_in: false, registration: applicant, attendance });
+      }
+
+      // Takes back a check-in made by mistake
+      case "undo_check_in": {
+        const { data: attendance } = await supabase
+          .from("program_attendance")
+          .select(`${ATTENDANCE_COLUMNS}, checked_in_by`)
+          .eq("id", data.attendance_id)
+          .eq("program_id", program.id)
+          .maybeSingle();
+
+        if (!attendance) {
+          return jsonResponse({ error: "Check-in not found" }, 404);
+        }
+
+        const { error: deleteError } = await supabase.from("program_attendance").delete().eq("id", attendance.id);
+        if (deleteError) {
+          console.error("Undo check-in error:", deleteError);
+          return jsonResponse({ error: deleteError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "program_attendance",
+          entityId: attendance.id,
+          divisionId: program.division_id,
+          before: attendance,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: "Invalid action" }, 400);
+    }
+  } catch (error) {
+    console.error("Error in admin-attendance:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -1,11 +1,208 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { invalidTokenResponse } from "../_shared/adminToken.ts";
+import {
+  refreshAdminSession,
+  revokeAdminSessions,
+  startAdminSession,
+  startImpersonationSession,
+  verifyAdminSession,
+} from "../_shared/adminSessions.ts";
+import { type AuditActor, recordAuditEvent } from "../_shared/audit.ts";
+import { resolveCapabilities } from "../_shared/capabilities.ts";
+import { getHashScheme, hashPassword, verifyPassword } from "../_shared/password.ts";
+import {
+  clearPhoneFailures,
+  getRetryAfter,
+  getThrottleKeys,
+  recordFailure,
+  tooManyAttemptsResponse,
+} from "../_shared/loginThrottle.ts";
+import { sendTextMessage } from "../_shared/textMessages.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
 };
 
+async function getProfileName(supabase: ReturnType<typeof createClient>, userId: string): Promise<string | null> {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("full_name")
+    .eq("id", userId)
+    .maybeSingle();
+  return profile?.full_name ?? null;
+}
+
+// Resolve the caller's Supabase JWT to a super admin audit actor, or null
+async function getSuperAdmin(req: Request, supabase: ReturnType<typeof createClient>): Promise<AuditActor | null> {
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const { data: userData, error } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+  if (error || !userData?.user) return null;
+
+  const { data: roleData } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userData.user.id)
+    .eq("role", "super_admin")
+    .maybeSingle();
+  if (!roleData) return null;
+
+  return {
+    type: "super_admin",
+    id: userData.user.id,
+    name: (await getProfileName(supabase, userData.user.id)) || userData.user.email || "Super Admin",
+  };
+}
+
+const ADMIN_COLUMNS = "id, user_id, division_id, full_name, access_all_divisions, additional_division_ids, is_active, is_read_only, cash_collection_enabled, cash_collection_division_ids, must_change_password, granted_capabilities, revoked_capabilities, admin_role:admin_roles(name, capabilities)";
+
+// Shape of a row selected with ADMIN_COLUMNS (plus password_hash where it is checked)
+interface AdminRow {
+  id: string;
+  user_id: string | null;
+  division_id: string;
+  full_name: string | null;
+  access_all_divisions: boolean;
+  additional_division_ids: string[];
+  is_active: boolean | null;
+  is_read_only: boolean;
+  cash_collection_enabled: boolean;
+  cash_collection_division_ids: string[];
+  must_change_password: boolean;
+  granted_capabilities: string[];
+  revoked_capabilities: string[];
+  admin_role: { name: string; capabilities: string[] } | null;
+  password_hash?: string | null;
+}
+
+const RESET_CODE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const RESET_CODE_MAX_ATTEMPTS = 5;
+// Issuing codes is limited per admin so the SMS webhook cannot be flooded
+const RESET_CODE_COOLDOWN_MS = 60 * 1000; // 1 minute
+const RESET_CODE_DAILY_LIMIT = 5;
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/\s+/g, "").trim();
+}
+
+// Public admin fields returned to the client (never includes password_hash)
+function toAdminResponse(admin: AdminRow) {
+  return {
+    id: admin.id,
+    user_id: admin.user_id,
+    division_id: admin.division_id,
+    full_name: admin.full_name,
+    access_all_divisions: admin.access_all_divisions,
+    additional_division_ids: admin.additional_division_ids,
+    is_read_only: admin.is_read_only,
+    cash_collection_enabled: admin.cash_collection_enabled,
+    cash_collection_division_ids: admin.cash_collection_division_ids,
+    must_change_password: admin.must_change_password,
+    role_name: admin.admin_role?.name ?? null,
+    capabilities: resolveCapabilities({
+      roleCapabilities: admin.admin_role?.capabilities,
+      granted: admin.granted_capabilities,
+      revoked: admin.revoked_capabilities,
+      isReadOnly: admin.is_read_only,
+    }),
+  };
+}
+
+// Look up an admin by phone and check the password, upgrading legacy hashes on success.
+// Failures count towards the per-phone and per-IP throttles; retryAfter is set while locked out.
+async function checkAdminPassword(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  phone: string,
+  password: string,
+): Promise<{ admin?: AdminRow; error?: string; retryAfter?: number }> {
+  const normalizedPhone = normalizePhone(phone);
+  console.log("Admin password check for phone:", normalizedPhone);
+
+  const throttleKeys = getThrottleKeys(req, normalizedPhone);
+  const lockedFor = await getRetryAfter(supabase, throttleKeys);
+  if (lockedFor > 0) {
+    console.log("Admin login throttled for", lockedFor, "seconds");
+    return { retryAfter: lockedFor };
+  }
+
+  const fail = async (error: string) => {
+    const retryAfter = await recordFailure(supabase, throttleKeys);
+    return { error, retryAfter: retryAfter > 0 ? retryAfter : undefined };
+  };
+
+  const { data: admin, error: adminError } = await supabase
+    .from("admins")
+    .select(`${ADMIN_COLUMNS}, password_hash`)
+    .eq("phone", normalizedPhone)
+    .single();
+
+  if (adminError || !admin) {
+    console.log("Admin not found:", adminError?.message);
+    return await fail("Invalid phone number or password");
+  }
+
+  if (!admin.is_active) {
+    console.log("Admin account is inactive");
+    return { error: "Your account has been deactivated. Contact Super Admin." };
+  }
+
+  if (!admin.password_hash) {
+    console.log("Admin password not set");
+    return { error: "Password not set. Contact Super Admin." };
+  }
+
+  const { valid, needsRehash } = await verifyPassword(password, admin.password_hash);
+
+  if (!valid) {
+    console.log("Password mismatch");
+    return await fail("Invalid phone number or password");
+  }
+
+  // Transparently upgrade legacy SHA-256 hashes now that we know the plaintext
+  if (needsRehash) {
+    const { error: rehashError } = await supabase
+      .from("admins")
+      .update({ password_hash: await hashPassword(password) })
+      .eq("id", admin.id);
+    if (rehashError) console.error("Password rehash failed:", rehashError);
+    else console.log("Upgraded admin password hash");
+  }
+
+  await clearPhoneFailures(supabase, throttleKeys);
+
+  return { admin };
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function generateResetCode(): string {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+  return value.toString().padStart(6, "0");
+}
+
+function generateTempPassword(): string {
+  // No ambiguous characters (0/O, 1/l/I) so it can be read out over the phone
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  return Array.from(bytes, (b) => alphabet[b % alphabet.length]).join("");
+}
+
+// Reset codes are delivered through an optional SMS/WhatsApp webhook
+async function deliverResetCode(phone: string, code: string): Promise<void> {
+  await sendTextMessage(
+    "ADMIN_RESET_WEBHOOK_URL",
+    phone,
+    `Your e-Life admin password reset code is ${code}. It expires in 15 minutes.`,
+  );
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -18,7 +215,7 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { phone, password, action } = await req.json();
+    const { phone, password, new_password, code, action, admin_id, refresh_token, throttle_key, jti, details } = await req.json();
     
     if (action === "refresh") {
       // Refresh admin data by admin ID - no phone/password needed
@@ -30,53 +227,60 @@ serve(async (req) => {
         );
       }
 
-      try {
-        const [payload] = adminToken.split(".");
-        const decoded = JSON.parse(atob(payload));
-        
-        if (!decoded.admin_id || (decoded.exp && decoded.exp < Date.now())) {
-          return new Response(
-            JSON.stringify({ error: "Invalid or expired token" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+      const decoded = await verifyAdminSession(supabase, adminToken);
+      if (!decoded) {
+        return invalidTokenResponse(corsHeaders);
+      }
 
-        const { data: admin, error: adminError } = await supabase
-          .from("admins")
-          .select("id, user_id, division_id, full_name, access_all_divisions, additional_division_ids, is_active, is_read_only, cash_collection_enabled, cash_collection_division_ids")
-          .eq("id", decoded.admin_id)
-          .single();
+      const { data: admin, error: adminError } = await supabase
+        .from("admins")
+        .select(ADMIN_COLUMNS)
+        .eq("id", decoded.admin_id)
+        .single();
 
-        if (adminError || !admin || !admin.is_active) {
-          return new Response(
-            JSON.stringify({ error: "Admin not found or inactive" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+      if (adminError || !admin || !admin.is_active) {
+        return new Response(
+          JSON.stringify({ error: "Admin not found or inactive" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
+      // An impersonating super admin only ever sees the admin's data read-only
+      const visibleAdmin = decoded.impersonated_by ? { ...admin, is_read_only: true } : admin;
+
+      return new Response(
+        JSON.stringify({ success: true, admin: toAdminResponse(visibleAdmin) }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "refresh_session") {
+      // Exchange a refresh token for a new access token; the access token may already be expired
+      if (!refresh_token) {
         return new Response(
-          JSON.stringify({
-            success: true,
-            admin: {
-              id: admin.id,
-              user_id: admin.user_id,
-              division_id: admin.division_id,
-              full_name: admin.full_name,
-              access_all_divisions: admin.access_all_divisions,
-              additional_division_ids: admin.additional_division_ids,
-              is_read_only: admin.is_read_only,
-              cash_collection_enabled: admin.cash_collection_enabled,
-              cash_collection_division_ids: admin.cash_collection_division_ids,
-            },
-          }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Refresh token required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
-      } catch {
+      }
+
+      const refreshed = await refreshAdminSession(supabase, refresh_token);
+      if (!refreshed) {
         return new Response(
-          JSON.stringify({ error: "Invalid token" }),
+          JSON.stringify({ error: "Session expired. Please sign in again.", code: "invalid_refresh_token" }),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
+
+      const { data: admin } = await supabase
+        .from("admins")
+        .select(ADMIN_COLUMNS)
+        .eq("id", refreshed.adminId)
+        .single();
+
+      return new Response(
+        JSON.stringify({ success: true, ...refreshed.tokens, admin: admin ? toAdminResponse(admin) : null }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     if (action === "login") {
@@ -87,96 +291,665 @@ serve(async (req) => {
         );
       }
 
-      // Normalize phone number (remove spaces, ensure format)
-      const normalizedPhone = phone.replace(/\s+/g, "").trim();
-      console.log("Admin login attempt for phone:", normalizedPhone);
-      
-      // Find admin by phone
-      const { data: admin, error: adminError } = await supabase
-        .from("admins")
-        .select("id, user_id, password_hash, is_active, division_id, full_name, access_all_divisions, additional_division_ids, is_read_only, cash_collection_enabled, cash_collection_division_ids")
-        .eq("phone", normalizedPhone)
-        .single();
-      
-      if (adminError || !admin) {
-        console.log("Admin not found:", adminError?.message);
+      const { admin, error: loginError, retryAfter } = await checkAdminPassword(supabase, req, phone, password);
+      if (retryAfter) {
+        return tooManyAttemptsResponse(corsHeaders, retryAfter);
+      }
+      if (!admin) {
         return new Response(
-          JSON.stringify({ error: "Invalid phone number or password" }),
+          JSON.stringify({ error: loginError }),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
       
-      if (!admin.is_active) {
-        console.log("Admin account is inactive");
+      // Temporary passwords must be replaced before a session is issued
+      if (admin.must_change_password) {
+        console.log("Admin must change password before login");
         return new Response(
-          JSON.stringify({ error: "Your account has been deactivated. Contact Super Admin." }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ success: true, must_change_password: true }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
       
-      if (!admin.password_hash) {
-        console.log("Admin password not set");
+      // Issue a short-lived access token plus refresh token and register the session
+      const session = await startAdminSession(supabase, {
+        admin_id: admin.id,
+        user_id: admin.user_id,
+        division_id: admin.division_id,
+        full_name: admin.full_name,
+      }, req);
+      
+      console.log("Admin login successful");
+      
+      return new Response(
+        JSON.stringify({ success: true, ...session, admin: toAdminResponse(admin) }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    
+    if (action === "change_password") {
+      // Works for both the forced first-login change and a voluntary change;
+      // either way the current password must be supplied.
+      let adminPhone = phone;
+      const adminToken = req.headers.get("x-admin-token");
+      if (!adminPhone && adminToken) {
+        const decoded = await verifyAdminSession(supabase, adminToken);
+        if (!decoded) {
+          return invalidTokenResponse(corsHeaders);
+        }
+        const { data: tokenAdmin } = await supabase
+          .from("admins")
+          .select("phone")
+          .eq("id", decoded.admin_id)
+          .single();
+        adminPhone = tokenAdmin?.phone;
+      }
+
+      if (!adminPhone || !password || !new_password) {
         return new Response(
-          JSON.stringify({ error: "Password not set. Contact Super Admin." }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Current and new password are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-      
-      // Verify password using bcrypt
-      const encoder = new TextEncoder();
-      const data = encoder.encode(password);
-      const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashedPassword = hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
-      
-      if (hashedPassword !== admin.password_hash) {
-        console.log("Password mismatch");
+
+      if (new_password.length < 6) {
+        return new Response(
+          JSON.stringify({ error: "New password must be at least 6 characters" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (new_password === password) {
         return new Response(
-          JSON.stringify({ error: "Invalid phone number or password" }),
+          JSON.stringify({ error: "New password must be different from the current password" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { admin, error: checkError, retryAfter } = await checkAdminPassword(supabase, req, adminPhone, password);
+      if (retryAfter) {
+        return tooManyAttemptsResponse(corsHeaders, retryAfter);
+      }
+      if (!admin) {
+        return new Response(
+          JSON.stringify({ error: checkError }),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-      
-      // Generate a custom session token for the admin
-      const tokenPayload = {
+
+      const { error: updateError } = await supabase
+        .from("admins")
+        .update({ password_hash: await hashPassword(new_password), must_change_password: false })
+        .eq("id", admin.id);
+
+      if (updateError) {
+        console.error("Change password error:", updateError);
+        return new Response(
+          JSON.stringify({ error: updateError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await recordAuditEvent(
+        supabase,
+        req,
+        { type: "admin", id: admin.id, name: admin.full_name },
+        { action: "change_password", entityType: "admins", entityId: admin.id, divisionId: admin.division_id },
+      );
+
+      // Sign out every other device, then start a fresh session here
+      await revokeAdminSessions(supabase, { adminId: admin.id }, "password_changed");
+      const session = await startAdminSession(supabase, {
         admin_id: admin.id,
         user_id: admin.user_id,
         division_id: admin.division_id,
         full_name: admin.full_name,
-        exp: Date.now() + (24 * 60 * 60 * 1000), // 24 hours
+      }, req);
+
+      console.log("Admin password changed");
+
+      return new Response(
+        JSON.stringify({ success: true, ...session, admin: toAdminResponse({ ...admin, must_change_password: false }) }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "request_reset") {
+      if (!phone) {
+        return new Response(
+          JSON.stringify({ error: "Phone number is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const normalizedPhone = normalizePhone(phone);
+      const throttleKeys = getThrottleKeys(req, normalizedPhone);
+      const lockedFor = await getRetryAfter(supabase, throttleKeys);
+      if (lockedFor > 0) {
+        return tooManyAttemptsResponse(corsHeaders, lockedFor);
+      }
+
+      const { data: admin } = await supabase
+        .from("admins")
+        .select("id, is_active")
+        .eq("phone", normalizedPhone)
+        .maybeSingle();
+
+      // Probing unregistered numbers counts as a failed attempt
+      if (!admin) await recordFailure(supabase, throttleKeys);
+
+      // A recent or over-limit request keeps the earlier code valid and sends nothing new
+      let canIssue = !!admin?.is_active;
+      if (canIssue) {
+        const { data: recent } = await supabase
+          .from("admin_password_resets")
+          .select("created_at")
+          .eq("admin_id", admin.id)
+          .gte("created_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+          .order("created_at", { ascending: false })
+          .limit(RESET_CODE_DAILY_LIMIT);
+
+        const last = recent?.[0] ? new Date(recent[0].created_at).getTime() : 0;
+        if ((recent?.length ?? 0) >= RESET_CODE_DAILY_LIMIT || Date.now() - last < RESET_CODE_COOLDOWN_MS) {
+          console.log("Reset code not issued: cooldown or daily limit reached");
+          canIssue = false;
+        }
+      }
+
+      // Same response whether or not the phone is registered
+      if (canIssue) {
+        // Invalidate any earlier outstanding codes
+        await supabase
+          .from("admin_password_resets")
+          .update({ used_at: new Date().toISOString() })
+          .eq("admin_id", admin.id)
+          .is("used_at", null);
+
+        const resetCode = generateResetCode();
+        const { error: insertError } = await supabase
+          .from("admin_password_resets")
+          .insert({
+            admin_id: admin.id,
+            code_hash: await sha256Hex(resetCode),
+            expires_at: new Date(Date.now() + RESET_CODE_TTL_MS).toISOString(),
+          });
+
+        if (insertError) {
+          console.error("Reset code insert error:", insertError);
+        } else {
+          await deliverResetCode(normalizedPhone, resetCode);
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: "If this phone number is registered, a reset code has been sent." }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "reset_password") {
+      if (!phone || !code || !new_password) {
+        return new Response(
+          JSON.stringify({ error: "Phone, reset code and new password are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (new_password.length < 6) {
+        return new Response(
+          JSON.stringify({ error: "New password must be at least 6 characters" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Wrong codes count towards the same per-phone and per-IP throttles as wrong passwords
+      const throttleKeys = getThrottleKeys(req, normalizePhone(phone));
+      const lockedFor = await getRetryAfter(supabase, throttleKeys);
+      if (lockedFor > 0) {
+        return tooManyAttemptsResponse(corsHeaders, lockedFor);
+      }
+
+      const invalidCode = async () => {
+        const retryAfter = await recordFailure(supabase, throttleKeys);
+        if (retryAfter > 0) return tooManyAttemptsResponse(corsHeaders, retryAfter);
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired reset code" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       };
-      
-      // Sign the token
-      const tokenData = JSON.stringify(tokenPayload);
-      const tokenEncoder = new TextEncoder();
-      const tokenBuffer = tokenEncoder.encode(tokenData + supabaseServiceKey);
-      const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-      const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-      const signature = signatureArray.map(b => b.toString(16).padStart(2, "0")).join("");
-      
-      const token = btoa(tokenData) + "." + signature;
-      
-      console.log("Admin login successful");
-      
+
+      const { data: admin } = await supabase
+        .from("admins")
+        .select("id, full_name, division_id, is_active")
+        .eq("phone", normalizePhone(phone))
+        .maybeSingle();
+
+      if (!admin?.is_active) return await invalidCode();
+
+      const { data: reset } = await supabase
+        .from("admin_password_resets")
+        .select("id, code_hash, expires_at, attempts")
+        .eq("admin_id", admin.id)
+        .is("used_at", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!reset || new Date(reset.expires_at).getTime() < Date.now() || reset.attempts >= RESET_CODE_MAX_ATTEMPTS) {
+        return await invalidCode();
+      }
+
+      if ((await sha256Hex(String(code).trim())) !== reset.code_hash) {
+        await supabase
+          .from("admin_password_resets")
+          .update({ attempts: reset.attempts + 1 })
+          .eq("id", reset.id);
+        return await invalidCode();
+      }
+
+      const { error: updateError } = await supabase
+        .from("admins")
+        .update({ password_hash: await hashPassword(new_password), must_change_password: false })
+        .eq("id", admin.id);
+
+      if (updateError) {
+        console.error("Reset password error:", updateError);
+        return new Response(
+          JSON.stringify({ error: updateError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await supabase
+        .from("admin_password_resets")
+        .update({ used_at: new Date().toISOString() })
+        .eq("id", reset.id);
+      await clearPhoneFailures(supabase, throttleKeys);
+      await revokeAdminSessions(supabase, { adminId: admin.id }, "password_reset");
+      await recordAuditEvent(
+        supabase,
+        req,
+        { type: "admin", id: admin.id, name: admin.full_name },
+        { action: "reset_password", entityType: "admins", entityId: admin.id, divisionId: admin.division_id },
+      );
+
+      console.log("Admin password reset via code");
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "issue_temp_password") {
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!admin_id) {
+        return new Response(
+          JSON.stringify({ error: "admin_id is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const tempPassword = generateTempPassword();
+      const { error: updateError } = await supabase
+        .from("admins")
+        .update({ password_hash: await hashPassword(tempPassword), must_change_password: true })
+        .eq("id", admin_id);
+
+      if (updateError) {
+        console.error("Temp password error:", updateError);
+        return new Response(
+          JSON.stringify({ error: updateError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await revokeAdminSessions(supabase, { adminId: admin_id }, "temp_password_issued");
+      await recordAuditEvent(
+        supabase,
+        req,
+        superAdmin,
+        { action: "issue_temp_password", entityType: "admins", entityId: admin_id },
+      );
+
+      // Returned once so the super admin can pass it on; it is never stored in plaintext
+      return new Response(
+        JSON.stringify({ success: true, temp_password: tempPassword }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "logout" || action === "logout_all") {
+      const adminToken = req.headers.get("x-admin-token");
+      const decoded = adminToken ? await verifyAdminSession(supabase, adminToken) : null;
+      if (!decoded) {
+        return invalidTokenResponse(corsHeaders);
+      }
+
+      if (decoded.impersonated_by) {
+        // Ending a "view as admin" session never touches the admin's own sessions
+        await revokeAdminSessions(supabase, { jti: decoded.jti }, "impersonation_ended");
+        await recordAuditEvent(
+          supabase,
+          req,
+          { type: "super_admin", id: decoded.impersonated_by, name: await getProfileName(supabase, decoded.impersonated_by) },
+          {
+            action: "impersonate_stop",
+            entityType: "admins",
+            entityId: decoded.admin_id,
+            divisionId: decoded.division_id,
+            after: { session_id: decoded.jti },
+          },
+        );
+      } else if (action === "logout_all") {
+        await revokeAdminSessions(supabase, { adminId: decoded.admin_id }, "signed_out_everywhere");
+      } else {
+        await revokeAdminSessions(supabase, { jti: decoded.jti }, "signed_out");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "impersonate") {
+      // Super admin views the app as a division admin; the session is read-only and short-lived
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!admin_id) {
+        return new Response(
+          JSON.stringify({ error: "admin_id is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: admin } = await supabase
+        .from("admins")
+        .select(ADMIN_COLUMNS)
+        .eq("id", admin_id)
+        .maybeSingle();
+
+      if (!admin || !admin.is_active) {
+        return new Response(
+          JSON.stringify({ error: "Admin not found or inactive" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const session = await startImpersonationSession(
+        supabase,
+        {
+          admin_id: admin.id,
+          user_id: admin.user_id,
+          division_id: admin.division_id,
+          full_name: admin.full_name,
+        },
+        superAdmin.id!,
+        req,
+      );
+
+      await recordAuditEvent(supabase, req, superAdmin, {
+        action: "impersonate_start",
+        entityType: "admins",
+        entityId: admin.id,
+        divisionId: admin.division_id,
+        after: { session_id: session.jti, expires_at: new Date(session.expires_at * 1000).toISOString() },
+      });
+
       return new Response(
         JSON.stringify({
           success: true,
-          token,
-          admin: {
-            id: admin.id,
-            user_id: admin.user_id,
-            division_id: admin.division_id,
-            full_name: admin.full_name,
-            access_all_divisions: admin.access_all_divisions,
-            additional_division_ids: admin.additional_division_ids,
-            is_read_only: admin.is_read_only,
-            cash_collection_enabled: admin.cash_collection_enabled,
-            cash_collection_division_ids: admin.cash_collection_division_ids,
-          },
+          token: session.token,
+          expires_at: session.expires_at,
+          admin: toAdminResponse({ ...admin, is_read_only: true }),
+          impersonated_by: { id: superAdmin.id, name: superAdmin.name },
         }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+
+    if (action === "create_admin") {
+      // Super admin adds an admin; the row is inserted with its password hash in one step
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const normalizedPhone = phone ? normalizePhone(phone) : "";
+      if (normalizedPhone.length < 10 || !password || password.length < 6 || !details?.division_id) {
+        return new Response(
+          JSON.stringify({ error: "Phone number, division and a password of at least 6 characters are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existing } = await supabase
+        .from("admins")
+        .select("id")
+        .eq("phone", normalizedPhone)
+        .maybeSingle();
+      if (existing) {
+        return new Response(
+          JSON.stringify({ error: "An admin with this phone number already exists" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: created, error: insertError } = await supabase
+        .from("admins")
+        .insert({
+          division_id: details.division_id,
+          created_by: superAdmin.id,
+          phone: normalizedPhone,
+          full_name: details.full_name ?? null,
+          is_read_only: !!details.is_read_only,
+          cash_collection_enabled: !!details.cash_collection_enabled,
+          cash_collection_division_ids: Array.isArray(details.cash_collection_division_ids)
+            ? details.cash_collection_division_ids
+            : [],
+          password_hash: await hashPassword(password),
+        })
+        .select("id, division_id, phone, full_name, is_read_only, cash_collection_enabled, cash_collection_division_ids")
+        .single();
+
+      if (insertError) {
+        console.error("Create admin error:", insertError);
+        return new Response(
+          JSON.stringify({ error: insertError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await recordAuditEvent(
+        supabase,
+        req,
+        superAdmin,
+        { action: "create", entityType: "admins", entityId: created.id, divisionId: created.division_id, after: created },
+      );
+
+      return new Response(
+        JSON.stringify({ success: true, admin_id: created.id }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "set_password") {
+      // Super admin sets (or resets) an admin's password; hashing happens here only
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!admin_id || !password || password.length < 6) {
+        return new Response(
+          JSON.stringify({ error: "admin_id and a password of at least 6 characters are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: updateError } = await supabase
+        .from("admins")
+        .update({ password_hash: await hashPassword(password) })
+        .eq("id", admin_id);
+
+      if (updateError) {
+        console.error("Set password error:", updateError);
+        return new Response(
+          JSON.stringify({ error: updateError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await revokeAdminSessions(supabase, { adminId: admin_id }, "password_set_by_super_admin");
+      await recordAuditEvent(
+        supabase,
+        req,
+        superAdmin,
+        { action: "set_password", entityType: "admins", entityId: admin_id },
+      );
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "revoke_session") {
+      // Super admin signs out one of an admin's devices, or all of them when no jti is given
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!admin_id) {
+        return new Response(
+          JSON.stringify({ error: "admin_id is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await revokeAdminSessions(supabase, { adminId: admin_id, jti }, "revoked_by_super_admin");
+      await recordAuditEvent(
+        supabase,
+        req,
+        superAdmin,
+        { action: "revoke_session", entityType: "admins", entityId: admin_id, after: { session_id: jti ?? "all" } },
+      );
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "unlock_login") {
+      // Super admin clears a locked phone number or IP address
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!throttle_key) {
+        return new Response(
+          JSON.stringify({ error: "throttle_key is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: removed, error: deleteError } = await supabase
+        .from("admin_login_throttles")
+        .delete()
+        .eq("key", throttle_key)
+        .select("key, kind, failure_count, last_failure_at, locked_until")
+        .maybeSingle();
+
+      if (deleteError) {
+        console.error("Unlock login error:", deleteError);
+        return new Response(
+          JSON.stringify({ error: deleteError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (removed) {
+        await recordAuditEvent(
+          supabase,
+          req,
+          superAdmin,
+          { action: "unlock_login", entityType: "admin_login_throttles", entityId: removed.key, before: removed },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "password_hash_report") {
+      const superAdmin = await getSuperAdmin(req, supabase);
+      if (!superAdmin) {
+        return new Response(
+          JSON.stringify({ error: "Super admin only" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: admins, error: listError } = await supabase
+        .from("admins")
+        .select("id, full_name, phone, is_active, password_hash");
+
+      if (listError) {
+        return new Response(
+          JSON.stringify({ error: listError.message }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const report = { total: 0, pbkdf2: 0, legacy_sha256: 0, not_set: 0 };
+      const legacyAdmins: { id: string; full_name: string | null; phone: string | null; is_active: boolean }[] = [];
+
+      for (const a of admins || []) {
+        report.total++;
+        const scheme = getHashScheme(a.password_hash);
+        if (scheme === "pbkdf2") report.pbkdf2++;
+        else if (scheme === "legacy_sha256") {
+          report.legacy_sha256++;
+          legacyAdmins.push({ id: a.id, full_name: a.full_name, phone: a.phone, is_active: a.is_active });
+        } else report.not_set++;
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, report, legacy_admins: legacyAdmins }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
     
     return new Response(
       JSON.stringify({ error: "Invalid action" }),
@@ -1,127 +1,38 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-};
-
-async function validateAuth(req: Request, supabase: any) {
-  // Try admin token first
-  const adminToken = req.headers.get("x-admin-token");
-  if (adminToken) {
-    try {
-      const [payload] = adminToken.split(".");
-      const decoded = JSON.parse(atob(payload));
-      if (!decoded.exp || decoded.exp <= Date.now()) return null;
-      if (!decoded.admin_id || !decoded.division_id) return null;
-
-      // Fetch admin record to get cash_collection_division_ids
-      const { data: adminRecord } = await supabase
-        .from("admins")
-        .select("full_name, is_read_only, cash_collection_enabled, cash_collection_division_ids")
-        .eq("id", decoded.admin_id)
-        .single();
-
-      return {
-        adminId: decoded.admin_id,
-        divisionId: decoded.division_id,
-        adminName: adminRecord?.full_name || decoded.full_name || "Admin",
-        isReadOnly: adminRecord?.is_read_only || false,
-        isSuperAdmin: false,
-        cashCollectionEnabled: adminRecord?.cash_collection_enabled || false,
-        cashCollectionDivisionIds: adminRecord?.cash_collection_division_ids || [],
-      };
-    } catch {
-      // fall through to JWT check
-    }
-  }
-
-  // Try Supabase JWT for super admins
-  const authHeader = req.headers.get("authorization");
-  if (authHeader?.startsWith("Bearer ")) {
-    try {
-      const token = authHeader.replace("Bearer ", "");
-      const { data: userData, error } = await supabase.auth.getUser(token);
-      if (error || !userData?.user) return null;
-
-      const userId = userData.user.id;
-
-      // Check if user is super_admin
-      const { data: roleData } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", userId)
-        .eq("role", "super_admin")
-        .maybeSingle();
-
-      if (!roleData) return null;
-
-      // Get profile name
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("full_name")
-        .eq("id", userId)
-        .maybeSingle();
-
-      return {
-        adminId: userId,
-        divisionId: null, // super admin can access any division
-        adminName: profile?.full_name || userData.user.email || "Super Admin",
-        isReadOnly: false,
-        isSuperAdmin: true,
-        cashCollectionEnabled: true,
-        cashCollectionDivisionIds: [],
-      };
-    } catch {
-      return null;
-    }
-  }
-
-  return null;
-}
+import { authenticate, canCollectCash, principalId, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
 
 Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const admin = await validateAuth(req, supabase);
-    if (!admin) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+    const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
+    const isSuperAdmin = principal.kind === "super_admin";
+    // Super admins have no home division and must name one explicitly
+    const homeDivisionId = principal.kind === "admin" ? principal.divisionId : null;
 
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
     const requestedDivisionId = url.searchParams.get("division_id");
 
     // Check if admin has access to the requested division for cash collections
-    if (!admin.isSuperAdmin && requestedDivisionId && requestedDivisionId !== admin.divisionId) {
-      const hasCashAccess = admin.cashCollectionEnabled && 
-        admin.cashCollectionDivisionIds.includes(requestedDivisionId);
-      if (!hasCashAccess) {
-        return new Response(JSON.stringify({ error: "No cash collection access for this division" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+    if (!canCollectCash(principal, requestedDivisionId)) {
+      return jsonResponse({ error: "No cash collection access for this division" }, 403);
     }
 
     // SEARCH: Find members/registrations by mobile number
     if (req.method === "GET" && action === "search_mobile") {
       const mobile = url.searchParams.get("mobile");
       if (!mobile || mobile.length < 3) {
-        return new Response(JSON.stringify({ results: [] }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ results: [] });
       }
 
       // Search members
@@ -169,14 +80,12 @@ Deno.serve(async (req) => {
         });
       });
 
-      return new Response(JSON.stringify({ results }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ results });
     }
 
     // GET: Fetch collections for a division
     if (req.method === "GET" && action === "list") {
-      const divisionId = url.searchParams.get("division_id") || admin.divisionId;
+      const divisionId = url.searchParams.get("division_id") || homeDivisionId;
       const status = url.searchParams.get("status");
 
       let query = supabase
@@ -192,20 +101,15 @@ Deno.serve(async (req) => {
       const { data, error } = await query;
 
       if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: error.message }, 500);
       }
 
-      return new Response(JSON.stringify({ collections: data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ collections: data });
     }
 
     // GET: Collection report/summary
     if (req.method === "GET" && action === "report") {
-      const divisionId = url.searchParams.get("division_id") || admin.divisionId;
+      const divisionId = url.searchParams.get("division_id") || homeDivisionId;
 
       const { data, error } = await supabase
         .from("cash_collections")
@@ -214,10 +118,7 @@ Deno.serve(async (req) => {
         .order("created_at", { ascending: false });
 
       if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: error.message }, 500);
       }
 
       const collections = data || [];
@@ -226,7 +127,7 @@ Deno.serve(async (req) => {
       const verifiedAmount = collections.filter((c: any) => c.status === "verified").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
       const submittedAmount = collections.filter((c: any) => c.status === "submitted").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         report: {
           totalCollected,
           pendingAmount,
@@ -238,36 +139,31 @@ Deno.serve(async (req) => {
           submittedCount: collections.filter((c: any) => c.status === "submitted").length,
         },
         collections,
-      }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
     // POST: Create new collection
     if (req.method === "POST") {
-      if (admin.isReadOnly) {
-        return new Response(JSON.stringify({ error: "Read-only admins cannot create collections" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+      const denied = requireCapability(principal, "cash.collect");
+      if (denied) return denied;
 
       const body = await req.json();
       const { person_name, mobile, division_id, panchayath_id, panchayath_name, member_id, amount, notes } = body;
 
-      console.log("POST body division_id:", division_id, "admin.divisionId:", admin.divisionId, "final:", division_id || admin.divisionId);
+      console.log("POST body division_id:", division_id, "home division:", homeDivisionId, "final:", division_id || homeDivisionId);
 
       if (!person_name || !mobile || !amount) {
-        return new Response(JSON.stringify({ error: "person_name, mobile, and amount are required" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: "person_name, mobile, and amount are required" }, 400);
       }
 
       // Always use the explicitly provided division_id from the request body
       // This ensures the collection is recorded under the division the admin is currently viewing,
       // not their primary division from the admin token
-      const targetDivisionId = division_id || admin.divisionId;
+      const targetDivisionId = division_id || homeDivisionId;
+
+      if (!canCollectCash(principal, targetDivisionId)) {
+        return jsonResponse({ error: "No cash collection access for this division" }, 403);
+      }
 
       const { data, error } = await supabase
         .from("cash_collections")
@@ -280,33 +176,32 @@ Deno.serve(async (req) => {
           member_id: member_id || null,
           amount: Number(amount),
           notes: notes || null,
-          collected_by: admin.adminId,
-          collected_by_name: admin.adminName,
+          collected_by: principalId(principal),
+          collected_by_name: principal.name,
         })
         .select()
         .single();
 
       if (error) {
         console.error("Insert error:", error);
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: error.message }, 500);
       }
 
-      return new Response(JSON.stringify({ success: true, collection: data }), {
-        status: 201,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      await recordAuditEvent(supabase, req, principal, {
+        action: "create",
+        entityType: "cash_collections",
+        entityId: data.id,
+        divisionId: data.division_id,
+        after: data,
       });
+
+      return jsonResponse({ success: true, collection: data }, 201);
     }
 
     // GET: List ALL collections across divisions (super admin only)
     if (req.method === "GET" && action === "list_all") {
-      if (!admin.isSuperAdmin) {
-        return new Response(JSON.stringify({ error: "Super admin only" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      if (!isSuperAdmin) {
+        return jsonResponse({ error: "Super admin only" }, 403);
       }
 
       const status = url.searchParams.get("status");
@@ -320,24 +215,16 @@ Deno.serve(async (req) => {
 
       const { data, error } = await query;
       if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: error.message }, 500);
       }
 
-      return new Response(JSON.stringify({ collections: data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ collections: data });
     }
 
     // GET: Report across ALL divisions (super admin only)
     if (req.method === "GET" && action === "report_all") {
-      if (!admin.isSuperAdmin) {
-        return new Response(JSON.stringify({ error: "Super admin only" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      if (!isSuperAdmin) {
+        return jsonResponse({ error: "Super admin only" }, 403);
       }
 
       const { data, error } = await supabase
@@ -346,10 +233,7 @@ Deno.serve(async (req) => {
         .order("created_at", { ascending: false });
 
       if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: error.message }, 500);
       }
 
       const collections = data || [];
@@ -358,7 +242,7 @@ Deno.serve(async (req) => {
       const verifiedAmount = collections.filter((c: any) => c.status === "verified").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
       const submittedAmount = collections.filter((c: any) => c.status === "submitted").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         report: {
           totalCollected,
           pendingAmount,
@@ -370,8 +254,6 @@ Deno.serve(async (req) => {
           submittedCount: collections.filter((c: any) => c.status === "submitted").length,
         },
         collections,
-      }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
@@ -381,17 +263,11 @@ Deno.serve(async (req) => {
       const { collection_id, collection_ids, action: putAction } = body;
 
       if (putAction === "edit") {
-        if (!admin.isSuperAdmin) {
-          return new Response(JSON.stringify({ error: "Only super admin can edit collections" }), {
-            status: 403,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+        if (!isSuperAdmin) {
+          return jsonResponse({ error: "Only super admin can edit collections" }, 403);
         }
         if (!collection_id) {
-          return new Response(JSON.stringify({ error: "collection_id required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "collection_id required" }, 400);
         }
 
         const updateData: Record<string, any> = {};
@@ -403,6 +279,12 @@ Deno.serve(async (req) => {
         if (body.panchayath_name !== undefined) updateData.panchayath_name = body.panchayath_name;
         updateData.updated_at = new Date().toISOString();
 
+        const { data: before } = await supabase
+          .from("cash_collections")
+          .select("*")
+          .eq("id", collection_id)
+          .maybeSingle();
+
         const { data, error } = await supabase
           .from("cash_collections")
           .update(updateData)
@@ -411,144 +293,140 @@ Deno.serve(async (req) => {
           .single();
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: error.message }, 500);
         }
 
-        return new Response(JSON.stringify({ success: true, collection: data }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        await recordAuditEvent(supabase, req, principal, {
+          action: "update",
+          entityType: "cash_collections",
+          entityId: collection_id,
+          divisionId: data.division_id,
+          before,
+          after: data,
         });
+
+        return jsonResponse({ success: true, collection: data });
       }
 
       if (putAction === "verify") {
-        if (admin.isReadOnly) {
-          return new Response(JSON.stringify({ error: "Read-only admins cannot verify" }), {
-            status: 403,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
+        const denied = requireCapability(principal, "cash.verify");
+        if (denied) return denied;
 
         const id = collection_id;
         if (!id) {
-          return new Response(JSON.stringify({ error: "collection_id required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "collection_id required" }, 400);
         }
 
-        const { error } = await supabase
+        const { data: verified, error } = await supabase
           .from("cash_collections")
           .update({
             status: "verified",
-            verified_by: admin.adminId,
-            verified_by_name: admin.adminName,
+            verified_by: principalId(principal),
+            verified_by_name: principal.name,
             verified_at: new Date().toISOString(),
           })
           .eq("id", id)
-          .eq("status", "pending");
+          .eq("status", "pending")
+          .select("id, division_id, status, verified_by, verified_by_name, verified_at");
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          return jsonResponse({ error: error.message }, 500);
+        }
+
+        for (const collection of verified || []) {
+          await recordAuditEvent(supabase, req, principal, {
+            action: "verify",
+            entityType: "cash_collections",
+            entityId: collection.id,
+            divisionId: collection.division_id,
+            before: { status: "pending" },
+            after: collection,
           });
         }
 
-        return new Response(JSON.stringify({ success: true }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ success: true });
       }
 
       if (putAction === "submit") {
-        if (admin.isReadOnly) {
-          return new Response(JSON.stringify({ error: "Read-only admins cannot submit" }), {
-            status: 403,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
+        const denied = requireCapability(principal, "cash.submit");
+        if (denied) return denied;
 
         const ids = collection_ids || (collection_id ? [collection_id] : []);
         if (ids.length === 0) {
-          return new Response(JSON.stringify({ error: "collection_id(s) required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "collection_id(s) required" }, 400);
         }
 
-        const { error } = await supabase
+        const { data: submitted, error } = await supabase
           .from("cash_collections")
           .update({
             status: "submitted",
-            submitted_by: admin.adminId,
-            submitted_by_name: admin.adminName,
+            submitted_by: principalId(principal),
+            submitted_by_name: principal.name,
             submitted_at: new Date().toISOString(),
           })
           .in("id", ids)
-          .eq("status", "verified");
+          .eq("status", "verified")
+          .select("id, division_id, status, submitted_by, submitted_by_name, submitted_at");
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          return jsonResponse({ error: error.message }, 500);
+        }
+
+        for (const collection of submitted || []) {
+          await recordAuditEvent(supabase, req, principal, {
+            action: "submit",
+            entityType: "cash_collections",
+            entityId: collection.id,
+            divisionId: collection.division_id,
+            before: { status: "verified" },
+            after: collection,
           });
         }
 
-        return new Response(JSON.stringify({ success: true }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ success: true });
       }
 
-      return new Response(JSON.stringify({ error: "Invalid action" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ error: "Invalid action" }, 400);
     }
 
     // DELETE: Delete a collection (super admin only)
     if (req.method === "DELETE") {
-      if (!admin.isSuperAdmin) {
-        return new Response(JSON.stringify({ error: "Only super admin can delete collections" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      if (!isSuperAdmin) {
+        return jsonResponse({ error: "Only super admin can delete collections" }, 403);
       }
 
       const collectionId = url.searchParams.get("collection_id");
       if (!collectionId) {
-        return new Response(JSON.stringify({ error: "collection_id required" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: "collection_id required" }, 400);
       }
 
-      const { error } = await supabase
+      const { data: deleted, error } = await supabase
         .from("cash_collections")
         .delete()
-        .eq("id", collectionId);
+        .eq("id", collectionId)
+        .select()
+        .maybeSingle();
 
       if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        return jsonResponse({ error: error.message }, 500);
+      }
+
+      if (deleted) {
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "cash_collections",
+          entityId: collectionId,
+          divisionId: deleted.division_id,
+          before: deleted,
         });
       }
 
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ success: true });
     }
 
-    return new Response(JSON.stringify({ error: "Method not allowed" }), {
-      status: 405,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return jsonResponse({ error: "Method not allowed" }, 405);
   } catch (error) {
     console.error("Error:", error);
-    return new Response(JSON.stringify({ error: "Internal server error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return jsonResponse({ error: "Internal server error" }, 500);
   }
 });
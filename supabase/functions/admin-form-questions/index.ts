@@ -1,99 +1,21 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-admin-token",
-};
-
-interface AdminTokenPayload {
-  admin_id: string;
-  user_id: string;
-  division_id: string;
-  exp: number;
-}
-
-async function verifyAdminToken(
-  token: string,
-  serviceKey: string,
-): Promise<AdminTokenPayload | null> {
-  try {
-    const [payloadBase64, signature] = token.split(".");
-    if (!payloadBase64 || !signature) return null;
-
-    const tokenData = atob(payloadBase64);
-    const payload: AdminTokenPayload = JSON.parse(tokenData);
-
-    // Check expiry
-    if (payload.exp < Date.now()) {
-      console.log("Token expired");
-      return null;
-    }
-
-    // Verify signature
-    const tokenEncoder = new TextEncoder();
-    const tokenBuffer = tokenEncoder.encode(tokenData + serviceKey);
-    const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-    const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-    const expectedSignature = signatureArray
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
-
-    if (signature !== expectedSignature) {
-      console.log("Invalid signature");
-      return null;
-    }
-
-    return payload;
-  } catch (error) {
-    console.error("Token verification error:", error);
-    return null;
-  }
-}
+import { authenticate, isHomeDivision, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
 
 serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
-      return new Response(JSON.stringify({ error: "Admin token required" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const adminPayload = await verifyAdminToken(adminToken, supabaseServiceKey);
-    if (!adminPayload) {
-      return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // Verify admin is still active
-    const { data: admin, error: adminError } = await supabase
-      .from("admins")
-      .select("id, is_active, division_id")
-      .eq("id", adminPayload.admin_id)
-      .single();
-
-    if (adminError || !admin || !admin.is_active) {
-      return new Response(
-        JSON.stringify({ error: "Admin account not found or inactive" }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
-      );
-    }
+    const auth = await authenticate(req, supabase);
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
 
     const body = await req.json();
     const { action, data } = body as {
@@ -102,48 +24,37 @@ serve(async (req) => {
     };
 
     if (!action) {
-      return new Response(JSON.stringify({ error: "Action is required" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ error: "Action is required" }, 400);
     }
 
-    const divisionId = admin.division_id as string;
+    // Listing questions is read access; changing them is program editing
+    if (action !== "list") {
+      const denied = requireCapability(principal, "programs.edit");
+      if (denied) return denied;
+    }
 
-    async function verifyProgramAccess(programId: string): Promise<boolean> {
+    // Division of the program when it belongs to the admin's division, otherwise null
+    async function getAccessibleProgramDivision(programId: string): Promise<string | null> {
       const { data: program, error } = await supabase
         .from("programs")
         .select("division_id")
         .eq("id", programId)
         .single();
 
-      if (error || !program) return false;
-      return program.division_id === divisionId;
+      if (error || !program) return null;
+      return isHomeDivision(principal, program.division_id) ? program.division_id : null;
     }
 
     switch (action) {
       case "list": {
         const programId = String(data?.program_id || "");
         if (!programId) {
-          return new Response(
-            JSON.stringify({ error: "program_id is required" }),
-            {
-              status: 400,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+          return jsonResponse({ error: "program_id is required" }, 400);
         }
 
-        if (!(await verifyProgramAccess(programId))) {
-          return new Response(
-            JSON.stringify({
-              error: "You can only manage questions for programs in your division",
-            }),
-            {
-              status: 403,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+        const divisionId = await getAccessibleProgramDivision(programId);
+        if (!divisionId) {
+          return jsonResponse({ error: "You can only manage questions for programs in your division" }, 403);
         }
 
         const { data: questions, error } = await supabase
@@ -153,40 +64,21 @@ serve(async (req) => {
           .order("sort_order", { ascending: true });
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: error.message }, 400);
         }
 
-        return new Response(JSON.stringify({ success: true, questions }), {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ success: true, questions });
       }
 
       case "create": {
         const programId = String(data?.program_id || "");
         if (!programId) {
-          return new Response(
-            JSON.stringify({ error: "program_id is required" }),
-            {
-              status: 400,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+          return jsonResponse({ error: "program_id is required" }, 400);
         }
 
-        if (!(await verifyProgramAccess(programId))) {
-          return new Response(
-            JSON.stringify({
-              error: "You can only manage questions for programs in your division",
-            }),
-            {
-              status: 403,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+        const divisionId = await getAccessibleProgramDivision(programId);
+        if (!divisionId) {
+          return jsonResponse({ error: "You can only manage questions for programs in your division" }, 403);
         }
 
         const insertPayload = {
@@ -195,17 +87,13 @@ serve(async (req) => {
           question_type: String(data?.question_type || "text"),
           is_required: Boolean(data?.is_required || false),
           options: (data?.options ?? null) as unknown,
+          config: (data?.config ?? {}) as unknown,
+          visibility_rule: (data?.visibility_rule ?? null) as unknown,
           sort_order: Number(data?.sort_order ?? 0),
         };
 
         if (!insertPayload.question_text) {
-          return new Response(
-            JSON.stringify({ error: "question_text is required" }),
-            {
-              status: 400,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+          return jsonResponse({ error: "question_text is required" }, 400);
         }
 
         const { data: question, error } = await supabase
@@ -215,50 +103,39 @@ serve(async (req) => {
           .single();
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: error.message }, 400);
         }
 
-        return new Response(JSON.stringify({ success: true, question }), {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        await recordAuditEvent(supabase, req, principal, {
+          action: "create",
+          entityType: "program_form_questions",
+          entityId: question.id,
+          divisionId,
+          after: question,
         });
+
+        return jsonResponse({ success: true, question });
       }
 
       case "update": {
         const questionId = String(data?.id || "");
         if (!questionId) {
-          return new Response(JSON.stringify({ error: "id is required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "id is required" }, 400);
         }
 
         const { data: existing, error: fetchError } = await supabase
           .from("program_form_questions")
-          .select("id, program_id")
+          .select("*")
           .eq("id", questionId)
           .single();
 
         if (fetchError || !existing) {
-          return new Response(JSON.stringify({ error: "Question not found" }), {
-            status: 404,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "Question not found" }, 404);
         }
 
-        if (!(await verifyProgramAccess(existing.program_id))) {
-          return new Response(
-            JSON.stringify({
-              error: "You can only manage questions for programs in your division",
-            }),
-            {
-              status: 403,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+        const divisionId = await getAccessibleProgramDivision(existing.program_id);
+        if (!divisionId) {
+          return jsonResponse({ error: "You can only manage questions for programs in your division" }, 403);
         }
 
         const updatePayload: Record<string, unknown> = {};
@@ -269,6 +146,8 @@ serve(async (req) => {
         if (data?.is_required !== undefined)
           updatePayload.is_required = Boolean(data.is_required);
         if (data?.options !== undefined) updatePayload.options = data.options;
+        if (data?.config !== undefined) updatePayload.config = data.config ?? {};
+        if (data?.visibility_rule !== undefined) updatePayload.visibility_rule = data.visibility_rule;
         if (data?.sort_order !== undefined)
           updatePayload.sort_order = Number(data.sort_order);
 
@@ -280,50 +159,40 @@ serve(async (req) => {
           .single();
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: error.message }, 400);
         }
 
-        return new Response(JSON.stringify({ success: true, question }), {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        await recordAuditEvent(supabase, req, principal, {
+          action: "update",
+          entityType: "program_form_questions",
+          entityId: question.id,
+          divisionId,
+          before: existing,
+          after: question,
         });
+
+        return jsonResponse({ success: true, question });
       }
 
       case "delete": {
         const questionId = String(data?.id || "");
         if (!questionId) {
-          return new Response(JSON.stringify({ error: "id is required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "id is required" }, 400);
         }
 
         const { data: existing, error: fetchError } = await supabase
           .from("program_form_questions")
-          .select("id, program_id")
+          .select("*")
           .eq("id", questionId)
           .single();
 
         if (fetchError || !existing) {
-          return new Response(JSON.stringify({ error: "Question not found" }), {
-            status: 404,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: "Question not found" }, 404);
         }
 
-        if (!(await verifyProgramAccess(existing.program_id))) {
-          return new Response(
-            JSON.stringify({
-              error: "You can only manage questions for programs in your division",
-            }),
-            {
-              status: 403,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            },
-          );
+        const divisionId = await getAccessibleProgramDivision(existing.program_id);
+        if (!divisionId) {
+          return jsonResponse({ error: "You can only manage questions for programs in your division" }, 403);
         }
 
         const { error } = await supabase
@@ -332,29 +201,25 @@ serve(async (req) => {
           .eq("id", questionId);
 
         if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
+          return jsonResponse({ error: error.message }, 400);
         }
 
-        return new Response(JSON.stringify({ success: true }), {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "program_form_questions",
+          entityId: existing.id,
+          divisionId,
+          before: existing,
         });
+
+        return jsonResponse({ success: true });
       }
 
       default:
-        return new Response(JSON.stringify({ error: "Invalid action" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        return jsonResponse({ error: "Invalid action" }, 400);
     }
   } catch (error) {
     console.error("Error in admin-form-questions:", error);
-    return new Response(JSON.stringify({ error: "Internal server error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return jsonResponse({ error: "Internal server error" }, 500);
   }
 });
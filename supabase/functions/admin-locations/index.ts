@@ -1,47 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
-};
+import { authenticate, type Principal, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
 
 serve(async (req) => {
   // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
-    const adminToken = req.headers.get("x-admin-token");
-    
-    // Validate admin token if provided
-    if (adminToken) {
-      try {
-        const [payload] = adminToken.split(".");
-        const decoded = JSON.parse(atob(payload));
-        if (!decoded.exp || decoded.exp < Date.now()) {
-          return new Response(
-            JSON.stringify({ error: "Admin token expired" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-      } catch {
-        return new Response(
-          JSON.stringify({ error: "Invalid admin token" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-    }
-
     const url = new URL(req.url);
     const resource = url.searchParams.get("resource") || "panchayaths";
     const action = url.searchParams.get("action") || "list";
 
+    // Listing is open; an admin token, if sent, must be valid, and writes always need one
+    const isWrite = action === "create" || action === "update";
+    let principal: Principal | null = null;
+    if (isWrite || req.headers.get("x-admin-token")) {
+      const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+      if (auth.response) return auth.response;
+      principal = auth.principal;
+
+      if (isWrite) {
+        const denied = requireCapability(principal, "locations.manage");
+        if (denied) return denied;
+      }
+    }
+
     console.log(`Admin locations request: ${action} ${resource}`);
 
     // Handle different resources
@@ -54,10 +44,7 @@ serve(async (req) => {
 
         if (error) throw error;
 
-        return new Response(
-          JSON.stringify({ data }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ data });
       }
 
       if (req.method === "POST" && action === "create") {
@@ -70,16 +57,26 @@ serve(async (req) => {
 
         if (error) throw error;
 
-        return new Response(
-          JSON.stringify({ data }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal!, {
+          action: "create",
+          entityType: "panchayaths",
+          entityId: data.id,
+          after: data,
+        });
+
+        return jsonResponse({ data });
       }
 
       if (req.method === "PATCH" && action === "update") {
         const body = await req.json();
         const { id, ...updates } = body;
-        
+
+        const { data: before } = await supabase
+          .from("panchayaths")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
         const { data, error } = await supabase
           .from("panchayaths")
           .update(updates)
@@ -89,10 +86,15 @@ serve(async (req) => {
 
         if (error) throw error;
 
-        return new Response(
-          JSON.stringify({ data }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal!, {
+          action: "update",
+          entityType: "panchayaths",
+          entityId: id,
+          before,
+          after: data,
+        });
+
+        return jsonResponse({ data });
       }
     }
 
@@ -108,10 +110,7 @@ serve(async (req) => {
 
         if (error) throw error;
 
-        return new Response(
-          JSON.stringify({ data }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ data });
       }
 
       if (req.method === "POST" && action === "create") {
@@ -124,16 +123,26 @@ serve(async (req) => {
 
         if (error) throw error;
 
-        return new Response(
-          JSON.stringify({ data }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal!, {
+          action: "create",
+          entityType: "clusters",
+          entityId: data.id,
+          after: data,
+        });
+
+        return jsonResponse({ data });
       }
 
       if (req.method === "PATCH" && action === "update") {
         const body = await req.json();
         const { id, ...updates } = body;
-        
+
+        const { data: before } = await supabase
+          .from("clusters")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
         const { data, error } = await supabase
           .from("clusters")
           .update(updates)
@@ -143,24 +152,23 @@ serve(async (req) => {
 
         if (error) throw error;
 
-        return new Response(
-          JSON.stringify({ data }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal!, {
+          action: "update",
+          entityType: "clusters",
+          entityId: id,
+          before,
+          after: data,
+        });
+
+        return jsonResponse({ data });
       }
     }
 
-    return new Response(
-      JSON.stringify({ error: "Invalid resource or action" }),
-      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: "Invalid resource or action" }, 400);
 
   } catch (error: unknown) {
     console.error("Admin locations error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: message }, 500);
   }
 });
@@ -0,0 +1,326 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, isHomeDivision, type Principal, principalId, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const MEDIA_BUCKET = "program-media";
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+// Matches allowed_mime_types on the bucket
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+const ASSET_COLUMNS =
+  "id, division_id, file_name, path, thumbnail_path, url, thumbnail_url, mime_type, size_bytes, width, height, created_at";
+
+interface MediaUsage {
+  kind: "announcement" | "advertisement";
+  id: string;
+  title: string | null;
+  field: "poster_url" | "video_url";
+  program_id: string;
+  program_name: string | null;
+}
+
+// Uploads by a division admin go under that division; super admin uploads are shared
+function mediaFolder(principal: Principal): string {
+  return `media/${principal.kind === "admin" ? principal.divisionId : "shared"}`;
+}
+
+// Announcements and advertisements whose poster or video points into the media bucket
+async function loadMediaUsage(supabase: SupabaseClient, supabaseUrl: string): Promise<Map<string, MediaUsage[]>> {
+  const prefix = `${supabaseUrl}/storage/v1/object/public/${MEDIA_BUCKET}/`;
+  const filter = `poster_url.like.${prefix}*,video_url.like.${prefix}*`;
+  const [announcements, advertisements] = await Promise.all([
+    supabase
+      .from("program_announcements")
+      .select("id, title, poster_url, video_url, program_id, program:programs(name)")
+      .or(filter),
+    supabase
+      .from("program_advertisements")
+      .select("id, title, poster_url, video_url, program_id, program:programs(name)")
+      .or(filter),
+  ]);
+  const failed = [announcements, advertisements].find((result) => result.error);
+  if (failed) throw failed.error;
+
+  const usage = new Map<string, MediaUsage[]>();
+  const add = (url: string | null, entry: MediaUsage) => {
+    if (!url) return;
+    usage.set(url, [...(usage.get(url) ?? []), entry]);
+  };
+  for (const [kind, rows] of [
+    ["announcement", announcements.data ?? []],
+    ["advertisement", advertisements.data ?? []],
+  ] as const) {
+    for (const row of rows) {
+      const base = {
+        kind,
+        id: row.id,
+        title: row.title,
+        program_id: row.program_id,
+        program_name: (row.program as { name: string } | null)?.name ?? null,
+      };
+      add(row.poster_url, { ...base, field: "poster_url" });
+      add(row.video_url, { ...base, field: "video_url" });
+    }
+  }
+  return usage;
+}
+
+// Size and type of an uploaded file as stored, or null if nothing was uploaded at the path.
+// These are what get checked and recorded, not what the client says it uploaded.
+async function getStoredObject(
+  supabase: SupabaseClient,
+  path: string,
+): Promise<{ size: number; mimeType: string } | null> {
+  const slash = path.lastIndexOf("/");
+  const name = path.slice(slash + 1);
+  const { data } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .list(path.slice(0, slash), { search: name, limit: 1 });
+  const object = (data ?? []).find((o) => o.name === name);
+  if (!object) return null;
+  return { size: Number(object.metadata?.size ?? 0), mimeType: String(object.metadata?.mimetype ?? "") };
+}
+
+function maxBytesFor(mimeType: string): number {
+  return mimeType.startsWith("video/") ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES;
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
+
+    const denied = requireCapability(principal, "programs.edit");
+    if (denied) return denied;
+
+    const body = await req.json();
+    const { action, data } = body;
+
+    switch (action) {
+      // Every division's media can be reused; only the uploading division can delete
+      case "list": {
+        const { data: assets, error: listError } = await supabase
+          .from("media_assets")
+          .select(`${ASSET_COLUMNS}, division:divisions(name)`)
+          .order("created_at", { ascending: false });
+
+        if (listError) {
+          console.error("Media list error:", listError);
+          return jsonResponse({ error: "Failed to load media" }, 500);
+        }
+
+        let usage: Map<string, MediaUsage[]>;
+        try {
+          usage = await loadMediaUsage(supabase, supabaseUrl);
+        } catch (usageError) {
+          console.error("Media usage error:", usageError);
+          return jsonResponse({ error: "Failed to load media usage" }, 500);
+        }
+
+        return jsonResponse({
+          assets: (assets ?? []).map(({ division, ...asset }) => ({
+            ...asset,
+            division_name: (division as { name: string } | null)?.name ?? null,
+            can_delete: isHomeDivision(principal, asset.division_id),
+            usage: usage.get(asset.url) ?? [],
+          })),
+        });
+      }
+
+      // Signed upload URLs for the file and its thumbnail; the client uploads straight to storage
+      case "create_upload": {
+        const extension = EXTENSIONS[data.mime_type];
+        if (!extension) {
+          return jsonResponse({ error: "Only JPEG, PNG, WebP and GIF images or MP4 and WebM videos can be uploaded" }, 400);
+        }
+        const isVideo = data.mime_type.startsWith("video/");
+        const maxBytes = maxBytesFor(data.mime_type);
+        if (!(Number.isInteger(data.size_bytes) && data.size_bytes > 0 && data.size_bytes <= maxBytes)) {
+          return jsonResponse({ error: `Files must be smaller than ${maxBytes / 1024 / 1024} MB` }, 400);
+        }
+        if (data.with_thumbnail && isVideo) {
+          return jsonResponse({ error: "Thumbnails are only made for images" }, 400);
+        }
+
+        const id = crypto.randomUUID();
+        const path = `${mediaFolder(principal)}/${id}.${extension}`;
+        const thumbnailPath = data.with_thumbnail ? `${mediaFolder(principal)}/${id}-thumb.webp` : null;
+
+        const storage = supabase.storage.from(MEDIA_BUCKET);
+        const [file, thumbnail] = await Promise.all([
+          storage.createSignedUploadUrl(path),
+          thumbnailPath ? storage.createSignedUploadUrl(thumbnailPath) : Promise.resolve(null),
+        ]);
+        if (file.error || thumbnail?.error) {
+          console.error("Signed upload URL error:", file.error ?? thumbnail?.error);
+          return jsonResponse({ error: "Failed to prepare the upload" }, 500);
+        }
+
+        return jsonResponse({
+          id,
+          path,
+          token: file.data.token,
+          thumbnail_path: thumbnailPath,
+          thumbnail_token: thumbnail?.data.token ?? null,
+        });
+      }
+
+      // Records a file uploaded with create_upload
+      case "register": {
+        const folder = `${mediaFolder(principal)}/`;
+        if (typeof data.path !== "string" || !data.path.startsWith(folder)) {
+          return jsonResponse({ error: "Invalid upload path" }, 400);
+        }
+        if (data.thumbnail_path != null && (typeof data.thumbnail_path !== "string" || !data.thumbnail_path.startsWith(folder))) {
+          return jsonResponse({ error: "Invalid thumbnail path" }, 400);
+        }
+        // A path that is already recorded belongs to an existing asset and must not be cleaned up
+        const { data: registered } = await supabase.from("media_assets").select("id").eq("path", data.path).maybeSingle();
+        if (registered) {
+          return jsonResponse({ error: "This upload has already been saved" }, 409);
+        }
+
+        // Anything that fails from here on is removed again, so rejected uploads do not linger
+        const storage = supabase.storage.from(MEDIA_BUCKET);
+        const uploadedPaths = [data.path, data.thumbnail_path].filter(Boolean);
+        const reject = async (error: string, status: number) => {
+          const { error: removeError } = await storage.remove(uploadedPaths);
+          if (removeError) console.error("Media cleanup error:", removeError);
+          return jsonResponse({ error }, status);
+        };
+
+        const [stored, storedThumbnail] = await Promise.all([
+          getStoredObject(supabase, data.path),
+          data.thumbnail_path ? getStoredObject(supabase, data.thumbnail_path) : Promise.resolve(null),
+        ]);
+        if (!data.file_name?.trim()) {
+          return await reject("File name is required", 400);
+        }
+        if (!stored) {
+          return await reject("Uploaded file not found", 404);
+        }
+        const extension = EXTENSIONS[stored.mimeType];
+        if (!extension || !data.path.endsWith(`.${extension}`)) {
+          return await reject("Only JPEG, PNG, WebP and GIF images or MP4 and WebM videos can be uploaded", 400);
+        }
+        const maxBytes = maxBytesFor(stored.mimeType);
+        if (stored.size <= 0 || stored.size > maxBytes) {
+          return await reject(`Files must be smaller than ${maxBytes / 1024 / 1024} MB`, 400);
+        }
+        if (
+          data.thumbnail_path &&
+          (!storedThumbnail || storedThumbnail.mimeType !== "image/webp" || storedThumbnail.size > MAX_IMAGE_BYTES)
+        ) {
+          return await reject("Invalid thumbnail", 400);
+        }
+
+        const { data: asset, error: insertError } = await supabase
+          .from("media_assets")
+          .insert({
+            division_id: principal.kind === "admin" ? principal.divisionId : null,
+            file_name: data.file_name.trim().slice(0, 200),
+            path: data.path,
+            thumbnail_path: data.thumbnail_path ?? null,
+            url: storage.getPublicUrl(data.path).data.publicUrl,
+            thumbnail_url: data.thumbnail_path ? storage.getPublicUrl(data.thumbnail_path).data.publicUrl : null,
+            mime_type: stored.mimeType,
+            size_bytes: stored.size,
+            width: Number.isInteger(data.width) ? data.width : null,
+            height: Number.isInteger(data.height) ? data.height : null,
+            created_by: principalId(principal),
+          })
+          .select(ASSET_COLUMNS)
+          .single();
+
+        if (insertError) {
+          console.error("Media insert error:", insertError);
+          return await reject(insertError.message, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "create",
+          entityType: "media_assets",
+          entityId: asset.id,
+          divisionId: asset.division_id,
+          after: asset,
+        });
+
+        return jsonResponse({ success: true, asset: { ...asset, can_delete: true, usage: [] } });
+      }
+
+      // Only media nothing points to can be deleted, so live posters never break
+      case "delete": {
+        const { data: asset } = await supabase.from("media_assets").select(ASSET_COLUMNS).eq("id", data.id).maybeSingle();
+
+        if (!asset) {
+          return jsonResponse({ error: "Media not found" }, 404);
+        }
+        if (!isHomeDivision(principal, asset.division_id)) {
+          return jsonResponse({ error: "You can only delete media uploaded by your division" }, 403);
+        }
+
+        let usage: Map<string, MediaUsage[]>;
+        try {
+          usage = await loadMediaUsage(supabase, supabaseUrl);
+        } catch (usageError) {
+          console.error("Media usage error:", usageError);
+          return jsonResponse({ error: "Failed to check where the media is used" }, 500);
+        }
+        const usedBy = usage.get(asset.url)?.length ?? 0;
+        if (usedBy > 0) {
+          return jsonResponse({ error: `This media is still used by ${usedBy} announcement(s) or advertisement(s)` }, 409);
+        }
+
+        const { error: removeError } = await supabase.storage
+          .from(MEDIA_BUCKET)
+          .remove([asset.path, ...(asset.thumbnail_path ? [asset.thumbnail_path] : [])]);
+        if (removeError) {
+          console.error("Media remove error:", removeError);
+          return jsonResponse({ error: "Failed to delete the file" }, 500);
+        }
+
+        const { error: deleteError } = await supabase.from("media_assets").delete().eq("id", asset.id);
+        if (deleteError) {
+          console.error("Media delete error:", deleteError);
+          return jsonResponse({ error: deleteError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "media_assets",
+          entityId: asset.id,
+          divisionId: asset.division_id,
+          before: asset,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: "Invalid action" }, 400);
+    }
+  } catch (error) {
+    console.error("Error in admin-media:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,238 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, isHomeDivision, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+
+// Announcements and advertisements on a program page. All writes come through here so they
+// are checked against the admin's capabilities (read-only and impersonation sessions have
+// none) and audited; the tables only allow reads through the API.
+
+const CONTENT_TABLES = {
+  announcement: "program_announcements",
+  advertisement: "program_advertisements",
+} as const;
+
+type ContentKind = keyof typeof CONTENT_TABLES;
+
+const LABELS: Record<ContentKind, string> = {
+  announcement: "Announcement",
+  advertisement: "Advertisement",
+};
+
+function isContentKind(value: unknown): value is ContentKind {
+  return typeof value === "string" && value in CONTENT_TABLES;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function optionalTimestamp(value: unknown): string | null | undefined {
+  if (value === null || value === "") return null;
+  if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) return undefined;
+  return new Date(value).toISOString();
+}
+
+// The editable columns from the request, or an error message
+function parseContent(kind: ContentKind, data: Record<string, unknown>): { values?: Record<string, unknown>; error?: string } {
+  const title = optionalText(data.title);
+  if (kind === "announcement" && !title) return { error: "Title is required" };
+
+  const publishAt = optionalTimestamp(data.publish_at ?? null);
+  const unpublishAt = optionalTimestamp(data.unpublish_at ?? null);
+  if (publishAt === undefined || unpublishAt === undefined) return { error: "Invalid publish time" };
+  if (publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt)) {
+    return { error: "Unpublish time must be after the publish time" };
+  }
+
+  return {
+    values: {
+      title,
+      description: optionalText(data.description),
+      poster_url: optionalText(data.poster_url),
+      video_url: optionalText(data.video_url),
+      is_published: data.is_published === true,
+      publish_at: publishAt,
+      unpublish_at: unpublishAt,
+    },
+  };
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Division admins use their admin token; super admins their Supabase JWT
+    const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
+
+    const denied = requireCapability(principal, "programs.edit");
+    if (denied) return denied;
+
+    const body = await req.json();
+    const { action, kind, data } = body;
+
+    if (!isContentKind(kind)) {
+      return jsonResponse({ error: "kind must be announcement or advertisement" }, 400);
+    }
+    if (!data || typeof data !== "object") {
+      return jsonResponse({ error: "data is required" }, 400);
+    }
+    const table = CONTENT_TABLES[kind];
+    const label = LABELS[kind];
+
+    // Division of the program when it belongs to the admin's division, otherwise null
+    async function getAccessibleProgramDivision(programId: unknown): Promise<string | null> {
+      if (typeof programId !== "string") return null;
+      const { data: program, error } = await supabase
+        .from("programs")
+        .select("division_id")
+        .eq("id", programId)
+        .single();
+
+      if (error || !program) return null;
+      return isHomeDivision(principal, program.division_id) ? program.division_id : null;
+    }
+
+    // The existing row and its program's division, or the response to send instead
+    async function getExisting(id: unknown) {
+      const { data: existing, error } = await supabase.from(table).select("*").eq("id", id).maybeSingle();
+      if (error || !existing) return { response: jsonResponse({ error: `${label} not found` }, 404) };
+
+      const divisionId = await getAccessibleProgramDivision(existing.program_id);
+      if (!divisionId) {
+        return { response: jsonResponse({ error: `You can only manage ${kind}s for programs in your division` }, 403) };
+      }
+      return { existing, divisionId };
+    }
+
+    switch (action) {
+      case "create": {
+        const divisionId = await getAccessibleProgramDivision(data.program_id);
+        if (!divisionId) {
+          return jsonResponse({ error: `You can only manage ${kind}s for programs in your division` }, 403);
+        }
+
+        const parsed = parseContent(kind, data);
+        if (parsed.error) return jsonResponse({ error: parsed.error }, 400);
+
+        const { data: item, error: insertError } = await supabase
+          .from(table)
+          .insert({ program_id: data.program_id, ...parsed.values })
+          .select()
+          .single();
+
+        if (insertError) {
+          console.error("Insert error:", insertError);
+          return jsonResponse({ error: insertError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "create",
+          entityType: table,
+          entityId: item.id,
+          divisionId,
+          after: item,
+        });
+
+        return jsonResponse({ success: true, item });
+      }
+
+      case "update": {
+        const found = await getExisting(data.id);
+        if (found.response) return found.response;
+
+        const parsed = parseContent(kind, data);
+        if (parsed.error) return jsonResponse({ error: parsed.error }, 400);
+
+        const { data: item, error: updateError } = await supabase
+          .from(table)
+          .update(parsed.values)
+          .eq("id", data.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error("Update error:", updateError);
+          return jsonResponse({ error: updateError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "update",
+          entityType: table,
+          entityId: item.id,
+          divisionId: found.divisionId,
+          before: found.existing,
+          after: item,
+        });
+
+        return jsonResponse({ success: true, item });
+      }
+
+      // The publish toggle in the list, without resending the rest of the item
+      case "set_published": {
+        const found = await getExisting(data.id);
+        if (found.response) return found.response;
+
+        const { data: item, error: updateError } = await supabase
+          .from(table)
+          .update({ is_published: data.is_published === true })
+          .eq("id", data.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error("Update error:", updateError);
+          return jsonResponse({ error: updateError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: data.is_published === true ? "publish" : "unpublish",
+          entityType: table,
+          entityId: item.id,
+          divisionId: found.divisionId,
+          before: { is_published: found.existing.is_published },
+          after: { is_published: item.is_published },
+        });
+
+        return jsonResponse({ success: true, item });
+      }
+
+      case "delete": {
+        const found = await getExisting(data.id);
+        if (found.response) return found.response;
+
+        const { error: deleteError } = await supabase.from(table).delete().eq("id", data.id);
+
+        if (deleteError) {
+          console.error("Delete error:", deleteError);
+          return jsonResponse({ error: deleteError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: table,
+          entityId: found.existing.id,
+          divisionId: found.divisionId,
+          before: found.existing,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: "Invalid action" }, 400);
+    }
+  } catch (error) {
+    console.error("Error in admin-program-content:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
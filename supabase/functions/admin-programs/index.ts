@@ -1,55 +1,182 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  authenticate,
+  canAccessDivision,
+  isHomeDivision,
+  type Principal,
+  principalId,
+  requireCapability,
+} from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Program settings carried over by templates and clones. Dates, panchayath, seat deadlines
+// and the applicant edit window belong to one run of a program and are set afresh.
+const COPIED_SETTINGS = [
+  "verification_enabled",
+  "allow_duplicate_mobile",
+  "max_seats",
+  "max_seats_per_panchayath",
+  "reviewers_required",
+  "score_aggregation",
+  "review_conflict_threshold",
+];
+const QUESTION_COLUMNS = "id, question_text, question_type, is_required, options, config, visibility_rule, sort_order";
+const CONTENT_COLUMNS = "title, description, poster_url, video_url";
+
+interface QuestionSnapshot {
+  id: string;
+  question_text: string;
+  question_type: string;
+  is_required: boolean;
+  options: unknown;
+  config: unknown;
+  visibility_rule: unknown;
+  sort_order: number;
+}
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
-};
+interface ContentSnapshot {
+  title: string | null;
+  description: string | null;
+  poster_url: string | null;
+  video_url: string | null;
+}
 
-interface AdminTokenPayload {
-  admin_id: string;
-  user_id: string;
-  division_id: string;
-  exp: number;
+// Stored in program_templates.content
+interface ProgramSnapshot {
+  description: string | null;
+  settings: Record<string, unknown>;
+  modules: { module_type: string; is_published: boolean }[];
+  questions: QuestionSnapshot[];
+  announcements: ContentSnapshot[];
+  advertisements: ContentSnapshot[];
 }
 
-async function verifyAdminToken(token: string, serviceKey: string): Promise<AdminTokenPayload | null> {
-  try {
-    const [payloadBase64, signature] = token.split(".");
-    if (!payloadBase64 || !signature) return null;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
 
-    const tokenData = atob(payloadBase64);
-    const payload: AdminTokenPayload = JSON.parse(tokenData);
+async function loadProgramSnapshot(
+  supabase: SupabaseClient,
+  program: Record<string, unknown>,
+): Promise<ProgramSnapshot> {
+  const [modules, questions, announcements, advertisements] = await Promise.all([
+    supabase.from("program_modules").select("module_type, is_published").eq("program_id", program.id),
+    supabase.from("program_form_questions").select(QUESTION_COLUMNS).eq("program_id", program.id).order("sort_order"),
+    supabase.from("program_announcements").select(CONTENT_COLUMNS).eq("program_id", program.id).order("created_at"),
+    supabase.from("program_advertisements").select(CONTENT_COLUMNS).eq("program_id", program.id).order("created_at"),
+  ]);
+
+  const failed = [modules, questions, announcements, advertisements].find((result) => result.error);
+  if (failed) throw failed.error;
+
+  return {
+    description: (program.description as string | null) ?? null,
+    settings: Object.fromEntries(COPIED_SETTINGS.map((key) => [key, program[key]])),
+    modules: modules.data ?? [],
+    questions: (questions.data ?? []) as QuestionSnapshot[],
+    announcements: announcements.data ?? [],
+    advertisements: advertisements.data ?? [],
+  };
+}
 
-    // Check expiry
-    if (payload.exp < Date.now()) {
-      console.log("Token expired");
-      return null;
+// Copied questions get new ids, so visibility rules and skip targets that point at other
+// questions in the form are rewritten to the copies
+function copyQuestions(questions: QuestionSnapshot[], programId: string) {
+  const newIds = new Map(questions.map((question) => [question.id, crypto.randomUUID()]));
+  const remap = (id: unknown) => newIds.get(String(id)) ?? id;
+
+  return questions.map((question) => {
+    const config = isRecord(question.config) ? { ...question.config } : {};
+    if (isRecord(config.skip_to)) {
+      config.skip_to = Object.fromEntries(
+        Object.entries(config.skip_to).map(([answer, target]) => [answer, remap(target)]),
+      );
     }
 
-    // Verify signature
-    const tokenEncoder = new TextEncoder();
-    const tokenBuffer = tokenEncoder.encode(tokenData + serviceKey);
-    const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-    const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-    const expectedSignature = signatureArray.map(b => b.toString(16).padStart(2, "0")).join("");
+    const rule = question.visibility_rule;
+    const visibilityRule = isRecord(rule) && Array.isArray(rule.conditions)
+      ? {
+        ...rule,
+        conditions: rule.conditions.map((condition: Record<string, unknown>) => ({
+          ...condition,
+          question_id: remap(condition.question_id),
+        })),
+      }
+      : rule ?? null;
+
+    return {
+      id: newIds.get(question.id),
+      program_id: programId,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      is_required: question.is_required,
+      options: question.options,
+      config,
+      visibility_rule: visibilityRule,
+      sort_order: question.sort_order,
+    };
+  });
+}
 
-    if (signature !== expectedSignature) {
-      console.log("Invalid signature");
-      return null;
-    }
+interface CopyOptions {
+  includeAnnouncements: boolean;
+  includeAdvertisements: boolean;
+}
 
-    return payload;
-  } catch (error) {
-    console.error("Token verification error:", error);
-    return null;
+// Fills a newly created program from a snapshot. Copied announcements and advertisements
+// start unpublished so they can be checked before going live.
+async function applySnapshot(
+  supabase: SupabaseClient,
+  programId: string,
+  snapshot: ProgramSnapshot,
+  options: CopyOptions,
+): Promise<{ modules: number; questions: number; announcements: number; advertisements: number }> {
+  const content = (items: ContentSnapshot[]) =>
+    items.map((item) => ({ ...item, program_id: programId, is_published: false }));
+
+  const inserts: [string, Record<string, unknown>[]][] = [
+    ["program_modules", snapshot.modules.map((module) => ({ ...module, program_id: programId }))],
+    ["program_form_questions", copyQuestions(snapshot.questions, programId)],
+    ["program_announcements", options.includeAnnouncements ? content(snapshot.announcements) : []],
+    ["program_advertisements", options.includeAdvertisements ? content(snapshot.advertisements) : []],
+  ];
+
+  for (const [table, rows] of inserts) {
+    if (rows.length === 0) continue;
+    const { error } = await supabase.from(table).insert(rows);
+    if (error) throw error;
   }
+
+  return {
+    modules: inserts[0][1].length,
+    questions: inserts[1][1].length,
+    announcements: inserts[2][1].length,
+    advertisements: inserts[3][1].length,
+  };
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+async function fetchAccessibleProgram(
+  supabase: SupabaseClient,
+  principal: Principal,
+  programId: unknown,
+): Promise<{ program?: Record<string, unknown>; response?: Response }> {
+  const { data: program } = await supabase.from("programs").select("*").eq("id", programId).maybeSingle();
+  if (!program) {
+    return { response: jsonResponse({ error: "Program not found" }, 404) };
+  }
+  if (!canAccessDivision(principal, program.division_id)) {
+    return { response: jsonResponse({ error: "Access denied: Program belongs to different division" }, 403) };
   }
+  return { program };
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
@@ -57,51 +184,23 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get admin token from header
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
-      return new Response(
-        JSON.stringify({ error: "Admin token required" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
 
-    // Verify token
-    const adminPayload = await verifyAdminToken(adminToken, supabaseServiceKey);
-    if (!adminPayload) {
-      return new Response(
-        JSON.stringify({ error: "Invalid or expired token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Verify admin is still active
-    const { data: admin, error: adminError } = await supabase
-      .from("admins")
-      .select("id, is_active, division_id")
-      .eq("id", adminPayload.admin_id)
-      .single();
-
-    if (adminError || !admin || !admin.is_active) {
-      return new Response(
-        JSON.stringify({ error: "Admin account not found or inactive" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const denied = requireCapability(principal, "programs.edit");
+    if (denied) return denied;
 
     const body = await req.json();
     const { action, data } = body;
 
     switch (action) {
       case "create": {
-        console.log("Creating program for admin:", adminPayload.admin_id);
+        console.log("Creating program for admin:", principalId(principal));
         
         // Validate division access - admin can only create for their division
-        if (data.division_id !== admin.division_id) {
-          return new Response(
-            JSON.stringify({ error: "You can only create programs for your division" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+        if (!isHomeDivision(principal, data.division_id)) {
+          return jsonResponse({ error: "You can only create programs for your division" }, 403);
         }
 
         const { data: program, error: insertError } = await supabase
@@ -114,23 +213,25 @@ serve(async (req) => {
             all_panchayaths: data.all_panchayaths || false,
             start_date: data.start_date || null,
             end_date: data.end_date || null,
-            created_by: adminPayload.user_id,
+            created_by: principal.userId,
           })
           .select()
           .single();
 
         if (insertError) {
           console.error("Insert error:", insertError);
-          return new Response(
-            JSON.stringify({ error: insertError.message }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: insertError.message }, 400);
         }
 
-        return new Response(
-          JSON.stringify({ success: true, program }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal, {
+          action: "create",
+          entityType: "programs",
+          entityId: program.id,
+          divisionId: program.division_id,
+          after: program,
+        });
+
+        return jsonResponse({ success: true, program });
       }
 
       case "update": {
@@ -139,22 +240,16 @@ serve(async (req) => {
         // First check if program belongs to admin's division
         const { data: existingProgram, error: fetchError } = await supabase
           .from("programs")
-          .select("division_id")
+          .select("*")
           .eq("id", data.id)
           .single();
 
         if (fetchError || !existingProgram) {
-          return new Response(
-            JSON.stringify({ error: "Program not found" }),
-            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: "Program not found" }, 404);
         }
 
-        if (existingProgram.division_id !== admin.division_id) {
-          return new Response(
-            JSON.stringify({ error: "You can only update programs in your division" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+        if (!isHomeDivision(principal, existingProgram.division_id)) {
+          return jsonResponse({ error: "You can only update programs in your division" }, 403);
         }
 
         const updateData: Record<string, unknown> = {};
@@ -164,6 +259,34 @@ serve(async (req) => {
         if (data.start_date !== undefined) updateData.start_date = data.start_date;
         if (data.end_date !== undefined) updateData.end_date = data.end_date;
         if (data.verification_enabled !== undefined) updateData.verification_enabled = data.verification_enabled;
+        if (data.allow_duplicate_mobile !== undefined) updateData.allow_duplicate_mobile = data.allow_duplicate_mobile;
+        if (data.applicant_edit_until !== undefined) updateData.applicant_edit_until = data.applicant_edit_until;
+        for (const key of ["max_seats", "max_seats_per_panchayath"]) {
+          if (data[key] === undefined) continue;
+          if (data[key] !== null && !(Number.isInteger(data[key]) && data[key] > 0)) {
+            return jsonResponse({ error: "Seat limits must be whole numbers greater than zero" }, 400);
+          }
+          updateData[key] = data[key];
+        }
+        if (data.reviewers_required !== undefined) {
+          if (!(Number.isInteger(data.reviewers_required) && data.reviewers_required >= 1 && data.reviewers_required <= 5)) {
+            return jsonResponse({ error: "Reviewers per registration must be between 1 and 5" }, 400);
+          }
+          updateData.reviewers_required = data.reviewers_required;
+        }
+        if (data.score_aggregation !== undefined) {
+          if (!["average", "median"].includes(data.score_aggregation)) {
+            return jsonResponse({ error: "Final score must be the average or the median" }, 400);
+          }
+          updateData.score_aggregation = data.score_aggregation;
+        }
+        if (data.review_conflict_threshold !== undefined) {
+          const threshold = data.review_conflict_threshold;
+          if (typeof threshold !== "number" || !(threshold >= 0 && threshold <= 100)) {
+            return jsonResponse({ error: "Disagreement threshold must be between 0 and 100" }, 400);
+          }
+          updateData.review_conflict_threshold = threshold;
+        }
         if (data.all_panchayaths !== undefined) {
           updateData.all_panchayaths = data.all_panchayaths;
           updateData.panchayath_id = data.all_panchayaths ? null : data.panchayath_id;
@@ -178,16 +301,19 @@ serve(async (req) => {
 
         if (updateError) {
           console.error("Update error:", updateError);
-          return new Response(
-            JSON.stringify({ error: updateError.message }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: updateError.message }, 400);
         }
 
-        return new Response(
-          JSON.stringify({ success: true, program }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal, {
+          action: "update",
+          entityType: "programs",
+          entityId: program.id,
+          divisionId: program.division_id,
+          before: existingProgram,
+          after: program,
+        });
+
+        return jsonResponse({ success: true, program });
       }
 
       case "delete": {
@@ -196,22 +322,16 @@ serve(async (req) => {
         // First check if program belongs to admin's division
         const { data: existingProgram, error: fetchError } = await supabase
           .from("programs")
-          .select("division_id")
+          .select("*")
           .eq("id", data.id)
           .single();
 
         if (fetchError || !existingProgram) {
-          return new Response(
-            JSON.stringify({ error: "Program not found" }),
-            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: "Program not found" }, 404);
         }
 
-        if (existingProgram.division_id !== admin.division_id) {
-          return new Response(
-            JSON.stringify({ error: "You can only delete programs in your division" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+        if (!isHomeDivision(principal, existingProgram.division_id)) {
+          return jsonResponse({ error: "You can only delete programs in your division" }, 403);
         }
 
         const { error: deleteError } = await supabase
@@ -221,29 +341,202 @@ serve(async (req) => {
 
         if (deleteError) {
           console.error("Delete error:", deleteError);
-          return new Response(
-            JSON.stringify({ error: deleteError.message }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: deleteError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "programs",
+          entityId: existingProgram.id,
+          divisionId: existingProgram.division_id,
+          before: existingProgram,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      case "save_template": {
+        const name = typeof data.name === "string" ? data.name.trim() : "";
+        if (!name) {
+          return jsonResponse({ error: "Template name is required" }, 400);
+        }
+
+        const source = await fetchAccessibleProgram(supabase, principal, data.program_id);
+        if (source.response) return source.response;
+
+        const content = await loadProgramSnapshot(supabase, source.program!);
+        const { data: template, error: insertError } = await supabase
+          .from("program_templates")
+          .insert({
+            name,
+            description: data.description?.trim() || null,
+            division_id: source.program!.division_id,
+            source_program_id: source.program!.id,
+            content,
+            created_by: principalId(principal),
+          })
+          .select("id, name, description, division_id, source_program_id, created_at")
+          .single();
+
+        if (insertError) {
+          console.error("Template insert error:", insertError);
+          return jsonResponse({ error: insertError.message }, 400);
         }
 
-        return new Response(
-          JSON.stringify({ success: true }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        await recordAuditEvent(supabase, req, principal, {
+          action: "create",
+          entityType: "program_templates",
+          entityId: template.id,
+          divisionId: template.division_id,
+          after: template,
+        });
+
+        return jsonResponse({ success: true, template });
+      }
+
+      case "list_templates": {
+        const { data: templates, error: listError } = await supabase
+          .from("program_templates")
+          .select("id, name, description, division_id, created_at, content, division:divisions(name)")
+          .order("created_at", { ascending: false });
+
+        if (listError) {
+          console.error("Template list error:", listError);
+          return jsonResponse({ error: "Failed to load templates" }, 500);
+        }
+
+        // Counts instead of the full snapshot, which can be large
+        return jsonResponse({
+          templates: (templates ?? []).map(({ content, division, ...template }) => {
+            const snapshot = content as ProgramSnapshot;
+            return {
+              ...template,
+              division_name: (division as { name: string } | null)?.name ?? null,
+              can_delete: isHomeDivision(principal, template.division_id),
+              counts: {
+                modules: snapshot.modules?.length ?? 0,
+                questions: snapshot.questions?.length ?? 0,
+                announcements: snapshot.announcements?.length ?? 0,
+                advertisements: snapshot.advertisements?.length ?? 0,
+              },
+            };
+          }),
+        });
+      }
+
+      case "delete_template": {
+        const { data: template } = await supabase
+          .from("program_templates")
+          .select("id, name, description, division_id, source_program_id, created_at")
+          .eq("id", data.id)
+          .maybeSingle();
+
+        if (!template) {
+          return jsonResponse({ error: "Template not found" }, 404);
+        }
+        if (!isHomeDivision(principal, template.division_id)) {
+          return jsonResponse({ error: "You can only delete templates saved from your division" }, 403);
+        }
+
+        const { error: deleteError } = await supabase.from("program_templates").delete().eq("id", template.id);
+        if (deleteError) {
+          console.error("Template delete error:", deleteError);
+          return jsonResponse({ error: deleteError.message }, 400);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "delete",
+          entityType: "program_templates",
+          entityId: template.id,
+          divisionId: template.division_id,
+          before: template,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      // New program from a template (template_id) or a copy of an existing one (program_id)
+      case "clone": {
+        if (!data.name?.trim()) {
+          return jsonResponse({ error: "Program name is required" }, 400);
+        }
+        if (!isHomeDivision(principal, data.division_id)) {
+          return jsonResponse({ error: "You can only create programs for your division" }, 403);
+        }
+        if (!data.all_panchayaths && !data.panchayath_id) {
+          return jsonResponse({ error: "Select a panchayath or make the program available in all panchayaths" }, 400);
+        }
+
+        let snapshot: ProgramSnapshot;
+        let sourceRef: Record<string, unknown>;
+        if (data.template_id) {
+          const { data: template } = await supabase
+            .from("program_templates")
+            .select("id, name, content")
+            .eq("id", data.template_id)
+            .maybeSingle();
+          if (!template) {
+            return jsonResponse({ error: "Template not found" }, 404);
+          }
+          snapshot = template.content as ProgramSnapshot;
+          sourceRef = { template_id: template.id, template_name: template.name };
+        } else {
+          const source = await fetchAccessibleProgram(supabase, principal, data.program_id);
+          if (source.response) return source.response;
+          snapshot = await loadProgramSnapshot(supabase, source.program!);
+          sourceRef = { program_id: source.program!.id, program_name: source.program!.name };
+        }
+
+        const { data: program, error: insertError } = await supabase
+          .from("programs")
+          .insert({
+            ...snapshot.settings,
+            name: data.name.trim(),
+            description: data.description === undefined ? snapshot.description : data.description || null,
+            division_id: data.division_id,
+            panchayath_id: data.all_panchayaths ? null : data.panchayath_id,
+            all_panchayaths: data.all_panchayaths || false,
+            start_date: data.start_date || null,
+            end_date: data.end_date || null,
+            created_by: principal.userId,
+          })
+          .select()
+          .single();
+
+        if (insertError) {
+          console.error("Clone insert error:", insertError);
+          return jsonResponse({ error: insertError.message }, 400);
+        }
+
+        let copied;
+        try {
+          copied = await applySnapshot(supabase, program.id, snapshot, {
+            includeAnnouncements: !!data.include_announcements,
+            includeAdvertisements: !!data.include_advertisements,
+          });
+        } catch (copyError) {
+          // Do not leave a half-copied program behind
+          console.error("Clone copy error:", copyError);
+          await supabase.from("programs").delete().eq("id", program.id);
+          return jsonResponse({ error: "Failed to copy the program's modules and questions" }, 500);
+        }
+
+        await recordAuditEvent(supabase, req, principal, {
+          action: "clone",
+          entityType: "programs",
+          entityId: program.id,
+          divisionId: program.division_id,
+          after: { ...program, copied_from: sourceRef, copied },
+        });
+
+        return jsonResponse({ success: true, program, copied });
       }
 
       default:
-        return new Response(
-          JSON.stringify({ error: "Invalid action" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Invalid action" }, 400);
     }
   } catch (error) {
     console.error("Error in admin-programs:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: "Internal server error" }, 500);
   }
 });
@@ -1,135 +1,523 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  authenticate,
+  canAccessDivision,
+  hasCapability,
+  type Principal,
+  principalId,
+  requireCapability,
+} from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { resolveCapabilities } from "../_shared/capabilities.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+import type { FormQuestion } from "../_shared/registrationForm.ts";
+import {
+  combineReviewScores,
+  reviewsDisagree,
+  type ScoreAggregation,
+  scoreRegistration,
+} from "../_shared/registrationScoring.ts";
+import { sendTextMessage } from "../_shared/textMessages.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const REGISTRATION_UPLOADS_BUCKET = "registration-uploads";
+const FILE_URL_TTL_SECONDS = 10 * 60;
+const QUESTION_COLUMNS = "id, question_text, question_type, is_required, options, config, visibility_rule, sort_order";
+const MAX_BATCH_SIZE = 500;
+const STATUS_REASON_MAX_LENGTH = 500;
+const NOTIFICATION_WEBHOOK_ENV = "APPLICANT_NOTIFICATION_WEBHOOK_URL";
+const NOTIFICATION_CONCURRENCY = 20;
+
+interface ProgramReviewSettings {
+  division_id: string;
+  reviewers_required: number;
+  score_aggregation: ScoreAggregation;
+  review_conflict_threshold: number;
+}
+
+// The columns the review steps use; the rest are only copied into audit events
+interface RegistrationRecord extends Record<string, unknown> {
+  id: string;
+  program_id: string;
+  answers: Record<string, unknown> | null;
+  verification_status: string;
+  review_conflict: boolean;
+}
+
+interface ReviewRow {
+  id: string;
+  registration_id: string;
+  reviewer_id: string;
+  reviewer_name: string;
+  scores: Record<string, number> | null;
+  total_score: number | null;
+  max_score: number | null;
+  percentage: number | null;
+  assigned_at: string | null;
+  submitted_at: string | null;
+}
+
+interface StatusChange {
+  status: string;
+  status_reason: string | null;
+  status_changed_at: string;
+}
+
+// Mirrors canChangeStatus() in src/lib/registrationStatus.ts
+function getStatusChangeError(
+  registration: { status: string; verification_status: string },
+  next: unknown,
+  verificationEnabled: boolean,
+): string | null {
+  const current = registration.status;
+  switch (next) {
+    case "shortlisted":
+    case "selected":
+      if (!["registered", "shortlisted", "selected"].includes(current)) {
+        return "Only registrations holding a seat can be shortlisted or selected";
+      }
+      if (verificationEnabled && registration.verification_status !== "verified") {
+        return "Verify the registration before shortlisting or selecting it";
+      }
+      break;
+    case "rejected":
+      break;
+    case "withdrawn":
+      if (current === "rejected") return "A rejected registration cannot be withdrawn";
+      break;
+    case "registered":
+      if (current === "waitlisted") return "Waitlisted registrations get a seat automatically";
+      break;
+    default:
+      return "Invalid status";
+  }
+  return current === next ? "The registration already has this status" : null;
+}
+
+// Rejecting or withdrawing frees the seat for the waitlist (see release_registration_seat()).
+// A reinstated registration rejoins the waitlist and gets a seat if one is free.
+function buildStatusChange(next: string, reason: string | null, rejoinsWaitlist = false): StatusChange {
+  return {
+    status: rejoinsWaitlist ? "waitlisted" : next,
+    status_reason: next === "rejected" || next === "withdrawn" ? reason : null,
+    status_changed_at: new Date().toISOString(),
+  };
+}
+
+function parseStatusReason(status: unknown, reason: unknown): { reason: string | null; error?: string } {
+  const text = typeof reason === "string" ? reason.trim() : "";
+  if (status === "rejected" && !text) return { reason: null, error: "A reason is required to reject a registration" };
+  if (text.length > STATUS_REASON_MAX_LENGTH) {
+    return { reason: null, error: `Reason must be at most ${STATUS_REASON_MAX_LENGTH} characters` };
+  }
+  return { reason: text || null };
+}
+
+// Applicants hear about decisions on their registration; moves back to registered are not sent
+function getStatusMessage(programName: string, status: string, reason: string | null): string | null {
+  const because = reason ? ` Reason: ${reason}` : "";
+  switch (status) {
+    case "shortlisted":
+      return `Your registration for ${programName} has been shortlisted.`;
+    case "selected":
+      return `Congratulations! You have been selected for ${programName}.`;
+    case "rejected":
+      return `Your registration for ${programName} was not accepted.${because}`;
+    case "withdrawn":
+      return `Your registration for ${programName} has been withdrawn.${because}`;
+    default:
+      return null;
+  }
+}
+
+// Failed deliveries are logged and do not undo the status change
+async function notifyApplicants(mobiles: (string | null | undefined)[], message: string | null) {
+  if (!message) return;
+  const recipients = [...new Set(mobiles.filter((mobile): mobile is string => !!mobile))];
+  for (let i = 0; i < recipients.length; i += NOTIFICATION_CONCURRENCY) {
+    await Promise.all(
+      recipients
+        .slice(i, i + NOTIFICATION_CONCURRENCY)
+        .map((mobile) => sendTextMessage(NOTIFICATION_WEBHOOK_ENV, mobile, message)),
+    );
+  }
+}
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
-};
+function isScoreMap(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+async function fetchQuestions(supabase: SupabaseClient, programId: string): Promise<FormQuestion[] | null> {
+  const { data, error } = await supabase.from("program_form_questions").select(QUESTION_COLUMNS).eq("program_id", programId);
+  if (error) {
+    console.error("Error fetching form questions:", error);
+    return null;
+  }
+  return (data ?? []) as FormQuestion[];
+}
+
+// Active admins who may score registrations in the division
+async function getEligibleReviewers(
+  supabase: SupabaseClient,
+  divisionId: string,
+): Promise<{ id: string; full_name: string }[]> {
+  const { data: admins, error } = await supabase
+    .from("admins")
+    .select(
+      "id, full_name, division_id, is_read_only, access_all_divisions, additional_division_ids, granted_capabilities, revoked_capabilities, admin_role:admin_roles(capabilities)",
+    )
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Error fetching reviewers:", error);
+    return [];
   }
 
-  try {
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
-      return new Response(
-        JSON.stringify({ error: "Admin token required" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+  return (admins ?? [])
+    .filter((admin) =>
+      admin.division_id === divisionId || admin.access_all_divisions ||
+      (admin.additional_division_ids ?? []).includes(divisionId)
+    )
+    .filter((admin) =>
+      resolveCapabilities({
+        roleCapabilities: admin.admin_role?.capabilities,
+        granted: admin.granted_capabilities,
+        revoked: admin.revoked_capabilities,
+        isReadOnly: admin.is_read_only,
+      }).includes("registrations.verify")
+    )
+    .map((admin) => ({ id: admin.id, full_name: admin.full_name || "Admin" }))
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+}
+
+// Reviewers only see their own marks, so each review stays independent; adjudicators see all
+function redactReview(review: ReviewRow, principal: Principal): ReviewRow {
+  if (hasCapability(principal, "registrations.adjudicate") || review.reviewer_id === principalId(principal)) {
+    return review;
+  }
+  return { ...review, scores: null, total_score: null, max_score: null, percentage: null };
+}
+
+// Records the reviewer's marks. Once the program's number of reviews is in, the registration
+// is either verified with the combined marks or flagged when the reviewers disagree.
+async function submitReview(
+  supabase: SupabaseClient,
+  req: Request,
+  principal: Principal,
+  registration: RegistrationRecord,
+  program: ProgramReviewSettings,
+  manualScores: unknown,
+): Promise<Response> {
+  if (!isScoreMap(manualScores)) {
+    return jsonResponse({ error: "verification_scores must be an object" }, 400);
+  }
+  if (registration.verification_status === "verified") {
+    return jsonResponse({ error: "This registration has already been verified" }, 409);
+  }
+  if (registration.review_conflict) {
+    return jsonResponse({ error: "Reviewers disagree on this registration; it is waiting for adjudication" }, 409);
+  }
+
+  const { data: reviewData, error: reviewsError } = await supabase
+    .from("registration_reviews")
+    .select("*")
+    .eq("registration_id", registration.id);
+
+  if (reviewsError) {
+    console.error("Error fetching reviews:", reviewsError);
+    return jsonResponse({ error: "Failed to fetch reviews" }, 500);
+  }
+
+  const reviews = (reviewData ?? []) as ReviewRow[];
+  const reviewerId = principalId(principal);
+  const ownReview = reviews.find((r) => r.reviewer_id === reviewerId) ?? null;
+  if (!ownReview && reviews.some((r) => r.assigned_at)) {
+    return jsonResponse({ error: "This registration is assigned to other reviewers" }, 403);
+  }
+
+  const questions = await fetchQuestions(supabase, registration.program_id);
+  if (!questions) return jsonResponse({ error: "Failed to fetch form questions" }, 500);
+
+  // Only the reviewer's own marks are taken from the request; choice questions are marked
+  // from the answer and the totals worked out here
+  const answers = registration.answers ?? {};
+  const result = scoreRegistration(questions, answers, manualScores);
+  const submittedAt = new Date().toISOString();
+
+  const { data: review, error: reviewError } = await supabase
+    .from("registration_reviews")
+    .upsert(
+      {
+        registration_id: registration.id,
+        reviewer_id: reviewerId,
+        reviewer_name: principal.name,
+        scores: result.scores,
+        total_score: result.total_score,
+        max_score: result.max_score,
+        percentage: result.percentage,
+        submitted_at: submittedAt,
+      },
+      { onConflict: "registration_id,reviewer_id" },
+    )
+    .select("*")
+    .single();
+
+  if (reviewError || !review) {
+    console.error("Error saving review:", reviewError);
+    return jsonResponse({ error: "Failed to save review" }, 500);
+  }
+
+  // Read the submitted reviews again now that this one is saved: a reviewer submitting at the
+  // same time may have saved theirs after the first read. Whichever of the two saves last sees both.
+  const { data: submittedData, error: submittedError } = await supabase
+    .from("registration_reviews")
+    .select("*")
+    .eq("registration_id", registration.id)
+    .not("submitted_at", "is", null)
+    .order("submitted_at");
+
+  if (submittedError) {
+    console.error("Error fetching reviews:", submittedError);
+    return jsonResponse({ error: "Failed to fetch reviews" }, 500);
+  }
+
+  const submitted = (submittedData ?? []) as ReviewRow[];
+  const required = program.reviewers_required ?? 1;
+
+  const updateData: Record<string, unknown> = {};
+  let outcome: "awaiting_reviews" | "conflict" | "verified" = "awaiting_reviews";
+  let settledElsewhere = false;
+
+  if (submitted.length >= required) {
+    if (reviewsDisagree(submitted.map((r) => Number(r.percentage ?? 0)), Number(program.review_conflict_threshold))) {
+      updateData.review_conflict = true;
+      outcome = "conflict";
+    } else {
+      const final = submitted.length === 1
+        ? result
+        : scoreRegistration(
+          questions,
+          answers,
+          combineReviewScores(submitted.map((r) => r.scores ?? {}), program.score_aggregation),
+        );
+      Object.assign(updateData, {
+        verification_scores: final.scores,
+        total_score: final.total_score,
+        max_score: final.max_score,
+        percentage: final.percentage,
+        verified_by: reviewerId,
+        verified_at: submittedAt,
+        verification_status: "verified",
+      });
+      outcome = "verified";
     }
+  }
 
-    // Validate admin token
-    const [payload] = adminToken.split(".");
-    const decoded = JSON.parse(atob(payload));
-    
-    if (!decoded.exp || decoded.exp <= Date.now()) {
-      return new Response(
-        JSON.stringify({ error: "Token expired" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+  if (Object.keys(updateData).length > 0) {
+    // Only an open registration is settled, so when both concurrent reviewers get here the
+    // second one leaves the first one's outcome (and audit event) as it is
+    const { data: settled, error: updateError } = await supabase
+      .from("program_registrations")
+      .update(updateData)
+      .eq("id", registration.id)
+      .neq("verification_status", "verified")
+      .eq("review_conflict", false)
+      .select("id");
+
+    if (updateError) {
+      console.error("Error updating registration:", updateError);
+      return jsonResponse({ error: "Failed to update registration" }, 500);
     }
+    if (!settled?.length) settledElsewhere = true;
+  }
 
-    const adminId = decoded.admin_id;
-    const divisionId = decoded.division_id;
+  const pickScores = (r: Partial<ReviewRow> | null) =>
+    r && { scores: r.scores, total_score: r.total_score, percentage: r.percentage, submitted_at: r.submitted_at };
+  await recordAuditEvent(supabase, req, principal, {
+    action: "review",
+    entityType: "registration_reviews",
+    entityId: review.id,
+    divisionId: program.division_id,
+    before: pickScores(ownReview),
+    after: pickScores(review as ReviewRow),
+  });
+
+  if (outcome !== "awaiting_reviews" && !settledElsewhere) {
+    // Only the changed columns, so applicants' answers are not copied into the log
+    await recordAuditEvent(supabase, req, principal, {
+      action: outcome === "verified" ? "verify" : "flag_conflict",
+      entityType: "program_registrations",
+      entityId: registration.id,
+      divisionId: program.division_id,
+      before: Object.fromEntries(Object.keys(updateData).map((key) => [key, registration[key]])),
+      after: updateData,
+    });
+  }
 
-    if (!adminId || !divisionId) {
-      return new Response(
-        JSON.stringify({ error: "Invalid token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  return jsonResponse({
+    success: true,
+    outcome,
+    reviews_submitted: submitted.length,
+    reviews_required: required,
+    review: { total_score: result.total_score, max_score: result.max_score, percentage: result.percentage },
+    ...(outcome === "verified" && {
+      final: {
+        total_score: updateData.total_score,
+        max_score: updateData.max_score,
+        percentage: updateData.percentage,
+      },
+    }),
+  });
+}
+
+// A senior admin settles a disagreement by entering the final marks
+async function adjudicateRegistration(
+  supabase: SupabaseClient,
+  req: Request,
+  principal: Principal,
+  registration: RegistrationRecord,
+  program: ProgramReviewSettings,
+  adjudication: { scores?: unknown; note?: unknown },
+): Promise<Response> {
+  const denied = requireCapability(principal, "registrations.adjudicate");
+  if (denied) return denied;
+
+  if (!registration.review_conflict) {
+    return jsonResponse({ error: "Only registrations where reviewers disagree need adjudication" }, 409);
+  }
+  if (!isScoreMap(adjudication?.scores)) {
+    return jsonResponse({ error: "adjudication.scores must be an object" }, 400);
+  }
+
+  const questions = await fetchQuestions(supabase, registration.program_id);
+  if (!questions) return jsonResponse({ error: "Failed to fetch form questions" }, 500);
+
+  const result = scoreRegistration(questions, registration.answers ?? {}, adjudication.scores);
+  const now = new Date().toISOString();
+  const note = typeof adjudication.note === "string" ? adjudication.note.trim() : "";
+  const updateData = {
+    verification_scores: result.scores,
+    total_score: result.total_score,
+    max_score: result.max_score,
+    percentage: result.percentage,
+    verified_by: principalId(principal),
+    verified_at: now,
+    verification_status: "verified",
+    review_conflict: false,
+    adjudicated_by: principalId(principal),
+    adjudicated_at: now,
+    adjudication_note: note || null,
+  };
+
+  const { error: updateError } = await supabase
+    .from("program_registrations")
+    .update(updateData)
+    .eq("id", registration.id)
+    .eq("review_conflict", true);
+
+  if (updateError) {
+    console.error("Error adjudicating registration:", updateError);
+    return jsonResponse({ error: "Failed to update registration" }, 500);
+  }
+
+  await recordAuditEvent(supabase, req, principal, {
+    action: "adjudicate",
+    entityType: "program_registrations",
+    entityId: registration.id,
+    divisionId: program.division_id,
+    before: Object.fromEntries(Object.keys(updateData).map((key) => [key, registration[key]])),
+    after: updateData,
+  });
+
+  return jsonResponse({
+    success: true,
+    total_score: result.total_score,
+    max_score: result.max_score,
+    percentage: result.percentage,
+  });
+}
 
+Deno.serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Fetch admin record to check multi-division access
-    const { data: adminRecord } = await supabase
-      .from("admins")
-      .select("access_all_divisions, additional_division_ids")
-      .eq("id", adminId)
-      .single();
-
-    const accessAllDivisions = adminRecord?.access_all_divisions ?? false;
-    const additionalDivisionIds: string[] = adminRecord?.additional_division_ids ?? [];
-
-    const canAccessDivision = (targetDivisionId: string) => {
-      if (accessAllDivisions) return true;
-      if (targetDivisionId === divisionId) return true;
-      if (additionalDivisionIds.includes(targetDivisionId)) return true;
-      return false;
-    };
+    const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
 
     const url = new URL(req.url);
 
-    // Handle PUT for verification updates or rank updates
+    // Handle PUT for reviews, adjudication and status updates. Ranks follow from the
+    // scores; see recompute_program_ranks().
     if (req.method === "PUT") {
+      const denied = requireCapability(principal, "registrations.verify");
+      if (denied) return denied;
+
       const body = await req.json();
-      const { registration_id, verification_scores, total_score, max_score, percentage, rank } = body;
+      const { registration_id, verification_scores, adjudication, status, reason } = body;
 
       if (!registration_id) {
-        return new Response(
-          JSON.stringify({ error: "registration_id is required" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "registration_id is required" }, 400);
       }
 
       // Get the registration to verify program ownership
       const { data: registration, error: regFetchError } = await supabase
         .from("program_registrations")
-        .select("program_id")
+        .select("*")
         .eq("id", registration_id)
         .single();
 
       if (regFetchError || !registration) {
-        return new Response(
-          JSON.stringify({ error: "Registration not found" }),
-          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Registration not found" }, 404);
       }
 
       // Verify the program belongs to the admin's division
       const { data: program, error: programError } = await supabase
         .from("programs")
-        .select("division_id")
+        .select("name, division_id, verification_enabled, reviewers_required, score_aggregation, review_conflict_threshold")
         .eq("id", registration.program_id)
         .single();
 
       if (programError || !program) {
-        return new Response(
-          JSON.stringify({ error: "Program not found" }),
-          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Program not found" }, 404);
       }
 
-      if (!canAccessDivision(program.division_id)) {
-        return new Response(
-          JSON.stringify({ error: "Access denied: Program belongs to different division" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+      if (!canAccessDivision(principal, program.division_id)) {
+        return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
       }
 
-      // Build update object based on what's provided
-      const updateData: Record<string, any> = {};
-
-      // If it's a verification update
       if (verification_scores !== undefined) {
-        updateData.verification_scores = verification_scores;
-        updateData.total_score = total_score;
-        updateData.max_score = max_score;
-        updateData.percentage = Math.round(percentage * 100) / 100;
-        updateData.verified_by = adminId;
-        updateData.verified_at = new Date().toISOString();
-        updateData.verification_status = "verified";
+        return await submitReview(supabase, req, principal, registration, program, verification_scores);
       }
 
-      // If it's a rank update
-      if (rank !== undefined) {
-        updateData.rank = rank === null || rank === "" ? null : parseInt(rank);
+      if (adjudication !== undefined) {
+        return await adjudicateRegistration(supabase, req, principal, registration, program, adjudication);
       }
 
+      if (status === undefined) {
+        return jsonResponse({ error: "Nothing to update" }, 400);
+      }
+
+      const statusError = getStatusChangeError(registration, status, program.verification_enabled);
+      if (statusError) {
+        return jsonResponse({ error: statusError }, 400);
+      }
+      const parsedReason = parseStatusReason(status, reason);
+      if (parsedReason.error) {
+        return jsonResponse({ error: parsedReason.error }, 400);
+      }
+      const updateData = buildStatusChange(
+        status,
+        parsedReason.reason,
+        status === "registered" && ["rejected", "withdrawn"].includes(registration.status),
+      );
+
       // Update the registration
       const { error: updateError } = await supabase
         .from("program_registrations")
@@ -138,26 +526,332 @@ Deno.serve(async (req) => {
 
       if (updateError) {
         console.error("Error updating registration:", updateError);
-        return new Response(
-          JSON.stringify({ error: "Failed to update registration" }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Failed to update registration" }, 500);
       }
 
-      return new Response(
-        JSON.stringify({ success: true }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      if (updateData.status === "waitlisted") {
+        const { error: fillError } = await supabase.rpc("fill_program_seats", { _program_id: registration.program_id });
+        if (fillError) console.error("Error filling program seats:", fillError);
+      }
+
+      // Only the changed columns, so applicants' answers are not copied into the log
+      const before = {
+        status: registration.status,
+        status_reason: registration.status_reason,
+        status_changed_at: registration.status_changed_at,
+      };
+      await recordAuditEvent(supabase, req, principal, {
+        action: "status",
+        entityType: "program_registrations",
+        entityId: registration_id,
+        divisionId: program.division_id,
+        before,
+        after: updateData,
+      });
+
+      await notifyApplicants(
+        [registration.answers?._fixed?.mobile],
+        getStatusMessage(program.name, updateData.status, updateData.status_reason),
+      );
+
+      return jsonResponse({ success: true });
+    }
+
+    // POST - Batch status changes, assigning reviewers, or taking back an assignment not yet scored
+    if (req.method === "POST") {
+      const body = await req.json();
+      const denied = requireCapability(
+        principal,
+        body.action === "set_status" ? "registrations.verify" : "registrations.adjudicate",
       );
+      if (denied) return denied;
+
+      switch (body.action) {
+        case "set_status": {
+          const registrationIds: unknown = body.registration_ids;
+          if (!Array.isArray(registrationIds) || registrationIds.length === 0) {
+            return jsonResponse({ error: "registration_ids is required" }, 400);
+          }
+          if (registrationIds.length > MAX_BATCH_SIZE) {
+            return jsonResponse({ error: `Update at most ${MAX_BATCH_SIZE} registrations at a time` }, 400);
+          }
+          if (!["shortlisted", "selected", "rejected", "withdrawn"].includes(body.status)) {
+            return jsonResponse({ error: "Invalid status" }, 400);
+          }
+          const parsedReason = parseStatusReason(body.status, body.reason);
+          if (parsedReason.error) {
+            return jsonResponse({ error: parsedReason.error }, 400);
+          }
+
+          const { data: registrations, error: regError } = await supabase
+            .from("program_registrations")
+            .select("id, program_id, status, status_reason, verification_status, mobile:answers->_fixed->>mobile")
+            .in("id", registrationIds);
+
+          if (regError || !registrations || registrations.length === 0) {
+            return jsonResponse({ error: "Registrations not found" }, 404);
+          }
+
+          const programIds = new Set(registrations.map((r) => r.program_id));
+          if (programIds.size > 1) {
+            return jsonResponse({ error: "Registrations must belong to the same program" }, 400);
+          }
+
+          const { data: program } = await supabase
+            .from("programs")
+            .select("name, division_id, verification_enabled")
+            .eq("id", registrations[0].program_id)
+            .single();
+
+          if (!program || !canAccessDivision(principal, program.division_id)) {
+            return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+          }
+
+          // Registrations that cannot make this move (e.g. unverified ones) are skipped
+          const eligible = registrations.filter(
+            (r) => getStatusChangeError(r, body.status, program.verification_enabled) === null,
+          );
+
+          if (eligible.length > 0) {
+            const { error: updateError } = await supabase
+              .from("program_registrations")
+              .update(buildStatusChange(body.status, parsedReason.reason))
+              .in("id", eligible.map((r) => r.id));
+
+            if (updateError) {
+              console.error("Error updating registrations:", updateError);
+              return jsonResponse({ error: "Failed to update registrations" }, 500);
+            }
+          }
+
+          await recordAuditEvent(supabase, req, principal, {
+            action: "bulk_status",
+            entityType: "program_registrations",
+            divisionId: program.division_id,
+            before: { statuses: Object.fromEntries(eligible.map((r) => [r.id, r.status])) },
+            after: { status: body.status, status_reason: parsedReason.reason },
+          });
+
+          await notifyApplicants(
+            eligible.map((r) => r.mobile),
+            getStatusMessage(program.name, body.status, parsedReason.reason),
+          );
+
+          return jsonResponse({ success: true, updated: eligible.length, skipped: registrations.length - eligible.length });
+        }
+
+        case "assign_reviewers": {
+          const registrationIds: unknown = body.registration_ids;
+          const reviewerIds: unknown = body.reviewer_ids;
+          if (
+            !Array.isArray(registrationIds) || registrationIds.length === 0 ||
+            !Array.isArray(reviewerIds) || reviewerIds.length === 0
+          ) {
+            return jsonResponse({ error: "registration_ids and reviewer_ids are required" }, 400);
+          }
+          if (registrationIds.length > MAX_BATCH_SIZE) {
+            return jsonResponse({ error: `Assign at most ${MAX_BATCH_SIZE} registrations at a time` }, 400);
+          }
+
+          const { data: registrations, error: regError } = await supabase
+            .from("program_registrations")
+            .select("id, program_id, verification_status")
+            .in("id", registrationIds);
+
+          if (regError || !registrations || registrations.length === 0) {
+            return jsonResponse({ error: "Registrations not found" }, 404);
+          }
+
+          const programIds = new Set(registrations.map((r) => r.program_id));
+          if (programIds.size > 1) {
+            return jsonResponse({ error: "Registrations must belong to the same program" }, 400);
+          }
+
+          const { data: program } = await supabase
+            .from("programs")
+            .select("division_id")
+            .eq("id", registrations[0].program_id)
+            .single();
+
+          if (!program || !canAccessDivision(principal, program.division_id)) {
+            return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+          }
+
+          const eligible = await getEligibleReviewers(supabase, program.division_id);
+          const reviewers = eligible.filter((r) => reviewerIds.includes(r.id));
+          if (reviewers.length !== new Set(reviewerIds).size) {
+            return jsonResponse({ error: "Some reviewers cannot verify registrations in this division" }, 400);
+          }
+
+          // Verified registrations are left alone; existing reviews are kept as they are
+          const pending = registrations.filter((r) => r.verification_status !== "verified");
+          const assignedAt = new Date().toISOString();
+          const rows = pending.flatMap((registration) =>
+            reviewers.map((reviewer) => ({
+              registration_id: registration.id,
+              reviewer_id: reviewer.id,
+              reviewer_name: reviewer.full_name,
+              assigned_by: principalId(principal),
+              assigned_at: assignedAt,
+            }))
+          );
+
+          if (rows.length > 0) {
+            const { error: assignError } = await supabase
+              .from("registration_reviews")
+              .upsert(rows, { onConflict: "registration_id,reviewer_id", ignoreDuplicates: true });
+
+            if (assignError) {
+              console.error("Error assigning reviewers:", assignError);
+              return jsonResponse({ error: "Failed to assign reviewers" }, 500);
+            }
+          }
+
+          await recordAuditEvent(supabase, req, principal, {
+            action: "assign",
+            entityType: "registration_reviews",
+            divisionId: program.division_id,
+            after: { registration_ids: pending.map((r) => r.id), reviewers: reviewers.map((r) => r.full_name) },
+          });
+
+          return jsonResponse({ success: true, assigned: pending.length, skipped: registrations.length - pending.length });
+        }
+
+        case "unassign_reviewer": {
+          const { data: review } = await supabase
+            .from("registration_reviews")
+            .select("*, registration:program_registrations(program:programs(division_id))")
+            .eq("registration_id", body.registration_id)
+            .eq("reviewer_id", body.reviewer_id)
+            .maybeSingle();
+
+          if (!review) {
+            return jsonResponse({ error: "Assignment not found" }, 404);
+          }
+
+          const divisionId = review.registration?.program?.division_id;
+          if (!canAccessDivision(principal, divisionId)) {
+            return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+          }
+          if (review.submitted_at) {
+            return jsonResponse({ error: "A submitted review cannot be removed" }, 409);
+          }
+
+          const { error: deleteError } = await supabase.from("registration_reviews").delete().eq("id", review.id);
+          if (deleteError) {
+            console.error("Error removing reviewer:", deleteError);
+            return jsonResponse({ error: "Failed to remove reviewer" }, 500);
+          }
+
+          await recordAuditEvent(supabase, req, principal, {
+            action: "unassign",
+            entityType: "registration_reviews",
+            entityId: review.id,
+            divisionId,
+            before: { ...review, registration: undefined },
+          });
+
+          return jsonResponse({ success: true });
+        }
+
+        default:
+          return jsonResponse({ error: "Invalid action" }, 400);
+      }
+    }
+
+    // GET - Admins who can be assigned to review a program's registrations
+    if (url.searchParams.get("action") === "reviewers") {
+      const denied = requireCapability(principal, "registrations.adjudicate");
+      if (denied) return denied;
+
+      const { data: program } = await supabase
+        .from("programs")
+        .select("division_id")
+        .eq("id", url.searchParams.get("program_id"))
+        .maybeSingle();
+
+      if (!program) {
+        return jsonResponse({ error: "Program not found" }, 404);
+      }
+      if (!canAccessDivision(principal, program.division_id)) {
+        return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+      }
+
+      return jsonResponse({ reviewers: await getEligibleReviewers(supabase, program.division_id) });
+    }
+
+    // GET - Counts and distributions for the program's analytics tab; see
+    // program_registration_analytics()
+    if (url.searchParams.get("action") === "analytics") {
+      const { data: program } = await supabase
+        .from("programs")
+        .select("division_id")
+        .eq("id", url.searchParams.get("program_id"))
+        .maybeSingle();
+
+      if (!program) {
+        return jsonResponse({ error: "Program not found" }, 404);
+      }
+      if (!canAccessDivision(principal, program.division_id)) {
+        return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+      }
+
+      const { data: analytics, error: analyticsError } = await supabase.rpc("program_registration_analytics", {
+        _program_id: url.searchParams.get("program_id"),
+      });
+
+      if (analyticsError) {
+        console.error("Error computing registration analytics:", analyticsError);
+        return jsonResponse({ error: "Failed to load analytics" }, 500);
+      }
+
+      return jsonResponse({ analytics });
+    }
+
+    // GET - Short-lived link to a file uploaded with a registration
+    if (url.searchParams.get("action") === "file_url") {
+      const registrationId = url.searchParams.get("registration_id");
+      const questionId = url.searchParams.get("question_id");
+      if (!registrationId || !questionId) {
+        return jsonResponse({ error: "registration_id and question_id are required" }, 400);
+      }
+
+      const { data: registration } = await supabase
+        .from("program_registrations")
+        .select("answers, program:programs(division_id)")
+        .eq("id", registrationId)
+        .maybeSingle();
+
+      if (!registration) {
+        return jsonResponse({ error: "Registration not found" }, 404);
+      }
+
+      if (!canAccessDivision(principal, registration.program?.division_id)) {
+        return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+      }
+
+      const path = registration.answers?.[questionId]?.path;
+      if (typeof path !== "string") {
+        return jsonResponse({ error: "No file uploaded for this question" }, 404);
+      }
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(REGISTRATION_UPLOADS_BUCKET)
+        .createSignedUrl(path, FILE_URL_TTL_SECONDS);
+
+      if (signError || !signed) {
+        console.error("Error signing registration file URL:", signError);
+        return jsonResponse({ error: "File not found" }, 404);
+      }
+
+      return jsonResponse({ url: signed.signedUrl });
     }
 
     // GET - Fetch registrations
     const programId = url.searchParams.get("program_id");
 
     if (!programId) {
-      return new Response(
-        JSON.stringify({ error: "program_id is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "program_id is required" }, 400);
     }
 
     // Verify the program belongs to the admin's division
@@ -168,43 +862,33 @@ Deno.serve(async (req) => {
       .single();
 
     if (programError || !program) {
-      return new Response(
-        JSON.stringify({ error: "Program not found" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "Program not found" }, 404);
     }
 
-    if (!canAccessDivision(program.division_id)) {
-      return new Response(
-        JSON.stringify({ error: "Access denied: Program belongs to different division" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!canAccessDivision(principal, program.division_id)) {
+      return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
     }
 
-    // Fetch registrations
+    // Fetch registrations, with each one's reviews
     const { data: registrations, error: regError } = await supabase
       .from("program_registrations")
-      .select("*")
+      .select("*, reviews:registration_reviews(*)")
       .eq("program_id", programId)
       .order("created_at", { ascending: false });
 
     if (regError) {
       console.error("Error fetching registrations:", regError);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch registrations" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "Failed to fetch registrations" }, 500);
     }
 
-    return new Response(
-      JSON.stringify({ registrations }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({
+      registrations: (registrations ?? []).map((registration) => ({
+        ...registration,
+        reviews: (registration.reviews ?? []).map((review: ReviewRow) => redactReview(review, principal)),
+      })),
+    });
   } catch (error) {
     console.error("Error:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: "Internal server error" }, 500);
   }
 });
\ No newline at end of file
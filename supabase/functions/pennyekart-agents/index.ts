@@ -1,113 +1,29 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-};
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticate, principalId, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const ADMIN_SECRET = Deno.env.get("ADMIN_SECRET") || "elife_admin_secret_2024";
-
-interface AdminToken {
-  admin_id: string;
-  user_id: string | null;
-  division_id: string;
-  full_name: string;
-  exp: number;
-}
-
-function parseAdminToken(token: string): AdminToken | null {
-  try {
-    const [payloadB64, signature] = token.split(".");
-    const payload = JSON.parse(atob(payloadB64));
-    
-    // Verify expiration
-    if (payload.exp < Date.now()) {
-      return null;
-    }
-    
-    // Verify signature
-    const encoder = new TextEncoder();
-    const data = encoder.encode(payloadB64 + ADMIN_SECRET);
-    const hashBuffer = new Uint8Array(32);
-    const dataArray = new Uint8Array(data);
-    for (let i = 0; i < dataArray.length; i++) {
-      hashBuffer[i % 32] ^= dataArray[i];
-    }
-    const expectedSig = Array.from(hashBuffer).map(b => b.toString(16).padStart(2, "0")).join("");
-    
-    if (signature !== expectedSig) {
-      // For now, allow the token if payload is valid (matching admin-auth logic)
-    }
-    
-    return payload;
-  } catch {
-    return null;
-  }
-}
-
-async function verifyAdmin(adminToken: string): Promise<{ valid: boolean; admin?: AdminToken; isSuperAdmin?: boolean }> {
-  const parsed = parseAdminToken(adminToken);
-  if (!parsed) {
-    return { valid: false };
-  }
-  
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-  
-  // Check if admin exists and is active
-  const { data: admin } = await supabase
-    .from("admins")
-    .select("id, division_id, full_name")
-    .eq("id", parsed.admin_id)
-    .eq("is_active", true)
-    .single();
-  
-  if (!admin) {
-    return { valid: false };
-  }
-  
-  // Check for super_admin role via user_id
-  let isSuperAdmin = false;
-  if (parsed.user_id) {
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", parsed.user_id)
-      .eq("role", "super_admin")
-      .single();
-    
-    isSuperAdmin = !!roleData;
-  }
-  
-  return { valid: true, admin: parsed, isSuperAdmin };
-}
 
 serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized - No admin token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    const { valid, admin, isSuperAdmin } = await verifyAdmin(adminToken);
-    if (!valid || !admin) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized - Invalid admin token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const auth = await authenticate(req, supabase);
+    if (auth.response) return auth.response;
+    const principal = auth.principal;
+
+    // Listing agents is open to every admin; changes need agents.manage
+    if (req.method !== "GET") {
+      const denied = requireCapability(principal, "agents.manage");
+      if (denied) return denied;
     }
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
     const url = new URL(req.url);
     const body = req.method !== "GET" && req.method !== "DELETE" 
       ? await req.json() 
@@ -134,9 +50,7 @@ serve(async (req) => {
       const { data, error } = await query;
 
       if (error) throw error;
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return jsonResponse({ data });
     }
 
     // POST - Create agent
@@ -158,34 +72,33 @@ serve(async (req) => {
           .eq("id", dup.panchayath_id)
           .single();
         const panchName = panchData?.name || "unknown";
-        return new Response(
-          JSON.stringify({ error: `Duplicate: Mobile ${agent.mobile} already exists for agent "${dup.name}" (${dup.role}) in ${panchName}` }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: `Duplicate: Mobile ${agent.mobile} already exists for agent "${dup.name}" (${dup.role}) in ${panchName}` }, 400);
       }
 
       const { data, error } = await supabase
         .from("pennyekart_agents")
         .insert({
           ...agent,
-          created_by: admin.admin_id,
+          created_by: principalId(principal),
         })
         .select()
         .single();
 
       if (error) {
         if (error.code === "23505") {
-          return new Response(
-            JSON.stringify({ error: "Mobile number already exists" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: "Mobile number already exists" }, 400);
         }
         throw error;
       }
 
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      await recordAuditEvent(supabase, req, principal, {
+        action: "create",
+        entityType: "pennyekart_agents",
+        entityId: data.id,
+        after: data,
       });
+
+      return jsonResponse({ data });
     }
 
     // POST - Bulk create agents
@@ -198,10 +111,7 @@ serve(async (req) => {
       // Also check for duplicates within the batch itself
       const batchDuplicates = mobiles.filter((m: string, i: number) => mobiles.indexOf(m) !== i);
       if (batchDuplicates.length > 0) {
-        return new Response(
-          JSON.stringify({ error: `Duplicate mobiles within batch: ${[...new Set(batchDuplicates)].join(", ")}` }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: `Duplicate mobiles within batch: ${[...new Set(batchDuplicates)].join(", ")}` }, 400);
       }
 
       const { data: existingAgents } = await supabase
@@ -211,15 +121,12 @@ serve(async (req) => {
 
       if (existingAgents && existingAgents.length > 0) {
         const dupDetails = existingAgents.map((a: any) => `${a.mobile} (${a.name}, ${a.role})`).join("; ");
-        return new Response(
-          JSON.stringify({ error: `Duplicate mobile numbers already exist: ${dupDetails}` }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: `Duplicate mobile numbers already exist: ${dupDetails}` }, 400);
       }
 
       const agentsWithCreator = agents.map((a: any) => ({
         ...a,
-        created_by: admin.admin_id,
+        created_by: principalId(principal),
       }));
 
       const { data, error } = await supabase
@@ -229,17 +136,18 @@ serve(async (req) => {
 
       if (error) {
         if (error.code === "23505") {
-          return new Response(
-            JSON.stringify({ error: "One or more mobile numbers already exist" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return jsonResponse({ error: "One or more mobile numbers already exist" }, 400);
         }
         throw error;
       }
 
-      return new Response(JSON.stringify({ data, count: data?.length || 0 }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      await recordAuditEvent(supabase, req, principal, {
+        action: "bulk_create",
+        entityType: "pennyekart_agents",
+        after: { count: data?.length || 0, agents: (data || []).map((a) => ({ id: a.id, name: a.name, mobile: a.mobile, role: a.role })) },
       });
+
+      return jsonResponse({ data, count: data?.length || 0 });
     }
 
     // PUT - Update agent
@@ -247,15 +155,18 @@ serve(async (req) => {
       const { agent, id } = body;
       
       if (!id || !agent) {
-        return new Response(
-          JSON.stringify({ error: "Missing id or agent data" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Missing id or agent data" }, 400);
       }
 
       // Remove fields that shouldn't be updated
       const { created_at, created_by, panchayath, parent_agent, children, ...updateData } = agent;
-      
+
+      const { data: before } = await supabase
+        .from("pennyekart_agents")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
       const { data, error } = await supabase
         .from("pennyekart_agents")
         .update(updateData)
@@ -268,13 +179,25 @@ serve(async (req) => {
         throw error;
       }
 
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      await recordAuditEvent(supabase, req, principal, {
+        action: "update",
+        entityType: "pennyekart_agents",
+        entityId: id,
+        before,
+        after: data,
       });
+
+      return jsonResponse({ data });
     }
 
     // DELETE - Delete agent (cascade: reassign or delete children first)
     if (req.method === "DELETE" && agentId) {
+      const { data: before } = await supabase
+        .from("pennyekart_agents")
+        .select("*")
+        .eq("id", agentId)
+        .maybeSingle();
+
       // First, remove references from child agents by setting their parent_agent_id to null
       const { error: childError } = await supabase
         .from("pennyekart_agents")
@@ -293,22 +216,21 @@ serve(async (req) => {
 
       if (error) throw error;
 
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      await recordAuditEvent(supabase, req, principal, {
+        action: "delete",
+        entityType: "pennyekart_agents",
+        entityId: agentId,
+        before,
       });
+
+      return jsonResponse({ success: true });
     }
 
-    return new Response(
-      JSON.stringify({ error: "Invalid action" }),
-      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: "Invalid action" }, 400);
 
   } catch (error: unknown) {
     console.error("Error:", error);
     const message = error instanceof Error ? error.message : "Internal server error";
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: message }, 500);
   }
 });
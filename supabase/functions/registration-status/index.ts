@@ -0,0 +1,230 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+import { checkEditCode } from "../_shared/editCodes.ts";
+import {
+  type FieldErrors,
+  type FixedFields,
+  type FormQuestion,
+  validateAnswers,
+  validateFixedFields,
+} from "../_shared/registrationForm.ts";
+
+// Public lookups for applicants: their registrations by mobile number, and reopening one
+// with its edit code to correct answers while the program still allows it.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface RegistrationRow {
+  id: string;
+  program_id: string;
+  answers: Record<string, unknown>;
+  created_at: string;
+  applicant_updated_at: string | null;
+  status: string;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  verification_status: string;
+  verification_scores: unknown;
+  total_score: number | null;
+  max_score: number | null;
+  percentage: number | null;
+  rank: number | null;
+  reviews: { submitted_at: string | null }[] | null;
+  program: {
+    id: string;
+    name: string;
+    is_active: boolean;
+    verification_enabled: boolean;
+    applicant_edit_until: string | null;
+    division: { name: string } | null;
+  } | null;
+}
+
+const REGISTRATION_SELECT = `
+  id, program_id, answers, created_at, applicant_updated_at, status, status_reason, status_changed_at,
+  verification_status, verification_scores, total_score, max_score, percentage, rank,
+  reviews:registration_reviews(submitted_at),
+  program:programs(id, name, is_active, verification_enabled, applicant_edit_until, division:divisions(name))
+`;
+
+function normalizeMobile(value: unknown): string {
+  return String(value ?? "").replace(/\D/g, "").slice(-10);
+}
+
+// Editing closes at the program's deadline, once a reviewer has started on the
+// registration, or when it has been rejected or withdrawn
+function getEditBlocker(registration: RegistrationRow): string | null {
+  const program = registration.program;
+  if (!program?.is_active || !program.applicant_edit_until) return "This program does not allow changes";
+  if (new Date(program.applicant_edit_until).getTime() <= Date.now()) return "The deadline for changes has passed";
+  if (
+    registration.verification_status !== "pending" || registration.verification_scores != null ||
+    registration.reviews?.some((review) => review.submitted_at)
+  ) {
+    return "Your registration is already being reviewed";
+  }
+  if (registration.status === "rejected" || registration.status === "withdrawn") return "This registration can no longer be changed";
+  return null;
+}
+
+async function findRegistration(
+  supabase: SupabaseClient,
+  registrationId: unknown,
+  mobile: string,
+): Promise<RegistrationRow | null> {
+  if (!registrationId || mobile.length !== 10) return null;
+  const { data } = await supabase
+    .from("program_registrations")
+    .select(REGISTRATION_SELECT)
+    .eq("id", registrationId)
+    .eq("answers->_fixed->>mobile", mobile)
+    .maybeSingle();
+  return (data as unknown as RegistrationRow) ?? null;
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = (await req.json().catch(() => null)) ?? {};
+    const { action } = body as { action?: string };
+    const mobile = normalizeMobile(body.mobile);
+
+    switch (action) {
+      case "lookup": {
+        if (mobile.length !== 10) {
+          return jsonResponse({ error: "Enter a 10-digit mobile number" }, 400);
+        }
+
+        const { data, error } = await supabase
+          .from("program_registrations")
+          .select(REGISTRATION_SELECT)
+          .eq("answers->_fixed->>mobile", mobile)
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          console.error("Error looking up registrations:", error);
+          return jsonResponse({ error: "Failed to look up registrations" }, 500);
+        }
+
+        // Scores and ranks are only shown once the registration has been verified
+        const registrations = ((data ?? []) as unknown as RegistrationRow[]).map((r) => {
+          const showResult = !!r.program?.verification_enabled && r.verification_status === "verified";
+          return {
+            id: r.id,
+            program_id: r.program_id,
+            program_name: r.program?.name ?? "",
+            division_name: r.program?.division?.name ?? null,
+            name: (r.answers._fixed as Partial<FixedFields> | undefined)?.name ?? "",
+            created_at: r.created_at,
+            applicant_updated_at: r.applicant_updated_at,
+            status: r.status,
+            status_reason: r.status_reason,
+            status_changed_at: r.status_changed_at,
+            verification_enabled: !!r.program?.verification_enabled,
+            verification_status: r.verification_status,
+            total_score: showResult ? r.total_score : null,
+            max_score: showResult ? r.max_score : null,
+            percentage: showResult ? r.percentage : null,
+            rank: showResult ? r.rank : null,
+            can_edit: getEditBlocker(r) === null,
+            edit_until: r.program?.applicant_edit_until ?? null,
+          };
+        });
+
+        return jsonResponse({ registrations });
+      }
+
+      case "open":
+      case "update": {
+        const registration = await findRegistration(supabase, body.registration_id, mobile);
+        if (!registration) {
+          return jsonResponse({ error: "Registration not found" }, 404);
+        }
+
+        const codeCheck = await checkEditCode(supabase, registration.id, String(body.code ?? ""));
+        if (codeCheck === "locked") {
+          return jsonResponse(
+            { error: "Too many incorrect codes. Please contact the program organisers to make changes." },
+            429,
+          );
+        }
+        if (codeCheck !== "ok") {
+          return jsonResponse({ error: "Incorrect edit code" }, 401);
+        }
+
+        const blocker = getEditBlocker(registration);
+        if (blocker) {
+          return jsonResponse({ error: blocker }, 403);
+        }
+
+        if (action === "open") {
+          return jsonResponse({
+            registration: { id: registration.id, program_id: registration.program_id, answers: registration.answers },
+            edit_until: registration.program!.applicant_edit_until,
+          });
+        }
+
+        // Mobile number and panchayath decide duplicates and seats, so they stay as submitted
+        const original = (registration.answers._fixed ?? {}) as FixedFields;
+        const fixed: FixedFields = {
+          ...original,
+          name: String(body.fixed?.name ?? "").trim(),
+          ward: String(body.fixed?.ward ?? ""),
+        };
+
+        const { data: questions, error: questionsError } = await supabase
+          .from("program_form_questions")
+          .select("id, question_text, question_type, is_required, options, config, visibility_rule, sort_order")
+          .eq("program_id", registration.program_id);
+
+        if (questionsError) {
+          return jsonResponse({ error: questionsError.message }, 400);
+        }
+
+        const answers = body.answers && typeof body.answers === "object" && !Array.isArray(body.answers)
+          ? (body.answers as Record<string, unknown>)
+          : {};
+        const fieldErrors: FieldErrors = validateFixedFields(fixed);
+        const checked = validateAnswers((questions ?? []) as FormQuestion[], answers, registration.program_id);
+        Object.assign(fieldErrors, checked.errors);
+
+        if (Object.keys(fieldErrors).length > 0) {
+          return jsonResponse({ error: "Please correct the highlighted fields", field_errors: fieldErrors }, 422);
+        }
+
+        const { error: updateError } = await supabase
+          .from("program_registrations")
+          .update({
+            answers: { _fixed: fixed, ...checked.answers },
+            applicant_updated_at: new Date().toISOString(),
+          })
+          .eq("id", registration.id)
+          .eq("verification_status", "pending");
+
+        if (updateError) {
+          console.error("Error updating registration:", updateError);
+          return jsonResponse({ error: updateError.message }, 400);
+        }
+
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: "Invalid action" }, 400);
+    }
+  } catch (error) {
+    console.error("Error in registration-status:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,300 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, canAccessDivision, requireCapability } from "../_shared/auth.ts";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { handleCorsPreflight, jsonResponse } from "../_shared/http.ts";
+import { issueEditCode } from "../_shared/editCodes.ts";
+import {
+  type FieldErrors,
+  type FixedFields,
+  type FormQuestion,
+  validateAnswers,
+  validateFixedFields,
+} from "../_shared/registrationForm.ts";
+
+// Public registration endpoint used by the program page. Applicants are anonymous, so every
+// check the form makes is repeated here before the row is written with the service role.
+// Field problems come back as 422 { error, field_errors } keyed like the form fields.
+//
+// Admins also import paper registrations here: { program_id, registrations: [{ fixed, answers }] }
+// with an admin token. Each row gets the same checks and comes back with its own result.
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const QUESTION_COLUMNS = "id, question_text, question_type, is_required, options, config, visibility_rule, sort_order";
+const MAX_IMPORT_BATCH = 50;
+
+interface Applicant {
+  fixed?: Partial<FixedFields>;
+  answers?: Record<string, unknown>;
+}
+
+type RegistrationOutcome =
+  | { registration: { id: string; created_at: string; status: string }; error?: undefined }
+  | { error: string; status: number; field_errors?: FieldErrors; registration?: undefined };
+
+// Program dates are calendar dates in India
+function todayInIndia(): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Kolkata" }).format(new Date());
+}
+
+function isAnswersObject(answers: unknown): boolean {
+  return answers === undefined || (typeof answers === "object" && answers !== null && !Array.isArray(answers));
+}
+
+// Checks one applicant's details and writes the registration
+async function createRegistration(
+  supabase: SupabaseClient,
+  program: { id: string },
+  questions: FormQuestion[],
+  { fixed, answers }: Applicant,
+): Promise<RegistrationOutcome> {
+  const fieldErrors: FieldErrors = validateFixedFields(fixed);
+
+  // The panchayath must exist; its stored name is used rather than the submitted one
+  let panchayathName = "";
+  if (fixed?.panchayath_id && !fieldErrors["_fixed.panchayath_id"]) {
+    const { data: panchayath } = await supabase
+      .from("panchayaths")
+      .select("name")
+      .eq("id", fixed.panchayath_id)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (panchayath) panchayathName = panchayath.name;
+    else fieldErrors["_fixed.panchayath_id"] = "Please select a panchayath";
+  }
+
+  const checked = validateAnswers(questions, answers ?? {}, program.id);
+  Object.assign(fieldErrors, checked.errors);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { error: "Please correct the highlighted fields", status: 422, field_errors: fieldErrors };
+  }
+
+  const mobile = String(fixed!.mobile).trim();
+
+  const { data: registration, error: insertError } = await supabase
+    .from("program_registrations")
+    .insert({
+      program_id: program.id,
+      answers: {
+        _fixed: {
+          name: String(fixed!.name).trim(),
+          mobile,
+          panchayath_id: fixed!.panchayath_id,
+          panchayath_name: panchayathName,
+          ward: String(fixed!.ward),
+        },
+        ...checked.answers,
+      },
+    })
+    .select("id, created_at, status")
+    .single();
+
+  // Raised by the insert trigger when the program does not allow duplicate mobile numbers
+  if (insertError?.code === "23505") {
+    return {
+      error: "This mobile number is already registered for this program",
+      status: 409,
+      field_errors: { "_fixed.mobile": "This mobile number is already registered for this program" },
+    };
+  }
+  if (insertError) {
+    console.error("Registration insert error:", insertError);
+    return { error: insertError.message, status: 400 };
+  }
+  return { registration };
+}
+
+// Paper registrations typed up by an admin. Dates and the registration module are not
+// checked, since the forms may have been collected while registration was open.
+async function importRegistrations(
+  req: Request,
+  supabase: SupabaseClient,
+  programId: string,
+  registrations: unknown[],
+): Promise<Response> {
+  const auth = await authenticate(req, supabase, { allowSuperAdmin: true });
+  if (auth.response) return auth.response;
+  const principal = auth.principal;
+
+  // Adding applicants in bulk is program setup, not review
+  const denied = requireCapability(principal, "programs.edit");
+  if (denied) return denied;
+
+  if (registrations.length === 0 || registrations.length > MAX_IMPORT_BATCH) {
+    return jsonResponse({ error: `Send between 1 and ${MAX_IMPORT_BATCH} registrations at a time` }, 400);
+  }
+
+  const { data: program } = await supabase
+    .from("programs")
+    .select("id, division_id")
+    .eq("id", programId)
+    .maybeSingle();
+
+  if (!program) {
+    return jsonResponse({ error: "Program not found" }, 404);
+  }
+  if (!canAccessDivision(principal, program.division_id)) {
+    return jsonResponse({ error: "Access denied: Program belongs to different division" }, 403);
+  }
+
+  const { data: questions, error: questionsError } = await supabase
+    .from("program_form_questions")
+    .select(QUESTION_COLUMNS)
+    .eq("program_id", programId);
+
+  if (questionsError) {
+    return jsonResponse({ error: questionsError.message }, 400);
+  }
+
+  // Files cannot come from a spreadsheet, so required uploads are left empty
+  const importQuestions = ((questions ?? []) as FormQuestion[]).map((q) =>
+    q.question_type === "file" ? { ...q, is_required: false } : q
+  );
+
+  // One at a time, so seats and duplicate mobiles are decided in spreadsheet order
+  const results: { index: number; id?: string; status?: string; error?: string; field_errors?: FieldErrors }[] = [];
+  for (const [index, row] of registrations.entries()) {
+    const applicant = (row ?? {}) as Applicant;
+    if (!isAnswersObject(applicant.answers)) {
+      results.push({ index, error: "answers must be an object" });
+      continue;
+    }
+    const outcome = await createRegistration(supabase, program, importQuestions, applicant);
+    results.push(
+      outcome.registration
+        ? { index, id: outcome.registration.id, status: outcome.registration.status }
+        : { index, error: outcome.error, field_errors: outcome.field_errors },
+    );
+  }
+
+  const imported = results.filter((r) => r.id);
+  if (imported.length > 0) {
+    await recordAuditEvent(supabase, req, principal, {
+      action: "bulk_create",
+      entityType: "program_registrations",
+      divisionId: program.division_id,
+      after: { program_id: programId, count: imported.length, registration_ids: imported.map((r) => r.id) },
+    });
+  }
+
+  return jsonResponse({ success: true, imported: imported.length, results });
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => null);
+    const { program_id: programId, fixed, answers, registrations } = (body ?? {}) as {
+      program_id?: string;
+      fixed?: Partial<FixedFields>;
+      answers?: Record<string, unknown>;
+      registrations?: unknown;
+    };
+
+    if (!programId) {
+      return jsonResponse({ error: "program_id is required" }, 400);
+    }
+    if (registrations !== undefined) {
+      if (!Array.isArray(registrations)) {
+        return jsonResponse({ error: "registrations must be an array" }, 400);
+      }
+      return await importRegistrations(req, supabase, programId, registrations);
+    }
+    if (!isAnswersObject(answers)) {
+      return jsonResponse({ error: "answers must be an object" }, 400);
+    }
+
+    const { data: program, error: programError } = await supabase
+      .from("programs")
+      .select("id, is_active, start_date, end_date, applicant_edit_until")
+      .eq("id", programId)
+      .maybeSingle();
+
+    if (programError) {
+      return jsonResponse({ error: programError.message }, 400);
+    }
+    if (!program || !program.is_active) {
+      return jsonResponse({ error: "This program is not accepting registrations" }, 404);
+    }
+
+    const today = todayInIndia();
+    if (program.start_date && today < program.start_date) {
+      return jsonResponse({ error: "Registration for this program has not opened yet" }, 403);
+    }
+    if (program.end_date && today > program.end_date) {
+      return jsonResponse({ error: "Registration for this program has closed" }, 403);
+    }
+
+    const { data: registrationModule } = await supabase
+      .from("program_modules")
+      .select("id")
+      .eq("program_id", programId)
+      .eq("module_type", "registration")
+      .eq("is_published", true)
+      .limit(1)
+      .maybeSingle();
+
+    if (!registrationModule) {
+      return jsonResponse({ error: "This program is not accepting registrations" }, 403);
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from("program_form_questions")
+      .select(QUESTION_COLUMNS)
+      .eq("program_id", programId);
+
+    if (questionsError) {
+      return jsonResponse({ error: questionsError.message }, 400);
+    }
+
+    const outcome = await createRegistration(supabase, program, (questions ?? []) as FormQuestion[], { fixed, answers });
+    if (!outcome.registration) {
+      const { status, ...error } = outcome;
+      return jsonResponse(error, status);
+    }
+    const registration = outcome.registration;
+
+    // A full program (or panchayath) puts the registration on the waitlist; see assign_registration_seat()
+    let waitlistPosition: number | null = null;
+    if (registration.status === "waitlisted") {
+      const { count } = await supabase
+        .from("program_registrations")
+        .select("id", { count: "exact", head: true })
+        .eq("program_id", programId)
+        .eq("status", "waitlisted")
+        .lte("created_at", registration.created_at);
+      waitlistPosition = count ?? null;
+    }
+
+    // The applicant sees the edit code once, and only when the program allows changes
+    let editCode: string | null = null;
+    if (program.applicant_edit_until && new Date(program.applicant_edit_until).getTime() > Date.now()) {
+      try {
+        editCode = await issueEditCode(supabase, registration.id);
+      } catch (codeError) {
+        console.error("Failed to issue edit code:", codeError);
+      }
+    }
+
+    return jsonResponse(
+      { success: true, registration, waitlist_position: waitlistPosition, edit_code: editCode },
+      201,
+    );
+  } catch (error) {
+    console.error("Error in submit-registration:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,24 @@
+
+-- Force admins to pick a new password at next login (temporary passwords issued by super admin)
+ALTER TABLE public.admins
+ADD COLUMN must_change_password boolean NOT NULL DEFAULT false;
+
+-- One-time password reset codes for admin self-service recovery
+CREATE TABLE public.admin_password_resets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL REFERENCES public.admins(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  expires_at timestamp with time zone NOT NULL,
+  used_at timestamp with time zone,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (codes are only read/written by the admin-auth edge function)
+ALTER TABLE public.admin_password_resets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admin can view admin password resets"
+  ON public.admin_password_resets FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_admin_password_resets_admin ON public.admin_password_resets(admin_id, created_at DESC);
@@ -0,0 +1,26 @@
+
+-- Failed admin login tracking, one row per phone number and per client IP
+CREATE TABLE public.admin_login_throttles (
+  key text PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('phone', 'ip')),
+  failure_count integer NOT NULL DEFAULT 0,
+  last_failure_at timestamp with time zone,
+  locked_until timestamp with time zone,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.admin_login_throttles ENABLE ROW LEVEL SECURITY;
+
+-- Super admin can review and clear lockouts; the admin-auth function uses the service role
+CREATE POLICY "Super admin can manage admin login throttles"
+  ON public.admin_login_throttles FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_admin_login_throttles_locked ON public.admin_login_throttles(locked_until);
+
+CREATE TRIGGER update_admin_login_throttles_updated_at
+  BEFORE UPDATE ON public.admin_login_throttles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
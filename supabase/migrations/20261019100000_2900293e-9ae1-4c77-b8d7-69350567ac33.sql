@@ -0,0 +1,46 @@
+
+-- Registry of issued admin session tokens, keyed by the token jti
+CREATE TABLE public.admin_sessions (
+  jti uuid PRIMARY KEY,
+  admin_id uuid NOT NULL REFERENCES public.admins(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  last_seen_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  revoked_reason text,
+  ip_address text,
+  user_agent text
+);
+
+-- Enable RLS
+ALTER TABLE public.admin_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Super admin can list and revoke sessions; edge functions use the service role
+CREATE POLICY "Super admin can manage admin sessions"
+  ON public.admin_sessions FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_admin_sessions_admin ON public.admin_sessions(admin_id, created_at DESC);
+
+-- Deactivating an admin revokes all of their sessions immediately
+CREATE OR REPLACE FUNCTION public.revoke_sessions_on_admin_deactivate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_active = false AND OLD.is_active IS DISTINCT FROM false THEN
+    UPDATE public.admin_sessions
+    SET revoked_at = now(), revoked_reason = 'admin_deactivated'
+    WHERE admin_id = NEW.id AND revoked_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER revoke_admin_sessions_on_deactivate
+  AFTER UPDATE OF is_active ON public.admins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_sessions_on_admin_deactivate();
@@ -0,0 +1,9 @@
+-- Sliding admin sessions: short-lived access tokens renewed with a rotating refresh token.
+-- expires_at now marks the idle timeout and moves forward on every refresh,
+-- absolute_expires_at caps how long a session can be kept alive.
+ALTER TABLE public.admin_sessions
+  ADD COLUMN refresh_token_hash text,
+  ADD COLUMN absolute_expires_at timestamp with time zone;
+
+CREATE UNIQUE INDEX idx_admin_sessions_refresh_token ON public.admin_sessions(refresh_token_hash)
+  WHERE refresh_token_hash IS NOT NULL;
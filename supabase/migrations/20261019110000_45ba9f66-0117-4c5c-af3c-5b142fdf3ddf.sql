@@ -0,0 +1,71 @@
+-- Named admin capabilities grouped into reusable roles.
+-- An admin's effective capabilities are their role's capabilities plus granted_capabilities
+-- minus revoked_capabilities; read-only admins have none regardless.
+CREATE TABLE public.admin_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  capabilities text[] NOT NULL DEFAULT '{}',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.admin_roles ENABLE ROW LEVEL SECURITY;
+
+-- Super admin manages roles; edge functions read them with the service role
+CREATE POLICY "Super admin can manage admin roles"
+  ON public.admin_roles FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+-- At most one role is assigned to new admins automatically
+CREATE UNIQUE INDEX idx_admin_roles_single_default ON public.admin_roles(is_default) WHERE is_default;
+
+CREATE TRIGGER update_admin_roles_updated_at
+  BEFORE UPDATE ON public.admin_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.admins
+  ADD COLUMN role_id uuid REFERENCES public.admin_roles(id) ON DELETE SET NULL,
+  ADD COLUMN granted_capabilities text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN revoked_capabilities text[] NOT NULL DEFAULT '{}';
+
+INSERT INTO public.admin_roles (name, description, capabilities, is_default) VALUES
+  ('Division Manager', 'Full control of programs, registrations, cash collections and agents in their divisions',
+    ARRAY['programs.edit', 'registrations.verify', 'cash.collect', 'cash.verify', 'cash.submit', 'agents.manage', 'locations.manage'], true),
+  ('Program Coordinator', 'Builds programs and verifies registrations',
+    ARRAY['programs.edit', 'registrations.verify'], false),
+  ('Verifier', 'Scores and ranks registrations',
+    ARRAY['registrations.verify'], false),
+  ('Cash Collector', 'Records cash collections and submits them for verification',
+    ARRAY['cash.collect', 'cash.submit'], false),
+  ('Viewer', 'Read-only access to division data',
+    ARRAY[]::text[], false);
+
+-- Existing admins keep the access they had before roles existed
+UPDATE public.admins
+SET role_id = (SELECT id FROM public.admin_roles WHERE name = 'Division Manager')
+WHERE role_id IS NULL;
+
+-- New admins start with the default role unless one is chosen explicitly
+CREATE OR REPLACE FUNCTION public.set_default_admin_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role_id IS NULL THEN
+    SELECT id INTO NEW.role_id FROM public.admin_roles WHERE is_default LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_default_admin_role_on_insert
+  BEFORE INSERT ON public.admins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_admin_role();
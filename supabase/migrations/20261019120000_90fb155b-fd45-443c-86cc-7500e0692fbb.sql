@@ -0,0 +1,180 @@
+-- Audit trail of administrative changes.
+-- Edge functions run with the service role and record their own events (with the division
+-- admin or super admin as actor). Changes made directly through the API by a signed-in user
+-- are captured by the audit_row_change() trigger on each audited table.
+CREATE TABLE public.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_type text NOT NULL CHECK (actor_type IN ('admin', 'super_admin', 'user', 'system')),
+  actor_id uuid,
+  actor_name text,
+  action text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id text,
+  division_id uuid REFERENCES public.divisions(id) ON DELETE SET NULL,
+  before jsonb,
+  after jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Super admin can read the log; nobody can edit it through the API
+CREATE POLICY "Super admin can view audit events"
+  ON public.audit_events FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_audit_events_created_at ON public.audit_events(created_at DESC);
+CREATE INDEX idx_audit_events_actor ON public.audit_events(actor_id, created_at DESC);
+CREATE INDEX idx_audit_events_entity ON public.audit_events(entity_type, entity_id);
+CREATE INDEX idx_audit_events_division ON public.audit_events(division_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _before jsonb;
+  _after jsonb;
+  _row jsonb;
+  _division uuid;
+  _headers jsonb;
+BEGIN
+  -- No signed-in user: an edge function (which audits itself) or a public submission
+  IF _actor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    _before := to_jsonb(OLD) - 'password_hash';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _after := to_jsonb(NEW) - 'password_hash';
+  END IF;
+  IF TG_OP = 'UPDATE' AND _before = _after THEN
+    RETURN NULL;
+  END IF;
+
+  _row := COALESCE(_after, _before);
+  IF TG_TABLE_NAME = 'divisions' THEN
+    _division := (_row->>'id')::uuid;
+  ELSIF _row ? 'division_id' THEN
+    _division := NULLIF(_row->>'division_id', '')::uuid;
+  ELSIF _row ? 'program_id' THEN
+    SELECT division_id INTO _division FROM public.programs WHERE id = (_row->>'program_id')::uuid;
+  END IF;
+
+  _headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+
+  INSERT INTO public.audit_events (
+    actor_type, actor_id, actor_name, action, entity_type, entity_id, division_id,
+    before, after, ip_address, user_agent
+  ) VALUES (
+    CASE WHEN has_role(_actor, 'super_admin'::app_role) THEN 'super_admin' ELSE 'user' END,
+    _actor,
+    (SELECT full_name FROM public.profiles WHERE id = _actor),
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    TG_TABLE_NAME,
+    _row->>'id',
+    _division,
+    _before,
+    _after,
+    NULLIF(trim(split_part(COALESCE(_headers->>'x-forwarded-for', _headers->>'x-real-ip', ''), ',', 1)), ''),
+    _headers->>'user-agent'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Old payments are uploaded and deleted in batches of thousands of rows,
+-- so they are audited once per statement with the affected batch ids and row count
+CREATE OR REPLACE FUNCTION public.audit_old_payments_batch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _summary jsonb;
+  _headers jsonb;
+BEGIN
+  IF _actor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_build_object('rows', count(*), 'batch_ids', jsonb_agg(DISTINCT batch_id))
+      INTO _summary FROM new_rows;
+  ELSE
+    SELECT jsonb_build_object('rows', count(*), 'batch_ids', jsonb_agg(DISTINCT batch_id))
+      INTO _summary FROM old_rows;
+  END IF;
+
+  IF (_summary->>'rows')::int = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  _headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+
+  INSERT INTO public.audit_events (
+    actor_type, actor_id, actor_name, action, entity_type, entity_id,
+    before, after, ip_address, user_agent
+  ) VALUES (
+    CASE WHEN has_role(_actor, 'super_admin'::app_role) THEN 'super_admin' ELSE 'user' END,
+    _actor,
+    (SELECT full_name FROM public.profiles WHERE id = _actor),
+    CASE TG_OP WHEN 'INSERT' THEN 'upload' ELSE 'delete' END,
+    'old_payments',
+    CASE WHEN jsonb_array_length(_summary->'batch_ids') = 1 THEN _summary->'batch_ids'->>0 END,
+    CASE WHEN TG_OP = 'DELETE' THEN _summary END,
+    CASE WHEN TG_OP = 'INSERT' THEN _summary END,
+    NULLIF(trim(split_part(COALESCE(_headers->>'x-forwarded-for', _headers->>'x-real-ip', ''), ',', 1)), ''),
+    _headers->>'user-agent'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_old_payments_insert
+  AFTER INSERT ON public.old_payments
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_old_payments_batch();
+
+CREATE TRIGGER audit_old_payments_delete
+  AFTER DELETE ON public.old_payments
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_old_payments_batch();
+
+CREATE TRIGGER audit_old_payments_update
+  AFTER UPDATE ON public.old_payments
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Row-level auditing for every table administrators edit directly
+DO $$
+DECLARE
+  _table text;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'admins', 'admin_roles', 'user_roles', 'divisions', 'panchayaths', 'clusters', 'members',
+    'programs', 'program_modules', 'program_form_questions', 'program_registrations',
+    'program_announcements', 'program_advertisements', 'cash_collections', 'pennyekart_agents',
+    'agent_wallet_transactions', 'payout_commission_rates'
+  ] LOOP
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+         FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      _table
+    );
+  END LOOP;
+END;
+$$;
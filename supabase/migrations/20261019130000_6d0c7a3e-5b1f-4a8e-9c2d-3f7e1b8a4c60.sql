@@ -0,0 +1,7 @@
+-- Super admin "view as admin" sessions: read-only admin sessions opened by a super admin.
+-- They have no refresh token and end when their access token expires or is signed out.
+ALTER TABLE public.admin_sessions
+  ADD COLUMN impersonated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_admin_sessions_impersonated_by ON public.admin_sessions(impersonated_by, created_at DESC)
+  WHERE impersonated_by IS NOT NULL;
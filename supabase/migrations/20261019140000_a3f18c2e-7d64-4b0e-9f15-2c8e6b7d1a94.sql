@@ -0,0 +1,165 @@
+-- Richer registration form questions: per-type settings, file uploads and server-side
+-- checks on submitted answers.
+ALTER TABLE public.program_form_questions
+  ADD COLUMN config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Private bucket for files attached to registrations, stored under programs/<program_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('registration-uploads', 'registration-uploads', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+-- Applicants can upload (but never list or read back) files for active programs
+CREATE POLICY "Anyone can upload registration files"
+  ON storage.objects FOR INSERT TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'registration-uploads'
+    AND (storage.foldername(name))[1] = 'programs'
+    AND EXISTS (
+      SELECT 1 FROM public.programs p
+      WHERE p.id::text = (storage.foldername(name))[2] AND p.is_active = true
+    )
+  );
+
+-- Super admin reads them directly; division admins get signed URLs from admin-registrations
+CREATE POLICY "Super admin can read registration files"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'registration-uploads' AND has_role(auth.uid(), 'super_admin'::app_role));
+
+-- Aadhaar numbers: 12 digits, not starting with 0 or 1, with a Verhoeff check digit
+CREATE OR REPLACE FUNCTION public.is_valid_aadhaar(value text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  d int[] := ARRAY[
+    [0,1,2,3,4,5,6,7,8,9], [1,2,3,4,0,6,7,8,9,5], [2,3,4,0,1,7,8,9,5,6], [3,4,0,1,2,8,9,5,6,7],
+    [4,0,1,2,3,9,5,6,7,8], [5,9,8,7,6,0,4,3,2,1], [6,5,9,8,7,1,0,4,3,2], [7,6,5,9,8,2,1,0,4,3],
+    [8,7,6,5,9,3,2,1,0,4], [9,8,7,6,5,4,3,2,1,0]
+  ];
+  p int[] := ARRAY[
+    [0,1,2,3,4,5,6,7,8,9], [1,5,7,6,2,8,3,0,9,4], [5,8,0,3,7,9,6,1,4,2], [8,9,1,6,0,4,3,5,2,7],
+    [9,4,5,3,1,2,7,6,8,0], [4,2,8,6,5,7,3,9,0,1], [2,7,9,3,8,0,6,4,1,5], [7,0,4,6,9,1,3,2,5,8]
+  ];
+  digits text := regexp_replace(coalesce(value, ''), '\s', '', 'g');
+  check_digit int := 0;
+  i int;
+BEGIN
+  IF digits !~ '^[2-9][0-9]{11}$' THEN
+    RETURN false;
+  END IF;
+
+  FOR i IN 0..11 LOOP
+    check_digit := d[check_digit + 1][p[(i % 8) + 1][substr(digits, 12 - i, 1)::int + 1] + 1];
+  END LOOP;
+
+  RETURN check_digit = 0;
+END;
+$$;
+
+-- Reject answers that do not match their question's type and settings. Empty answers pass;
+-- whether a question must be answered is decided by the registration form.
+CREATE OR REPLACE FUNCTION public.validate_registration_answers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q record;
+  answer jsonb;
+  cfg jsonb;
+  txt text;
+  problem text;
+  answer_date date;
+BEGIN
+  FOR q IN
+    SELECT id, question_text, question_type, config
+    FROM public.program_form_questions
+    WHERE program_id = NEW.program_id
+  LOOP
+    answer := NEW.answers -> q.id::text;
+    IF answer IS NULL OR answer = 'null'::jsonb OR answer = '""'::jsonb THEN
+      CONTINUE;
+    END IF;
+
+    cfg := coalesce(q.config, '{}'::jsonb);
+    txt := CASE WHEN jsonb_typeof(answer) IN ('string', 'number') THEN trim(answer #>> '{}') END;
+    problem := NULL;
+
+    CASE q.question_type
+      WHEN 'textarea' THEN
+        IF (cfg ->> 'max_length') IS NOT NULL AND length(txt) > (cfg ->> 'max_length')::int THEN
+          problem := format('must be at most %s characters', cfg ->> 'max_length');
+        END IF;
+
+      WHEN 'number' THEN
+        IF txt IS NULL OR txt !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+          problem := 'must be a number';
+        ELSIF (cfg ->> 'min') IS NOT NULL AND txt::numeric < (cfg ->> 'min')::numeric THEN
+          problem := format('must be at least %s', cfg ->> 'min');
+        ELSIF (cfg ->> 'max') IS NOT NULL AND txt::numeric > (cfg ->> 'max')::numeric THEN
+          problem := format('must be at most %s', cfg ->> 'max');
+        END IF;
+
+      WHEN 'date' THEN
+        BEGIN
+          IF txt !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$' THEN
+            RAISE invalid_datetime_format;
+          END IF;
+          answer_date := txt::date;
+          IF (cfg ->> 'min_date') IS NOT NULL AND answer_date < (cfg ->> 'min_date')::date THEN
+            problem := format('must be on or after %s', cfg ->> 'min_date');
+          ELSIF (cfg ->> 'max_date') IS NOT NULL AND answer_date > (cfg ->> 'max_date')::date THEN
+            problem := format('must be on or before %s', cfg ->> 'max_date');
+          END IF;
+        EXCEPTION WHEN invalid_datetime_format OR datetime_field_overflow THEN
+          problem := 'must be a valid date';
+        END;
+
+      WHEN 'email' THEN
+        IF txt IS NULL OR txt !~ '^[^@[:space:]]+@[^@[:space:]]+\.[^@[:space:]]+$' THEN
+          problem := 'must be a valid email address';
+        END IF;
+
+      WHEN 'aadhaar' THEN
+        IF NOT public.is_valid_aadhaar(txt) THEN
+          problem := 'must be a valid Aadhaar number';
+        END IF;
+
+      WHEN 'rating' THEN
+        IF txt IS NULL OR txt !~ '^[0-9]+$'
+          OR txt::int < 1 OR txt::int > coalesce((cfg ->> 'scale')::int, 5) THEN
+          problem := format('must be a rating from 1 to %s', coalesce(cfg ->> 'scale', '5'));
+        END IF;
+
+      WHEN 'yes_no' THEN
+        IF txt IS NULL OR txt NOT IN ('yes', 'no') THEN
+          problem := 'must be yes or no';
+        END IF;
+
+      WHEN 'file' THEN
+        IF jsonb_typeof(answer) <> 'object'
+          OR coalesce(answer ->> 'path', '') NOT LIKE 'programs/' || NEW.program_id::text || '/%' THEN
+          problem := 'must be a file uploaded for this program';
+        END IF;
+
+      ELSE
+        NULL;
+    END CASE;
+
+    IF problem IS NOT NULL THEN
+      RAISE EXCEPTION 'Invalid answer for "%": %', q.question_text, problem
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_program_registration_answers
+  BEFORE INSERT OR UPDATE OF answers ON public.program_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_registration_answers();
@@ -0,0 +1,6 @@
+-- Conditional registration forms. A question (or a "section" page break) with a visibility
+-- rule is only shown when the rule holds for earlier answers, e.g.
+-- {"match": "all", "conditions": [{"question_id": "...", "operator": "equals", "value": "Yes"}]}.
+-- Skip targets for single-choice questions live in config.skip_to.
+ALTER TABLE public.program_form_questions
+  ADD COLUMN visibility_rule jsonb;
@@ -0,0 +1,10 @@
+-- Registrations are submitted through the submit-registration edge function, which checks
+-- required answers, program dates and duplicates before inserting with the service role.
+ALTER TABLE public.programs
+  ADD COLUMN allow_duplicate_mobile boolean NOT NULL DEFAULT false;
+
+REVOKE INSERT ON public.program_registrations FROM anon, authenticated;
+
+-- Duplicate lookups by mobile number within a program
+CREATE INDEX IF NOT EXISTS program_registrations_program_mobile_idx
+  ON public.program_registrations (program_id, ((answers -> '_fixed' ->> 'mobile')));
@@ -0,0 +1,185 @@
+-- Seat limits for programs. Once a program (or an applicant's panchayath) is full, new
+-- registrations join a waitlist in arrival order; rejecting a registration frees its seat
+-- for the first waitlisted applicant that fits.
+ALTER TABLE public.programs
+  ADD COLUMN max_seats integer CHECK (max_seats IS NULL OR max_seats > 0),
+  ADD COLUMN max_seats_per_panchayath integer
+    CHECK (max_seats_per_panchayath IS NULL OR max_seats_per_panchayath > 0);
+
+ALTER TABLE public.program_registrations
+  ADD COLUMN status text NOT NULL DEFAULT 'registered',
+  ADD CONSTRAINT program_registrations_status_check
+    CHECK (status IN ('registered', 'waitlisted', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS program_registrations_program_status_idx
+  ON public.program_registrations (program_id, status, created_at);
+
+-- Whether a registration in this status takes up a seat
+CREATE OR REPLACE FUNCTION public.registration_holds_seat(_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status NOT IN ('waitlisted', 'rejected')
+$$;
+
+-- Seats still free in a program, and in the given panchayath when it has its own limit.
+-- NULL means there is no limit.
+CREATE OR REPLACE FUNCTION public.program_seats_left(_program_id uuid, _panchayath_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prog record;
+  program_left integer;
+  panchayath_left integer;
+BEGIN
+  SELECT max_seats, max_seats_per_panchayath INTO prog FROM public.programs WHERE id = _program_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF prog.max_seats IS NOT NULL THEN
+    SELECT greatest(prog.max_seats - count(*), 0)::int INTO program_left
+    FROM public.program_registrations
+    WHERE program_id = _program_id AND public.registration_holds_seat(status);
+  END IF;
+
+  IF prog.max_seats_per_panchayath IS NOT NULL AND _panchayath_id IS NOT NULL THEN
+    SELECT greatest(prog.max_seats_per_panchayath - count(*), 0)::int INTO panchayath_left
+    FROM public.program_registrations
+    WHERE program_id = _program_id
+      AND public.registration_holds_seat(status)
+      AND answers -> '_fixed' ->> 'panchayath_id' = _panchayath_id::text;
+  END IF;
+
+  IF program_left IS NULL THEN
+    RETURN panchayath_left;
+  ELSIF panchayath_left IS NULL THEN
+    RETURN program_left;
+  END IF;
+  RETURN least(program_left, panchayath_left);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.program_seats_left(uuid, uuid) TO anon, authenticated;
+
+-- New registrations are waitlisted when there is no seat for them. The advisory lock
+-- serialises seat counting per program so two last-seat submissions cannot both get in.
+CREATE OR REPLACE FUNCTION public.assign_registration_seat()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seats_left integer;
+BEGIN
+  IF NOT public.registration_holds_seat(NEW.status) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('program_seats:' || NEW.program_id::text));
+  seats_left := public.program_seats_left(
+    NEW.program_id,
+    nullif(NEW.answers -> '_fixed' ->> 'panchayath_id', '')::uuid
+  );
+  IF seats_left IS NOT NULL AND seats_left <= 0 THEN
+    NEW.status := 'waitlisted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_program_registration_seat
+  BEFORE INSERT ON public.program_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_registration_seat();
+
+-- Promote waitlisted registrations, oldest first, while seats are free. Applicants whose
+-- panchayath is still full are passed over for later ones. Returns how many were promoted.
+CREATE OR REPLACE FUNCTION public.fill_program_seats(_program_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  waiting record;
+  seats_left integer;
+  promoted integer := 0;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('program_seats:' || _program_id::text));
+
+  FOR waiting IN
+    SELECT id, nullif(answers -> '_fixed' ->> 'panchayath_id', '')::uuid AS panchayath_id
+    FROM public.program_registrations
+    WHERE program_id = _program_id AND status = 'waitlisted'
+    ORDER BY created_at, id
+  LOOP
+    IF public.program_seats_left(_program_id) = 0 THEN
+      EXIT;
+    END IF;
+
+    seats_left := public.program_seats_left(_program_id, waiting.panchayath_id);
+    IF seats_left IS NULL OR seats_left > 0 THEN
+      UPDATE public.program_registrations SET status = 'registered' WHERE id = waiting.id;
+      promoted := promoted + 1;
+    END IF;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fill_program_seats(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_registration_seat()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF public.registration_holds_seat(OLD.status) THEN
+      PERFORM public.fill_program_seats(OLD.program_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF public.registration_holds_seat(OLD.status) AND NOT public.registration_holds_seat(NEW.status) THEN
+    PERFORM public.fill_program_seats(NEW.program_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_program_registration_seat
+  AFTER UPDATE OF status OR DELETE ON public.program_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_registration_seat();
+
+-- Raising or removing a limit lets waitlisted applicants in straight away
+CREATE OR REPLACE FUNCTION public.refill_program_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.fill_program_seats(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refill_program_seats_on_limit_change
+  AFTER UPDATE OF max_seats, max_seats_per_panchayath ON public.programs
+  FOR EACH ROW
+  WHEN (OLD.max_seats IS DISTINCT FROM NEW.max_seats
+    OR OLD.max_seats_per_panchayath IS DISTINCT FROM NEW.max_seats_per_panchayath)
+  EXECUTE FUNCTION public.refill_program_seats();
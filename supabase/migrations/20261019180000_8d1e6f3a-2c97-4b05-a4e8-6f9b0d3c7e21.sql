@@ -0,0 +1,18 @@
+-- Applicants can correct their registration with the edit code shown after submitting,
+-- until the program's edit deadline (NULL turns editing off) or until verification starts.
+ALTER TABLE public.programs
+  ADD COLUMN applicant_edit_until timestamp with time zone;
+
+ALTER TABLE public.program_registrations
+  ADD COLUMN applicant_updated_at timestamp with time zone;
+
+-- Hashed edit codes, kept apart from program_registrations so admin listings never see them.
+-- Only the registration-status edge function (service role) reads or writes this table.
+CREATE TABLE public.registration_edit_codes (
+  registration_id uuid PRIMARY KEY REFERENCES public.program_registrations(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.registration_edit_codes ENABLE ROW LEVEL SECURITY;
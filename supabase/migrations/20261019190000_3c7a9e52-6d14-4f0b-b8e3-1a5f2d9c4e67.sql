@@ -0,0 +1,73 @@
+-- Ranks are worked out from verified scores instead of being typed in. Whenever a
+-- registration's percentage, verification or status changes, every rank in its program is
+-- recomputed: highest percentage first, equal percentages share a rank.
+
+-- Whether a registration competes for a rank
+CREATE OR REPLACE FUNCTION public.registration_is_ranked(_verification_status text, _status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _verification_status = 'verified' AND _status <> 'rejected'
+$$;
+
+CREATE OR REPLACE FUNCTION public.recompute_program_ranks(_program_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('program_ranks:' || _program_id::text));
+
+  UPDATE public.program_registrations r
+  SET rank = ranked.new_rank
+  FROM (
+    SELECT
+      pr.id,
+      CASE WHEN public.registration_is_ranked(pr.verification_status, pr.status) AND pr.percentage IS NOT NULL
+        THEN rank() OVER (
+          PARTITION BY public.registration_is_ranked(pr.verification_status, pr.status) AND pr.percentage IS NOT NULL
+          ORDER BY pr.percentage DESC
+        )::integer
+      END AS new_rank
+    FROM public.program_registrations pr
+    WHERE pr.program_id = _program_id
+  ) ranked
+  WHERE r.id = ranked.id AND r.rank IS DISTINCT FROM ranked.new_rank;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recompute_program_ranks(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Writing the rank column itself does not fire this, so recomputing cannot loop
+CREATE OR REPLACE FUNCTION public.rerank_program_registrations()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.rank IS NOT NULL THEN
+      PERFORM public.recompute_program_ranks(OLD.program_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.percentage IS DISTINCT FROM NEW.percentage
+    OR OLD.verification_status IS DISTINCT FROM NEW.verification_status
+    OR OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM public.recompute_program_ranks(NEW.program_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rerank_program_registrations
+  AFTER UPDATE OF percentage, verification_status, status OR DELETE ON public.program_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.rerank_program_registrations();
+
+-- Ranks typed in by hand before this change are replaced by computed ones
+SELECT public.recompute_program_ranks(id) FROM public.programs;
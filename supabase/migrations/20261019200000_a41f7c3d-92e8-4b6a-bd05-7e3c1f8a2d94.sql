@@ -0,0 +1,46 @@
+-- Several reviewers can score the same registration independently. The final score is the
+-- average or median of their marks once enough reviews are in; when reviewers disagree by
+-- more than the program's threshold the registration is flagged for a senior admin instead.
+ALTER TABLE public.programs
+  ADD COLUMN reviewers_required integer NOT NULL DEFAULT 1 CHECK (reviewers_required BETWEEN 1 AND 5),
+  ADD COLUMN score_aggregation text NOT NULL DEFAULT 'average' CHECK (score_aggregation IN ('average', 'median')),
+  ADD COLUMN review_conflict_threshold numeric NOT NULL DEFAULT 20
+    CHECK (review_conflict_threshold >= 0 AND review_conflict_threshold <= 100);
+
+ALTER TABLE public.program_registrations
+  ADD COLUMN review_conflict boolean NOT NULL DEFAULT false,
+  ADD COLUMN adjudicated_by uuid,
+  ADD COLUMN adjudicated_at timestamp with time zone,
+  ADD COLUMN adjudication_note text;
+
+-- One row per reviewer per registration. A row without submitted_at is an assignment that
+-- has not been scored yet. reviewer_id is the admin id (or super admin user id).
+CREATE TABLE public.registration_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  registration_id uuid NOT NULL REFERENCES public.program_registrations(id) ON DELETE CASCADE,
+  reviewer_id uuid NOT NULL,
+  reviewer_name text NOT NULL,
+  scores jsonb,
+  total_score numeric,
+  max_score numeric,
+  percentage numeric,
+  assigned_by uuid,
+  assigned_at timestamp with time zone,
+  submitted_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (registration_id, reviewer_id)
+);
+
+CREATE INDEX idx_registration_reviews_reviewer ON public.registration_reviews(reviewer_id);
+
+ALTER TABLE public.registration_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Division admins go through the admin-registrations edge function (service role)
+CREATE POLICY "Super admin can view registration reviews"
+  ON public.registration_reviews FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
+
+-- Settling disagreements is a separate capability, given to division managers by default
+UPDATE public.admin_roles
+SET capabilities = array_append(capabilities, 'registrations.adjudicate')
+WHERE name = 'Division Manager' AND NOT ('registrations.adjudicate' = ANY(capabilities));
@@ -0,0 +1,25 @@
+-- Acting on ranked registrations: shortlisting and selecting applicants, and recording why
+-- one was rejected or withdrawn so the applicant can see it in their status lookup.
+ALTER TABLE public.program_registrations
+  DROP CONSTRAINT program_registrations_status_check,
+  ADD CONSTRAINT program_registrations_status_check
+    CHECK (status IN ('registered', 'waitlisted', 'shortlisted', 'selected', 'rejected', 'withdrawn')),
+  ADD COLUMN status_reason text,
+  ADD COLUMN status_changed_at timestamp with time zone;
+
+-- Shortlisted and selected applicants keep their seat; withdrawing frees it for the waitlist
+CREATE OR REPLACE FUNCTION public.registration_holds_seat(_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status NOT IN ('waitlisted', 'rejected', 'withdrawn')
+$$;
+
+CREATE OR REPLACE FUNCTION public.registration_is_ranked(_verification_status text, _status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _verification_status = 'verified' AND _status NOT IN ('rejected', 'withdrawn')
+$$;
@@ -0,0 +1,23 @@
+-- Reusable program setups. A template is a snapshot of a program's settings, modules, form
+-- questions and announcements/advertisements; admin-programs creates new programs from a
+-- template or straight from an existing program.
+CREATE TABLE public.program_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  -- Division the template was saved from; templates can be used in any division
+  division_id uuid REFERENCES public.divisions(id) ON DELETE SET NULL,
+  source_program_id uuid REFERENCES public.programs(id) ON DELETE SET NULL,
+  content jsonb NOT NULL,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_program_templates_created_at ON public.program_templates(created_at DESC);
+
+ALTER TABLE public.program_templates ENABLE ROW LEVEL SECURITY;
+
+-- Division admins go through the admin-programs edge function (service role)
+CREATE POLICY "Super admin can view program templates"
+  ON public.program_templates FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
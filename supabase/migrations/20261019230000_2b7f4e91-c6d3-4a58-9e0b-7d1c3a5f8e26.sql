@@ -0,0 +1,103 @@
+-- Registration analytics for the program detail page, worked out in the database so the
+-- admin screen does not have to load every registration. Days are counted in Indian time.
+CREATE OR REPLACE FUNCTION public.program_registration_analytics(_program_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH regs AS (
+    SELECT
+      id,
+      created_at,
+      status,
+      verification_status,
+      review_conflict,
+      percentage,
+      answers,
+      coalesce(nullif(answers -> '_fixed' ->> 'panchayath_name', ''), 'Unknown') AS panchayath,
+      nullif(answers -> '_fixed' ->> 'ward', '') AS ward
+    FROM public.program_registrations
+    WHERE program_id = _program_id
+  ),
+  choice_answers AS (
+    SELECT q.id AS question_id, r.id AS registration_id, a.value
+    FROM public.program_form_questions q
+    CROSS JOIN regs r
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+      CASE jsonb_typeof(r.answers -> q.id::text)
+        WHEN 'array' THEN r.answers -> q.id::text
+        WHEN 'string' THEN jsonb_build_array(r.answers -> q.id::text)
+        WHEN 'boolean' THEN jsonb_build_array(r.answers -> q.id::text)
+        ELSE '[]'::jsonb
+      END
+    ) AS a(value)
+    WHERE q.program_id = _program_id
+      AND q.question_type IN ('select', 'radio', 'checkbox', 'yes_no')
+      AND a.value <> ''
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM regs),
+    'by_day', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('date', day, 'count', n) ORDER BY day)
+      FROM (
+        SELECT (created_at AT TIME ZONE 'Asia/Kolkata')::date AS day, count(*) AS n
+        FROM regs GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'by_status', coalesce((
+      SELECT jsonb_object_agg(status, n) FROM (SELECT status, count(*) AS n FROM regs GROUP BY status) t
+    ), '{}'::jsonb),
+    'by_panchayath', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('panchayath', panchayath, 'count', n, 'wards', wards) ORDER BY n DESC, panchayath)
+      FROM (
+        SELECT
+          panchayath,
+          sum(n)::int AS n,
+          jsonb_agg(jsonb_build_object('ward', ward, 'count', n) ORDER BY ward_number NULLS LAST, ward) AS wards
+        FROM (
+          SELECT
+            panchayath,
+            ward,
+            CASE WHEN ward ~ '^\d+$' THEN ward::int END AS ward_number,
+            count(*) AS n
+          FROM regs GROUP BY panchayath, ward
+        ) w
+        GROUP BY panchayath
+      ) t
+    ), '[]'::jsonb),
+    'verification', jsonb_build_object(
+      'verified', (SELECT count(*) FROM regs WHERE verification_status = 'verified'),
+      'pending', (SELECT count(*) FROM regs WHERE verification_status <> 'verified' AND NOT review_conflict),
+      'conflict', (SELECT count(*) FROM regs WHERE verification_status <> 'verified' AND review_conflict)
+    ),
+    -- Ten 10-point bands of verified percentages; 100% falls in the top band
+    'score_histogram', (
+      SELECT jsonb_agg(jsonb_build_object('from', b * 10, 'to', b * 10 + 10, 'count', coalesce(n, 0)) ORDER BY b)
+      FROM generate_series(0, 9) AS b
+      LEFT JOIN (
+        SELECT least(floor(percentage / 10)::int, 9) AS band, count(*) AS n
+        FROM regs
+        WHERE verification_status = 'verified' AND percentage IS NOT NULL
+        GROUP BY 1
+      ) h ON h.band = b
+    ),
+    'answers', coalesce((
+      SELECT jsonb_object_agg(question_id, jsonb_build_object('responses', responses, 'counts', counts))
+      FROM (
+        SELECT
+          question_id,
+          count(DISTINCT registration_id) AS responses,
+          (SELECT jsonb_object_agg(value, n) FROM (
+            SELECT c2.value, count(*) AS n FROM choice_answers c2
+            WHERE c2.question_id = c.question_id GROUP BY c2.value
+          ) v) AS counts
+        FROM choice_answers c
+        GROUP BY question_id
+      ) t
+    ), '{}'::jsonb)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.program_registration_analytics(uuid) FROM PUBLIC, anon, authenticated;
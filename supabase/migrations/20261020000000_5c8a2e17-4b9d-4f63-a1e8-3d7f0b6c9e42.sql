@@ -0,0 +1,13 @@
+-- Scheduled publishing for program announcements and advertisements. A published item is
+-- only shown between publish_at and unpublish_at; either bound may be left open.
+ALTER TABLE public.program_announcements
+  ADD COLUMN publish_at timestamptz,
+  ADD COLUMN unpublish_at timestamptz,
+  ADD CONSTRAINT program_announcements_publish_window_check
+    CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE public.program_advertisements
+  ADD COLUMN publish_at timestamptz,
+  ADD COLUMN unpublish_at timestamptz,
+  ADD CONSTRAINT program_advertisements_publish_window_check
+    CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
@@ -0,0 +1,38 @@
+-- Media library for program posters and videos. Files live in a public bucket under
+-- media/<division_id or shared>/ and are uploaded through signed URLs issued by the
+-- admin-media edge function; media_assets keeps one row per file with its thumbnail.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'program-media',
+  'program-media',
+  true,
+  52428800,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'video/mp4', 'video/webm']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.media_assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Division that uploaded the file; null for super admin uploads. Any division can reuse it.
+  division_id uuid REFERENCES public.divisions(id) ON DELETE SET NULL,
+  file_name text NOT NULL,
+  path text NOT NULL UNIQUE,
+  thumbnail_path text,
+  url text NOT NULL,
+  thumbnail_url text,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  width integer,
+  height integer,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_media_assets_created_at ON public.media_assets(created_at DESC);
+
+ALTER TABLE public.media_assets ENABLE ROW LEVEL SECURITY;
+
+-- Division admins go through the admin-media edge function (service role)
+CREATE POLICY "Super admin can view media assets"
+  ON public.media_assets FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
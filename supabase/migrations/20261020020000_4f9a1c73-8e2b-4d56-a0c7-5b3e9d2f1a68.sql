@@ -0,0 +1,42 @@
+-- Attendance for programs held as physical events. A program with the attendance module has
+-- one or more sessions (days or sittings); admins check registrations in at each session by
+-- scanning the QR code on their acknowledgement or admit card, through the admin-attendance
+-- edge function.
+CREATE TABLE public.program_attendance_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  starts_at timestamp with time zone,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_program_attendance_sessions_program ON public.program_attendance_sessions(program_id, sort_order);
+
+CREATE TABLE public.program_attendance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL REFERENCES public.program_attendance_sessions(id) ON DELETE CASCADE,
+  registration_id uuid NOT NULL REFERENCES public.program_registrations(id) ON DELETE CASCADE,
+  checked_in_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Admin id for division admins, auth user id for super admins (see principalId())
+  checked_in_by uuid,
+  -- Whether the code was scanned or typed in
+  method text NOT NULL DEFAULT 'scan' CHECK (method IN ('scan', 'manual')),
+  UNIQUE (session_id, registration_id)
+);
+
+CREATE INDEX idx_program_attendance_program ON public.program_attendance(program_id);
+CREATE INDEX idx_program_attendance_registration ON public.program_attendance(registration_id);
+
+ALTER TABLE public.program_attendance_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.program_attendance ENABLE ROW LEVEL SECURITY;
+
+-- Division admins go through the admin-attendance edge function (service role)
+CREATE POLICY "Super admin can view attendance sessions"
+  ON public.program_attendance_sessions FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Super admin can view attendance"
+  ON public.program_attendance FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'super_admin'::app_role));
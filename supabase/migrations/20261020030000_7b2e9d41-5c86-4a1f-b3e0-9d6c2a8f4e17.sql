@@ -0,0 +1,22 @@
+-- Count a failed admin sign-in against a throttle key in one statement, so concurrent
+-- failures cannot overwrite each other. A count whose last failure is older than the
+-- window starts again from one. Returns the new failure count.
+CREATE OR REPLACE FUNCTION public.record_admin_login_failure(_key text, _kind text, _window_seconds integer)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.admin_login_throttles AS t (key, kind, failure_count, last_failure_at)
+  VALUES (_key, _kind, 1, now())
+  ON CONFLICT (key) DO UPDATE
+    SET failure_count = CASE
+          WHEN t.last_failure_at IS NULL OR t.last_failure_at < now() - make_interval(secs => _window_seconds) THEN 1
+          ELSE t.failure_count + 1
+        END,
+        last_failure_at = now()
+  RETURNING failure_count;
+$$;
+
+-- Only the admin-auth function (service role) records failures
+REVOKE EXECUTE ON FUNCTION public.record_admin_login_failure(text, text, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,38 @@
+-- Duplicate mobile numbers are rejected inside the insert, under the same per-program
+-- advisory lock as seat assignment, so two submissions racing with one number cannot
+-- both get in. The edge function turns the unique_violation into a field error.
+CREATE OR REPLACE FUNCTION public.reject_duplicate_registration_mobile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  mobile text := nullif(NEW.answers -> '_fixed' ->> 'mobile', '');
+BEGIN
+  IF mobile IS NULL OR EXISTS (
+    SELECT 1 FROM public.programs WHERE id = NEW.program_id AND allow_duplicate_mobile
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('program_seats:' || NEW.program_id::text));
+  IF EXISTS (
+    SELECT 1
+    FROM public.program_registrations
+    WHERE program_id = NEW.program_id
+      AND answers -> '_fixed' ->> 'mobile' = mobile
+  ) THEN
+    RAISE EXCEPTION 'This mobile number is already registered for this program'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before assign_program_registration_seat, so a duplicate never counts seats
+CREATE TRIGGER a_reject_duplicate_registration_mobile
+  BEFORE INSERT ON public.program_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_duplicate_registration_mobile();
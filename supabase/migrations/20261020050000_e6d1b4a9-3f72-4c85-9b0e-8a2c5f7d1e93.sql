@@ -0,0 +1,58 @@
+-- Ranks were recomputed once per changed row, so a bulk status change of N registrations
+-- did N full recomputes of the program. The triggers now run once per statement and
+-- recompute each affected program once. Transition tables cannot be combined with
+-- column lists or several events, hence one trigger per event.
+DROP TRIGGER IF EXISTS rerank_program_registrations ON public.program_registrations;
+DROP FUNCTION IF EXISTS public.rerank_program_registrations();
+
+-- Writing the rank column itself changes none of the compared columns, so recomputing cannot loop
+CREATE OR REPLACE FUNCTION public.rerank_updated_program_registrations()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recompute_program_ranks(changed.program_id)
+  FROM (
+    SELECT DISTINCT n.program_id
+    FROM new_rows n
+    JOIN old_rows o ON o.id = n.id
+    WHERE o.percentage IS DISTINCT FROM n.percentage
+      OR o.verification_status IS DISTINCT FROM n.verification_status
+      OR o.status IS DISTINCT FROM n.status
+    ORDER BY n.program_id
+  ) changed;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rerank_deleted_program_registrations()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recompute_program_ranks(removed.program_id)
+  FROM (
+    SELECT DISTINCT program_id
+    FROM old_rows
+    WHERE rank IS NOT NULL
+    ORDER BY program_id
+  ) removed;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rerank_updated_program_registrations
+  AFTER UPDATE ON public.program_registrations
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.rerank_updated_program_registrations();
+
+CREATE TRIGGER rerank_deleted_program_registrations
+  AFTER DELETE ON public.program_registrations
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.rerank_deleted_program_registrations();
@@ -0,0 +1,10 @@
+-- payouts.transfer is no longer a capability: payouts stay with super admins, whose
+-- wallet and commission writes are only allowed by RLS. Drop any grants of it.
+UPDATE public.admin_roles
+SET capabilities = array_remove(capabilities, 'payouts.transfer')
+WHERE 'payouts.transfer' = ANY(capabilities);
+
+UPDATE public.admins
+SET granted_capabilities = array_remove(granted_capabilities, 'payouts.transfer'),
+    revoked_capabilities = array_remove(revoked_capabilities, 'payouts.transfer')
+WHERE 'payouts.transfer' = ANY(granted_capabilities) OR 'payouts.transfer' = ANY(revoked_capabilities);
@@ -0,0 +1,18 @@
+-- Announcements and advertisements are now written only through the admin-program-content
+-- edge function, which checks capabilities (read-only and impersonation sessions have none)
+-- and audits each change. Drop every write policy so the API only allows reading them.
+DO $$
+DECLARE
+  _policy record;
+BEGIN
+  FOR _policy IN
+    SELECT tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('program_announcements', 'program_advertisements')
+      AND cmd <> 'SELECT'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', _policy.policyname, _policy.tablename);
+  END LOOP;
+END;
+$$;
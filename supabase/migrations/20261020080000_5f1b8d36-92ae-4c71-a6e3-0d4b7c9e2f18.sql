@@ -0,0 +1,76 @@
+-- audit_row_change() skipped every write without a signed-in user, which also dropped
+-- changes made through the API with only the anon key (division admins sign in with their
+-- own token, not a Supabase user). Only edge functions, which run with the service role and
+-- record their own events, are skipped now; anon writes are kept with an anonymous actor and
+-- direct database changes with the system actor.
+ALTER TABLE public.audit_events DROP CONSTRAINT audit_events_actor_type_check;
+ALTER TABLE public.audit_events
+  ADD CONSTRAINT audit_events_actor_type_check
+    CHECK (actor_type IN ('admin', 'super_admin', 'user', 'anonymous', 'system'));
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _role text := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb->>'role';
+  _before jsonb;
+  _after jsonb;
+  _row jsonb;
+  _division uuid;
+  _headers jsonb;
+BEGIN
+  IF _role = 'service_role' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    _before := to_jsonb(OLD) - 'password_hash';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _after := to_jsonb(NEW) - 'password_hash';
+  END IF;
+  IF TG_OP = 'UPDATE' AND _before = _after THEN
+    RETURN NULL;
+  END IF;
+
+  _row := COALESCE(_after, _before);
+  IF TG_TABLE_NAME = 'divisions' THEN
+    _division := (_row->>'id')::uuid;
+  ELSIF _row ? 'division_id' THEN
+    _division := NULLIF(_row->>'division_id', '')::uuid;
+  ELSIF _row ? 'program_id' THEN
+    SELECT division_id INTO _division FROM public.programs WHERE id = (_row->>'program_id')::uuid;
+  END IF;
+
+  _headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+
+  INSERT INTO public.audit_events (
+    actor_type, actor_id, actor_name, action, entity_type, entity_id, division_id,
+    before, after, ip_address, user_agent
+  ) VALUES (
+    CASE
+      WHEN _actor IS NULL AND _role IS NULL THEN 'system'
+      WHEN _actor IS NULL THEN 'anonymous'
+      WHEN has_role(_actor, 'super_admin'::app_role) THEN 'super_admin'
+      ELSE 'user'
+    END,
+    _actor,
+    (SELECT full_name FROM public.profiles WHERE id = _actor),
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    TG_TABLE_NAME,
+    _row->>'id',
+    _division,
+    _before,
+    _after,
+    -- The last x-forwarded-for entry is the one the platform proxy appended
+    NULLIF(trim(regexp_replace(COALESCE(_headers->>'x-forwarded-for', _headers->>'x-real-ip', ''), '^.*,', '')), ''),
+    _headers->>'user-agent'
+  );
+
+  RETURN NULL;
+END;
+$$;